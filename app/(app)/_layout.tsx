@@ -1,10 +1,14 @@
 // app/(app)/_layout.tsx
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Drawer } from "expo-router/drawer";
-import { View, Text, Pressable } from "react-native";
+import { View, Text, Pressable, Alert } from "react-native";
 import { usePathname, router } from "expo-router";
 import type { Href } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
+import * as Notifications from "expo-notifications";
+import { useAuth } from "../../src/context/AuthContext";
+import { useOutbox } from "../../src/context/OutboxContext";
+import { ROLE_LABELS, type Permission } from "../../src/utils/roles";
 
 const COLORS = {
   bg: "#0F172A",
@@ -22,36 +26,150 @@ type NavItem = {
   href: Href;
   route: string;
   icon: keyof typeof Ionicons.glyphMap;
+  permission?: Permission;
 };
 
 const ITEMS: NavItem[] = [
   { label: "Dashboard", href: "/(app)/dashboard", route: "/dashboard", icon: "grid-outline" },
   { label: "Scan QR", href: "/(app)/scan", route: "/scan", icon: "qr-code-outline" },
   { label: "Logs", href: "/(app)/logs", route: "/logs", icon: "time-outline" },
-  { label: "Reports", href: "/(app)/reports", route: "/reports", icon: "document-text-outline" },
-  { label: "Branches", href: "/(app)/branches", route: "/branches", icon: "business-outline" },
-  { label: "Chillers", href: "/(app)/chillers", route: "/chillers", icon: "snow-outline" },
-  { label: "QR", href: "/(app)/qr", route: "/qr", icon: "barcode-outline" },
+  { label: "Actions", href: "/(app)/actions", route: "/actions", icon: "construct-outline" },
+  { label: "Reports", href: "/(app)/reports", route: "/reports", icon: "document-text-outline", permission: "reports.view" },
+  { label: "Branches", href: "/(app)/branches", route: "/branches", icon: "business-outline", permission: "branches.manage" },
+  { label: "Chillers", href: "/(app)/chillers", route: "/chillers", icon: "snow-outline", permission: "chillers.manage" },
+  { label: "QR", href: "/(app)/qr", route: "/qr", icon: "barcode-outline", permission: "qr.view" },
+  { label: "Staff", href: "/(app)/staff", route: "/staff", icon: "people-outline", permission: "staff.manage" },
   { label: "Settings", href: "/(app)/settings", route: "/settings", icon: "settings-outline" },
 ];
 
+// Route prefix -> permission. Covers the hidden detail routes too (branches/[id], qr/[id], ...).
+const GUARDS: Array<{ route: string; permission: Permission }> = [
+  { route: "/branches", permission: "branches.manage" },
+  { route: "/chillers", permission: "chillers.manage" },
+  { route: "/qr", permission: "qr.view" },
+  { route: "/reports", permission: "reports.view" },
+  { route: "/staff", permission: "staff.manage" },
+];
+
+function matchesRoute(pathname: string, route: string) {
+  return pathname === route || pathname.startsWith(`${route}/`) || pathname.includes(`/(app)${route}`);
+}
+
+function RouteGuard() {
+  const pathname = usePathname() || "";
+  const { org, can } = useAuth();
+
+  useEffect(() => {
+    if (!org) return;
+
+    const guard = GUARDS.find((g) => matchesRoute(pathname, g.route));
+    if (guard && !can(guard.permission)) {
+      Alert.alert("Access denied", "Your role does not have access to this section.");
+      router.replace("/(app)/dashboard");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pathname, org]);
+
+  return null;
+}
+
+// Tapping a re-check reminder opens the reading form prefilled with the chiller.
+function NotificationRouter() {
+  const response = Notifications.useLastNotificationResponse();
+  const handled = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!response) return;
+    const key = response.notification.request.identifier;
+    if (handled.current === key) return;
+    handled.current = key;
+    Notifications.clearLastNotificationResponse();
+
+    const data = (response.notification.request.content.data ?? {}) as any;
+    if (data.type === "recheck" && data.chillerId) {
+      router.push(
+        `/(app)/logs/add?chillerId=${encodeURIComponent(data.chillerId)}&recheckFor=${encodeURIComponent(data.recheckFor || "")}`
+      );
+    }
+  }, [response]);
+
+  return null;
+}
+
 function CustomDrawerContent() {
   const pathname = usePathname() || "";
+  const { pendingCount, online } = useOutbox();
+  const { profile, org, orgs, switchOrg, can } = useAuth();
+  const [orgListOpen, setOrgListOpen] = useState(false);
+
+  const isActive = (route: string) => matchesRoute(pathname, route);
 
-  const isActive = (route: string) =>
-    pathname === route ||
-    pathname.startsWith(`${route}/`) ||
-    pathname.includes(`/(app)${route}`);
+  const onSwitchOrg = async (id: string) => {
+    setOrgListOpen(false);
+    if (id === org?.id) return;
+    try {
+      await switchOrg(id);
+      router.replace("/(app)/dashboard");
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to switch organization");
+    }
+  };
+
+  const items = ITEMS.filter((it) => !it.permission || can(it.permission));
 
   return (
     <View style={{ flex: 1, backgroundColor: COLORS.bg, paddingTop: 54 }}>
       <View style={{ paddingHorizontal: 18, gap: 6 }}>
         <Text style={{ color: COLORS.text, fontSize: 16, fontWeight: "800" }}>Temp Monitor</Text>
-        <Text style={{ color: COLORS.muted, fontSize: 12 }}>Chiller temperature logging</Text>
+        <Text style={{ color: COLORS.muted, fontSize: 12 }}>
+          {profile && org ? `${profile.name} • ${ROLE_LABELS[org.role]}` : "Chiller temperature logging"}
+        </Text>
+
+        {org ? (
+          <Pressable
+            onPress={() => setOrgListOpen((v) => !v)}
+            disabled={orgs.length < 2}
+            style={({ pressed }) => ({
+              flexDirection: "row",
+              alignItems: "center",
+              gap: 6,
+              marginTop: 4,
+              opacity: pressed ? 0.85 : 1,
+            })}
+          >
+            <Ionicons name="business-outline" size={14} color={COLORS.muted} />
+            <Text style={{ color: COLORS.text, fontSize: 12.5, fontWeight: "700", flexShrink: 1 }} numberOfLines={1}>
+              {org.name || "Organization"}
+            </Text>
+            {orgs.length > 1 ? (
+              <Ionicons name={orgListOpen ? "chevron-up" : "chevron-down"} size={14} color={COLORS.muted} />
+            ) : null}
+          </Pressable>
+        ) : null}
+
+        {orgListOpen &&
+          orgs.map((o) => (
+            <Pressable
+              key={o.id}
+              onPress={() => onSwitchOrg(o.id)}
+              style={({ pressed }) => ({
+                paddingVertical: 8,
+                paddingHorizontal: 10,
+                borderRadius: 12,
+                backgroundColor: o.id === org?.id ? COLORS.activeBg : "transparent",
+                opacity: pressed ? 0.85 : 1,
+              })}
+            >
+              <Text style={{ color: COLORS.text, fontSize: 12.5, fontWeight: "700" }} numberOfLines={1}>
+                {o.name || "Unnamed"}
+              </Text>
+              <Text style={{ color: COLORS.muted, fontSize: 11 }}>{ROLE_LABELS[o.role]}</Text>
+            </Pressable>
+          ))}
       </View>
 
       <View style={{ marginTop: 14, paddingHorizontal: 12 }}>
-        {ITEMS.map((it) => {
+        {items.map((it) => {
           const active = isActive(it.route);
           const iconColor = active ? COLORS.activeIcon : COLORS.muted;
 
@@ -84,6 +202,16 @@ function CustomDrawerContent() {
 
       <View style={{ flex: 1 }} />
 
+      {(pendingCount > 0 || !online) && (
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 8, paddingHorizontal: 18, paddingBottom: 10 }}>
+          <Ionicons name="cloud-upload-outline" size={16} color="#F59E0B" />
+          <Text style={{ color: "#F59E0B", fontSize: 12, fontWeight: "800" }}>
+            {!online ? "Offline" : "Syncing"}
+            {pendingCount > 0 ? ` • ${pendingCount} pending sync` : ""}
+          </Text>
+        </View>
+      )}
+
       <Text style={{ color: COLORS.muted, fontSize: 12, paddingHorizontal: 18, paddingBottom: 18 }}>
         v1.0
       </Text>
@@ -93,33 +221,43 @@ function CustomDrawerContent() {
 
 export default function AppLayout() {
   return (
-    <Drawer
-      screenOptions={{
-        headerShown: true,
-        headerStyle: { backgroundColor: COLORS.bg },
-        headerTintColor: COLORS.text,
-        drawerStyle: { backgroundColor: COLORS.bg, width: 310 },
-      }}
-      drawerContent={() => <CustomDrawerContent />}
-    >
-      {/* Visible routes */}
-      <Drawer.Screen name="dashboard" options={{ title: "Dashboard" }} />
-      <Drawer.Screen name="scan/index" options={{ title: "Scan QR" }} />
-      <Drawer.Screen name="logs/index" options={{ title: "Logs" }} />
-      <Drawer.Screen name="reports/index" options={{ title: "Reports" }} />
-      <Drawer.Screen name="branches/index" options={{ title: "Branches" }} />
-      <Drawer.Screen name="chillers/index" options={{ title: "Chillers" }} />
-      <Drawer.Screen name="qr/index" options={{ title: "QR" }} />
-      <Drawer.Screen name="settings/index" options={{ title: "Settings" }} />
-
-      {/* Hidden routes */}
-      <Drawer.Screen name="logs/add" options={{ drawerItemStyle: { display: "none" }, title: "Add Reading" }} />
-      <Drawer.Screen name="logs/photo" options={{ drawerItemStyle: { display: "none" }, title: "Photo" }} />
-      <Drawer.Screen name="logs/chiller/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Chiller Logs" }} />
-      <Drawer.Screen name="branches/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Branch" }} />
-      <Drawer.Screen name="chillers/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Chiller" }} />
-      <Drawer.Screen name="qr/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Chiller QR" }} />
-      <Drawer.Screen name="chillers/(id)/qr" options={{ drawerItemStyle: { display: "none" }, title: "Chiller QR" }} />
-    </Drawer>
+    <>
+      <RouteGuard />
+      <NotificationRouter />
+      <Drawer
+        screenOptions={{
+          headerShown: true,
+          headerStyle: { backgroundColor: COLORS.bg },
+          headerTintColor: COLORS.text,
+          drawerStyle: { backgroundColor: COLORS.bg, width: 310 },
+        }}
+        drawerContent={() => <CustomDrawerContent />}
+      >
+        {/* Visible routes */}
+        <Drawer.Screen name="dashboard" options={{ title: "Dashboard" }} />
+        <Drawer.Screen name="scan/index" options={{ title: "Scan QR" }} />
+        <Drawer.Screen name="logs/index" options={{ title: "Logs" }} />
+        <Drawer.Screen name="actions/index" options={{ title: "Corrective Actions" }} />
+        <Drawer.Screen name="reports/index" options={{ title: "Reports" }} />
+        <Drawer.Screen name="branches/index" options={{ title: "Branches" }} />
+        <Drawer.Screen name="chillers/index" options={{ title: "Chillers" }} />
+        <Drawer.Screen name="qr/index" options={{ title: "QR" }} />
+        <Drawer.Screen name="staff/index" options={{ title: "Staff" }} />
+        <Drawer.Screen name="settings/index" options={{ title: "Settings" }} />
+
+        {/* Hidden routes */}
+        <Drawer.Screen name="logs/add" options={{ drawerItemStyle: { display: "none" }, title: "Add Reading" }} />
+        <Drawer.Screen name="logs/photo" options={{ drawerItemStyle: { display: "none" }, title: "Photo" }} />
+        <Drawer.Screen name="logs/chiller/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Chiller Logs" }} />
+        <Drawer.Screen name="actions/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Corrective Action" }} />
+        <Drawer.Screen name="reports/subscriptions" options={{ drawerItemStyle: { display: "none" }, title: "Scheduled Reports" }} />
+        <Drawer.Screen name="reports/verify" options={{ drawerItemStyle: { display: "none" }, title: "Verify Report" }} />
+        <Drawer.Screen name="branches/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Branch" }} />
+        <Drawer.Screen name="chillers/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Chiller" }} />
+        <Drawer.Screen name="qr/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Chiller QR" }} />
+        <Drawer.Screen name="staff/[id]" options={{ drawerItemStyle: { display: "none" }, title: "Staff Member" }} />
+        <Drawer.Screen name="chillers/(id)/qr" options={{ drawerItemStyle: { display: "none" }, title: "Chiller QR" }} />
+      </Drawer>
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,365 @@
+// app/(app)/actions/[id].tsx
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  TextInput,
+  Platform,
+} from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { doc, onSnapshot } from "firebase/firestore";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { useAuth } from "../../../src/context/AuthContext";
+import { closeCorrectiveAction } from "../../../src/firebase/functionsClient";
+
+type Status = "ok" | "warning" | "damaged";
+
+type CorrectiveAction = {
+  id: string;
+  orgId: string;
+  branchId: string;
+  chillerId: string;
+  chillerName: string;
+  logStatus?: Status;
+  logTempC?: number | null;
+  logNote?: string;
+  logCapturedAt?: any;
+  status: "open" | "closed";
+  openedAt?: any;
+  action: string;
+  productDiscarded: boolean | null;
+  quantity: string;
+  recheckLogId?: string | null;
+  recheckTempC?: number | null;
+  recheckStatus?: Status | null;
+  recheckAt?: any;
+  closedByName?: string;
+  closedAt?: any;
+};
+
+const COLORS = {
+  bg: "#0F172A",
+  card: "#111827",
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  warn: "#FBBF24",
+  bad: "#F43F5E",
+};
+
+function formatWhen(ts: any) {
+  try {
+    const d = ts?.toDate?.() ? ts.toDate() : null;
+    return d ? d.toLocaleString() : "";
+  } catch {
+    return "";
+  }
+}
+
+function statusColor(s?: Status | null) {
+  if (s === "ok") return COLORS.good;
+  if (s === "warning") return COLORS.warn;
+  if (s === "damaged") return COLORS.bad;
+  return COLORS.muted2;
+}
+
+function Row({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <View style={{ flexDirection: "row", justifyContent: "space-between", gap: 12 }}>
+      <Text style={{ color: COLORS.muted, fontSize: 12.5, fontWeight: "700" }}>{label}</Text>
+      <Text style={{ color: color || COLORS.text, fontSize: 12.5, fontWeight: "900", flexShrink: 1, textAlign: "right" }}>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+export default function CorrectiveActionScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const actionId = String(id || "");
+
+  const { user, loading, canAccessBranch } = useAuth();
+
+  const [docLoading, setDocLoading] = useState(true);
+  const [item, setItem] = useState<CorrectiveAction | null>(null);
+
+  const [action, setAction] = useState("");
+  const [productDiscarded, setProductDiscarded] = useState<boolean | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) router.replace("/(auth)/login");
+  }, [loading, user]);
+
+  useEffect(() => {
+    if (!user || !actionId) return;
+
+    const unsub = onSnapshot(
+      doc(db, "correctiveActions", actionId),
+      (snap) => {
+        if (!snap.exists()) {
+          setItem(null);
+          setDocLoading(false);
+          return;
+        }
+        const v = snap.data() as any;
+        setItem({
+          id: snap.id,
+          orgId: v.orgId ?? "",
+          branchId: v.branchId ?? "",
+          chillerId: v.chillerId ?? "",
+          chillerName: v.chillerName ?? "",
+          logStatus: v.logStatus,
+          logTempC: v.logTempC ?? null,
+          logNote: v.logNote ?? "",
+          logCapturedAt: v.logCapturedAt,
+          status: v.status === "closed" ? "closed" : "open",
+          openedAt: v.openedAt,
+          action: v.action ?? "",
+          productDiscarded: typeof v.productDiscarded === "boolean" ? v.productDiscarded : null,
+          quantity: v.quantity ?? "",
+          recheckLogId: v.recheckLogId ?? null,
+          recheckTempC: v.recheckTempC ?? null,
+          recheckStatus: v.recheckStatus ?? null,
+          recheckAt: v.recheckAt,
+          closedByName: v.closedByName ?? "",
+          closedAt: v.closedAt,
+        });
+        setDocLoading(false);
+      },
+      (err) => {
+        setDocLoading(false);
+        Alert.alert("Error", err.message || "Failed to load corrective action");
+      }
+    );
+
+    return () => unsub();
+  }, [user, actionId]);
+
+  const onClose = async () => {
+    if (!item) return;
+
+    if (action.trim().length < 3) {
+      Alert.alert("Missing", "Describe the action taken.");
+      return;
+    }
+    if (productDiscarded === null) {
+      Alert.alert("Missing", "Was any product discarded?");
+      return;
+    }
+    if (productDiscarded && !quantity.trim()) {
+      Alert.alert("Missing", "Enter the quantity discarded.");
+      return;
+    }
+    if (!item.recheckLogId) {
+      const proceed = await new Promise<boolean>((resolve) =>
+        Alert.alert("No re-check reading", "Close this action without a re-check reading?", [
+          { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+          { text: "Close anyway", style: "destructive", onPress: () => resolve(true) },
+        ])
+      );
+      if (!proceed) return;
+    }
+
+    try {
+      setSaving(true);
+      await closeCorrectiveAction({
+        logId: item.id,
+        action: action.trim(),
+        productDiscarded,
+        quantity: productDiscarded ? quantity.trim() : "",
+      });
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to close action");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || docLoading) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!user) return null;
+
+  if (!item || !canAccessBranch(item.branchId)) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg, padding: 16 }}>
+        <Text style={{ color: COLORS.text, fontWeight: "900" }}>Corrective action not found</Text>
+      </View>
+    );
+  }
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingVertical: Platform.OS === "ios" ? 10 : 9,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    color: COLORS.text,
+    backgroundColor: "#0B1220",
+    fontSize: 13.5,
+    fontWeight: "700" as const,
+  };
+
+  const card = {
+    padding: 14,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+    gap: 8,
+  };
+
+  const open = item.status === "open";
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: COLORS.bg }} contentContainerStyle={{ padding: 16, gap: 12 }}>
+      <View style={{ gap: 4 }}>
+        <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>{item.chillerName || "Chiller"}</Text>
+        <Text style={{ color: open ? COLORS.warn : COLORS.good, fontSize: 12, fontWeight: "900" }}>
+          {open ? "OPEN" : "CLOSED"}
+        </Text>
+      </View>
+
+      <View style={card}>
+        <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Original reading</Text>
+        <Row label="Temperature" value={item.logTempC == null ? "—" : `${item.logTempC}°C`} />
+        <Row label="Status" value={String(item.logStatus || "—").toUpperCase()} color={statusColor(item.logStatus)} />
+        <Row label="Taken" value={formatWhen(item.logCapturedAt) || "—"} />
+        {!!item.logNote && <Row label="Note" value={item.logNote} />}
+      </View>
+
+      <View style={card}>
+        <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Re-check reading</Text>
+        {item.recheckLogId ? (
+          <>
+            <Row label="Temperature" value={item.recheckTempC == null ? "—" : `${item.recheckTempC}°C`} />
+            <Row
+              label="Status"
+              value={String(item.recheckStatus || "—").toUpperCase()}
+              color={statusColor(item.recheckStatus)}
+            />
+            <Row label="Taken" value={formatWhen(item.recheckAt) || "—"} />
+          </>
+        ) : (
+          <Text style={{ color: COLORS.muted, fontSize: 12 }}>No re-check recorded yet.</Text>
+        )}
+
+        {open && (
+          <Pressable
+            onPress={() =>
+              router.push(
+                `/(app)/logs/add?chillerId=${encodeURIComponent(item.chillerId)}&recheckFor=${encodeURIComponent(item.id)}`
+              )
+            }
+            style={({ pressed }) => ({
+              marginTop: 4,
+              paddingVertical: 10,
+              borderRadius: 14,
+              backgroundColor: "rgba(56,189,248,0.18)",
+              borderWidth: 1,
+              borderColor: "rgba(56,189,248,0.35)",
+              alignItems: "center",
+              opacity: pressed ? 0.85 : 1,
+            })}
+          >
+            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>
+              {item.recheckLogId ? "Record another re-check" : "Record re-check reading"}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+
+      {open ? (
+        <View style={card}>
+          <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Close action</Text>
+
+          <TextInput
+            value={action}
+            onChangeText={setAction}
+            placeholder="Action taken (e.g. moved stock, called technician)"
+            placeholderTextColor={COLORS.muted2}
+            multiline
+            style={[inputStyle, { minHeight: 70, textAlignVertical: "top" }]}
+          />
+
+          <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Product discarded?</Text>
+          <View style={{ flexDirection: "row", gap: 8 }}>
+            {([true, false] as const).map((v) => {
+              const active = productDiscarded === v;
+              return (
+                <Pressable
+                  key={String(v)}
+                  onPress={() => setProductDiscarded(v)}
+                  style={({ pressed }) => ({
+                    flex: 1,
+                    paddingVertical: 10,
+                    borderRadius: 12,
+                    alignItems: "center",
+                    borderWidth: 1,
+                    borderColor: active ? "rgba(56,189,248,0.35)" : COLORS.border,
+                    backgroundColor: active ? "rgba(56,189,248,0.18)" : "transparent",
+                    opacity: pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>{v ? "Yes" : "No"}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {productDiscarded === true && (
+            <TextInput
+              value={quantity}
+              onChangeText={setQuantity}
+              placeholder="Quantity discarded (e.g. 4 kg chicken)"
+              placeholderTextColor={COLORS.muted2}
+              style={inputStyle}
+            />
+          )}
+
+          <Pressable
+            onPress={onClose}
+            disabled={saving}
+            style={({ pressed }) => ({
+              marginTop: 4,
+              paddingVertical: 12,
+              borderRadius: 14,
+              backgroundColor: "#0B1220",
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              alignItems: "center",
+              opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+            })}
+          >
+            {saving ? (
+              <ActivityIndicator />
+            ) : (
+              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Close Action</Text>
+            )}
+          </Pressable>
+        </View>
+      ) : (
+        <View style={card}>
+          <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Resolution</Text>
+          <Text style={{ color: COLORS.text, fontSize: 13 }}>{item.action || "—"}</Text>
+          <Row label="Product discarded" value={item.productDiscarded ? `Yes • ${item.quantity || "—"}` : "No"} />
+          <Row label="Closed by" value={item.closedByName || "—"} />
+          <Row label="Closed at" value={formatWhen(item.closedAt) || "—"} />
+        </View>
+      )}
+    </ScrollView>
+  );
+}
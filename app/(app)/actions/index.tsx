@@ -0,0 +1,339 @@
+// app/(app)/actions/index.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { View, Text, Pressable, FlatList, ActivityIndicator, Alert, Modal, Platform } from "react-native";
+import { router } from "expo-router";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { useAuth } from "../../../src/context/AuthContext";
+
+type Branch = { id: string; name: string; isActive: boolean };
+
+type ActionStatus = "open" | "closed";
+
+type CorrectiveAction = {
+  id: string;
+  chillerId: string;
+  chillerName: string;
+  logStatus?: "ok" | "warning" | "damaged";
+  logTempC?: number | null;
+  logCapturedAt?: any;
+  status: ActionStatus;
+  openedAt?: any;
+  recheckTempC?: number | null;
+  closedByName?: string;
+  closedAt?: any;
+};
+
+const COLORS = {
+  bg: "#0F172A",
+  card: "#111827",
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  warn: "#FBBF24",
+  bad: "#F43F5E",
+};
+
+function safeTime(v: any): number {
+  try {
+    if (!v) return 0;
+    if (typeof v?.toMillis === "function") return v.toMillis();
+    if (typeof v?.toDate === "function") return v.toDate().getTime();
+    return 0;
+  } catch {
+    return 0;
+  }
+}
+
+function formatWhen(ts: any) {
+  try {
+    const d = ts?.toDate?.() ? ts.toDate() : null;
+    return d ? d.toLocaleString() : "";
+  } catch {
+    return "";
+  }
+}
+
+export default function ActionsList() {
+  const { user, loading, orgId, branchIds, canAccessBranch } = useAuth();
+
+  const [branchesLoading, setBranchesLoading] = useState(true);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [selectedBranchId, setSelectedBranchId] = useState("");
+  const [branchPickerOpen, setBranchPickerOpen] = useState(false);
+
+  const [listLoading, setListLoading] = useState(true);
+  const [items, setItems] = useState<CorrectiveAction[]>([]);
+  const [filter, setFilter] = useState<ActionStatus>("open");
+
+  useEffect(() => {
+    if (!loading && !user) router.replace("/(auth)/login");
+  }, [loading, user]);
+
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    setBranchesLoading(true);
+
+    const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
+
+    const unsub = onSnapshot(
+      q1,
+      (snap) => {
+        const active = snap.docs
+          .map((d) => {
+            const v = d.data() as any;
+            return { id: d.id, name: v.name ?? "", isActive: v.isActive ?? true } as Branch;
+          })
+          .filter((b) => b.isActive && canAccessBranch(b.id));
+        active.sort((a, b) => String(a.name).localeCompare(String(b.name)));
+
+        setBranches(active);
+        setBranchesLoading(false);
+        setSelectedBranchId((cur) => (active.some((b) => b.id === cur) ? cur : active[0]?.id || ""));
+      },
+      (err) => {
+        setBranchesLoading(false);
+        Alert.alert("Error", err.message);
+      }
+    );
+
+    return () => unsub();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId, branchIds]);
+
+  // ✅ Equality filters only -> no composite index needed
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    if (!selectedBranchId) {
+      setItems([]);
+      setListLoading(false);
+      return;
+    }
+
+    setListLoading(true);
+
+    const q2 = query(
+      collection(db, "correctiveActions"),
+      where("orgId", "==", orgId),
+      where("branchId", "==", selectedBranchId)
+    );
+
+    const unsub = onSnapshot(
+      q2,
+      (snap) => {
+        const data: CorrectiveAction[] = snap.docs.map((d) => {
+          const v = d.data() as any;
+          return {
+            id: d.id,
+            chillerId: v.chillerId ?? "",
+            chillerName: v.chillerName ?? "",
+            logStatus: v.logStatus,
+            logTempC: v.logTempC ?? null,
+            logCapturedAt: v.logCapturedAt,
+            status: v.status === "closed" ? "closed" : "open",
+            openedAt: v.openedAt,
+            recheckTempC: v.recheckTempC ?? null,
+            closedByName: v.closedByName ?? "",
+            closedAt: v.closedAt,
+          };
+        });
+
+        data.sort((a, b) => safeTime(b.openedAt) - safeTime(a.openedAt));
+        setItems(data);
+        setListLoading(false);
+      },
+      (err) => {
+        setListLoading(false);
+        Alert.alert("Error", err.message || "Failed to load corrective actions");
+      }
+    );
+
+    return () => unsub();
+  }, [selectedBranchId, user, orgId]);
+
+  const openCount = useMemo(() => items.filter((i) => i.status === "open").length, [items]);
+  const shown = useMemo(() => items.filter((i) => i.status === filter), [items, filter]);
+
+  const selectedBranchName = useMemo(() => {
+    return branches.find((b) => b.id === selectedBranchId)?.name || "Select branch";
+  }, [branches, selectedBranchId]);
+
+  if (loading || branchesLoading) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!user) return null;
+
+  const Tab = ({ value, label }: { value: ActionStatus; label: string }) => {
+    const active = filter === value;
+    return (
+      <Pressable
+        onPress={() => setFilter(value)}
+        style={({ pressed }) => ({
+          flex: 1,
+          paddingVertical: 10,
+          borderRadius: 12,
+          alignItems: "center",
+          backgroundColor: active ? "rgba(56,189,248,0.18)" : "transparent",
+          borderWidth: 1,
+          borderColor: active ? "rgba(56,189,248,0.35)" : COLORS.border,
+          opacity: pressed ? 0.85 : 1,
+        })}
+      >
+        <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>{label}</Text>
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: COLORS.bg }}>
+      <Modal
+        transparent
+        visible={branchPickerOpen}
+        animationType="slide"
+        onRequestClose={() => setBranchPickerOpen(false)}
+      >
+        <Pressable onPress={() => setBranchPickerOpen(false)} style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.45)" }} />
+        <View
+          style={{
+            backgroundColor: COLORS.card,
+            borderTopLeftRadius: 22,
+            borderTopRightRadius: 22,
+            borderWidth: 1,
+            borderColor: COLORS.border,
+            paddingBottom: Platform.OS === "ios" ? 24 : 16,
+          }}
+        >
+          <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 14, padding: 16 }}>Select Branch</Text>
+          <FlatList
+            data={branches}
+            keyExtractor={(b) => b.id}
+            style={{ maxHeight: 420 }}
+            ItemSeparatorComponent={() => <View style={{ height: 1, backgroundColor: COLORS.border }} />}
+            renderItem={({ item }) => (
+              <Pressable
+                onPress={() => {
+                  setSelectedBranchId(item.id);
+                  setBranchPickerOpen(false);
+                }}
+                style={({ pressed }) => ({
+                  paddingVertical: 14,
+                  paddingHorizontal: 16,
+                  backgroundColor: item.id === selectedBranchId ? "rgba(56,189,248,0.16)" : COLORS.card,
+                  opacity: pressed ? 0.85 : 1,
+                })}
+              >
+                <Text style={{ color: COLORS.text, fontWeight: "800", fontSize: 13.5 }} numberOfLines={1}>
+                  {item.name || "Unnamed"}
+                </Text>
+              </Pressable>
+            )}
+          />
+        </View>
+      </Modal>
+
+      <View style={{ paddingHorizontal: 16, paddingTop: 14, paddingBottom: 12, gap: 10 }}>
+        <View style={{ gap: 4 }}>
+          <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>Corrective Actions</Text>
+          <Text style={{ color: COLORS.muted, fontSize: 12 }}>{openCount} open in this branch</Text>
+        </View>
+
+        <Pressable
+          onPress={() => setBranchPickerOpen(true)}
+          style={({ pressed }) => ({
+            paddingVertical: 12,
+            paddingHorizontal: 14,
+            borderRadius: 16,
+            backgroundColor: COLORS.card,
+            borderWidth: 1,
+            borderColor: COLORS.border,
+            opacity: pressed ? 0.86 : 1,
+          })}
+        >
+          <Text style={{ color: COLORS.muted, fontSize: 11.5, fontWeight: "800" }}>BRANCH</Text>
+          <Text style={{ color: COLORS.text, fontSize: 14, fontWeight: "900", marginTop: 3 }} numberOfLines={1}>
+            {selectedBranchName}
+          </Text>
+        </Pressable>
+
+        <View style={{ flexDirection: "row", gap: 10 }}>
+          <Tab value="open" label="Open" />
+          <Tab value="closed" label="Closed" />
+        </View>
+      </View>
+
+      {listLoading ? (
+        <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+          <ActivityIndicator />
+        </View>
+      ) : (
+        <FlatList
+          data={shown}
+          keyExtractor={(i) => i.id}
+          contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: Platform.OS === "ios" ? 28 : 18 }}
+          ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
+          renderItem={({ item }) => {
+            const sColor = item.logStatus === "damaged" ? COLORS.bad : COLORS.warn;
+            return (
+              <Pressable
+                onPress={() => router.push(`/(app)/actions/${encodeURIComponent(item.id)}`)}
+                style={({ pressed }) => ({
+                  padding: 14,
+                  borderRadius: 18,
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  backgroundColor: COLORS.card,
+                  gap: 6,
+                  opacity: pressed ? 0.9 : 1,
+                })}
+              >
+                <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+                  <Text style={{ color: COLORS.text, fontSize: 14.5, fontWeight: "900", flex: 1, paddingRight: 10 }} numberOfLines={1}>
+                    {item.chillerName || "Chiller"}
+                  </Text>
+                  <Text style={{ color: sColor, fontWeight: "900", fontSize: 12 }}>
+                    {item.logStatus === "damaged" ? "DAMAGED" : "WARNING"}
+                  </Text>
+                </View>
+
+                <Text style={{ color: COLORS.muted, fontSize: 12.5, fontWeight: "700" }}>
+                  Reading:{" "}
+                  <Text style={{ color: COLORS.text, fontWeight: "900" }}>
+                    {item.logTempC == null ? "—" : `${item.logTempC}°C`}
+                  </Text>
+                  {item.recheckTempC != null ? (
+                    <Text style={{ color: COLORS.muted }}>{`  •  Re-check: ${item.recheckTempC}°C`}</Text>
+                  ) : null}
+                </Text>
+
+                <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+                  {item.status === "closed"
+                    ? `Closed by ${item.closedByName || "—"} • ${formatWhen(item.closedAt)}`
+                    : formatWhen(item.logCapturedAt || item.openedAt)}
+                </Text>
+              </Pressable>
+            );
+          }}
+          ListEmptyComponent={
+            <View style={{ paddingVertical: 40, alignItems: "center", gap: 6 }}>
+              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>
+                {filter === "open" ? "No open actions" : "No closed actions"}
+              </Text>
+              <Text style={{ color: COLORS.muted, fontSize: 12, textAlign: "center" }}>
+                Out-of-range and damaged readings open a corrective action automatically.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
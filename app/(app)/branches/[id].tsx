@@ -9,11 +9,14 @@ import {
   Switch,
   Animated,
   Platform,
+  ScrollView,
 } from "react-native";
 import { router, useLocalSearchParams } from "expo-router";
 import { useAuth } from "../../../src/context/AuthContext";
 import { db } from "../../../src/firebase/firebaseConfig";
 import { doc, getDoc, serverTimestamp, setDoc, updateDoc, deleteDoc } from "firebase/firestore";
+import ScheduleEditor from "../../../src/components/ScheduleEditor";
+import { DEFAULT_GRACE_MINUTES, deviceTimeZone, normalizeSchedule } from "../../../src/utils/schedule";
 
 const COLORS = {
   bg: "#0F172A",
@@ -30,7 +33,7 @@ export default function BranchEdit() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const isNew = useMemo(() => id === "new", [id]);
 
-  const { user, loading } = useAuth();
+  const { user, loading, orgId } = useAuth();
 
   const [pageLoading, setPageLoading] = useState(!isNew);
   const [saving, setSaving] = useState(false);
@@ -38,6 +41,11 @@ export default function BranchEdit() {
   const [name, setName] = useState("");
   const [isActive, setIsActive] = useState(true);
 
+  // logging schedule (chillers without their own times follow this)
+  const [times, setTimes] = useState<string[]>([]);
+  const [grace, setGrace] = useState(String(DEFAULT_GRACE_MINUTES));
+  const [timezone, setTimezone] = useState(deviceTimeZone());
+
   const anim = useRef(new Animated.Value(0)).current;
 
   // auth gate
@@ -56,7 +64,7 @@ export default function BranchEdit() {
   // load branch (edit)
   useEffect(() => {
     const run = async () => {
-      if (!user || isNew) return;
+      if (!user || !orgId || isNew) return;
 
       try {
         setPageLoading(true);
@@ -72,15 +80,20 @@ export default function BranchEdit() {
 
         const v = snap.data() as any;
 
-        // If ownerId exists and it's not you -> deny
-        if (v.ownerId && v.ownerId !== user.uid) {
-          Alert.alert("Access denied", "This branch is not yours.");
+        // Branch of another organization -> deny
+        if (v.orgId !== orgId) {
+          Alert.alert("Access denied", "This branch belongs to another organization.");
           router.back();
           return;
         }
 
         setName(v.name ?? "");
         setIsActive(v.isActive ?? true);
+
+        const s = normalizeSchedule(v.schedule);
+        setTimes(s?.times ?? []);
+        setGrace(String(s?.graceMinutes ?? DEFAULT_GRACE_MINUTES));
+        if (v.timezone) setTimezone(v.timezone);
       } catch (e: any) {
         Alert.alert("Error", e?.message || "Failed to load branch");
       } finally {
@@ -89,22 +102,31 @@ export default function BranchEdit() {
     };
 
     run();
-  }, [id, isNew, user]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, isNew, user, orgId]);
 
   const onSave = async () => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     const clean = name.trim();
     if (!clean) return Alert.alert("Validation", "Branch name is required.");
 
+    const tz = timezone.trim() || "UTC";
+    if (!isValidTimeZone(tz)) {
+      return Alert.alert("Validation", "Time zone must be an IANA name like Europe/London.");
+    }
+    const schedule = normalizeSchedule({ times, graceMinutes: Number(grace) });
+
     try {
       setSaving(true);
 
       if (isNew) {
         const ref = doc(db, "branches", randomId());
         await setDoc(ref, {
-          ownerId: user.uid,
+          orgId,
           name: clean,
+          schedule,
+          timezone: tz,
           isActive: true,
           createdAt: serverTimestamp(),
           updatedAt: serverTimestamp(),
@@ -112,9 +134,10 @@ export default function BranchEdit() {
       } else {
         const ref = doc(db, "branches", String(id));
         await updateDoc(ref, {
-          // ✅ migrate old docs by setting ownerId on update
-          ownerId: user.uid,
+          orgId,
           name: clean,
+          schedule,
+          timezone: tz,
           isActive,
           updatedAt: serverTimestamp(),
         });
@@ -166,120 +189,177 @@ export default function BranchEdit() {
       <Animated.View
         style={{
           flex: 1,
-          padding: 16,
-          gap: 12,
           opacity: anim,
           transform: [{ translateY: anim.interpolate({ inputRange: [0, 1], outputRange: [8, 0] }) }],
         }}
       >
-        <View style={{ gap: 4 }}>
-          <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>
-            {isNew ? "Add Branch" : "Edit Branch"}
-          </Text>
-          <Text style={{ color: COLORS.muted, fontSize: 12 }}>
-            {isNew ? "Create a branch for grouping chillers." : "Update branch details."}
-          </Text>
-        </View>
-
-        {/* Card */}
-        <View
-          style={{
-            backgroundColor: COLORS.card,
-            borderWidth: 1,
-            borderColor: COLORS.border,
-            borderRadius: 16,
-            padding: 14,
-            gap: 10,
-          }}
-        >
-          <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Branch Name</Text>
-
-          <TextInput
-            value={name}
-            onChangeText={setName}
-            placeholder="e.g., Main Kitchen"
-            placeholderTextColor={COLORS.muted2}
+        <ScrollView contentContainerStyle={{ padding: 16, gap: 12, paddingBottom: Platform.OS === "ios" ? 28 : 18 }}>
+          <View style={{ gap: 4 }}>
+            <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>
+              {isNew ? "Add Branch" : "Edit Branch"}
+            </Text>
+            <Text style={{ color: COLORS.muted, fontSize: 12 }}>
+              {isNew ? "Create a branch for grouping chillers." : "Update branch details."}
+            </Text>
+          </View>
+
+          {/* Card */}
+          <View
             style={{
+              backgroundColor: COLORS.card,
               borderWidth: 1,
               borderColor: COLORS.border,
-              paddingVertical: Platform.OS === "ios" ? 10 : 9,
-              paddingHorizontal: 12,
-              borderRadius: 14,
-              color: COLORS.text,
-              backgroundColor: "#0B1220",
-              fontSize: 13.5,
-              fontWeight: "700",
+              borderRadius: 16,
+              padding: 14,
+              gap: 10,
             }}
-          />
+          >
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Branch Name</Text>
 
-          {!isNew && (
-            <View
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g., Main Kitchen"
+              placeholderTextColor={COLORS.muted2}
               style={{
-                marginTop: 2,
-                flexDirection: "row",
-                alignItems: "center",
-                justifyContent: "space-between",
+                borderWidth: 1,
+                borderColor: COLORS.border,
+                paddingVertical: Platform.OS === "ios" ? 10 : 9,
+                paddingHorizontal: 12,
+                borderRadius: 14,
+                color: COLORS.text,
+                backgroundColor: "#0B1220",
+                fontSize: 13.5,
+                fontWeight: "700",
               }}
-            >
-              <View style={{ gap: 2 }}>
-                <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "900" }}>Active</Text>
-                <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
-                  Inactive branches are hidden in pickers.
-                </Text>
+            />
+
+            {!isNew && (
+              <View
+                style={{
+                  marginTop: 2,
+                  flexDirection: "row",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                }}
+              >
+                <View style={{ gap: 2 }}>
+                  <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "900" }}>Active</Text>
+                  <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+                    Inactive branches are hidden in pickers.
+                  </Text>
+                </View>
+                <Switch value={isActive} onValueChange={setIsActive} />
               </View>
-              <Switch value={isActive} onValueChange={setIsActive} />
+            )}
+          </View>
+
+          {/* Schedule card */}
+          <View
+            style={{
+              backgroundColor: COLORS.card,
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              borderRadius: 16,
+              padding: 14,
+              gap: 10,
+            }}
+          >
+            <View style={{ gap: 2 }}>
+              <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Logging Schedule</Text>
+              <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+                Times a reading is due on every chiller here, unless a chiller sets its own. Tap a time to remove it.
+              </Text>
             </View>
-          )}
-        </View>
-
-        {/* Save */}
-        <Pressable
-          onPress={onSave}
-          disabled={saving}
-          style={({ pressed }) => ({
-            paddingVertical: 12,
-            borderRadius: 16,
-            backgroundColor: COLORS.card,
-            borderWidth: 1,
-            borderColor: COLORS.border,
-            alignItems: "center",
-            opacity: saving ? 0.6 : pressed ? 0.85 : 1,
-          })}
-        >
-          {saving ? (
-            <ActivityIndicator />
-          ) : (
-            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>
-              Save
-            </Text>
-          )}
-        </Pressable>
 
-        {/* Delete */}
-        {!isNew && (
+            <ScheduleEditor
+              times={times}
+              graceMinutes={grace}
+              onChangeTimes={setTimes}
+              onChangeGrace={setGrace}
+              emptyHint="No schedule — missed checks are not tracked."
+            />
+
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800", marginTop: 2 }}>Time Zone</Text>
+            <TextInput
+              value={timezone}
+              onChangeText={setTimezone}
+              placeholder="e.g., Europe/London"
+              placeholderTextColor={COLORS.muted2}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={{
+                borderWidth: 1,
+                borderColor: COLORS.border,
+                paddingVertical: Platform.OS === "ios" ? 10 : 9,
+                paddingHorizontal: 12,
+                borderRadius: 14,
+                color: COLORS.text,
+                backgroundColor: "#0B1220",
+                fontSize: 13.5,
+                fontWeight: "700",
+              }}
+            />
+          </View>
+
+          {/* Save */}
           <Pressable
-            onPress={onDelete}
+            onPress={onSave}
             disabled={saving}
             style={({ pressed }) => ({
               paddingVertical: 12,
               borderRadius: 16,
-              backgroundColor: "#2A1220",
+              backgroundColor: COLORS.card,
               borderWidth: 1,
-              borderColor: "#3B1325",
+              borderColor: COLORS.border,
               alignItems: "center",
               opacity: saving ? 0.6 : pressed ? 0.85 : 1,
             })}
           >
-            <Text style={{ color: COLORS.bad, fontWeight: "900", fontSize: 13 }}>
-              Delete Branch
-            </Text>
+            {saving ? (
+              <ActivityIndicator />
+            ) : (
+              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>
+                Save
+              </Text>
+            )}
           </Pressable>
-        )}
+
+          {/* Delete */}
+          {!isNew && (
+            <Pressable
+              onPress={onDelete}
+              disabled={saving}
+              style={({ pressed }) => ({
+                paddingVertical: 12,
+                borderRadius: 16,
+                backgroundColor: "#2A1220",
+                borderWidth: 1,
+                borderColor: "#3B1325",
+                alignItems: "center",
+                opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+              })}
+            >
+              <Text style={{ color: COLORS.bad, fontWeight: "900", fontSize: 13 }}>
+                Delete Branch
+              </Text>
+            </Pressable>
+          )}
+        </ScrollView>
       </Animated.View>
     </View>
   );
 }
 
+function isValidTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 function randomId() {
   const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
   let out = "";
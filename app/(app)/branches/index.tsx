@@ -18,7 +18,7 @@ type Branch = {
   id: string;
   name: string;
   isActive: boolean;
-  ownerId: string;
+  orgId: string;
   createdAt?: any;
   updatedAt?: any;
 };
@@ -46,7 +46,7 @@ function safeTime(v: any): number {
 }
 
 export default function BranchesList() {
-  const { user, loading } = useAuth();
+  const { user, loading, orgId } = useAuth();
 
   const [listLoading, setListLoading] = useState(true);
   const [items, setItems] = useState<Branch[]>([]);
@@ -67,10 +67,10 @@ export default function BranchesList() {
   }, [anim]);
 
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     // ✅ No orderBy => no composite index requirement.
-    const q1 = query(collection(db, "branches"), where("ownerId", "==", user.uid));
+    const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
 
     const unsub = onSnapshot(
       q1,
@@ -81,7 +81,7 @@ export default function BranchesList() {
             id: d.id,
             name: v.name ?? "",
             isActive: v.isActive ?? true,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
             createdAt: v.createdAt,
             updatedAt: v.updatedAt,
           };
@@ -100,7 +100,7 @@ export default function BranchesList() {
     );
 
     return () => unsub();
-  }, [user]);
+  }, [user, orgId]);
 
   const activeCount = useMemo(() => items.filter((b) => b.isActive).length, [items]);
 
@@ -30,12 +30,20 @@ import {
 } from "firebase/firestore";
 
 import TempKeypad from "../../../src/components/TempKeypad";
+import ScheduleEditor from "../../../src/components/ScheduleEditor";
+import {
+  DEFAULT_GRACE_MINUTES,
+  describeSchedule,
+  normalizeSchedule,
+  type LogSchedule,
+} from "../../../src/utils/schedule";
 
 type Branch = {
   id: string;
   name: string;
   isActive: boolean;
-  ownerId: string;
+  orgId: string;
+  schedule: LogSchedule | null;
   createdAt?: any;
 };
 
@@ -158,7 +166,7 @@ export default function ChillerEdit() {
   const chillerId = String(id || "");
   const isNew = useMemo(() => chillerId === "new", [chillerId]);
 
-  const { user, loading } = useAuth();
+  const { user, loading, orgId, canAccessBranch } = useAuth();
 
   const [pageLoading, setPageLoading] = useState(!isNew);
   const [saving, setSaving] = useState(false);
@@ -169,6 +177,10 @@ export default function ChillerEdit() {
   const [maxTemp, setMaxTemp] = useState<string>("");
   const [isActive, setIsActive] = useState(true);
 
+  // own logging schedule; empty => follows the branch
+  const [times, setTimes] = useState<string[]>([]);
+  const [grace, setGrace] = useState(String(DEFAULT_GRACE_MINUTES));
+
   const [branches, setBranches] = useState<Branch[]>([]);
   const [branchSheet, setBranchSheet] = useState(false);
   const [branchesLoading, setBranchesLoading] = useState(false);
@@ -192,11 +204,11 @@ export default function ChillerEdit() {
 
   // branches live
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     setBranchesLoading(true);
 
-    const q1 = query(collection(db, "branches"), where("ownerId", "==", user.uid));
+    const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
     const unsub = onSnapshot(
       q1,
       (snap) => {
@@ -206,13 +218,14 @@ export default function ChillerEdit() {
             id: d.id,
             name: v.name ?? "",
             isActive: v.isActive ?? true,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
+            schedule: normalizeSchedule(v.schedule),
             createdAt: v.createdAt,
           };
         });
 
         data.sort((a, b) => (a.name || "").localeCompare(b.name || ""));
-        const active = data.filter((b) => b.isActive);
+        const active = data.filter((b) => b.isActive && canAccessBranch(b.id));
 
         setBranches(active);
 
@@ -232,11 +245,12 @@ export default function ChillerEdit() {
     );
 
     return () => unsub();
-  }, [user]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId]);
 
   // chiller live when editing
   useEffect(() => {
-    if (!user || isNew) {
+    if (!user || !orgId || isNew) {
       setPageLoading(false);
       return;
     }
@@ -258,8 +272,8 @@ export default function ChillerEdit() {
 
         const v = snap.data() as any;
 
-        if (v.ownerId !== user.uid) {
-          Alert.alert("Access denied", "This chiller is not yours.");
+        if (v.orgId !== orgId || !canAccessBranch(v.branchId)) {
+          Alert.alert("Access denied", "This chiller is not in your branches.");
           router.back();
           return;
         }
@@ -277,6 +291,10 @@ export default function ChillerEdit() {
             setMaxTemp(x.maxTemp == null ? "" : String(x.maxTemp));
             setIsActive(x.isActive ?? true);
 
+            const s = normalizeSchedule(x.schedule);
+            setTimes(s?.times ?? []);
+            setGrace(String(s?.graceMinutes ?? DEFAULT_GRACE_MINUTES));
+
             setPageLoading(false);
           },
           (err) => {
@@ -292,12 +310,18 @@ export default function ChillerEdit() {
         Alert.alert("Error", e?.message || "Failed to load chiller");
       }
     })();
-  }, [user, isNew, chillerId]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId, isNew, chillerId]);
 
   const branchName = useMemo(() => {
     return branches.find((b) => b.id === branchId)?.name || "Select branch";
   }, [branches, branchId]);
 
+  const branchScheduleText = useMemo(() => {
+    const s = branches.find((b) => b.id === branchId)?.schedule ?? null;
+    return s ? `Follows the branch schedule (${describeSchedule(s)}).` : "No schedule — the branch has none either.";
+  }, [branches, branchId]);
+
   const canSave = useMemo(() => {
     if (!user) return false;
     if (saving) return false;
@@ -330,17 +354,20 @@ export default function ChillerEdit() {
       return Alert.alert("Validation", "Min temperature cannot be greater than Max temperature.");
     }
 
+    const schedule = normalizeSchedule({ times, graceMinutes: Number(grace) });
+
     try {
       setSaving(true);
 
       if (isNew) {
         // ✅ Firestore generates the ID
         await addDoc(collection(db, "chillers"), {
-          ownerId: user.uid,
+          orgId,
           name: clean,
           branchId,
           minTemp: min,
           maxTemp: max,
+          schedule,
           isActive,
           createdAt: serverTimestamp(),
           updatedAt: serverTimestamp(),
@@ -351,6 +378,7 @@ export default function ChillerEdit() {
           branchId,
           minTemp: min,
           maxTemp: max,
+          schedule,
           isActive,
           updatedAt: serverTimestamp(),
         });
@@ -514,6 +542,18 @@ export default function ChillerEdit() {
             </Text>
           </View>
 
+          {/* Schedule */}
+          <View style={{ gap: 8 }}>
+            <Text style={{ color: COLORS.muted, fontWeight: "800", fontSize: 12 }}>Logging Schedule</Text>
+            <ScheduleEditor
+              times={times}
+              graceMinutes={grace}
+              onChangeTimes={setTimes}
+              onChangeGrace={setGrace}
+              emptyHint={branchScheduleText}
+            />
+          </View>
+
           {/* Active */}
           <View
             style={{
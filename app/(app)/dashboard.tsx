@@ -2,6 +2,7 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Animated,
   FlatList,
   Modal,
@@ -22,6 +23,8 @@ import {
 } from "firebase/firestore";
 import { db } from "../../src/firebase/firebaseConfig";
 import { useAuth } from "../../src/context/AuthContext";
+import { useOutbox } from "../../src/context/OutboxContext";
+import { rememberChillers } from "../../src/firebase/outbox";
 
 // =====================
 // Palette
@@ -41,7 +44,7 @@ type Branch = {
   id: string;
   name: string;
   isActive: boolean;
-  ownerId: string;
+  orgId: string;
   createdAt?: any;
 };
 
@@ -59,15 +62,43 @@ type Chiller = {
   minTemp?: number | null;
   maxTemp?: number | null;
   isActive: boolean;
-  ownerId: string;
+  orgId: string;
   lastReading?: LastReading | null;
   createdAt?: any;
 };
 
+type MissedCheck = {
+  id: string;
+  chillerId: string;
+  chillerName: string;
+  branchId: string;
+  time: string;
+  slotAt?: any;
+};
+
+type DayStats = {
+  id: string;
+  branchId: string;
+  chillerId: string;
+  date: string;
+  count: number;
+  excursions: number;
+  missed: number;
+};
+
 type PickerOption = { label: string; value: string };
 
+const WEEK_DAYS = 7;
+
+function dateKey(d: Date) {
+  const p = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${p(d.getMonth() + 1)}-${p(d.getDate())}`;
+}
+
 export default function Dashboard() {
-  const { user, loading } = useAuth();
+  const { user, loading, orgId, branchIds, canAccessBranch, can } = useAuth();
+  const outbox = useOutbox();
+  const [outboxOpen, setOutboxOpen] = useState(false);
 
   // Auth gate
   useEffect(() => {
@@ -83,6 +114,11 @@ export default function Dashboard() {
   const [chillersLoading, setChillersLoading] = useState(true);
   const [chillers, setChillers] = useState<Chiller[]>([]);
 
+  const [missed, setMissed] = useState<MissedCheck[]>([]);
+  const [missedOpen, setMissedOpen] = useState(false);
+
+  const [week, setWeek] = useState<DayStats[]>([]);
+
   // =====================
   // Animations
   // =====================
@@ -108,16 +144,16 @@ export default function Dashboard() {
   };
 
   // =====================
-  // Load Branches (owner only)
+  // Load Branches (org's, limited to assigned branches for staff)
   // =====================
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     setBranchesLoading(true);
 
     const q1 = query(
       collection(db, "branches"),
-      where("ownerId", "==", user.uid),
+      where("orgId", "==", orgId),
       orderBy("createdAt", "desc")
     );
 
@@ -130,12 +166,12 @@ export default function Dashboard() {
             id: d.id,
             name: v.name ?? "",
             isActive: v.isActive ?? true,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
             createdAt: v.createdAt,
           };
         });
 
-        const active = data.filter((b) => b.isActive);
+        const active = data.filter((b) => b.isActive && canAccessBranch(b.id));
         setBranches(active);
         setBranchesLoading(false);
 
@@ -151,24 +187,33 @@ export default function Dashboard() {
 
     return () => unsub();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, orgId, branchIds]);
 
   // =====================
-  // Load Chillers (owner only, max 40)
+  // Load Chillers (org's, assigned branches only for staff, max 40)
   // =====================
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
+
+    // staff without an assigned branch have nothing to see
+    if (branchIds && branchIds.length === 0) {
+      setChillers([]);
+      setChillersLoading(false);
+      return;
+    }
 
     setChillersLoading(true);
 
     const base = [
-      where("ownerId", "==", user.uid),
+      where("orgId", "==", orgId),
       where("isActive", "==", true),
     ] as any[];
 
+    const scope = branchIds ? [where("branchId", "in", branchIds)] : [];
+
     const q2 =
       branchId === "all"
-        ? query(collection(db, "chillers"), ...base, orderBy("createdAt", "desc"), limit(40))
+        ? query(collection(db, "chillers"), ...base, ...scope, orderBy("createdAt", "desc"), limit(40))
         : query(
             collection(db, "chillers"),
             ...base,
@@ -189,7 +234,7 @@ export default function Dashboard() {
             minTemp: v.minTemp ?? null,
             maxTemp: v.maxTemp ?? null,
             isActive: v.isActive ?? true,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
             lastReading: (v.lastReading ?? null) as LastReading | null,
             createdAt: v.createdAt,
           };
@@ -198,6 +243,9 @@ export default function Dashboard() {
         setChillers(data);
         setChillersLoading(false);
         runIntro();
+
+        // keep a local copy so readings can be captured without signal
+        rememberChillers(data);
       },
       (err) => {
         setChillersLoading(false);
@@ -206,7 +254,110 @@ export default function Dashboard() {
     );
 
     return () => unsub();
-  }, [user, branchId]);
+  }, [user, orgId, branchIds, branchId]);
+
+  // =====================
+  // Missed checks today (raised by the checkMissedReadings function)
+  // =====================
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    // rules only let managers/staff read their own branches
+    if (branchIds && branchIds.length === 0) return setMissed([]);
+    const scope = branchIds ? [where("branchId", "in", branchIds)] : [];
+
+    const q3 = query(
+      collection(db, "missedChecks"),
+      where("orgId", "==", orgId),
+      ...scope,
+      where("slotAt", ">=", Timestamp.fromDate(startOfDay)),
+      orderBy("slotAt", "desc")
+    );
+
+    const unsub = onSnapshot(
+      q3,
+      (snap) => {
+        const data: MissedCheck[] = snap.docs
+          .map((d) => ({ id: d.id, ...(d.data() as any) }))
+          .filter((v: any) => v.status === "missed" && canAccessBranch(v.branchId))
+          .map((v: any) => ({
+            id: v.id,
+            chillerId: v.chillerId ?? "",
+            chillerName: v.chillerName ?? "",
+            branchId: v.branchId ?? "",
+            time: v.time ?? "",
+            slotAt: v.slotAt,
+          }));
+        setMissed(data);
+      },
+      (err) => console.log(err)
+    );
+
+    return () => unsub();
+  }, [user, orgId, branchIds, canAccessBranch]);
+
+  // =====================
+  // Last 7 days from the dailyStats rollups (one doc per chiller per day)
+  // =====================
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    const from = new Date();
+    from.setDate(from.getDate() - (WEEK_DAYS - 1));
+
+    if (branchIds && branchIds.length === 0) return setWeek([]);
+    const scope = branchIds ? [where("branchId", "in", branchIds)] : [];
+
+    const q4 = query(
+      collection(db, "dailyStats"),
+      where("orgId", "==", orgId),
+      ...scope,
+      where("date", ">=", dateKey(from))
+    );
+
+    const unsub = onSnapshot(
+      q4,
+      (snap) => {
+        const data: DayStats[] = snap.docs
+          .map((d) => ({ id: d.id, ...(d.data() as any) }))
+          .filter((v: any) => canAccessBranch(v.branchId))
+          .map((v: any) => ({
+            id: v.id,
+            branchId: v.branchId ?? "",
+            chillerId: v.chillerId ?? "",
+            date: v.date ?? "",
+            count: v.count ?? 0,
+            excursions: v.excursions ?? 0,
+            missed: v.missed ?? 0,
+          }));
+        setWeek(data);
+      },
+      (err) => console.log(err)
+    );
+
+    return () => unsub();
+  }, [user, orgId, branchIds, canAccessBranch]);
+
+  const weekTotals = useMemo(() => {
+    const shown = branchId === "all" ? week : week.filter((d) => d.branchId === branchId);
+    const t = { readings: 0, excursions: 0, missed: 0 };
+    for (const d of shown) {
+      t.readings += d.count;
+      t.excursions += d.excursions;
+      t.missed += d.missed;
+    }
+    // share of scheduled checks that got a reading
+    const checks = t.readings + t.missed;
+    return { ...t, compliance: checks > 0 ? Math.round((t.readings / checks) * 100) : null };
+  }, [week, branchId]);
+
+  const missedShown = useMemo(
+    () => (branchId === "all" ? missed : missed.filter((m) => m.branchId === branchId)),
+    [missed, branchId]
+  );
 
   // =====================
   // Derived UI values
@@ -322,6 +473,80 @@ export default function Dashboard() {
           </Pressable>
         </View>
 
+        {(outbox.pendingCount > 0 || !outbox.online) && (
+          <Pressable
+            onPress={() => setOutboxOpen(true)}
+            style={({ pressed }) => ({
+              flexDirection: "row",
+              justifyContent: "space-between",
+              alignItems: "center",
+              borderRadius: 14,
+              backgroundColor: "rgba(245,158,11,0.14)",
+              borderWidth: 1,
+              borderColor: "rgba(245,158,11,0.35)",
+              paddingVertical: 10,
+              paddingHorizontal: 12,
+              opacity: pressed ? 0.9 : 1,
+            })}
+          >
+            <Text style={{ color: "#FBBF24", fontWeight: "900", fontSize: 12.5 }}>
+              {outbox.online ? "⏳" : "📴 Offline •"} {outbox.pendingCount} pending sync
+            </Text>
+            <Text style={{ color: COLORS.muted, fontSize: 12 }}>{outbox.syncing ? "Syncing…" : "Details"}</Text>
+          </Pressable>
+        )}
+
+        {missedShown.length > 0 && (
+          <View
+            style={{
+              borderRadius: 14,
+              backgroundColor: "rgba(244,63,94,0.12)",
+              borderWidth: 1,
+              borderColor: "rgba(244,63,94,0.35)",
+              overflow: "hidden",
+            }}
+          >
+            <Pressable
+              onPress={() => setMissedOpen((v) => !v)}
+              style={({ pressed }) => ({
+                flexDirection: "row",
+                justifyContent: "space-between",
+                alignItems: "center",
+                paddingVertical: 10,
+                paddingHorizontal: 12,
+                opacity: pressed ? 0.9 : 1,
+              })}
+            >
+              <Text style={{ color: "#FB7185", fontWeight: "900", fontSize: 12.5 }}>
+                ⏰ {missedShown.length} missed check{missedShown.length === 1 ? "" : "s"} today
+              </Text>
+              <Text style={{ color: COLORS.muted, fontSize: 12 }}>{missedOpen ? "Hide" : "Details"}</Text>
+            </Pressable>
+
+            {missedOpen &&
+              missedShown.map((m) => (
+                <Pressable
+                  key={m.id}
+                  onPress={() => router.push(`/(app)/logs/add?chillerId=${m.chillerId}`)}
+                  style={({ pressed }) => ({
+                    flexDirection: "row",
+                    justifyContent: "space-between",
+                    paddingVertical: 9,
+                    paddingHorizontal: 12,
+                    borderTopWidth: 1,
+                    borderTopColor: "rgba(244,63,94,0.20)",
+                    opacity: pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: COLORS.card, fontWeight: "800", fontSize: 12.5, flex: 1 }} numberOfLines={1}>
+                    {m.chillerName || "Chiller"} • {m.time}
+                  </Text>
+                  <Text style={{ color: COLORS.muted, fontSize: 12 }}>Log now ›</Text>
+                </Pressable>
+              ))}
+          </View>
+        )}
+
         <View style={{ flexDirection: "row", gap: 10 }}>
           <ModalPicker
             label="Branch"
@@ -388,6 +613,28 @@ export default function Dashboard() {
               <Text style={styles.smallMuted}>Out of range</Text>
             </Card>
           </View>
+
+          <Card>
+            <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+              <Text style={styles.cardTitle}>Last {WEEK_DAYS} days</Text>
+              <Text style={styles.smallMuted}>
+                {weekTotals.compliance == null ? "No checks yet" : `${weekTotals.compliance}% on time`}
+              </Text>
+            </View>
+            <View style={{ flexDirection: "row", marginTop: 8 }}>
+              <WeekStat label="Readings" value={weekTotals.readings} />
+              <WeekStat
+                label="Excursions"
+                value={weekTotals.excursions}
+                color={weekTotals.excursions > 0 ? "#F59E0B" : undefined}
+              />
+              <WeekStat
+                label="Missed"
+                value={weekTotals.missed}
+                color={weekTotals.missed > 0 ? COLORS.critical : undefined}
+              />
+            </View>
+          </Card>
         </View>
 
         {/* List */}
@@ -514,35 +761,43 @@ export default function Dashboard() {
               <View style={{ paddingVertical: 44, alignItems: "center", gap: 8 }}>
                 <Text style={{ color: COLORS.card, fontWeight: "900" }}>No chillers yet</Text>
                 <Text style={{ color: COLORS.muted, textAlign: "center" }}>
-                  Create a branch → add chillers → then you’ll see them here.
+                  {can("chillers.manage")
+                    ? "Create a branch → add chillers → then you’ll see them here."
+                    : branchIds && branchIds.length === 0
+                      ? "No branch is assigned to your account yet. Ask your admin."
+                      : "No chillers in your branch yet."}
                 </Text>
 
-                <Pressable
-                  onPress={() => router.push("/(app)/branches/new")}
-                  style={({ pressed }) => ({
-                    marginTop: 10,
-                    borderRadius: 14,
-                    backgroundColor: "rgba(248,250,252,0.10)",
-                    paddingVertical: 12,
-                    paddingHorizontal: 14,
-                    opacity: pressed ? 0.9 : 1,
-                  })}
-                >
-                  <Text style={{ color: COLORS.card, fontWeight: "900" }}>+ Add Branch</Text>
-                </Pressable>
-
-                <Pressable
-                  onPress={() => router.push("/(app)/chillers/new")}
-                  style={({ pressed }) => ({
-                    borderRadius: 14,
-                    backgroundColor: "#0B1220",
-                    paddingVertical: 12,
-                    paddingHorizontal: 14,
-                    opacity: pressed ? 0.9 : 1,
-                  })}
-                >
-                  <Text style={{ color: COLORS.card, fontWeight: "900" }}>+ Add Chiller</Text>
-                </Pressable>
+                {can("branches.manage") && (
+                  <Pressable
+                    onPress={() => router.push("/(app)/branches/new")}
+                    style={({ pressed }) => ({
+                      marginTop: 10,
+                      borderRadius: 14,
+                      backgroundColor: "rgba(248,250,252,0.10)",
+                      paddingVertical: 12,
+                      paddingHorizontal: 14,
+                      opacity: pressed ? 0.9 : 1,
+                    })}
+                  >
+                    <Text style={{ color: COLORS.card, fontWeight: "900" }}>+ Add Branch</Text>
+                  </Pressable>
+                )}
+
+                {can("chillers.manage") && (
+                  <Pressable
+                    onPress={() => router.push("/(app)/chillers/new")}
+                    style={({ pressed }) => ({
+                      borderRadius: 14,
+                      backgroundColor: "#0B1220",
+                      paddingVertical: 12,
+                      paddingHorizontal: 14,
+                      opacity: pressed ? 0.9 : 1,
+                    })}
+                  >
+                    <Text style={{ color: COLORS.card, fontWeight: "900" }}>+ Add Chiller</Text>
+                  </Pressable>
+                )}
 
                 <Pressable
                   onPress={() => router.push("/(app)/scan")}
@@ -561,10 +816,147 @@ export default function Dashboard() {
           />
         )}
       </Animated.View>
+
+      <OutboxSheet open={outboxOpen} onClose={() => setOutboxOpen(false)} />
     </View>
   );
 }
 
+// =====================
+// Pending sync (offline outbox) sheet
+// =====================
+function OutboxSheet({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const { items, online, syncing, flush, retry, discard } = useOutbox();
+
+  const confirmDiscard = (id: string) => {
+    Alert.alert("Discard reading?", "This reading has not reached the server and will be lost.", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Discard", style: "destructive", onPress: () => discard(id) },
+    ]);
+  };
+
+  return (
+    <Modal visible={open} animationType="slide" transparent onRequestClose={onClose}>
+      <Pressable onPress={onClose} style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.55)" }} />
+
+      <View
+        style={{
+          backgroundColor: "#fff",
+          borderTopLeftRadius: 18,
+          borderTopRightRadius: 18,
+          paddingTop: 10,
+          paddingBottom: 18,
+        }}
+      >
+        <View style={{ alignItems: "center", paddingBottom: 10 }}>
+          <View style={{ width: 44, height: 5, borderRadius: 999, backgroundColor: "#E2E8F0" }} />
+        </View>
+
+        <View style={{ paddingHorizontal: 16, paddingBottom: 10 }}>
+          <Text style={{ fontWeight: "900", fontSize: 16, color: "#0B1220" }}>Pending sync</Text>
+          <Text style={{ color: "#64748B", marginTop: 4, fontSize: 12 }}>
+            {online ? "Readings saved on this device, waiting to upload." : "You are offline. Readings will upload when signal returns."}
+          </Text>
+        </View>
+
+        <FlatList
+          data={items}
+          keyExtractor={(i) => i.id}
+          ItemSeparatorComponent={() => <View style={{ height: 1, backgroundColor: "#EEF2F7" }} />}
+          renderItem={({ item }) => (
+            <View style={{ paddingVertical: 12, paddingHorizontal: 16, gap: 4 }}>
+              <View style={{ flexDirection: "row", justifyContent: "space-between" }}>
+                <Text style={{ fontWeight: "900", color: "#0B1220", flex: 1 }} numberOfLines={1}>
+                  {item.chillerName || item.chillerId}
+                </Text>
+                <Text style={{ fontWeight: "900", color: "#334155" }}>{item.tempC}°C</Text>
+              </View>
+              <Text style={{ color: "#64748B", fontSize: 12 }}>
+                {new Date(item.capturedAt).toLocaleString()}
+                {item.localPhotoUri ? "  •  photo" : ""}
+              </Text>
+
+              {!!item.lastError && (
+                <Text style={{ color: item.blocked ? COLORS.critical : "#B45309", fontSize: 12 }} numberOfLines={2}>
+                  {item.blocked ? "Failed: " : "Last try: "}
+                  {item.lastError}
+                </Text>
+              )}
+
+              {item.blocked && (
+                <View style={{ flexDirection: "row", gap: 10, marginTop: 6 }}>
+                  <Pressable
+                    onPress={() => retry(item.id)}
+                    style={({ pressed }) => ({
+                      flex: 1,
+                      borderRadius: 12,
+                      backgroundColor: "#0B1220",
+                      paddingVertical: 9,
+                      alignItems: "center",
+                      opacity: pressed ? 0.9 : 1,
+                    })}
+                  >
+                    <Text style={{ color: "#fff", fontWeight: "900", fontSize: 12 }}>Retry</Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => confirmDiscard(item.id)}
+                    style={({ pressed }) => ({
+                      flex: 1,
+                      borderRadius: 12,
+                      backgroundColor: "#FFE4E6",
+                      paddingVertical: 9,
+                      alignItems: "center",
+                      opacity: pressed ? 0.9 : 1,
+                    })}
+                  >
+                    <Text style={{ color: "#9F1239", fontWeight: "900", fontSize: 12 }}>Discard</Text>
+                  </Pressable>
+                </View>
+              )}
+            </View>
+          )}
+          ListEmptyComponent={
+            <View style={{ padding: 16 }}>
+              <Text style={{ color: "#64748B" }}>Everything is synced.</Text>
+            </View>
+          }
+          style={{ maxHeight: 360 }}
+        />
+
+        <View style={{ paddingHorizontal: 16, paddingTop: 12, flexDirection: "row", gap: 10 }}>
+          <Pressable
+            onPress={() => flush()}
+            disabled={!online || syncing || items.length === 0}
+            style={({ pressed }) => ({
+              flex: 1,
+              borderRadius: 14,
+              backgroundColor: "rgba(15,23,42,0.06)",
+              paddingVertical: 12,
+              alignItems: "center",
+              opacity: !online || syncing || items.length === 0 ? 0.5 : pressed ? 0.9 : 1,
+            })}
+          >
+            {syncing ? <ActivityIndicator /> : <Text style={{ color: "#0B1220", fontWeight: "900" }}>Sync now</Text>}
+          </Pressable>
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => ({
+              flex: 1,
+              borderRadius: 14,
+              backgroundColor: "#0B1220",
+              paddingVertical: 12,
+              alignItems: "center",
+              opacity: pressed ? 0.9 : 1,
+            })}
+          >
+            <Text style={{ color: "#fff", fontWeight: "900" }}>Done</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
 // =====================
 // iOS-native Modal Picker (no library)
 // =====================
@@ -692,6 +1084,18 @@ function Card({ children }: { children: React.ReactNode }) {
   );
 }
 
+// =====================
+// Last-7-days figure
+// =====================
+function WeekStat({ label, value, color }: { label: string; value: number; color?: string }) {
+  return (
+    <View style={{ flex: 1 }}>
+      <Text style={{ color: color || "#0B1220", fontWeight: "900", fontSize: 20 }}>{value}</Text>
+      <Text style={{ color: "#64748B", fontSize: 11.5, fontWeight: "700", marginTop: 2 }}>{label}</Text>
+    </View>
+  );
+}
+
 const styles = {
   cardTitle: {
     color: "#64748B",
@@ -15,18 +15,20 @@ import {
   TouchableWithoutFeedback,
   View,
 } from "react-native";
-import { addDoc, collection, doc, getDoc, serverTimestamp, updateDoc } from "firebase/firestore";
+import { doc, getDoc } from "firebase/firestore";
 import * as ImagePicker from "expo-image-picker";
 
 import { useAuth } from "../../../src/context/AuthContext";
-import { db, storage } from "../../../src/firebase/firebaseConfig"; // ✅ use shared storage instance
-import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
+import { useOutbox } from "../../../src/context/OutboxContext";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { getCachedChiller, rememberChillers } from "../../../src/firebase/outbox";
+import { RECHECK_MINUTES, cancelRecheckReminder, scheduleRecheckReminder } from "../../../src/firebase/push";
 
 import TempKeypad from "../../../src/components/TempKeypad";
 
 type Chiller = {
   id: string;
-  ownerId: string;
+  orgId: string;
   name: string;
   branchId: string;
   minTemp?: number | null;
@@ -56,10 +58,12 @@ function parseNumber(val: string): number | null | "nan" {
 }
 
 export default function AddLog() {
-  const { chillerId } = useLocalSearchParams<{ chillerId: string }>();
+  const { chillerId, recheckFor } = useLocalSearchParams<{ chillerId: string; recheckFor?: string }>();
   const cid = String(chillerId || "");
+  const recheckOf = recheckFor ? String(recheckFor) : null; // corrective-action follow-up
 
-  const { user, loading } = useAuth();
+  const { user, loading, orgId, canAccessBranch } = useAuth();
+  const { enqueueReading, online, pendingCount } = useOutbox();
 
   const [screenLoading, setScreenLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -72,7 +76,6 @@ export default function AddLog() {
   const [note, setNote] = useState("");
 
   const [photoUri, setPhotoUri] = useState<string | null>(null);
-  const [photoUploading, setPhotoUploading] = useState(false);
 
   const [activeField, setActiveField] = useState<"temp" | "humidity" | null>(null);
 
@@ -83,10 +86,10 @@ export default function AddLog() {
     if (!loading && !user) router.replace("/(auth)/login");
   }, [loading, user]);
 
-  // Load chiller (verify owner)
+  // Load chiller (verify org + branch)
   useEffect(() => {
     const run = async () => {
-      if (!user) return;
+      if (!user || !orgId) return;
 
       if (!cid) {
         Alert.alert("Error", "Missing chillerId");
@@ -97,29 +100,38 @@ export default function AddLog() {
       try {
         setScreenLoading(true);
 
-        const snap = await getDoc(doc(db, "chillers", cid));
-        if (!snap.exists()) {
-          Alert.alert("Error", "Chiller not found");
-          router.back();
-          return;
+        let v: any = null;
+        try {
+          const snap = await getDoc(doc(db, "chillers", cid));
+          if (!snap.exists()) {
+            Alert.alert("Error", "Chiller not found");
+            router.back();
+            return;
+          }
+          v = { id: snap.id, ...snap.data() };
+        } catch (e: any) {
+          // no signal: fall back to the last known copy so the reading can still be queued
+          v = await getCachedChiller(cid);
+          if (!v) throw e;
         }
 
-        const v = snap.data() as any;
-
-        if (v.ownerId !== user.uid) {
-          Alert.alert("Access denied", "This chiller is not yours.");
+        if (v.orgId !== orgId || !canAccessBranch(v.branchId)) {
+          Alert.alert("Access denied", "This chiller is not in your branches.");
           router.back();
           return;
         }
 
-        setChiller({
-          id: snap.id,
-          ownerId: v.ownerId,
+        const next: Chiller = {
+          id: v.id,
+          orgId: v.orgId,
           name: v.name ?? "",
           branchId: v.branchId ?? "",
           minTemp: v.minTemp ?? null,
           maxTemp: v.maxTemp ?? null,
-        });
+        };
+
+        setChiller(next);
+        rememberChillers([next]);
       } catch (e: any) {
         Alert.alert("Error", e?.message || "Failed to load chiller");
       } finally {
@@ -128,7 +140,8 @@ export default function AddLog() {
     };
 
     run();
-  }, [cid, user]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cid, user, orgId]);
 
   // Auto-warning based on range (unless damaged)
   useEffect(() => {
@@ -212,34 +225,6 @@ export default function AddLog() {
     }
   };
 
-  // ✅ Upload photo to Firebase Storage (shared storage instance)
-  const uploadPhotoIfNeeded = async () => {
-    if (!photoUri || !user || !chiller) {
-      return { photoUrl: null as string | null, photoPath: null as string | null };
-    }
-
-    try {
-      setPhotoUploading(true);
-
-      const photoPath = `tempLogs/${chiller.id}/${user.uid}/${Date.now()}.jpg`;
-
-      // fetch uri -> blob
-      const blob = await (await fetch(photoUri)).blob();
-
-      const storageRef = ref(storage, photoPath);
-      await uploadBytes(storageRef, blob, { contentType: "image/jpeg" });
-
-      const photoUrl = await getDownloadURL(storageRef);
-      return { photoUrl, photoPath };
-    } catch (e: any) {
-      console.log("UPLOAD ERROR:", e);
-      Alert.alert("Upload failed", e?.message || "Could not upload photo.");
-      return { photoUrl: null, photoPath: null };
-    } finally {
-      setPhotoUploading(false);
-    }
-  };
-
   const onSave = async () => {
     if (!user || !chiller) return;
 
@@ -267,37 +252,53 @@ export default function AddLog() {
     try {
       setSaving(true);
 
-      const { photoUrl, photoPath } = await uploadPhotoIfNeeded();
-
-      // 1) create temp log
-      await addDoc(collection(db, "tempLogs"), {
-        ownerId: user.uid,
+      // Everything goes through the outbox: it uploads the photo, writes the log and
+      // updates lastReading now, or keeps the reading on the device until there is signal.
+      const res = await enqueueReading({
+        orgId: chiller.orgId,
         chillerId: chiller.id,
         branchId: chiller.branchId,
+        chillerName: chiller.name,
         tempC: t,
         humidity: h ?? null,
         status,
         note: note.trim(),
-        photoUrl: photoUrl ?? null,
-        photoPath: photoPath ?? null,
         createdBy: user.uid,
-        createdAt: serverTimestamp(),
+        capturedAt: Date.now(),
+        recheckOf,
+        photoUri,
       });
 
-      // 2) update chiller lastReading
-      await updateDoc(doc(db, "chillers", chiller.id), {
-        lastReading: {
-          tempC: t,
-          humidity: h ?? null,
-          status,
-          note: note.trim(),
-          at: serverTimestamp(),
-          by: user.uid,
-          photoUrl: photoUrl ?? null,
-          photoPath: photoPath ?? null,
-        },
-        updatedAt: serverTimestamp(),
-      });
+      if (recheckOf) await cancelRecheckReminder(recheckOf);
+
+      // ✅ SOP: out-of-range readings are re-measured within RECHECK_MINUTES
+      let recheckNote = "";
+      if (status !== "ok") {
+        const reminded = await scheduleRecheckReminder({ logId: res.id, chillerId: chiller.id, chillerName: chiller.name });
+        recheckNote = reminded
+          ? `\n\nRe-check this chiller within ${RECHECK_MINUTES} minutes. We will remind you.`
+          : `\n\nRe-check this chiller within ${RECHECK_MINUTES} minutes (reminders are off on this device).`;
+      }
+
+      if (res.blocked) {
+        Alert.alert(
+          "Not synced",
+          `The server rejected this reading (${res.error}). It is kept on this device but will not sync on its own. ` +
+            "Retry or discard it under \"Pending sync\" on the dashboard." +
+            recheckNote,
+        );
+      } else if (!res.synced) {
+        Alert.alert(
+          "Saved offline",
+          (res.error
+            ? `Could not reach the server (${res.error}). The reading is kept on this device and will sync automatically.`
+            : "No connection. The reading is kept on this device and will sync when you are back online.") + recheckNote,
+        );
+      } else if (res.conflict) {
+        Alert.alert("Saved", "A newer reading for this chiller already exists, so it stays as the latest." + recheckNote);
+      } else if (recheckNote) {
+        Alert.alert("Re-check required", recheckNote.trim());
+      }
 
       router.back();
     } catch (e: any) {
@@ -318,7 +319,7 @@ export default function AddLog() {
 
   if (!user || !chiller) return null;
 
-  const submittingDisabled = saving || photoUploading;
+  const submittingDisabled = saving;
 
   const FieldBox = ({
     label,
@@ -374,6 +375,39 @@ export default function AddLog() {
             <Text style={{ fontSize: 20, fontWeight: "900", color: C.text }}>Add Reading</Text>
             <Text style={{ color: C.muted, fontWeight: "800" }}>{chiller.name}</Text>
 
+            {!!recheckOf && (
+              <View
+                style={{
+                  alignSelf: "flex-start",
+                  paddingVertical: 6,
+                  paddingHorizontal: 10,
+                  borderRadius: 999,
+                  backgroundColor: "#E0F2FE",
+                }}
+              >
+                <Text style={{ color: "#075985", fontWeight: "900", fontSize: 12 }}>
+                  Re-check for a corrective action
+                </Text>
+              </View>
+            )}
+
+            {(!online || pendingCount > 0) && (
+              <View
+                style={{
+                  alignSelf: "flex-start",
+                  paddingVertical: 6,
+                  paddingHorizontal: 10,
+                  borderRadius: 999,
+                  backgroundColor: "#FEF3C7",
+                }}
+              >
+                <Text style={{ color: "#92400E", fontWeight: "900", fontSize: 12 }}>
+                  {!online ? "Offline • " : ""}
+                  {pendingCount > 0 ? `${pendingCount} pending sync` : "readings will sync later"}
+                </Text>
+              </View>
+            )}
+
             {/* ✅ Temperature + Humidity using custom keypad */}
             <FieldBox
               label="Temperature (°C) *"
@@ -420,14 +454,14 @@ export default function AddLog() {
 
                 <Pressable
                   onPress={pickOrTakePhoto}
-                  disabled={photoUploading}
+                  disabled={saving}
                   style={({ pressed }) => ({
                     padding: 12,
                     borderRadius: 12,
                     borderWidth: 1,
                     borderColor: C.line,
                     backgroundColor: "#fff",
-                    opacity: photoUploading ? 0.6 : pressed ? 0.92 : 1,
+                    opacity: saving ? 0.6 : pressed ? 0.92 : 1,
                   })}
                 >
                   <Text style={{ fontWeight: "900", color: C.text }}>{photoUri ? "Change Photo" : "Add Photo"}</Text>
@@ -438,7 +472,7 @@ export default function AddLog() {
                   <Image source={{ uri: photoUri }} style={{ width: "100%", height: 220, borderRadius: 14 }} resizeMode="cover" />
                 )}
 
-                {photoUploading && <Text style={{ color: C.muted, fontSize: 12 }}>Uploading photo…</Text>}
+                {saving && <Text style={{ color: C.muted, fontSize: 12 }}>Uploading photo…</Text>}
 
                 {photoUri && (
                   <Pressable
@@ -8,15 +8,27 @@ import {
   Alert,
   Animated,
   Platform,
+  Modal,
+  TextInput,
 } from "react-native";
 import { router, useLocalSearchParams } from "expo-router";
 import { useAuth } from "../../../../src/context/AuthContext";
 import { db } from "../../../../src/firebase/firebaseConfig";
-import { doc, getDoc, collection, onSnapshot, query, where, limit } from "firebase/firestore";
+import { amendReading } from "../../../../src/firebase/functionsClient";
+import {
+  describeChanges,
+  effectiveValues,
+  groupByLog,
+  normalizeAmendment,
+  type LogAmendment,
+  type ReadingValues,
+} from "../../../../src/utils/amendments";
+import TrendChart, { isExcursion, type ChartPoint } from "../../../../src/components/TrendChart";
+import { doc, getDoc, collection, onSnapshot, query, where, limit, Timestamp } from "firebase/firestore";
 
 type Chiller = {
   id: string;
-  ownerId: string;
+  orgId: string;
   name: string;
   branchId: string;
   minTemp?: number | null;
@@ -26,7 +38,7 @@ type Chiller = {
 
 type TempLog = {
   id: string;
-  ownerId: string;
+  orgId: string;
   chillerId?: string;
   tempC: number;
   humidity?: number | null;
@@ -35,6 +47,15 @@ type TempLog = {
   photoUrl?: string | null;
   createdBy: string;
   createdAt?: any;
+  capturedAt?: any;
+};
+
+type ChartWindow = "24h" | "7d" | "30d";
+
+const WINDOW_MS: Record<ChartWindow, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
 };
 
 const COLORS = {
@@ -59,11 +80,188 @@ function safeTime(v: any): number {
   }
 }
 
+// =====================
+// Correction sheet (amendReading callable)
+// =====================
+function AmendSheet({
+  log,
+  current,
+  onClose,
+}: {
+  log: TempLog | null;
+  current: ReadingValues | null;
+  onClose: () => void;
+}) {
+  const [tempC, setTempC] = useState("");
+  const [humidity, setHumidity] = useState("");
+  const [status, setStatus] = useState<ReadingValues["status"]>("ok");
+  const [note, setNote] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!current) return;
+    setTempC(String(current.tempC));
+    setHumidity(current.humidity == null ? "" : String(current.humidity));
+    setStatus(current.status);
+    setNote(current.note);
+    setReason("");
+  }, [current]);
+
+  const onSubmit = async () => {
+    if (!log || !current) return;
+
+    const t = Number(tempC.replace(",", "."));
+    if (!tempC.trim() || !Number.isFinite(t)) return Alert.alert("Validation", "Temperature must be a number.");
+
+    const h = humidity.trim() ? Number(humidity.replace(",", ".")) : null;
+    if (h !== null && !Number.isFinite(h)) return Alert.alert("Validation", "Humidity must be a number.");
+
+    if (reason.trim().length < 3) return Alert.alert("Validation", "Please give a reason for the correction.");
+
+    // send only what actually changed
+    const changes: Partial<ReadingValues> = {};
+    if (t !== current.tempC) changes.tempC = t;
+    if (h !== current.humidity) changes.humidity = h;
+    if (status !== current.status) changes.status = status;
+    if (note.trim() !== current.note) changes.note = note.trim();
+
+    if (Object.keys(changes).length === 0) return Alert.alert("Nothing changed", "Edit at least one value.");
+
+    try {
+      setSaving(true);
+      await amendReading({ logId: log.id, reason: reason.trim(), ...changes });
+      onClose();
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to save correction");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingVertical: Platform.OS === "ios" ? 10 : 9,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    color: COLORS.text,
+    backgroundColor: "#0B1220",
+    fontSize: 13.5,
+    fontWeight: "700" as const,
+  };
+
+  return (
+    <Modal visible={!!log} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable onPress={onClose} style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.45)" }} />
+      <View
+        style={{
+          backgroundColor: COLORS.card,
+          borderTopLeftRadius: 20,
+          borderTopRightRadius: 20,
+          borderWidth: 1,
+          borderColor: COLORS.border,
+          padding: 16,
+          gap: 10,
+          paddingBottom: Platform.OS === "ios" ? 30 : 18,
+        }}
+      >
+        <Text style={{ color: COLORS.text, fontSize: 15, fontWeight: "900" }}>Correct reading</Text>
+        <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+          The original stays on record; the correction is added to its history.
+        </Text>
+
+        <View style={{ flexDirection: "row", gap: 10 }}>
+          <TextInput
+            value={tempC}
+            onChangeText={setTempC}
+            placeholder="Temp °C"
+            placeholderTextColor={COLORS.muted2}
+            keyboardType="numbers-and-punctuation"
+            style={[inputStyle, { flex: 1 }]}
+          />
+          <TextInput
+            value={humidity}
+            onChangeText={setHumidity}
+            placeholder="Humidity %"
+            placeholderTextColor={COLORS.muted2}
+            keyboardType="decimal-pad"
+            style={[inputStyle, { flex: 1 }]}
+          />
+        </View>
+
+        <View style={{ flexDirection: "row", gap: 8 }}>
+          {(["ok", "warning", "damaged"] as const).map((s) => {
+            const active = status === s;
+            return (
+              <Pressable
+                key={s}
+                onPress={() => setStatus(s)}
+                style={({ pressed }) => ({
+                  flex: 1,
+                  paddingVertical: 9,
+                  borderRadius: 12,
+                  alignItems: "center",
+                  backgroundColor: active ? "#0B1220" : COLORS.card,
+                  borderWidth: 1,
+                  borderColor: active ? COLORS.good : COLORS.border,
+                  opacity: pressed ? 0.85 : 1,
+                })}
+              >
+                <Text style={{ color: active ? COLORS.good : COLORS.muted, fontWeight: "900", fontSize: 11.5 }}>
+                  {s.toUpperCase()}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <TextInput
+          value={note}
+          onChangeText={setNote}
+          placeholder="Note"
+          placeholderTextColor={COLORS.muted2}
+          style={inputStyle}
+        />
+
+        <TextInput
+          value={reason}
+          onChangeText={setReason}
+          placeholder="Reason for correction (required)"
+          placeholderTextColor={COLORS.muted2}
+          multiline
+          style={[inputStyle, { minHeight: 70, textAlignVertical: "top" }]}
+        />
+
+        <Pressable
+          onPress={onSubmit}
+          disabled={saving}
+          style={({ pressed }) => ({
+            paddingVertical: 12,
+            borderRadius: 14,
+            backgroundColor: "#0B1220",
+            borderWidth: 1,
+            borderColor: COLORS.border,
+            alignItems: "center",
+            opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+          })}
+        >
+          {saving ? (
+            <ActivityIndicator />
+          ) : (
+            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Save Correction</Text>
+          )}
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
 export default function ChillerLogsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const chillerId = String(id);
 
-  const { user, loading } = useAuth();
+  const { user, loading, orgId, role, branchIds, canAccessBranch } = useAuth();
 
   const [loadingChiller, setLoadingChiller] = useState(true);
   const [chiller, setChiller] = useState<Chiller | null>(null);
@@ -71,6 +269,21 @@ export default function ChillerLogsScreen() {
   const [loadingLogs, setLoadingLogs] = useState(true);
   const [logs, setLogs] = useState<TempLog[]>([]);
 
+  // corrections (logId -> history) + UI state
+  const [amendments, setAmendments] = useState<Map<string, LogAmendment[]>>(new Map());
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [amending, setAmending] = useState<TempLog | null>(null);
+
+  // trend chart
+  const [chartWindow, setChartWindow] = useState<ChartWindow>("7d");
+  const [chartRange, setChartRange] = useState({ from: 0, to: 0 });
+  const [chartLogs, setChartLogs] = useState<TempLog[]>([]);
+  const [showHumidity, setShowHumidity] = useState(false);
+  const [selectedPointId, setSelectedPointId] = useState<string | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+
+  const listRef = useRef<FlatList<TempLog>>(null);
+
   const anim = useRef(new Animated.Value(0)).current;
 
   // auth gate
@@ -86,10 +299,10 @@ export default function ChillerLogsScreen() {
     }).start();
   }, [anim]);
 
-  // Load chiller (validate owner)
+  // Load chiller (validate org + branch access)
   useEffect(() => {
     const run = async () => {
-      if (!user) return;
+      if (!user || !orgId) return;
 
       try {
         setLoadingChiller(true);
@@ -105,15 +318,15 @@ export default function ChillerLogsScreen() {
 
         const v = snap.data() as any;
 
-        if (v.ownerId !== user.uid) {
-          Alert.alert("Access denied", "This chiller is not yours.");
+        if (v.orgId !== orgId || !canAccessBranch(v.branchId)) {
+          Alert.alert("Access denied", "This chiller is not in your branches.");
           router.back();
           return;
         }
 
         setChiller({
           id: snap.id,
-          ownerId: v.ownerId ?? "",
+          orgId: v.orgId ?? "",
           name: v.name ?? "",
           branchId: v.branchId ?? "",
           minTemp: v.minTemp ?? null,
@@ -128,15 +341,21 @@ export default function ChillerLogsScreen() {
     };
 
     run();
-  }, [chillerId, user]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [chillerId, user, orgId]);
+
+  // rules only let managers/staff read their own branches, so their queries filter on the chiller's branch
+  const scopeBranchId = branchIds ? chiller?.branchId || null : null;
+  const waitForScope = !!branchIds && !scopeBranchId;
 
   // Load logs (no orderBy => avoid composite index). Sort locally.
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId || waitForScope) return;
 
     const q1 = query(
       collection(db, "tempLogs"),
-      where("ownerId", "==", user.uid),
+      where("orgId", "==", orgId),
+      ...(scopeBranchId ? [where("branchId", "==", scopeBranchId)] : []),
       where("chillerId", "==", chillerId),
       limit(200),
     );
@@ -148,7 +367,7 @@ export default function ChillerLogsScreen() {
           const v = d.data() as any;
           return {
             id: d.id,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
             chillerId: v.chillerId ?? "",
             tempC: Number(v.tempC ?? 0),
             humidity: v.humidity ?? null,
@@ -157,6 +376,7 @@ export default function ChillerLogsScreen() {
             photoUrl: v.photoUrl ?? null,
             createdBy: v.createdBy ?? "",
             createdAt: v.createdAt,
+            capturedAt: v.capturedAt,
           };
         });
 
@@ -172,7 +392,112 @@ export default function ChillerLogsScreen() {
     );
 
     return () => unsub();
-  }, [chillerId, user]);
+  }, [chillerId, user, orgId, scopeBranchId, waitForScope]);
+
+  // Chart window: range on createdAt needs the (orgId, chillerId, createdAt) index
+  useEffect(() => {
+    if (!user || !orgId || waitForScope) return;
+
+    const to = Date.now();
+    const from = to - WINDOW_MS[chartWindow];
+    setChartRange({ from, to });
+    setSelectedPointId(null);
+
+    const q3 = query(
+      collection(db, "tempLogs"),
+      where("orgId", "==", orgId),
+      ...(scopeBranchId ? [where("branchId", "==", scopeBranchId)] : []),
+      where("chillerId", "==", chillerId),
+      where("createdAt", ">=", Timestamp.fromMillis(from)),
+      limit(1000),
+    );
+
+    const unsub = onSnapshot(
+      q3,
+      (snap) => {
+        setChartLogs(
+          snap.docs.map((d) => {
+            const v = d.data() as any;
+            return {
+              id: d.id,
+              orgId: v.orgId ?? "",
+              chillerId: v.chillerId ?? "",
+              tempC: Number(v.tempC ?? 0),
+              humidity: v.humidity ?? null,
+              status: v.status ?? "ok",
+              note: v.note ?? "",
+              photoUrl: v.photoUrl ?? null,
+              createdBy: v.createdBy ?? "",
+              createdAt: v.createdAt,
+              capturedAt: v.capturedAt,
+            };
+          }),
+        );
+      },
+      (err) => console.log(err),
+    );
+
+    return () => unsub();
+  }, [chillerId, user, orgId, chartWindow, scopeBranchId, waitForScope]);
+
+  // Load corrections for this chiller
+  useEffect(() => {
+    if (!user || !orgId || waitForScope) return;
+
+    const q2 = query(
+      collection(db, "logAmendments"),
+      where("orgId", "==", orgId),
+      ...(scopeBranchId ? [where("branchId", "==", scopeBranchId)] : []),
+      where("chillerId", "==", chillerId),
+    );
+
+    const unsub = onSnapshot(
+      q2,
+      (snap) => setAmendments(groupByLog(snap.docs.map((d) => normalizeAmendment(d.id, d.data())))),
+      (err) => console.log(err),
+    );
+
+    return () => unsub();
+  }, [chillerId, user, orgId, scopeBranchId, waitForScope]);
+
+  // staff correct their own readings; managers/admins any in their branches
+  const canAmend = (item: TempLog) => role === "admin" || role === "manager" || item.createdBy === user?.uid;
+
+  const amendingValues = useMemo(
+    () => (amending ? effectiveValues(amending, amendments.get(amending.id)) : null),
+    [amending, amendments],
+  );
+
+  // chart shows corrected values, placed at the time the reading was taken
+  const chartPoints = useMemo<ChartPoint[]>(
+    () =>
+      chartLogs.map((l) => {
+        const cur = effectiveValues(l, amendments.get(l.id));
+        return {
+          id: l.id,
+          at: safeTime(l.capturedAt) || safeTime(l.createdAt),
+          tempC: cur.tempC,
+          humidity: cur.humidity,
+          status: cur.status,
+        };
+      }),
+    [chartLogs, amendments],
+  );
+
+  const selectedLog = useMemo(
+    () => chartLogs.find((l) => l.id === selectedPointId) ?? null,
+    [chartLogs, selectedPointId],
+  );
+
+  const showInList = (logId: string) => {
+    const index = logs.findIndex((l) => l.id === logId);
+    if (index < 0) {
+      Alert.alert("Not in list", "Only the latest 200 readings are listed below.");
+      return;
+    }
+    setHighlightId(logId);
+    listRef.current?.scrollToIndex({ index, viewPosition: 0.1 });
+  };
 
   const rangeText = useMemo(() => {
     if (!chiller) return "";
@@ -204,7 +529,90 @@ export default function ChillerLogsScreen() {
 
   if (!user || !chiller) return null;
 
-  const Header = () => (
+  const excursionCount = chartPoints.filter((p) => isExcursion(p, chiller.minTemp, chiller.maxTemp)).length;
+  const selectedValues = selectedLog ? effectiveValues(selectedLog, amendments.get(selectedLog.id)) : null;
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={({ pressed }) => ({
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 999,
+        borderWidth: 1,
+        borderColor: active ? "rgba(56,189,248,0.35)" : COLORS.border,
+        backgroundColor: active ? "rgba(56,189,248,0.18)" : "transparent",
+        opacity: pressed ? 0.85 : 1,
+      })}
+    >
+      <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 11.5 }}>{label}</Text>
+    </Pressable>
+  );
+
+  const chartSection = (
+    <View
+      style={{
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: COLORS.border,
+        backgroundColor: COLORS.card,
+        gap: 10,
+      }}
+    >
+      <View style={{ flexDirection: "row", alignItems: "center", gap: 6 }}>
+        {(["24h", "7d", "30d"] as const).map((w) => chip(w, chartWindow === w, () => setChartWindow(w)))}
+        <View style={{ flex: 1 }} />
+        {chip("Humidity", showHumidity, () => setShowHumidity((v) => !v))}
+      </View>
+
+      <TrendChart
+        points={chartPoints}
+        from={chartRange.from}
+        to={chartRange.to}
+        minTemp={chiller.minTemp}
+        maxTemp={chiller.maxTemp}
+        showHumidity={showHumidity}
+        selectedId={selectedPointId}
+        onSelect={setSelectedPointId}
+      />
+
+      <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+        {chartPoints.length} readings • {excursionCount} out of range • tap a point to inspect
+      </Text>
+
+      {selectedLog && selectedValues && (
+        <View style={{ gap: 6, paddingTop: 10, borderTopWidth: 1, borderTopColor: COLORS.border }}>
+          <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13.5 }}>
+              {selectedValues.tempC}°C
+              {selectedValues.humidity == null ? "" : `  •  ${selectedValues.humidity}%`}
+            </Text>
+            <Text style={{ color: statusColor(selectedValues.status), fontWeight: "900", fontSize: 12 }}>
+              {String(selectedValues.status).toUpperCase()}
+            </Text>
+          </View>
+          <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+            {formatWhen(selectedLog.capturedAt || selectedLog.createdAt)}
+          </Text>
+          {!!selectedValues.note && <Text style={{ color: COLORS.muted, fontSize: 12 }}>Note: {selectedValues.note}</Text>}
+
+          <View style={{ flexDirection: "row", gap: 8 }}>
+            {chip("Show in list", false, () => showInList(selectedLog.id))}
+            {!!selectedLog.photoUrl &&
+              chip("View Photo", false, () =>
+                router.push(`/(app)/logs/photo?url=${encodeURIComponent(String(selectedLog.photoUrl))}`),
+              )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+
+  // plain element (not an inline component) so the chart isn't remounted on every render
+  const header = (
     <View style={{ paddingHorizontal: 16, paddingTop: 14, paddingBottom: 12 }}>
       <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }} numberOfLines={1}>
         {chiller.name || "Chiller"}
@@ -228,6 +636,8 @@ export default function ChillerLogsScreen() {
         <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>+ Add Reading</Text>
       </Pressable>
 
+      {chartSection}
+
       <Text style={{ color: COLORS.muted, fontSize: 12, marginTop: 12, fontWeight: "800" }}>
         Recent readings
       </Text>
@@ -236,7 +646,10 @@ export default function ChillerLogsScreen() {
 
   const Row = ({ item }: { item: TempLog }) => {
     const url = typeof item.photoUrl === "string" ? item.photoUrl : "";
-    const color = statusColor(item.status);
+    const history = amendments.get(item.id) ?? [];
+    const cur = effectiveValues(item, history);
+    const color = statusColor(cur.status);
+    const open = !!expanded[item.id];
 
     return (
       <View
@@ -244,31 +657,63 @@ export default function ChillerLogsScreen() {
           padding: 14,
           borderRadius: 16,
           borderWidth: 1,
-          borderColor: COLORS.border,
+          borderColor: item.id === highlightId ? COLORS.good : COLORS.border,
           backgroundColor: COLORS.card,
           gap: 8,
         }}
       >
         <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
           <Text style={{ color: COLORS.text, fontSize: 14.5, fontWeight: "900" }}>
-            {item.tempC}°C
-            {item.humidity == null ? "" : `  •  ${item.humidity}%`}
+            {cur.tempC}°C
+            {cur.humidity == null ? "" : `  •  ${cur.humidity}%`}
           </Text>
 
           <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+            {history.length > 0 && (
+              <Text style={{ color: "#FBBF24", fontWeight: "900", fontSize: 10.5 }}>AMENDED</Text>
+            )}
             <View style={{ width: 8, height: 8, borderRadius: 999, backgroundColor: color }} />
             <Text style={{ color, fontWeight: "900", fontSize: 12 }}>
-              {String(item.status).toUpperCase()}
+              {String(cur.status).toUpperCase()}
             </Text>
           </View>
         </View>
 
-        {!!item.note && (
+        {!!cur.note && (
           <Text style={{ color: COLORS.muted, fontSize: 12 }}>
-            Note: {item.note}
+            Note: {cur.note}
           </Text>
         )}
 
+        {history.length > 0 && (
+          <Pressable onPress={() => setExpanded((m) => ({ ...m, [item.id]: !open }))} hitSlop={6}>
+            <Text style={{ color: COLORS.good, fontSize: 12, fontWeight: "800" }}>
+              {open ? "Hide history" : `History (${history.length} correction${history.length === 1 ? "" : "s"})`}
+            </Text>
+          </Pressable>
+        )}
+
+        {open && (
+          <View style={{ gap: 8, paddingLeft: 10, borderLeftWidth: 2, borderLeftColor: COLORS.border }}>
+            <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+              Original: {item.tempC}°C{item.humidity == null ? "" : ` • ${item.humidity}%`} •{" "}
+              {String(item.status).toUpperCase()}
+              {item.note ? ` • "${item.note}"` : ""}
+            </Text>
+            {history.map((a) => (
+              <View key={a.id} style={{ gap: 2 }}>
+                <Text style={{ color: COLORS.text, fontSize: 11.5, fontWeight: "800" }}>
+                  #{a.seq} {describeChanges(a)}
+                </Text>
+                <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>Reason: {a.reason}</Text>
+                <Text style={{ color: COLORS.muted2, fontSize: 11 }}>
+                  {a.amendedByName || "Unknown"} • {formatWhen(a.amendedAt)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {!!url && (
           <Pressable
             onPress={() => router.push(`/(app)/logs/photo?url=${encodeURIComponent(url)}`)}
@@ -289,7 +734,14 @@ export default function ChillerLogsScreen() {
           </Pressable>
         )}
 
-        <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>{formatWhen(item.createdAt)}</Text>
+        <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+          <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>{formatWhen(item.createdAt)}</Text>
+          {canAmend(item) && (
+            <Pressable onPress={() => setAmending(item)} hitSlop={8}>
+              <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Correct</Text>
+            </Pressable>
+          )}
+        </View>
       </View>
     );
   };
@@ -303,19 +755,31 @@ export default function ChillerLogsScreen() {
           transform: [{ translateY: anim.interpolate({ inputRange: [0, 1], outputRange: [8, 0] }) }],
         }}
       >
-        <Header />
-
         {loadingLogs ? (
-          <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
-            <ActivityIndicator />
-          </View>
+          <>
+            {header}
+            <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+              <ActivityIndicator />
+            </View>
+          </>
         ) : (
           <FlatList
+            ref={listRef}
             data={logs}
+            ListHeaderComponent={header}
+            onScrollToIndexFailed={(info) => {
+              // rows aren't measured yet: jump close, then retry once they render
+              listRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: true });
+              setTimeout(() => listRef.current?.scrollToIndex({ index: info.index, viewPosition: 0.1 }), 250);
+            }}
             keyExtractor={(i) => i.id}
-            contentContainerStyle={{ paddingHorizontal: 16, paddingBottom: Platform.OS === "ios" ? 28 : 18 }}
+            contentContainerStyle={{ paddingBottom: Platform.OS === "ios" ? 28 : 18 }}
             ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
-            renderItem={({ item }) => <Row item={item} />}
+            renderItem={({ item }) => (
+              <View style={{ paddingHorizontal: 16 }}>
+                <Row item={item} />
+              </View>
+            )}
             ListEmptyComponent={
               <View style={{ paddingVertical: 40, alignItems: "center", gap: 6 }}>
                 <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>
@@ -329,6 +793,12 @@ export default function ChillerLogsScreen() {
           />
         )}
       </Animated.View>
+
+      <AmendSheet
+        log={amending}
+        current={amendingValues}
+        onClose={() => setAmending(null)}
+      />
     </View>
   );
 }
\ No newline at end of file
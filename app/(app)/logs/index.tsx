@@ -16,8 +16,9 @@ import { router } from "expo-router";
 import { collection, onSnapshot, query, where } from "firebase/firestore";
 import { db } from "../../../src/firebase/firebaseConfig";
 import { useAuth } from "../../../src/context/AuthContext";
+import { rememberChillers } from "../../../src/firebase/outbox";
 
-type Branch = { id: string; name: string; isActive: boolean; ownerId: string };
+type Branch = { id: string; name: string; isActive: boolean; orgId: string };
 
 type LastReading = {
   tempC?: number;
@@ -28,7 +29,7 @@ type LastReading = {
 
 type Chiller = {
   id: string;
-  ownerId: string;
+  orgId: string;
   name: string;
   branchId: string;
   minTemp?: number | null;
@@ -83,7 +84,7 @@ function statusLabel(s?: LastReading["status"]) {
 }
 
 export default function LogsHome() {
-  const { user, loading } = useAuth();
+  const { user, loading, orgId, branchIds, canAccessBranch } = useAuth();
 
   const [branchesLoading, setBranchesLoading] = useState(true);
   const [branches, setBranches] = useState<Branch[]>([]);
@@ -107,14 +108,14 @@ export default function LogsHome() {
   }, [anim]);
 
   // -------------------------
-  // Load branches (owner only) — no orderBy -> no index requirement
+  // Load branches (org's, assigned only for staff) — no orderBy -> no index requirement
   // -------------------------
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     setBranchesLoading(true);
 
-    const q1 = query(collection(db, "branches"), where("ownerId", "==", user.uid));
+    const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
 
     const unsub = onSnapshot(
       q1,
@@ -125,11 +126,11 @@ export default function LogsHome() {
             id: d.id,
             name: v.name ?? "",
             isActive: v.isActive ?? true,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
           };
         });
 
-        const active = data.filter((b) => b.isActive);
+        const active = data.filter((b) => b.isActive && canAccessBranch(b.id));
         active.sort((a, b) => String(a.name).localeCompare(String(b.name)));
 
         setBranches(active);
@@ -158,13 +159,13 @@ export default function LogsHome() {
 
     return () => unsub();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, orgId, branchIds]);
 
   // -------------------------
-  // Load chillers for selected branch (owner only) — no orderBy -> no index
+  // Load chillers for selected branch — no orderBy -> no index
   // -------------------------
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     if (!selectedBranchId) {
       setChillers([]);
@@ -176,7 +177,7 @@ export default function LogsHome() {
 
     const q2 = query(
       collection(db, "chillers"),
-      where("ownerId", "==", user.uid),
+      where("orgId", "==", orgId),
       where("branchId", "==", selectedBranchId)
     );
 
@@ -187,7 +188,7 @@ export default function LogsHome() {
           const v = d.data() as any;
           return {
             id: d.id,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
             name: v.name ?? "",
             branchId: v.branchId ?? "",
             minTemp: v.minTemp ?? null,
@@ -204,6 +205,7 @@ export default function LogsHome() {
 
         setChillers(activeOnly);
         setChillersLoading(false);
+        rememberChillers(activeOnly);
       },
       (err) => {
         setChillersLoading(false);
@@ -212,7 +214,7 @@ export default function LogsHome() {
     );
 
     return () => unsub();
-  }, [selectedBranchId, user]);
+  }, [selectedBranchId, user, orgId]);
 
   const selectedBranchName = useMemo(() => {
     return branches.find((b) => b.id === selectedBranchId)?.name || "Select branch";
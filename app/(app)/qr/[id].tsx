@@ -25,7 +25,7 @@ const C = {
 
 type Chiller = {
   id: string;
-  ownerId: string;
+  orgId: string;
   name: string;
   branchId: string;
   isActive: boolean;
@@ -53,7 +53,7 @@ export default function QrDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const chillerId = String(id || "");
 
-  const { user, loading } = useAuth();
+  const { user, loading, orgId, canAccessBranch } = useAuth();
 
   const [pageLoading, setPageLoading] = useState(true);
   const [busy, setBusy] = useState(false);
@@ -67,7 +67,7 @@ export default function QrDetailScreen() {
 
   useEffect(() => {
     const run = async () => {
-      if (!user || !chillerId) return;
+      if (!user || !orgId || !chillerId) return;
 
       try {
         setPageLoading(true);
@@ -83,15 +83,15 @@ export default function QrDetailScreen() {
 
         const v = snap.data() as any;
 
-        if (v.ownerId !== user.uid) {
-          Alert.alert("Access denied", "This chiller is not yours.");
+        if (v.orgId !== orgId || !canAccessBranch(v.branchId)) {
+          Alert.alert("Access denied", "This chiller is not in your branches.");
           router.back();
           return;
         }
 
         setChiller({
           id: snap.id,
-          ownerId: v.ownerId ?? "",
+          orgId: v.orgId ?? "",
           name: v.name ?? "",
           branchId: v.branchId ?? "",
           isActive: v.isActive ?? true,
@@ -104,7 +104,8 @@ export default function QrDetailScreen() {
     };
 
     run();
-  }, [user, chillerId]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId, chillerId]);
 
   const qrValue = useMemo(() => buildChillerQrValue(chillerId), [chillerId]);
 
@@ -17,7 +17,7 @@ const C = {
 
 type Chiller = {
   id: string;
-  ownerId: string;
+  orgId: string;
   name: string;
   branchId: string;
   isActive: boolean;
@@ -36,7 +36,7 @@ function safeTime(v: any): number {
 }
 
 export default function GetQrHome() {
-  const { user, loading } = useAuth();
+  const { user, loading, orgId, canAccessBranch } = useAuth();
   const [listLoading, setListLoading] = useState(true);
   const [items, setItems] = useState<Chiller[]>([]);
 
@@ -45,13 +45,13 @@ export default function GetQrHome() {
   }, [loading, user]);
 
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     setListLoading(true);
 
     const q1 = query(
       collection(db, "chillers"),
-      where("ownerId", "==", user.uid)
+      where("orgId", "==", orgId)
       // no orderBy to avoid index requirement; sort locally
     );
 
@@ -62,7 +62,7 @@ export default function GetQrHome() {
           const v = d.data() as any;
           return {
             id: d.id,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
             name: v.name ?? "Unnamed",
             branchId: v.branchId ?? "",
             isActive: v.isActive ?? true,
@@ -71,7 +71,7 @@ export default function GetQrHome() {
         });
 
         data.sort((a, b) => safeTime(b.createdAt) - safeTime(a.createdAt));
-        setItems(data.filter((x) => x.isActive));
+        setItems(data.filter((x) => x.isActive && canAccessBranch(x.branchId)));
         setListLoading(false);
       },
       (err) => {
@@ -81,7 +81,8 @@ export default function GetQrHome() {
     );
 
     return () => unsub();
-  }, [user]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId]);
 
   const count = useMemo(() => items.length, [items]);
 
@@ -13,9 +13,38 @@ import {
   Platform,
 } from "react-native";
 
-import { collection, getDocs, limit, onSnapshot, query, where } from "firebase/firestore";
+import { Timestamp, collection, doc, getDocs, onSnapshot, query, where } from "firebase/firestore";
 import { useAuth } from "../../../src/context/AuthContext";
 import { db } from "../../../src/firebase/firebaseConfig";
+import {
+  getReportPage,
+  getReportSummary,
+  signReportExport,
+  type ReportCursor,
+  type ReportQuery,
+  type ReportRow,
+  type ReportSummary,
+  type SignedExport,
+} from "../../../src/firebase/functionsClient";
+import { RECHECK_MINUTES } from "../../../src/firebase/push";
+import {
+  describeChanges,
+  effectiveValues,
+  groupByLog,
+  normalizeAmendment,
+  type LogAmendment,
+} from "../../../src/utils/amendments";
+import {
+  MAX_INTERPOLATION_MINUTES,
+  chillerAnalytics,
+  formatMinutes,
+  type ChillerAnalytics,
+} from "../../../src/utils/analytics";
+import { buildHaccpSheets, haccpHtml, type HaccpReading } from "../../../src/utils/haccp";
+import { MAX_EMBEDDED_PHOTOS, loadPhotoDataUris, type EmbeddedPhoto } from "../../../src/utils/photoEmbed";
+import { buildVerifyQrValue } from "../../../src/utils/qr";
+import { buildXlsxBase64, type XlsxSheet } from "../../../src/utils/xlsx";
+import { deviceTimeZone, effectiveSchedule } from "../../../src/utils/schedule";
 
 import * as FileSystem from "expo-file-system";
 import { writeAsStringAsync } from "expo-file-system";
@@ -24,16 +53,29 @@ import * as Sharing from "expo-sharing";
 
 // ✅ calendar picker
 import { Calendar } from "react-native-calendars";
+import QRCode from "react-native-qrcode-svg";
 
 type Status = "ok" | "warning" | "damaged";
-type SheetKind = "branch" | "chiller" | "status" | null;
+type SheetKind = "branch" | "chiller" | "status" | "template" | null;
 
-type Branch = { id: string; ownerId: string; name: string; isActive: boolean };
-type Chiller = { id: string; ownerId: string; name: string; branchId: string; isActive: boolean };
+// "table" = every reading in one list, "haccp" = monthly record sheet per chiller
+type PdfTemplate = "table" | "haccp";
+
+type Branch = { id: string; orgId: string; name: string; isActive: boolean; timezone?: string; schedule?: any };
+type Chiller = {
+  id: string;
+  orgId: string;
+  name: string;
+  branchId: string;
+  isActive: boolean;
+  minTemp?: number | null;
+  maxTemp?: number | null;
+  schedule?: any;
+};
 
 type TempLog = {
   id: string;
-  ownerId: string;
+  orgId: string;
   chillerId: string;
   branchId: string;
   tempC: number;
@@ -44,12 +86,97 @@ type TempLog = {
   photoPath?: string | null;
   createdBy: string;
   createdAt?: any;
+  capturedAt?: any;
+  recheckOf?: string | null; // the excursion this reading re-checks
+
+  // corrections (values above are the ones in force)
+  original?: { tempC: number; humidity: number | null; status: Status; note: string };
+  amendments?: LogAmendment[];
+};
+
+type MissedCheck = {
+  id: string;
+  chillerId: string;
+  chillerName: string;
+  time: string;
+  slotAt?: any;
+};
+
+// How an excursion was followed up: "resolved" = a re-check came back in range
+type RecheckOutcome = { result: "resolved" | "unresolved" | "none"; minutes: number | null };
+
+// `merged` = every loaded reading with corrections applied, before the chiller / status filters
+type ReportView = { filtered: TempLog[]; rechecks: Map<string, RecheckOutcome>; merged: TempLog[] };
+
+// correctiveActions/{logId}
+type CorrectiveAction = {
+  logId: string;
+  status: "open" | "closed";
+  action: string;
+  productDiscarded: boolean | null;
+  quantity: string;
+  recheckTempC: number | null;
+  recheckStatus: Status | null;
+  closedByName: string;
+  closedAt?: any;
 };
 
 type PickerOption = { key: string; label: string; subLabel?: string };
 
+// dailyStats/{chillerId}_{date}: what the "All branches" comparison is built from
+type DayRollup = {
+  branchId: string;
+  chillerId: string;
+  chillerName: string;
+  count: number;
+  ok: number;
+  excursions: number;
+  missed: number;
+};
+
+type ChillerScore = {
+  chillerId: string;
+  name: string;
+  readings: number;
+  excursions: number;
+  missed: number;
+  compliance: number | null;
+};
+
+type BranchComparison = {
+  branchId: string;
+  name: string;
+  chillers: number;
+  readings: number;
+  excursions: number;
+  missed: number;
+  compliance: number | null;
+  worst: ChillerScore[];
+};
+
 const STATUS_OPTIONS: Array<"all" | Status> = ["all", "ok", "warning", "damaged"];
 
+const ALL_BRANCHES = "all";
+
+// worst chillers listed per branch in the comparison
+const WORST_CHILLERS = 3;
+
+const TEMPLATE_OPTIONS: PickerOption[] = [
+  { key: "table", label: "Table", subLabel: "Every reading in one list" },
+  { key: "haccp", label: "HACCP monthly sheet", subLabel: "One page per chiller, day x check time, sign-off" },
+];
+
+// readings per page on screen / per request while exporting
+const PAGE_SIZE = 200;
+const EXPORT_PAGE_SIZE = 500;
+
+// how long an export may take before we give up waiting on it
+const EXPORT_TIMEOUT_MS = 15000;
+const PHOTO_EXPORT_TIMEOUT_MS = 120000;
+
+// photos of the worst readings are embedded first when there are more than the cap
+const STATUS_RANK: Record<Status, number> = { damaged: 0, warning: 1, ok: 2 };
+
 // ✅ DESIGN TOKENS (your palette)
 const C = {
   bg: "#0F172A",
@@ -85,6 +212,97 @@ function parseDateInputValue(s: string) {
   return new Date(y, m - 1, d, 0, 0, 0, 0);
 }
 
+function rowToLog(r: ReportRow): TempLog {
+  return {
+    id: r.id,
+    orgId: "",
+    chillerId: r.chillerId,
+    branchId: r.branchId,
+    tempC: r.tempC,
+    humidity: r.humidity,
+    status: r.status,
+    note: r.note,
+    photoUrl: r.photoUrl,
+    photoPath: r.photoPath,
+    createdBy: r.createdBy,
+    createdAt: r.createdAt == null ? null : Timestamp.fromMillis(r.createdAt),
+    capturedAt: r.capturedAt == null ? null : Timestamp.fromMillis(r.capturedAt),
+    recheckOf: r.recheckOf,
+  };
+}
+
+// "Re-check: resolved after 12 min (late)"
+function recheckLabel(o: RecheckOutcome) {
+  if (o.result === "none") return "Re-check: none recorded";
+  const late = o.minutes != null && o.minutes > RECHECK_MINUTES ? " (late)" : "";
+  const after = o.minutes == null ? "" : ` after ${o.minutes} min`;
+  return `Re-check: ${o.result === "resolved" ? "resolved" : "still out of range"}${after}${late}`;
+}
+
+function csvEscape(val: any) {
+  const s = val == null ? "" : String(val);
+  const needs = s.includes(",") || s.includes('"') || s.includes("\n");
+  const escaped = s.replace(/"/g, '""');
+  return needs ? `"${escaped}"` : escaped;
+}
+
+// share of checks (readings + missed) that were taken and in range
+function complianceOf(ok: number, readings: number, missed: number) {
+  return readings + missed > 0 ? ok / (readings + missed) : null;
+}
+
+function pct(v: number | null) {
+  return v == null ? "—" : `${Math.round(v * 1000) / 10}%`;
+}
+
+// per branch totals + its worst chillers (most excursions + missed checks); lowest compliance first
+function compareBranches(rollups: DayRollup[], branches: Branch[]): BranchComparison[] {
+  return branches
+    .map((b) => {
+      const byChiller = new Map<string, ChillerScore & { ok: number }>();
+      rollups
+        .filter((r) => r.branchId === b.id)
+        .forEach((r) => {
+          const c = byChiller.get(r.chillerId) ?? {
+            chillerId: r.chillerId,
+            name: r.chillerName || r.chillerId,
+            readings: 0,
+            ok: 0,
+            excursions: 0,
+            missed: 0,
+            compliance: null,
+          };
+          c.readings += r.count;
+          c.ok += r.ok;
+          c.excursions += r.excursions;
+          c.missed += r.missed;
+          byChiller.set(r.chillerId, c);
+        });
+
+      const chillers = [...byChiller.values()].map((c) => ({
+        ...c,
+        compliance: complianceOf(c.ok, c.readings, c.missed),
+      }));
+      const sum = (k: "readings" | "ok" | "excursions" | "missed") => chillers.reduce((n, c) => n + c[k], 0);
+
+      return {
+        branchId: b.id,
+        name: b.name,
+        chillers: chillers.length,
+        readings: sum("readings"),
+        excursions: sum("excursions"),
+        missed: sum("missed"),
+        compliance: complianceOf(sum("ok"), sum("readings"), sum("missed")),
+        worst: chillers
+          .filter((c) => c.excursions + c.missed > 0)
+          .sort((a, c) => c.excursions + c.missed - (a.excursions + a.missed))
+          .slice(0, WORST_CHILLERS)
+          .map(({ ok: _ok, ...c }) => c),
+      };
+    })
+    .sort((a, b) => (a.compliance ?? 2) - (b.compliance ?? 2) || a.name.localeCompare(b.name));
+}
+
 // ✅ iOS-style bottom sheet picker (no libs)
 function BottomSheetPicker({
   open,
@@ -517,7 +735,7 @@ function FilterPill({
 }
 
 export default function Reports() {
-  const { user, profile, loading } = useAuth();
+  const { user, profile, loading, orgId, branchIds, canAccessBranch, can } = useAuth();
 
   // AUTH GATE
   useEffect(() => {
@@ -528,6 +746,9 @@ export default function Reports() {
   const [branchesLoading, setBranchesLoading] = useState(true);
   const [branches, setBranches] = useState<Branch[]>([]);
   const [selectedBranchId, setSelectedBranchId] = useState<string>("");
+  const allBranches = selectedBranchId === ALL_BRANCHES;
+  const [rollups, setRollups] = useState<DayRollup[]>([]);
+  const [rollupsLoading, setRollupsLoading] = useState(false);
 
   const [chillersLoading, setChillersLoading] = useState(true);
   const [chillers, setChillers] = useState<Chiller[]>([]);
@@ -537,8 +758,22 @@ export default function Reports() {
 
   const [logsLoading, setLogsLoading] = useState(true);
   const [logs, setLogs] = useState<TempLog[]>([]);
+  const [nextCursor, setNextCursor] = useState<ReportCursor | null>(null);
+  const [pageLoading, setPageLoading] = useState(false);
+  const [summary, setSummary] = useState<ReportSummary | null>(null);
+  const [missed, setMissed] = useState<MissedCheck[]>([]);
+  const [amendments, setAmendments] = useState<Map<string, LogAmendment[]>>(new Map());
+  const [actions, setActions] = useState<Map<string, CorrectiveAction>>(new Map());
+  const [orgName, setOrgName] = useState("");
+  const [memberNames, setMemberNames] = useState<Map<string, string>>(new Map());
+  const [pdfTemplate, setPdfTemplate] = useState<PdfTemplate>("table");
+  const [embedPhotos, setEmbedPhotos] = useState(false);
 
   const [exporting, setExporting] = useState(false);
+
+  // hidden QR rendered off-screen so signed PDFs can carry it as an image
+  const verifyQrRef = useRef<any>(null);
+  const [verifyQrValue, setVerifyQrValue] = useState("");
   const [sheet, setSheet] = useState<SheetKind>(null);
 
   // ✅ NEW: calendar modal open/close
@@ -591,10 +826,25 @@ export default function Reports() {
     await Promise.race([Sharing.shareAsync(uri), sleep(8000)]);
   };
 
-  const runExport = async (fn: () => Promise<void>) => {
+  const runExport = async (fn: (view: ReportView) => Promise<void>, timeoutMs = EXPORT_TIMEOUT_MS) => {
     if (exporting) return;
     setExporting(true);
 
+    // exports always cover the whole range, not just the pages on screen
+    let view: ReportView;
+    try {
+      const all = await fetchRemaining(logs, nextCursor);
+      if (all.list !== logs) {
+        setLogs(all.list);
+        setNextCursor(all.cursor);
+      }
+      view = buildView(all.list);
+    } catch (e: any) {
+      setExporting(false);
+      Alert.alert("Export failed", e?.message || "Failed to load readings");
+      return;
+    }
+
     let timedOut = false;
     const timer = setTimeout(() => {
       timedOut = true;
@@ -603,10 +853,10 @@ export default function Reports() {
         "Export timeout",
         "Sharing took too long (common on iOS Simulator). The file may still be created.",
       );
-    }, 15000);
+    }, timeoutMs);
 
     try {
-      await fn();
+      await fn(view);
     } catch (e: any) {
       Alert.alert("Export failed", e?.message || "Export failed");
     } finally {
@@ -617,16 +867,37 @@ export default function Reports() {
 
   const createdByName = (uid: string) => {
     if (user?.uid && uid === user.uid) return profile?.name || user.email || uid;
-    return uid || "—";
+    return memberNames.get(uid) || uid || "—";
   };
 
+  // ✅ LOAD ORG (name + member names for "who logged")
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    const unsub = onSnapshot(
+      doc(db, "orgs", orgId),
+      (snap) => {
+        const v = (snap.data() ?? {}) as any;
+        const names = new Map<string, string>();
+        Object.entries(v.members ?? {}).forEach(([uid, m]: [string, any]) => {
+          names.set(uid, m?.name || m?.email || "");
+        });
+        setOrgName(v.name ?? "");
+        setMemberNames(names);
+      },
+      (err) => console.log(err),
+    );
+
+    return () => unsub();
+  }, [user, orgId]);
+
   // ✅ LOAD BRANCHES (LIVE)
   useEffect(() => {
-    if (!user) return;
+    if (!user || !orgId) return;
 
     setBranchesLoading(true);
 
-    const q1 = query(collection(db, "branches"), where("ownerId", "==", user.uid));
+    const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
 
     const unsub = onSnapshot(
       q1,
@@ -635,21 +906,25 @@ export default function Reports() {
           const v = d.data() as any;
           return {
             id: d.id,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
             name: v.name ?? "",
             isActive: v.isActive ?? true,
+            timezone: v.timezone ?? "",
+            schedule: v.schedule ?? null,
           };
         });
 
         data.sort((a, b) => safeTime((b as any).createdAt) - safeTime((a as any).createdAt));
 
-        const active = data.filter((b) => b.isActive);
+        const active = data.filter((b) => b.isActive && canAccessBranch(b.id));
         setBranches(active);
         setBranchesLoading(false);
 
         if (active.length === 0) setSelectedBranchId("");
         else if (!selectedBranchId) setSelectedBranchId(active[0].id);
-        else if (!active.some((b) => b.id === selectedBranchId)) setSelectedBranchId(active[0].id);
+        else if (selectedBranchId === ALL_BRANCHES) {
+          if (active.length < 2) setSelectedBranchId(active[0].id);
+        } else if (!active.some((b) => b.id === selectedBranchId)) setSelectedBranchId(active[0].id);
       },
       (err) => {
         setBranchesLoading(false);
@@ -659,14 +934,14 @@ export default function Reports() {
 
     return () => unsub();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user]);
+  }, [user, orgId]);
 
   // ✅ LOAD CHILLERS (BY BRANCH)
   useEffect(() => {
     const run = async () => {
-      if (!user) return;
+      if (!user || !orgId) return;
 
-      if (!selectedBranchId) {
+      if (!selectedBranchId || selectedBranchId === ALL_BRANCHES) {
         setChillers([]);
         setSelectedChillerId("all");
         setChillersLoading(false);
@@ -678,7 +953,7 @@ export default function Reports() {
 
         const q2 = query(
           collection(db, "chillers"),
-          where("ownerId", "==", user.uid),
+          where("orgId", "==", orgId),
           where("branchId", "==", selectedBranchId),
         );
 
@@ -688,10 +963,13 @@ export default function Reports() {
             const v = d.data() as any;
             return {
               id: d.id,
-              ownerId: v.ownerId ?? "",
+              orgId: v.orgId ?? "",
               name: v.name ?? "",
               branchId: v.branchId ?? "",
               isActive: v.isActive ?? true,
+              minTemp: v.minTemp ?? null,
+              maxTemp: v.maxTemp ?? null,
+              schedule: v.schedule ?? null,
             };
           })
           .filter((c) => c.isActive);
@@ -711,83 +989,356 @@ export default function Reports() {
     };
 
     run();
-  }, [user, selectedBranchId, selectedChillerId]);
+  }, [user, orgId, selectedBranchId, selectedChillerId]);
+
+  // ✅ LOAD LOGS (server pages, bounded by the date range)
+  const reportQuery = useMemo<ReportQuery | null>(() => {
+    const fromD = parseDateInputValue(dateFrom);
+    const toD = parseDateInputValue(dateTo);
+    if (!orgId || !selectedBranchId || allBranches || !fromD || !toD) return null;
+    return {
+      orgId,
+      branchId: selectedBranchId,
+      chillerId: selectedChillerId === "all" ? null : selectedChillerId,
+      from: fromD.getTime(),
+      to: toD.getTime() + 24 * 60 * 60 * 1000 - 1,
+    };
+  }, [orgId, selectedBranchId, allBranches, selectedChillerId, dateFrom, dateTo]);
+
+  // ignores pages that arrive after the filters changed
+  const reportSeq = useRef(0);
 
-  // ✅ LOAD LOGS (LIVE)
   useEffect(() => {
     if (!user) return;
 
-    if (!selectedBranchId) {
-      setLogs([]);
+    const seq = ++reportSeq.current;
+    setLogs([]);
+    setNextCursor(null);
+    setSummary(null);
+
+    if (!reportQuery) {
       setLogsLoading(false);
       return;
     }
 
     setLogsLoading(true);
 
-    const q3 = query(
-      collection(db, "tempLogs"),
-      where("ownerId", "==", user.uid),
+    getReportPage({ ...reportQuery, pageSize: PAGE_SIZE })
+      .then((page) => {
+        if (seq !== reportSeq.current) return;
+        setLogs(page.rows.map(rowToLog));
+        setNextCursor(page.nextCursor);
+      })
+      .catch((e: any) => {
+        if (seq === reportSeq.current) Alert.alert("Error", e?.message || "Failed to load readings");
+      })
+      .finally(() => {
+        if (seq === reportSeq.current) setLogsLoading(false);
+      });
+
+    getReportSummary(reportQuery)
+      .then((res) => {
+        if (seq === reportSeq.current) setSummary(res);
+      })
+      .catch((e: any) => console.log("getReportSummary error:", e?.message));
+  }, [user, reportQuery]);
+
+  // pages until `cursor` runs out; returns everything loaded so far plus the rest
+  const fetchRemaining = async (loaded: TempLog[], cursor: ReportCursor | null) => {
+    if (!reportQuery) return { list: loaded, cursor: null };
+
+    const seq = reportSeq.current;
+    let list = loaded;
+    let next = cursor;
+    while (next) {
+      const page = await getReportPage({ ...reportQuery, cursor: next, pageSize: EXPORT_PAGE_SIZE });
+      if (seq !== reportSeq.current) throw new Error("Filters changed while loading. Please try again.");
+      list = list.concat(page.rows.map(rowToLog));
+      next = page.nextCursor;
+    }
+    return { list, cursor: next };
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || !reportQuery || pageLoading) return;
+
+    const seq = reportSeq.current;
+    try {
+      setPageLoading(true);
+      const page = await getReportPage({ ...reportQuery, cursor: nextCursor, pageSize: PAGE_SIZE });
+      if (seq !== reportSeq.current) return;
+      setLogs((cur) => cur.concat(page.rows.map(rowToLog)));
+      setNextCursor(page.nextCursor);
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to load more readings");
+    } finally {
+      setPageLoading(false);
+    }
+  };
+
+  // ✅ LOAD CORRECTIONS (LIVE)
+  useEffect(() => {
+    if (!user || !orgId || !selectedBranchId || allBranches) {
+      setAmendments(new Map());
+      return;
+    }
+
+    const q5 = query(
+      collection(db, "logAmendments"),
+      where("orgId", "==", orgId),
+      where("branchId", "==", selectedBranchId),
+    );
+
+    const unsub = onSnapshot(
+      q5,
+      (snap) => setAmendments(groupByLog(snap.docs.map((d) => normalizeAmendment(d.id, d.data())))),
+      (err) => console.log(err),
+    );
+
+    return () => unsub();
+  }, [user, orgId, selectedBranchId, allBranches]);
+
+  // ✅ LOAD CORRECTIVE ACTIONS (LIVE)
+  useEffect(() => {
+    if (!user || !orgId || !selectedBranchId || allBranches) {
+      setActions(new Map());
+      return;
+    }
+
+    const q6 = query(
+      collection(db, "correctiveActions"),
+      where("orgId", "==", orgId),
       where("branchId", "==", selectedBranchId),
-      limit(500),
     );
 
     const unsub = onSnapshot(
-      q3,
+      q6,
       (snap) => {
-        const data: TempLog[] = snap.docs.map((d) => {
+        const byLog = new Map<string, CorrectiveAction>();
+        snap.docs.forEach((d) => {
           const v = d.data() as any;
-          return {
-            id: d.id,
-            ownerId: v.ownerId ?? "",
-            chillerId: v.chillerId,
-            branchId: v.branchId,
-            tempC: v.tempC,
-            humidity: v.humidity ?? null,
-            status: v.status,
-            note: v.note ?? "",
-            photoUrl: v.photoUrl ?? null,
-            photoPath: v.photoPath ?? null,
-            createdBy: v.createdBy ?? "",
-            createdAt: v.createdAt,
-          };
+          byLog.set(d.id, {
+            logId: d.id,
+            status: v.status === "closed" ? "closed" : "open",
+            action: v.action ?? "",
+            productDiscarded: typeof v.productDiscarded === "boolean" ? v.productDiscarded : null,
+            quantity: v.quantity ?? "",
+            recheckTempC: v.recheckTempC ?? null,
+            recheckStatus: v.recheckStatus ?? null,
+            closedByName: v.closedByName ?? "",
+            closedAt: v.closedAt,
+          });
         });
+        setActions(byLog);
+      },
+      (err) => console.log(err),
+    );
 
-        data.sort((a, b) => safeTime(b.createdAt) - safeTime(a.createdAt));
+    return () => unsub();
+  }, [user, orgId, selectedBranchId, allBranches]);
+
+  // ✅ LOAD DAILY ROLLUPS (LIVE, "All branches" only; dates are branch-local like dateFrom/dateTo)
+  useEffect(() => {
+    if (!user || !orgId || !allBranches) {
+      setRollups([]);
+      return;
+    }
+
+    // rules only let managers read their own branches
+    if (branchIds && branchIds.length === 0) {
+      setRollups([]);
+      return;
+    }
+    const scope = branchIds ? [where("branchId", "in", branchIds)] : [];
+
+    setRollupsLoading(true);
 
-        setLogs(data);
-        setLogsLoading(false);
+    const q7 = query(
+      collection(db, "dailyStats"),
+      where("orgId", "==", orgId),
+      ...scope,
+      where("date", ">=", dateFrom),
+      where("date", "<=", dateTo),
+    );
+
+    const unsub = onSnapshot(
+      q7,
+      (snap) => {
+        const data: DayRollup[] = snap.docs
+          .map((d) => d.data() as any)
+          .filter((v) => canAccessBranch(v.branchId))
+          .map((v) => ({
+            branchId: v.branchId ?? "",
+            chillerId: v.chillerId ?? "",
+            chillerName: v.chillerName ?? "",
+            count: v.count ?? 0,
+            ok: v.ok ?? 0,
+            excursions: v.excursions ?? 0,
+            missed: v.missed ?? 0,
+          }));
+        setRollups(data);
+        setRollupsLoading(false);
       },
       (err) => {
-        setLogsLoading(false);
-        Alert.alert("Error", err.message);
+        setRollupsLoading(false);
+        Alert.alert("Error", err.message || "Failed to load branch summaries");
+      },
+    );
+
+    return () => unsub();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId, branchIds, allBranches, dateFrom, dateTo]);
+
+  const comparison = useMemo(() => compareBranches(rollups, branches), [rollups, branches]);
+
+  // ✅ LOAD MISSED CHECKS (LIVE, same date range as the readings)
+  useEffect(() => {
+    if (!user || !reportQuery) {
+      setMissed([]);
+      return;
+    }
+
+    const q4 = query(
+      collection(db, "missedChecks"),
+      where("orgId", "==", reportQuery.orgId),
+      where("branchId", "==", reportQuery.branchId),
+      where("slotAt", ">=", Timestamp.fromMillis(reportQuery.from)),
+      where("slotAt", "<=", Timestamp.fromMillis(reportQuery.to)),
+    );
+
+    const unsub = onSnapshot(
+      q4,
+      (snap) => {
+        const data: MissedCheck[] = snap.docs
+          .map((d) => ({ id: d.id, ...(d.data() as any) }))
+          .filter((v: any) => v.status === "missed")
+          .map((v: any) => ({
+            id: v.id,
+            chillerId: v.chillerId ?? "",
+            chillerName: v.chillerName ?? "",
+            time: v.time ?? "",
+            slotAt: v.slotAt,
+          }));
+
+        data.sort((a, b) => safeTime(b.slotAt) - safeTime(a.slotAt));
+        setMissed(data);
       },
+      (err) => console.log(err),
     );
 
     return () => unsub();
-  }, [user, selectedBranchId]);
+  }, [user, reportQuery]);
 
-  const branchName = branches.find((b) => b.id === selectedBranchId)?.name || "Select branch";
+  const branchName = allBranches
+    ? "All branches"
+    : branches.find((b) => b.id === selectedBranchId)?.name || "Select branch";
   const chillerName = (id: string) => chillers.find((c) => c.id === id)?.name || id;
 
-  // FILTERED LOGS (custom date range + status + chiller)
-  const filtered = useMemo(() => {
-    const fromD = parseDateInputValue(dateFrom);
-    const toD = parseDateInputValue(dateTo);
-    const fromMs = fromD ? fromD.getTime() : 0;
-    const toMs = toD ? toD.getTime() + 24 * 60 * 60 * 1000 - 1 : Number.MAX_SAFE_INTEGER;
-
-    return logs.filter((l) => {
-      const dt = l.createdAt?.toDate?.() ? l.createdAt.toDate().getTime() : 0;
-      if (dt && (dt < fromMs || dt > toMs)) return false;
-      if (selectedChillerId !== "all" && l.chillerId !== selectedChillerId) return false;
-      if (statusFilter !== "all" && l.status !== statusFilter) return false;
-      return true;
+  // apply corrections first so filters + exports see the values in force
+  const mergeCorrections = (list: TempLog[]): TempLog[] =>
+    list.map((l) => {
+      const history = amendments.get(l.id);
+      if (!history || history.length === 0) return l;
+      return {
+        ...l,
+        ...effectiveValues(l, history),
+        original: { tempC: l.tempC, humidity: l.humidity ?? null, status: l.status, note: l.note ?? "" },
+        amendments: history,
+      };
+    });
+
+  // ✅ RE-CHECKS: every excursion -> did a linked re-check come back in range, and how soon
+  // (built from all loaded logs, so a status filter doesn't hide the re-check)
+  const recheckOutcomes = (merged: TempLog[]) => {
+    const takenAt = (l: TempLog) => safeTime(l.capturedAt) || safeTime(l.createdAt);
+
+    const byOriginal = new Map<string, TempLog[]>();
+    merged.forEach((l) => {
+      if (!l.recheckOf) return;
+      byOriginal.set(l.recheckOf, [...(byOriginal.get(l.recheckOf) ?? []), l]);
+    });
+
+    const out = new Map<string, RecheckOutcome>();
+    merged.forEach((l) => {
+      if (l.status === "ok") return;
+      const list = (byOriginal.get(l.id) ?? []).sort((a, b) => takenAt(a) - takenAt(b));
+      if (list.length === 0) {
+        out.set(l.id, { result: "none", minutes: null });
+        return;
+      }
+      const ok = list.find((r) => r.status === "ok");
+      const ref = ok ?? list[list.length - 1];
+      out.set(l.id, {
+        result: ok ? "resolved" : "unresolved",
+        minutes: Math.max(0, Math.round((takenAt(ref) - takenAt(l)) / 60000)),
+      });
     });
-  }, [logs, dateFrom, dateTo, selectedChillerId, statusFilter]);
+    return out;
+  };
+
+  // what the list and the exports show for a set of loaded logs (the server already applied the date range)
+  const buildView = (list: TempLog[]): ReportView => {
+    const merged = mergeCorrections(list);
+    return {
+      filtered: merged.filter((l) => {
+        if (selectedChillerId !== "all" && l.chillerId !== selectedChillerId) return false;
+        if (statusFilter !== "all" && l.status !== statusFilter) return false;
+        return true;
+      }),
+      rechecks: recheckOutcomes(merged),
+      merged,
+    };
+  };
+
+  const { filtered, rechecks, merged } = useMemo(
+    () => buildView(logs),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [logs, amendments, selectedChillerId, statusFilter],
+  );
+
+  // ✅ ANALYTICS: MKT + time out of range per chiller, from every reading whatever the status filter
+  const analyticsFor = (list: TempLog[]) =>
+    chillerAnalytics(
+      chillers
+        .filter((c) => selectedChillerId === "all" || c.id === selectedChillerId)
+        .map((c) => ({ id: c.id, minTemp: c.minTemp ?? null, maxTemp: c.maxTemp ?? null })),
+      list.map((l) => ({ chillerId: l.chillerId, at: safeTime(l.capturedAt) || safeTime(l.createdAt), tempC: l.tempC })),
+    )
+      .filter((a) => a.readings > 0)
+      .sort((a, b) => chillerName(a.chillerId).localeCompare(chillerName(b.chillerId)));
+
+  const analytics = useMemo(
+    () => analyticsFor(merged),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [merged, chillers, selectedChillerId],
+  );
+
+  const limitsText = (id: string) => {
+    const c = chillers.find((x) => x.id === id);
+    const min = c?.minTemp == null ? "—" : `${c.minTemp}°C`;
+    const max = c?.maxTemp == null ? "—" : `${c.maxTemp}°C`;
+    return `${min} to ${max}`;
+  };
+
+  const longestText = (a: ChillerAnalytics) =>
+    a.longest ? `${formatMinutes(a.longest.minutes)} ${a.longest.side} (from ${formatWhen(Timestamp.fromMillis(a.longest.start))})` : "—";
+
+  // missed checks aren't readings, so they only follow the date + chiller filters
+  const missedFiltered = useMemo(
+    () => missed.filter((m) => selectedChillerId === "all" || m.chillerId === selectedChillerId),
+    [missed, selectedChillerId],
+  );
 
   // Picker options
-  const branchOptions = useMemo(() => branches.map((b) => ({ key: b.id, label: b.name })), [branches]);
+  const branchOptions = useMemo<PickerOption[]>(
+    () => [
+      ...(branches.length > 1
+        ? [{ key: ALL_BRANCHES, label: "All branches", subLabel: "Compare branches side by side" }]
+        : []),
+      ...branches.map((b) => ({ key: b.id, label: b.name })),
+    ],
+    [branches],
+  );
 
   const chillerOptions = useMemo(() => {
     const base: PickerOption[] = [{ key: "all", label: "All chillers" }];
@@ -831,7 +1382,76 @@ export default function Reports() {
     };
   };
 
-  const buildRows = () => {
+  // ✅ SIGNED EXPORTS: the server hashes the rows this export covers and keeps the record the code points to
+  const signExport = async (format: "pdf" | "haccp", status: Status | null, rowCount: number) => {
+    if (!reportQuery) throw new Error("Pick a branch and date range first.");
+
+    const sig = await signReportExport({ ...reportQuery, status, format });
+    if (sig.rowCount !== rowCount) {
+      throw new Error("Readings changed while exporting. Please export again.");
+    }
+
+    setVerifyQrValue(buildVerifyQrValue(sig.code));
+    const qr = await new Promise<string | null>((resolve) => {
+      // give the hidden QR a moment to render the new value
+      setTimeout(() => {
+        const node = verifyQrRef.current;
+        if (!node?.toDataURL) return resolve(null);
+        try {
+          node.toDataURL((data: string) => resolve(`data:image/png;base64,${data}`));
+        } catch {
+          resolve(null);
+        }
+      }, 300);
+    });
+
+    return { sig, qr };
+  };
+
+  const verificationHtml = (sig: SignedExport, qr: string | null) => `
+    <div class="verify">
+      ${qr ? `<img src="${qr}" />` : ""}
+      <div>
+        <div><b>Verification code:</b> ${escapeHtml(sig.code)}</div>
+        <div><b>Readings signed:</b> ${sig.rowCount}</div>
+        <div class="hash"><b>SHA-256:</b> ${escapeHtml(sig.hash)}</div>
+        <div class="small">
+          Scan the code or enter it under Reports → Verify to check this export against the record kept when it
+          was created.
+        </div>
+      </div>
+    </div>
+  `;
+
+  // "#1 2026-03-01 10:00 by Sam: Temp 3°C → 4°C (reason: misread)"
+  const amendmentText = (l: TempLog) =>
+    (l.amendments ?? [])
+      .map((a) => `#${a.seq} ${formatWhen(a.amendedAt)} by ${a.amendedByName || a.amendedBy}: ${describeChanges(a)} (reason: ${a.reason})`)
+      .join(" | ");
+
+  const actionColumns = (a?: CorrectiveAction) => ({
+    ActionStatus: a ? a.status : "",
+    ActionTaken: a?.action ?? "",
+    ProductDiscarded: a?.productDiscarded == null ? "" : a.productDiscarded ? "yes" : "no",
+    Quantity: a?.quantity ?? "",
+    RecheckTempC: a?.recheckTempC ?? "",
+    RecheckStatus: a?.recheckStatus ?? "",
+    ClosedBy: a?.closedByName ?? "",
+    ClosedAt: a?.closedAt ? formatWhen(a.closedAt) : "",
+  });
+
+  // "Closed • Moved stock • discarded 4 kg • re-check 4°C (ok)"
+  const actionText = (a?: CorrectiveAction) => {
+    if (!a) return "";
+    const parts = [a.status === "closed" ? "Closed" : "OPEN"];
+    if (a.action) parts.push(a.action);
+    if (a.productDiscarded != null) parts.push(a.productDiscarded ? `discarded ${a.quantity}` : "nothing discarded");
+    if (a.recheckTempC != null) parts.push(`re-check ${a.recheckTempC}°C (${a.recheckStatus ?? "—"})`);
+    if (a.closedByName) parts.push(`by ${a.closedByName} ${formatWhen(a.closedAt)}`);
+    return parts.join(" • ");
+  };
+
+  const buildRows = ({ filtered, rechecks }: ReportView) => {
     const meta = exportMeta();
     return filtered.map((l) => ({
       ExportedBy: meta.exporter,
@@ -845,22 +1465,48 @@ export default function Reports() {
       CreatedBy: (user?.uid && l.createdBy === user.uid) ? (profile?.name || user.email || l.createdBy) : (l.createdBy || "—"),
       PhotoUrl: l.photoUrl ?? "",
       PhotoPath: l.photoPath ?? "",
+      Amended: l.amendments?.length ? "yes" : "",
+      OriginalTempC: l.original ? l.original.tempC : "",
+      OriginalStatus: l.original ? l.original.status : "",
+      Corrections: amendmentText(l),
+      RecheckResult: rechecks.get(l.id)?.result ?? "",
+      RecheckAfterMin: rechecks.get(l.id)?.minutes ?? "",
+      ...actionColumns(actions.get(l.id)),
+    }));
+  };
+
+  const buildMissedRows = () => {
+    const meta = exportMeta();
+    return missedFiltered.map((m) => ({
+      ExportedBy: meta.exporter,
+      Branch: meta.branch,
+      Chiller: m.chillerName || chillerName(m.chillerId),
+      DateTime: formatWhen(m.slotAt),
+      TempC: "",
+      Humidity: "",
+      Status: "missed",
+      Note: `No reading for the ${m.time} check`,
+      CreatedBy: "",
+      PhotoUrl: "",
+      PhotoPath: "",
+      Amended: "",
+      OriginalTempC: "",
+      OriginalStatus: "",
+      Corrections: "",
+      RecheckResult: "",
+      RecheckAfterMin: "",
+      ...actionColumns(undefined),
     }));
   };
 
-  const exportCSV = async () => {
-    if (filtered.length === 0) return Alert.alert("No data", "No records to export.");
+  const exportCSV = async (view: ReportView) => {
+    if (view.filtered.length === 0 && missedFiltered.length === 0) {
+      return Alert.alert("No data", "No records to export.");
+    }
 
-    const rows = buildRows();
+    const rows = [...buildRows(view), ...buildMissedRows()];
     const headers = Object.keys(rows[0]);
 
-    const csvEscape = (val: any) => {
-      const s = val == null ? "" : String(val);
-      const needs = s.includes(",") || s.includes('"') || s.includes("\n");
-      const escaped = s.replace(/"/g, '""');
-      return needs ? `"${escaped}"` : escaped;
-    };
-
     const lines = [headers.join(","), ...rows.map((r) => headers.map((h) => csvEscape((r as any)[h])).join(","))];
 
     const filename = `TempReports_${Date.now()}.csv`;
@@ -870,10 +1516,45 @@ export default function Reports() {
     await safeShare(uri);
   };
 
-  const exportPDF = async () => {
-    if (filtered.length === 0) return Alert.alert("No data", "No records to export.");
+  const exportPDF = async ({ filtered, rechecks, merged }: ReportView) => {
+    if (filtered.length === 0 && missedFiltered.length === 0) {
+      return Alert.alert("No data", "No records to export.");
+    }
 
     const meta = exportMeta();
+    const excursions = filtered.filter((l) => rechecks.has(l.id));
+
+    // url -> scaled photo (null = download failed); urls past the cap are missing from the map
+    const photos = embedPhotos
+      ? await loadPhotoDataUris(
+          filtered
+            .filter((l) => !!l.photoUrl)
+            .sort((a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status])
+            .map((l) => String(l.photoUrl)),
+        )
+      : new Map<string, EmbeddedPhoto | null>();
+
+    // each data URI goes into the HTML once, as a CSS class the thumbnail and the appendix share
+    const photoClass = new Map([...photos.keys()].map((url, i) => [url, `p${i}`]));
+    const photoCss = [...photos.entries()]
+      .filter(([, p]) => !!p)
+      .map(([url, p]) => `.${photoClass.get(url)} { background-image: url("${p!.uri}"); }`)
+      .join("\n");
+
+    // appendix figure numbers, in table order
+    const figures = filtered.filter((l) => l.photoUrl && photos.get(l.photoUrl));
+    const figureNo = new Map(figures.map((l, i) => [l.id, i + 1]));
+
+    const photoCell = (l: TempLog) => {
+      if (!l.photoUrl) return "";
+      if (!photos.has(l.photoUrl)) {
+        return `<div class="ph">Not embedded (first ${MAX_EMBEDDED_PHOTOS} photos only)</div>`;
+      }
+      if (!photos.get(l.photoUrl)) return `<div class="ph">Photo could not be downloaded</div>`;
+      return `<div class="thumb ${photoClass.get(l.photoUrl)}"></div><div class="small">Fig. ${figureNo.get(l.id)}</div>`;
+    };
+    const excursionsResolved = excursions.filter((l) => rechecks.get(l.id)?.result === "resolved").length;
+    const { sig, qr } = await signExport("pdf", statusFilter === "all" ? null : statusFilter, filtered.length);
 
     const css = `
       <style>
@@ -888,6 +1569,20 @@ export default function Reports() {
         .warning { color: #b45309; font-weight: 700; }
         .damaged { color: #e11d48; font-weight: 700; }
         .small { color: #777; font-size: 10px; }
+        .thumb, .fig-img {
+          background-repeat: no-repeat;
+          -webkit-print-color-adjust: exact;
+          print-color-adjust: exact;
+        }
+        .thumb { width: 72px; height: 72px; background-size: cover; background-position: center; border-radius: 4px; }
+        .fig-img { width: 100%; max-height: 640px; background-size: contain; background-position: left top; margin-bottom: 4px; }
+        ${photoCss}
+        .ph { width: 72px; padding: 6px 4px; border: 1px dashed #bbb; color: #999; font-size: 9px; text-align: center; }
+        .appendix { page-break-before: always; }
+        .fig { page-break-inside: avoid; margin-bottom: 14px; }
+        .verify { display: flex; gap: 12px; align-items: center; border: 1px solid #ddd; padding: 8px; margin-bottom: 12px; font-size: 11px; }
+        .verify img { width: 84px; height: 84px; }
+        .verify .hash { font-family: Menlo, Courier, monospace; font-size: 9.5px; word-break: break-all; }
       </style>
     `;
 
@@ -900,14 +1595,149 @@ export default function Reports() {
             <td>${escapeHtml(chillerName(l.chillerId))}</td>
             <td>${l.tempC}</td>
             <td>${l.humidity ?? ""}</td>
-            <td class="${cls}">${String(l.status).toUpperCase()}</td>
-            <td>${escapeHtml(l.note ?? "")}</td>
+            <td class="${cls}">
+              ${String(l.status).toUpperCase()}${l.amendments?.length ? " *" : ""}
+              ${rechecks.has(l.id) ? `<div class="small">${escapeHtml(recheckLabel(rechecks.get(l.id)!))}</div>` : ""}
+            </td>
+            <td>
+              ${escapeHtml(l.note ?? "")}
+              ${l.amendments?.length ? `<div class="small">Amended: ${escapeHtml(amendmentText(l))}</div>` : ""}
+            </td>
             <td>${escapeHtml(createdByName(l.createdBy))}</td>
+            <td>${escapeHtml(actionText(actions.get(l.id)))}</td>
+            ${embedPhotos ? `<td>${photoCell(l)}</td>` : ""}
           </tr>
         `;
       })
       .join("");
 
+    const missedHtml = missedFiltered.length === 0
+      ? ""
+      : `
+          <h2 style="font-size: 14px; margin: 16px 0 6px 0;">Missed checks (${missedFiltered.length})</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Scheduled</th>
+                <th>Chiller</th>
+              </tr>
+            </thead>
+            <tbody>${missedFiltered
+              .map(
+                (m) => `
+              <tr>
+                <td class="damaged">${escapeHtml(formatWhen(m.slotAt))}</td>
+                <td>${escapeHtml(m.chillerName || chillerName(m.chillerId))}</td>
+              </tr>
+            `,
+              )
+              .join("")}</tbody>
+          </table>
+        `;
+
+    const appendixHtml = figures.length === 0
+      ? ""
+      : `
+          <div class="appendix">
+            <h2 style="font-size: 14px; margin: 0 0 8px 0;">Appendix: photos (${figures.length})</h2>
+            ${figures
+              .map(
+                (l) => {
+                  const p = photos.get(String(l.photoUrl))!;
+                  return `
+              <div class="fig">
+                <div class="fig-img ${photoClass.get(String(l.photoUrl))}" style="aspect-ratio: ${p.width} / ${p.height};"></div>
+                <div class="small">
+                  Fig. ${figureNo.get(l.id)} • ${escapeHtml(chillerName(l.chillerId))} •
+                  ${escapeHtml(formatWhen(l.createdAt))} • ${l.tempC}°C •
+                  <span class="${l.status}">${String(l.status).toUpperCase()}</span>
+                </div>
+              </div>
+            `;
+                },
+              )
+              .join("")}
+          </div>
+        `;
+
+    const stats = analyticsFor(merged);
+    const analyticsHtml =
+      stats.length === 0
+        ? ""
+        : `
+          <h2 style="font-size: 14px; margin: 16px 0 6px 0;">Chiller analytics</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Chiller</th>
+                <th>Limits</th>
+                <th>Readings</th>
+                <th>MKT (°C)</th>
+                <th>Time above max</th>
+                <th>Time below min</th>
+                <th>Excursions</th>
+                <th>Longest excursion</th>
+              </tr>
+            </thead>
+            <tbody>${stats
+              .map(
+                (a) => `
+              <tr>
+                <td>${escapeHtml(chillerName(a.chillerId))}</td>
+                <td>${escapeHtml(limitsText(a.chillerId))}</td>
+                <td>${a.readings}</td>
+                <td>${a.mktC ?? "—"}</td>
+                <td class="${a.minutesAbove > 0 ? "warning" : ""}">${formatMinutes(a.minutesAbove)}</td>
+                <td class="${a.minutesBelow > 0 ? "warning" : ""}">${formatMinutes(a.minutesBelow)}</td>
+                <td>${a.excursions}</td>
+                <td>${escapeHtml(longestText(a))}</td>
+              </tr>
+            `,
+              )
+              .join("")}</tbody>
+          </table>
+          <div class="small" style="margin-top: 4px;">
+            MKT uses every reading in range (ΔH = 83.144 kJ/mol). Time out of range is interpolated linearly between
+            readings up to ${MAX_INTERPOLATION_MINUTES / 60} h apart; longer gaps are not counted.
+          </div>
+        `;
+
+    const summaryHtml = !summary || summary.days.length === 0
+      ? ""
+      : `
+          <h2 style="font-size: 14px; margin: 16px 0 6px 0;">Daily summary (${escapeHtml(summary.timezone)}${
+            summary.source === "rollup" ? ", whole days" : ""
+          })</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Chiller</th>
+                <th>Readings</th>
+                <th>Min (°C)</th>
+                <th>Max (°C)</th>
+                <th>Avg (°C)</th>
+                <th>Warning / Damaged</th>
+              </tr>
+            </thead>
+            <tbody>${summary.days
+              .map(
+                (d) => `
+              <tr>
+                <td>${escapeHtml(d.date)}</td>
+                <td>${escapeHtml(chillerName(d.chillerId))}</td>
+                <td>${d.count}</td>
+                <td>${d.minC}</td>
+                <td>${d.maxC}</td>
+                <td>${d.avgC}</td>
+                <td class="${d.warning + d.damaged > 0 ? "warning" : ""}">${d.warning} / ${d.damaged}</td>
+              </tr>
+            `,
+              )
+              .join("")}</tbody>
+          </table>
+        `;
+
     const html = `
       <html>
         <head>${css}</head>
@@ -921,8 +1751,13 @@ export default function Reports() {
             <div><b>Status:</b> ${escapeHtml(meta.status)}</div>
             <div><b>Chiller:</b> ${escapeHtml(meta.chiller)}</div>
             <div><b>Records:</b> ${filtered.length}</div>
+            <div><b>Missed checks:</b> ${missedFiltered.length}</div>
+            <div><b>Excursions resolved by re-check:</b> ${excursionsResolved} of ${excursions.length}</div>
+            <div><b>Open corrective actions:</b> ${filtered.filter((l) => actions.get(l.id)?.status === "open").length}</div>
           </div>
 
+          ${verificationHtml(sig, qr)}
+
           <table>
             <thead>
               <tr>
@@ -933,13 +1768,120 @@ export default function Reports() {
                 <th>Status</th>
                 <th>Note</th>
                 <th>Created By</th>
+                <th>Corrective Action</th>
+                ${embedPhotos ? "<th>Photo</th>" : ""}
+              </tr>
+            </thead>
+            <tbody>${rowsHtml}</tbody>
+          </table>
+
+          ${analyticsHtml}
+
+          ${summaryHtml}
+
+          ${missedHtml}
+
+          <div class="small" style="margin-top: 10px;">
+            ${embedPhotos
+              ? "Photos are embedded above with larger copies in the appendix; CSV exports carry their URLs/paths."
+              : "Photos are stored in the app and exported in CSV as URLs/paths."}
+            * Corrected after entry; values shown are the corrected ones, with the history under the note.
+          </div>
+
+          ${appendixHtml}
+        </body>
+      </html>
+    `;
+
+    const file = await Print.printToFileAsync({ html });
+    await safeShare(file.uri);
+  };
+
+  // ✅ ALL BRANCHES: comparison exports
+  const exportComparisonCSV = async () => {
+    if (comparison.length === 0) return Alert.alert("No data", "No branches to export.");
+
+    const meta = exportMeta();
+    const rows = comparison.map((b) => ({
+      ExportedBy: meta.exporter,
+      Range: meta.range,
+      Branch: b.name,
+      Chillers: b.chillers,
+      Readings: b.readings,
+      Excursions: b.excursions,
+      MissedChecks: b.missed,
+      CompliancePct: b.compliance == null ? "" : Math.round(b.compliance * 1000) / 10,
+      WorstChillers: b.worst.map((c) => `${c.name} (${c.excursions} exc, ${c.missed} missed)`).join("; "),
+    }));
+    const headers = Object.keys(rows[0]);
+
+    const lines = [headers.join(","), ...rows.map((r) => headers.map((h) => csvEscape((r as any)[h])).join(","))];
+
+    const uri = getWritableUri(`BranchComparison_${Date.now()}.csv`);
+    await writeAsStringAsync(uri, lines.join("\n"), { encoding: "utf8" as any });
+    await safeShare(uri);
+  };
+
+  const exportComparisonPDF = async () => {
+    if (comparison.length === 0) return Alert.alert("No data", "No branches to export.");
+
+    const meta = exportMeta();
+    const rowsHtml = comparison
+      .map(
+        (b) => `
+          <tr>
+            <td><b>${escapeHtml(b.name)}</b></td>
+            <td>${b.chillers}</td>
+            <td>${b.readings}</td>
+            <td class="${b.excursions > 0 ? "warning" : ""}">${b.excursions}</td>
+            <td class="${b.missed > 0 ? "damaged" : ""}">${b.missed}</td>
+            <td><b>${pct(b.compliance)}</b></td>
+            <td>${b.worst
+              .map((c) => `${escapeHtml(c.name)} <span class="small">(${c.excursions} exc • ${c.missed} missed • ${pct(c.compliance)})</span>`)
+              .join("<br/>") || "—"}</td>
+          </tr>
+        `,
+      )
+      .join("");
+
+    const html = `
+      <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, Arial, sans-serif; padding: 18px; }
+            h1 { font-size: 18px; margin: 0 0 2px 0; }
+            .sub { color: #333; font-size: 12px; margin: 0 0 10px 0; }
+            table { width: 100%; border-collapse: collapse; }
+            th, td { border: 1px solid #ddd; padding: 8px; font-size: 10.5px; vertical-align: top; }
+            th { background: #f4f4f4; text-align: left; }
+            .warning { color: #b45309; font-weight: 700; }
+            .damaged { color: #e11d48; font-weight: 700; }
+            .small { color: #777; font-size: 10px; }
+          </style>
+        </head>
+        <body>
+          <h1>Branch Comparison</h1>
+          <div class="sub">Exported by: ${escapeHtml(meta.exporter)} • ${escapeHtml(meta.now)}</div>
+          <div class="sub"><b>Date Range:</b> ${escapeHtml(meta.range)} • <b>Branches:</b> ${comparison.length}</div>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Branch</th>
+                <th>Chillers</th>
+                <th>Readings</th>
+                <th>Excursions</th>
+                <th>Missed checks</th>
+                <th>Compliance</th>
+                <th>Worst chillers</th>
               </tr>
             </thead>
             <tbody>${rowsHtml}</tbody>
           </table>
 
           <div class="small" style="margin-top: 10px;">
-            Photos are stored in the app and exported in CSV as URLs/paths.
+            Compliance = checks taken and in range ÷ (readings + missed checks). Built from daily rollups,
+            whole days in each branch's time zone; lowest compliance first.
           </div>
         </body>
       </html>
@@ -949,6 +1891,181 @@ export default function Reports() {
     await safeShare(file.uri);
   };
 
+  // ✅ XLSX: summary sheet + one sheet per chiller. The summary always covers every reading in
+  // range (compliance needs them all); the chiller sheets follow the status filter like CSV.
+  const exportXLSX = async ({ filtered, rechecks, merged }: ReportView) => {
+    if (filtered.length === 0 && missedFiltered.length === 0) {
+      return Alert.alert("No data", "No records to export.");
+    }
+
+    const at = (l: TempLog) => new Date(safeTime(l.capturedAt) || safeTime(l.createdAt));
+    const inScope = (id: string) => selectedChillerId === "all" || id === selectedChillerId;
+
+    const ids = [
+      ...new Set([
+        ...merged.filter((l) => inScope(l.chillerId)).map((l) => l.chillerId),
+        ...missedFiltered.map((m) => m.chillerId),
+      ]),
+    ].sort((a, b) => chillerName(a).localeCompare(chillerName(b)));
+
+    const stats = new Map(analyticsFor(merged).map((a) => [a.chillerId, a]));
+
+    const summaryRows = ids.map((id) => {
+      const list = merged.filter((l) => l.chillerId === id);
+      const a = stats.get(id);
+      const temps = list.map((l) => l.tempC).filter((t) => Number.isFinite(t));
+      const ok = list.filter((l) => l.status === "ok").length;
+      const missedCount = missedFiltered.filter((m) => m.chillerId === id).length;
+      const checks = list.length + missedCount;
+      const avg = temps.length ? temps.reduce((a, b) => a + b, 0) / temps.length : null;
+      return {
+        cells: [
+          chillerName(id),
+          list.length,
+          ok,
+          list.length - ok,
+          missedCount,
+          // share of checks (readings + missed) that were taken and in range
+          checks > 0 ? ok / checks : null,
+          temps.length ? Math.min(...temps) : null,
+          temps.length ? Math.max(...temps) : null,
+          avg == null ? null : Math.round(avg * 10) / 10,
+          a?.mktC ?? null,
+          a ? Math.round(a.minutesOut) : null,
+          a?.longest ? Math.round(a.longest.minutes) : null,
+        ],
+      };
+    });
+
+    const sheets: XlsxSheet[] = [
+      {
+        name: "Summary",
+        columns: [
+          { header: "Chiller", width: 26 },
+          { header: "Readings", format: "number", width: 10 },
+          { header: "In range", format: "number", width: 10 },
+          { header: "Excursions", format: "number", width: 11 },
+          { header: "Missed checks", format: "number", width: 13 },
+          { header: "Compliance", format: "percent", width: 12 },
+          { header: "Min (°C)", format: "number", width: 10 },
+          { header: "Max (°C)", format: "number", width: 10 },
+          { header: "Avg (°C)", format: "number", width: 10 },
+          { header: "MKT (°C)", format: "number", width: 10 },
+          { header: "Minutes out of range", format: "number", width: 20 },
+          { header: "Longest excursion (min)", format: "number", width: 23 },
+        ],
+        rows: summaryRows,
+      },
+      ...ids.map<XlsxSheet>((id) => ({
+        name: chillerName(id),
+        columns: [
+          { header: "Date/Time", format: "date", width: 17 },
+          { header: "Temp (°C)", format: "number", width: 10 },
+          { header: "Humidity (%)", format: "number", width: 12 },
+          { header: "Status", width: 10 },
+          { header: "Note", width: 30 },
+          { header: "Logged by", width: 18 },
+          { header: "Amended", width: 9 },
+          { header: "Re-check", width: 22 },
+          { header: "Corrective action", width: 40 },
+        ],
+        rows: filtered
+          .filter((l) => l.chillerId === id)
+          .map((l) => ({
+            fill: l.status === "ok" ? undefined : l.status,
+            cells: [
+              at(l),
+              l.tempC,
+              l.humidity ?? null,
+              l.status,
+              l.note ?? "",
+              createdByName(l.createdBy),
+              l.amendments?.length ? "yes" : "",
+              rechecks.has(l.id) ? recheckLabel(rechecks.get(l.id)!) : "",
+              actionText(actions.get(l.id)),
+            ],
+          })),
+      })),
+    ];
+
+    const uri = getWritableUri(`TempReports_${Date.now()}.xlsx`);
+    await writeAsStringAsync(uri, buildXlsxBase64(sheets), { encoding: "base64" as any });
+    await safeShare(uri);
+  };
+
+  // ✅ HACCP monthly record sheet (ignores the status filter: the sheet is the full record)
+  const exportHaccpPDF = async ({ merged, rechecks }: ReportView) => {
+    const branch = branches.find((b) => b.id === selectedBranchId);
+    const shown = chillers.filter((c) => selectedChillerId === "all" || c.id === selectedChillerId);
+    if (shown.length === 0) {
+      return Alert.alert("No data", "No chillers to export.");
+    }
+
+    const meta = exportMeta();
+    const timeZone = branch?.timezone || deviceTimeZone();
+
+    const readings: HaccpReading[] = merged.map((l) => ({
+      id: l.id,
+      chillerId: l.chillerId,
+      at: safeTime(l.capturedAt) || safeTime(l.createdAt),
+      tempC: l.tempC,
+      status: l.status,
+      createdBy: l.createdBy,
+      amended: !!l.amendments?.length,
+      recheckOf: l.recheckOf ?? null,
+    }));
+
+    const sheets = buildHaccpSheets({
+      chillers: shown.map((c) => ({
+        id: c.id,
+        name: c.name,
+        minTemp: c.minTemp ?? null,
+        maxTemp: c.maxTemp ?? null,
+        schedule: effectiveSchedule(c.schedule, branch?.schedule),
+      })),
+      readings,
+      missed: missedFiltered.map((m) => ({ chillerId: m.chillerId, at: safeTime(m.slotAt), time: m.time })),
+      from: dateFrom,
+      to: dateTo,
+      timeZone,
+      nameOf: createdByName,
+      notesFor: (r, time) => {
+        const parts = [`${time} ${r.tempC}°C ${r.recheckOf ? "re-check" : r.status.toUpperCase()}`];
+        const a = actionText(actions.get(r.id));
+        if (a) parts.push(a);
+        const o = rechecks.get(r.id);
+        if (o && !r.recheckOf) parts.push(recheckLabel(o));
+        return parts.join(" — ");
+      },
+    });
+
+    const { sig } = await signExport("haccp", null, merged.length);
+
+    const stats = new Map(analyticsFor(merged).map((a) => [a.chillerId, a]));
+
+    const html = haccpHtml(sheets, {
+      business: orgName || "—",
+      branch: meta.branch,
+      timeZone,
+      exporter: meta.exporter,
+      now: meta.now,
+      verification: sig,
+      // month sheets show the whole export range's figures for their chiller
+      analyticsOf: (chillerId) => {
+        const a = stats.get(chillerId);
+        return a
+          ? `MKT ${a.mktC ?? "—"}°C • ${formatMinutes(a.minutesOut)} out of range • longest ${
+              a.longest ? formatMinutes(a.longest.minutes) : "—"
+            } (${dateFrom} to ${dateTo})`
+          : "";
+      },
+    });
+
+    // A4 landscape so a month of check times fits across the page
+    const file = await Print.printToFileAsync({ html, width: 842, height: 595 });
+    await safeShare(file.uri);
+  };
+
   const ExportButton = ({
     title,
     subtitle,
@@ -1028,11 +2145,51 @@ export default function Reports() {
   // MAIN UI
   return (
     <View style={{ flex: 1, backgroundColor: C.bg }}>
+      {verifyQrValue ? (
+        <View pointerEvents="none" style={{ position: "absolute", left: -1000, top: 0, opacity: 0 }}>
+          <QRCode value={verifyQrValue} size={168} quietZone={8} getRef={(c: any) => (verifyQrRef.current = c)} />
+        </View>
+      ) : null}
+
       {/* Header / Filters */}
       <View style={{ padding: 16, gap: 12 }}>
-        <View style={{ gap: 4 }}>
-          <Text style={{ color: C.text, fontSize: 18, fontWeight: "900" }}>Reports</Text>
-          <Text style={{ color: C.muted, fontSize: 12 }}>{String(profile?.name || user?.email || "—")}</Text>
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+          <View style={{ flex: 1, gap: 4 }}>
+            <Text style={{ color: C.text, fontSize: 18, fontWeight: "900" }}>Reports</Text>
+            <Text style={{ color: C.muted, fontSize: 12 }}>{String(profile?.name || user?.email || "—")}</Text>
+          </View>
+
+          <Pressable
+            onPress={() => router.push("/(app)/reports/verify")}
+            style={({ pressed }) => ({
+              paddingVertical: 8,
+              paddingHorizontal: 12,
+              borderRadius: 14,
+              backgroundColor: C.card,
+              borderWidth: 1,
+              borderColor: C.line,
+              opacity: pressed ? 0.85 : 1,
+            })}
+          >
+            <Text style={{ color: C.text, fontWeight: "900", fontSize: 12 }}>Verify</Text>
+          </Pressable>
+
+          {can("reports.schedule") && (
+            <Pressable
+              onPress={() => router.push("/(app)/reports/subscriptions")}
+              style={({ pressed }) => ({
+                paddingVertical: 8,
+                paddingHorizontal: 12,
+                borderRadius: 14,
+                backgroundColor: C.card,
+                borderWidth: 1,
+                borderColor: C.line,
+                opacity: pressed ? 0.85 : 1,
+              })}
+            >
+              <Text style={{ color: C.text, fontWeight: "900", fontSize: 12 }}>Scheduled</Text>
+            </Pressable>
+          )}
         </View>
 
         <View style={{ gap: 10 }}>
@@ -1040,20 +2197,43 @@ export default function Reports() {
           {/* ✅ calendar selector */}
           <FilterPill label="Date range" value={dateLabel} onPress={() => setDateModalOpen(true)} />
 
-          <View style={{ flexDirection: "row", gap: 10 }}>
-            <View style={{ flex: 1 }}>
-              <FilterPill label="Status" value={statusLabel} onPress={() => setSheet("status")} />
-            </View>
+          {!allBranches && (
+            <>
+              <View style={{ flexDirection: "row", gap: 10 }}>
+                <View style={{ flex: 1 }}>
+                  <FilterPill label="Status" value={statusLabel} onPress={() => setSheet("status")} />
+                </View>
 
-            <View style={{ flex: 1 }}>
-              <FilterPill
-                label="Chiller"
-                value={selectedChillerId === "all" ? "ALL" : chillerName(selectedChillerId)}
-                onPress={() => setSheet("chiller")}
-                disabled={chillersLoading}
-              />
-            </View>
-          </View>
+                <View style={{ flex: 1 }}>
+                  <FilterPill
+                    label="Chiller"
+                    value={selectedChillerId === "all" ? "ALL" : chillerName(selectedChillerId)}
+                    onPress={() => setSheet("chiller")}
+                    disabled={chillersLoading}
+                  />
+                </View>
+              </View>
+
+              <View style={{ flexDirection: "row", gap: 10 }}>
+                <View style={{ flex: 1 }}>
+                  <FilterPill
+                    label="PDF template"
+                    value={TEMPLATE_OPTIONS.find((o) => o.key === pdfTemplate)?.label ?? "Table"}
+                    onPress={() => setSheet("template")}
+                  />
+                </View>
+
+                <View style={{ flex: 1 }}>
+                  <FilterPill
+                    label="PDF photos"
+                    value={pdfTemplate === "haccp" ? "Not in HACCP sheet" : embedPhotos ? "Embedded" : "Links only"}
+                    onPress={() => setEmbedPhotos((v) => !v)}
+                    disabled={pdfTemplate === "haccp"}
+                  />
+                </View>
+              </View>
+            </>
+          )}
         </View>
 
         {/* Summary */}
@@ -1069,31 +2249,134 @@ export default function Reports() {
             alignItems: "center",
           }}
         >
-          <Text style={{ color: C.text, fontWeight: "900", fontSize: 13 }}>{filtered.length} records</Text>
-          <Text style={{ color: C.muted, fontSize: 12 }}>Latest (max 500)</Text>
+          {allBranches ? (
+            <>
+              <Text style={{ color: C.text, fontWeight: "900", fontSize: 13 }}>{comparison.length} branches</Text>
+              <Text style={{ color: C.muted, fontSize: 12 }}>From daily rollups</Text>
+            </>
+          ) : (
+            <>
+              <Text style={{ color: C.text, fontWeight: "900", fontSize: 13 }}>
+                {filtered.length} records
+                {missedFiltered.length > 0 ? (
+                  <Text style={{ color: C.critical }}>{`  •  ${missedFiltered.length} missed`}</Text>
+                ) : null}
+              </Text>
+              <Text style={{ color: C.muted, fontSize: 12 }}>
+                {nextCursor ? `${logs.length} of ${summary?.totals.count ?? "…"} loaded` : "All loaded"}
+              </Text>
+            </>
+          )}
         </View>
 
         {/* Export */}
-        <View style={{ flexDirection: "row", gap: 12 }}>
-          <ExportButton
-            icon="🧾"
-            title={exporting ? "Exporting..." : "Export PDF"}
-            subtitle="Printable"
-            onPress={() => runExport(exportPDF)}
-            disabled={exporting}
-          />
-          <ExportButton
-            icon="📄"
-            title={exporting ? "Exporting..." : "Export CSV"}
-            subtitle="Excel"
-            onPress={() => runExport(exportCSV)}
-            disabled={exporting}
-          />
-        </View>
+        {allBranches ? (
+          <View style={{ flexDirection: "row", gap: 12 }}>
+            <ExportButton
+              icon="🧾"
+              title={exporting ? "Exporting..." : "Export PDF"}
+              subtitle="Comparison"
+              onPress={() => runExport(exportComparisonPDF)}
+              disabled={exporting || rollupsLoading}
+            />
+            <ExportButton
+              icon="📄"
+              title={exporting ? "Exporting..." : "Export CSV"}
+              subtitle="One row per branch"
+              onPress={() => runExport(exportComparisonCSV)}
+              disabled={exporting || rollupsLoading}
+            />
+          </View>
+        ) : (
+          <View style={{ flexDirection: "row", gap: 12 }}>
+            <ExportButton
+              icon="🧾"
+              title={exporting ? "Exporting..." : "Export PDF"}
+              subtitle={pdfTemplate === "haccp" ? "HACCP sheet" : "Printable"}
+              onPress={() =>
+                pdfTemplate === "haccp"
+                  ? runExport(exportHaccpPDF)
+                  : runExport(exportPDF, embedPhotos ? PHOTO_EXPORT_TIMEOUT_MS : EXPORT_TIMEOUT_MS)
+              }
+              disabled={exporting}
+            />
+            <ExportButton
+              icon="📄"
+              title={exporting ? "Exporting..." : "Export CSV"}
+              subtitle="Plain rows"
+              onPress={() => runExport(exportCSV)}
+              disabled={exporting}
+            />
+            <ExportButton
+              icon="📊"
+              title={exporting ? "Exporting..." : "Export XLSX"}
+              subtitle="Excel"
+              onPress={() => runExport(exportXLSX)}
+              disabled={exporting}
+            />
+          </View>
+        )}
       </View>
 
       {/* List */}
-      {logsLoading ? (
+      {allBranches ? (
+        rollupsLoading ? (
+          <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+            <ActivityIndicator />
+          </View>
+        ) : (
+          <FlatList
+            data={comparison}
+            keyExtractor={(b) => b.branchId}
+            contentContainerStyle={{ paddingBottom: 28, paddingTop: 4 }}
+            ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
+            renderItem={({ item }) => (
+              <Pressable
+                onPress={() => setSelectedBranchId(item.branchId)}
+                style={({ pressed }) => ({
+                  marginHorizontal: 16,
+                  padding: 12,
+                  borderRadius: 16,
+                  borderWidth: 1,
+                  borderColor: C.line,
+                  backgroundColor: C.card,
+                  gap: 8,
+                  opacity: pressed ? 0.9 : 1,
+                })}
+              >
+                <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+                  <Text style={{ color: C.text, fontWeight: "900", fontSize: 13, flex: 1 }} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                  <Text style={{ color: item.compliance != null && item.compliance < 0.95 ? C.critical : C.good, fontWeight: "900" }}>
+                    {pct(item.compliance)}
+                  </Text>
+                </View>
+
+                <Text style={{ color: C.muted, fontSize: 12 }}>
+                  {item.readings} readings  •  {item.excursions} excursions  •{" "}
+                  <Text style={{ color: item.missed > 0 ? C.critical : C.muted }}>{item.missed} missed</Text>
+                </Text>
+
+                {item.worst.length > 0 ? (
+                  item.worst.map((c) => (
+                    <Text key={c.chillerId} style={{ color: C.muted, fontSize: 11.5 }} numberOfLines={1}>
+                      ⚠︎ {c.name}: {c.excursions} exc • {c.missed} missed • {pct(c.compliance)}
+                    </Text>
+                  ))
+                ) : (
+                  <Text style={{ color: C.muted, fontSize: 11.5 }}>No excursions or missed checks</Text>
+                )}
+              </Pressable>
+            )}
+            ListEmptyComponent={
+              <View style={{ paddingVertical: 40, alignItems: "center", gap: 6 }}>
+                <Text style={{ color: C.text, fontWeight: "900" }}>No branches</Text>
+              </View>
+            }
+          />
+        )
+      ) : logsLoading ? (
         <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
           <ActivityIndicator />
         </View>
@@ -1102,6 +2385,67 @@ export default function Reports() {
           data={filtered}
           keyExtractor={(i) => i.id}
           contentContainerStyle={{ paddingBottom: 28, paddingTop: 4 }}
+          ListHeaderComponent={
+            analytics.length > 0 ? (
+              <View
+                style={{
+                  marginHorizontal: 16,
+                  marginBottom: 10,
+                  padding: 12,
+                  borderRadius: 16,
+                  borderWidth: 1,
+                  borderColor: C.line,
+                  backgroundColor: C.card,
+                  gap: 8,
+                }}
+              >
+                <Text style={{ color: C.text, fontWeight: "900", fontSize: 13 }}>
+                  Chiller analytics{nextCursor ? " (loaded readings)" : ""}
+                </Text>
+                {analytics.map((a) => (
+                  <View key={a.chillerId} style={{ gap: 2 }}>
+                    <View style={{ flexDirection: "row", justifyContent: "space-between" }}>
+                      <Text style={{ color: C.text, fontWeight: "800", fontSize: 12.5, flex: 1 }} numberOfLines={1}>
+                        {chillerName(a.chillerId)}
+                      </Text>
+                      <Text style={{ color: C.text, fontWeight: "900", fontSize: 12.5 }}>
+                        MKT {a.mktC == null ? "—" : `${a.mktC}°C`}
+                      </Text>
+                    </View>
+                    <Text style={{ color: a.minutesOut > 0 ? C.critical : C.muted, fontSize: 11.5 }}>
+                      {formatMinutes(a.minutesOut)} out of range • {a.excursions} excursions • longest{" "}
+                      {a.longest ? formatMinutes(a.longest.minutes) : "—"}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ) : null
+          }
+          ListFooterComponent={
+            nextCursor ? (
+              <Pressable
+                onPress={loadMore}
+                disabled={pageLoading}
+                style={({ pressed }) => ({
+                  marginHorizontal: 16,
+                  marginTop: 12,
+                  paddingVertical: 12,
+                  borderRadius: 14,
+                  backgroundColor: C.surface,
+                  borderWidth: 1,
+                  borderColor: C.line,
+                  alignItems: "center",
+                  opacity: pageLoading ? 0.6 : pressed ? 0.9 : 1,
+                })}
+              >
+                {pageLoading ? (
+                  <ActivityIndicator />
+                ) : (
+                  <Text style={{ color: C.text, fontWeight: "900", fontSize: 12 }}>Load more</Text>
+                )}
+              </Pressable>
+            ) : null
+          }
           ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
           renderItem={({ item }) => (
             <View
@@ -1121,6 +2465,7 @@ export default function Reports() {
                 </Text>
 
                 <Text style={{ color: statusColor(item.status), fontWeight: "900", fontSize: 12 }}>
+                  {item.amendments?.length ? "AMENDED • " : ""}
                   {item.status === "damaged" ? "CRITICAL" : item.status === "warning" ? "WARNING" : "GOOD"}
                 </Text>
               </View>
@@ -1137,6 +2482,24 @@ export default function Reports() {
 
               <Text style={{ color: C.muted, fontSize: 12 }}>By: {createdByName(item.createdBy)}</Text>
 
+              {rechecks.has(item.id) && (
+                <Text
+                  style={{
+                    color: rechecks.get(item.id)!.result === "resolved" ? C.good : C.critical,
+                    fontSize: 12,
+                    fontWeight: "800",
+                  }}
+                >
+                  {recheckLabel(rechecks.get(item.id)!)}
+                </Text>
+              )}
+
+              {item.amendments?.map((a) => (
+                <Text key={a.id} style={{ color: C.muted, fontSize: 11.5 }}>
+                  #{a.seq} {describeChanges(a)} — {a.reason} ({a.amendedByName || "Unknown"}, {formatWhen(a.amendedAt)})
+                </Text>
+              ))}
+
               {item.status === "damaged" && !!item.photoUrl && <PhotoThumb url={item.photoUrl} />}
 
               {!!item.photoUrl && (
@@ -1172,7 +2535,7 @@ export default function Reports() {
       <BottomSheetPicker
         open={sheet === "branch"}
         title="Select Branch"
-        options={branches.map((b) => ({ key: b.id, label: b.name }))}
+        options={branchOptions}
         selectedKey={selectedBranchId}
         onSelect={(key) => {
           setSelectedBranchId(key);
@@ -1204,6 +2567,15 @@ export default function Reports() {
         onClose={() => setSheet(null)}
       />
 
+      <BottomSheetPicker
+        open={sheet === "template"}
+        title="PDF Template"
+        options={TEMPLATE_OPTIONS}
+        selectedKey={pdfTemplate}
+        onSelect={(key) => setPdfTemplate(key as PdfTemplate)}
+        onClose={() => setSheet(null)}
+      />
+
       {/* ✅ Calendar modal */}
       <CalendarRangeModal
         open={dateModalOpen}
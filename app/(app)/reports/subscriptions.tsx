@@ -0,0 +1,656 @@
+// app/(app)/reports/subscriptions.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+} from "react-native";
+import { router } from "expo-router";
+import { collection, limit, onSnapshot, orderBy, query, where } from "firebase/firestore";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { useAuth } from "../../../src/context/AuthContext";
+import {
+  deleteReportSubscription,
+  saveReportSubscription,
+  type ReportPreset,
+} from "../../../src/firebase/functionsClient";
+
+type Branch = { id: string; name: string; isActive: boolean; timezone: string };
+
+type ReportFormat = "csv" | "pdf";
+
+type Subscription = {
+  id: string;
+  name: string;
+  preset: ReportPreset;
+  format: ReportFormat;
+  recipients: string[];
+  active: boolean;
+  lastSentAt?: any;
+  lastStatus?: string;
+};
+
+type Delivery = {
+  id: string;
+  name: string;
+  format: ReportFormat;
+  from: string;
+  to: string;
+  recipients: string[];
+  readings: number;
+  excursions: number;
+  missed: number;
+  sent: number;
+  failed: number;
+  status: "sent" | "partial" | "failed";
+  sentAt?: any;
+};
+
+type Draft = {
+  id: string | null;
+  name: string;
+  preset: ReportPreset;
+  format: ReportFormat;
+  recipients: string;
+  active: boolean;
+};
+
+const COLORS = {
+  bg: "#0F172A",
+  card: "#111827",
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  warn: "#FBBF24",
+  bad: "#F43F5E",
+};
+
+const PRESETS: { value: ReportPreset; label: string; hint: string }[] = [
+  { value: "daily", label: "Daily", hint: "Yesterday, sent every morning" },
+  { value: "weekly", label: "Weekly", hint: "Monday to Sunday, sent on Monday" },
+  { value: "monthly", label: "Monthly", hint: "Last calendar month, sent on the 1st" },
+];
+
+const HISTORY_LIMIT = 30;
+
+function formatWhen(ts: any) {
+  try {
+    const d = ts?.toDate?.() ? ts.toDate() : null;
+    return d ? d.toLocaleString() : "";
+  } catch {
+    return "";
+  }
+}
+
+function parseRecipients(text: string) {
+  return text
+    .split(/[\s,;]+/)
+    .map((e) => e.trim())
+    .filter(Boolean);
+}
+
+const EMPTY_DRAFT: Draft = { id: null, name: "", preset: "weekly", format: "pdf", recipients: "", active: true };
+
+export default function ReportSubscriptions() {
+  const { user, profile, loading, orgId, branchIds, canAccessBranch, can } = useAuth();
+  const allowed = can("reports.schedule");
+
+  const [branchesLoading, setBranchesLoading] = useState(true);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [selectedBranchId, setSelectedBranchId] = useState("");
+  const [branchPickerOpen, setBranchPickerOpen] = useState(false);
+
+  const [subsLoading, setSubsLoading] = useState(true);
+  const [subs, setSubs] = useState<Subscription[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) router.replace("/(auth)/login");
+  }, [loading, user]);
+
+  useEffect(() => {
+    if (!user || !orgId || !allowed) return;
+
+    setBranchesLoading(true);
+
+    const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
+
+    const unsub = onSnapshot(
+      q1,
+      (snap) => {
+        const active = snap.docs
+          .map((d) => {
+            const v = d.data() as any;
+            return {
+              id: d.id,
+              name: v.name ?? "",
+              isActive: v.isActive ?? true,
+              timezone: v.timezone ?? "",
+            } as Branch;
+          })
+          .filter((b) => b.isActive && canAccessBranch(b.id));
+        active.sort((a, b) => String(a.name).localeCompare(String(b.name)));
+
+        setBranches(active);
+        setBranchesLoading(false);
+        setSelectedBranchId((cur) => (active.some((b) => b.id === cur) ? cur : active[0]?.id || ""));
+      },
+      (err) => {
+        setBranchesLoading(false);
+        Alert.alert("Error", err.message);
+      }
+    );
+
+    return () => unsub();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId, branchIds, allowed]);
+
+  // ✅ Both lists are per branch (rules only let managers read their own branch)
+  useEffect(() => {
+    if (!user || !orgId || !selectedBranchId) {
+      setSubs([]);
+      setDeliveries([]);
+      setSubsLoading(false);
+      return;
+    }
+
+    setSubsLoading(true);
+    setDraft(null);
+
+    const q2 = query(
+      collection(db, "reportSubscriptions"),
+      where("orgId", "==", orgId),
+      where("branchId", "==", selectedBranchId)
+    );
+    const unsubSubs = onSnapshot(
+      q2,
+      (snap) => {
+        const data: Subscription[] = snap.docs.map((d) => {
+          const v = d.data() as any;
+          return {
+            id: d.id,
+            name: v.name ?? "",
+            preset: v.preset ?? "weekly",
+            format: v.format === "csv" ? "csv" : "pdf",
+            recipients: Array.isArray(v.recipients) ? v.recipients : [],
+            active: v.active !== false,
+            lastSentAt: v.lastSentAt,
+            lastStatus: v.lastStatus ?? "",
+          };
+        });
+        data.sort((a, b) => a.name.localeCompare(b.name));
+        setSubs(data);
+        setSubsLoading(false);
+      },
+      (err) => {
+        setSubsLoading(false);
+        Alert.alert("Error", err.message || "Failed to load scheduled reports");
+      }
+    );
+
+    const q3 = query(
+      collection(db, "reportDeliveries"),
+      where("orgId", "==", orgId),
+      where("branchId", "==", selectedBranchId),
+      orderBy("sentAt", "desc"),
+      limit(HISTORY_LIMIT)
+    );
+    const unsubHistory = onSnapshot(
+      q3,
+      (snap) => {
+        setDeliveries(
+          snap.docs.map((d) => {
+            const v = d.data() as any;
+            return {
+              id: d.id,
+              name: v.name ?? "",
+              format: v.format === "csv" ? "csv" : "pdf",
+              from: v.from ?? "",
+              to: v.to ?? "",
+              recipients: Array.isArray(v.recipients) ? v.recipients : [],
+              readings: Number(v.readings ?? 0),
+              excursions: Number(v.excursions ?? 0),
+              missed: Number(v.missed ?? 0),
+              sent: Number(v.sent ?? 0),
+              failed: Number(v.failed ?? 0),
+              status: v.status === "failed" || v.status === "partial" ? v.status : "sent",
+              sentAt: v.sentAt,
+            };
+          })
+        );
+      },
+      (err) => Alert.alert("Error", err.message || "Failed to load sent reports")
+    );
+
+    return () => {
+      unsubSubs();
+      unsubHistory();
+    };
+  }, [selectedBranchId, user, orgId]);
+
+  const selectedBranch = useMemo(
+    () => branches.find((b) => b.id === selectedBranchId) ?? null,
+    [branches, selectedBranchId]
+  );
+
+  const save = async (d: Draft) => {
+    if (!orgId || !selectedBranchId) return;
+
+    const recipients = parseRecipients(d.recipients);
+    if (recipients.length === 0) {
+      Alert.alert("Recipients", "Add at least one e-mail address.");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveReportSubscription({
+        id: d.id,
+        orgId,
+        branchId: selectedBranchId,
+        name: d.name.trim(),
+        preset: d.preset,
+        format: d.format,
+        recipients,
+        active: d.active,
+      });
+      setDraft(null);
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = (s: Subscription) =>
+    save({
+      id: s.id,
+      name: s.name,
+      preset: s.preset,
+      format: s.format,
+      recipients: s.recipients.join(", "),
+      active: !s.active,
+    });
+
+  const onDelete = (s: Subscription) => {
+    if (!orgId) return;
+
+    Alert.alert("Delete scheduled report?", `"${s.name}" will no longer be sent.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            setSaving(true);
+            await deleteReportSubscription({ orgId, id: s.id });
+            if (draft?.id === s.id) setDraft(null);
+          } catch (e: any) {
+            Alert.alert("Error", e?.message || "Failed to delete");
+          } finally {
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading || (allowed && branchesLoading)) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!user) return null;
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg, padding: 24 }}>
+        <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 14 }}>Managers only</Text>
+        <Text style={{ color: COLORS.muted, fontSize: 12, textAlign: "center", marginTop: 6 }}>
+          Ask a branch manager or admin to set up scheduled reports.
+        </Text>
+      </View>
+    );
+  }
+
+  const Chip = ({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) => (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => ({
+        flex: 1,
+        paddingVertical: 10,
+        borderRadius: 12,
+        alignItems: "center",
+        backgroundColor: active ? "rgba(56,189,248,0.18)" : "transparent",
+        borderWidth: 1,
+        borderColor: active ? "rgba(56,189,248,0.35)" : COLORS.border,
+        opacity: pressed ? 0.85 : 1,
+      })}
+    >
+      <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>{label}</Text>
+    </Pressable>
+  );
+
+  const SmallButton = ({ label, color, onPress }: { label: string; color: string; onPress: () => void }) => (
+    <Pressable
+      onPress={onPress}
+      disabled={saving}
+      style={({ pressed }) => ({
+        paddingVertical: 7,
+        paddingHorizontal: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: COLORS.border,
+        opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+      })}
+    >
+      <Text style={{ color, fontWeight: "900", fontSize: 12 }}>{label}</Text>
+    </Pressable>
+  );
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingVertical: Platform.OS === "ios" ? 10 : 9,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    color: COLORS.text,
+    backgroundColor: "#0B1220",
+    fontSize: 13.5,
+    fontWeight: "700" as const,
+  };
+
+  const cardStyle = {
+    padding: 14,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+    gap: 6,
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: COLORS.bg }}>
+      <Modal
+        transparent
+        visible={branchPickerOpen}
+        animationType="slide"
+        onRequestClose={() => setBranchPickerOpen(false)}
+      >
+        <Pressable onPress={() => setBranchPickerOpen(false)} style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.45)" }} />
+        <View
+          style={{
+            backgroundColor: COLORS.card,
+            borderTopLeftRadius: 22,
+            borderTopRightRadius: 22,
+            borderWidth: 1,
+            borderColor: COLORS.border,
+            paddingBottom: Platform.OS === "ios" ? 24 : 16,
+          }}
+        >
+          <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 14, padding: 16 }}>Select Branch</Text>
+          <FlatList
+            data={branches}
+            keyExtractor={(b) => b.id}
+            style={{ maxHeight: 420 }}
+            ItemSeparatorComponent={() => <View style={{ height: 1, backgroundColor: COLORS.border }} />}
+            renderItem={({ item }) => (
+              <Pressable
+                onPress={() => {
+                  setSelectedBranchId(item.id);
+                  setBranchPickerOpen(false);
+                }}
+                style={({ pressed }) => ({
+                  paddingVertical: 14,
+                  paddingHorizontal: 16,
+                  backgroundColor: item.id === selectedBranchId ? "rgba(56,189,248,0.16)" : COLORS.card,
+                  opacity: pressed ? 0.85 : 1,
+                })}
+              >
+                <Text style={{ color: COLORS.text, fontWeight: "800", fontSize: 13.5 }} numberOfLines={1}>
+                  {item.name || "Unnamed"}
+                </Text>
+              </Pressable>
+            )}
+          />
+        </View>
+      </Modal>
+
+      <ScrollView contentContainerStyle={{ padding: 16, gap: 12, paddingBottom: Platform.OS === "ios" ? 28 : 18 }}>
+        <View style={{ gap: 4 }}>
+          <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>Scheduled Reports</Text>
+          <Text style={{ color: COLORS.muted, fontSize: 12 }}>
+            E-mailed automatically at 06:00 {selectedBranch?.timezone ? `(${selectedBranch.timezone})` : "branch time"}{" "}
+            after each period ends.
+          </Text>
+        </View>
+
+        <Pressable
+          onPress={() => setBranchPickerOpen(true)}
+          style={({ pressed }) => ({
+            paddingVertical: 12,
+            paddingHorizontal: 14,
+            borderRadius: 16,
+            backgroundColor: COLORS.card,
+            borderWidth: 1,
+            borderColor: COLORS.border,
+            opacity: pressed ? 0.86 : 1,
+          })}
+        >
+          <Text style={{ color: COLORS.muted, fontSize: 11.5, fontWeight: "800" }}>BRANCH</Text>
+          <Text style={{ color: COLORS.text, fontSize: 14, fontWeight: "900", marginTop: 3 }} numberOfLines={1}>
+            {selectedBranch?.name || "Select branch"}
+          </Text>
+        </Pressable>
+
+        {/* Form */}
+        {draft ? (
+          <View style={{ ...cardStyle, gap: 10 }}>
+            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 14 }}>
+              {draft.id ? "Edit scheduled report" : "New scheduled report"}
+            </Text>
+
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Name</Text>
+            <TextInput
+              value={draft.name}
+              onChangeText={(name) => setDraft({ ...draft, name })}
+              placeholder="e.g., Weekly for head office"
+              placeholderTextColor={COLORS.muted2}
+              style={inputStyle}
+            />
+
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Period</Text>
+            <View style={{ flexDirection: "row", gap: 8 }}>
+              {PRESETS.map((p) => (
+                <Chip
+                  key={p.value}
+                  label={p.label}
+                  active={draft.preset === p.value}
+                  onPress={() => setDraft({ ...draft, preset: p.value })}
+                />
+              ))}
+            </View>
+            <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+              {PRESETS.find((p) => p.value === draft.preset)?.hint}
+            </Text>
+
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Format</Text>
+            <View style={{ flexDirection: "row", gap: 8 }}>
+              <Chip label="PDF" active={draft.format === "pdf"} onPress={() => setDraft({ ...draft, format: "pdf" })} />
+              <Chip label="CSV" active={draft.format === "csv"} onPress={() => setDraft({ ...draft, format: "csv" })} />
+            </View>
+
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Recipients</Text>
+            <TextInput
+              value={draft.recipients}
+              onChangeText={(recipients) => setDraft({ ...draft, recipients })}
+              placeholder="chef@example.com, owner@example.com"
+              placeholderTextColor={COLORS.muted2}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+              multiline
+              style={{ ...inputStyle, minHeight: 64, textAlignVertical: "top" }}
+            />
+            <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>Up to 10 addresses, separated by commas.</Text>
+
+            <View style={{ flexDirection: "row", gap: 10, marginTop: 4 }}>
+              <Pressable
+                onPress={() => setDraft(null)}
+                disabled={saving}
+                style={({ pressed }) => ({
+                  flex: 1,
+                  paddingVertical: 12,
+                  borderRadius: 16,
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  alignItems: "center",
+                  opacity: pressed ? 0.85 : 1,
+                })}
+              >
+                <Text style={{ color: COLORS.muted, fontWeight: "900", fontSize: 13 }}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => save(draft)}
+                disabled={saving}
+                style={({ pressed }) => ({
+                  flex: 1,
+                  paddingVertical: 12,
+                  borderRadius: 16,
+                  backgroundColor: "rgba(56,189,248,0.18)",
+                  borderWidth: 1,
+                  borderColor: "rgba(56,189,248,0.35)",
+                  alignItems: "center",
+                  opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+                })}
+              >
+                {saving ? (
+                  <ActivityIndicator />
+                ) : (
+                  <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Save</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        ) : (
+          <Pressable
+            onPress={() => setDraft({ ...EMPTY_DRAFT, recipients: profile?.email ?? user.email ?? "" })}
+            disabled={!selectedBranchId}
+            style={({ pressed }) => ({
+              paddingVertical: 12,
+              borderRadius: 16,
+              backgroundColor: COLORS.card,
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              alignItems: "center",
+              opacity: !selectedBranchId ? 0.6 : pressed ? 0.85 : 1,
+            })}
+          >
+            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>+ New scheduled report</Text>
+          </Pressable>
+        )}
+
+        {/* Subscriptions */}
+        {subsLoading ? (
+          <ActivityIndicator />
+        ) : subs.length === 0 ? (
+          <View style={{ paddingVertical: 16, alignItems: "center", gap: 6 }}>
+            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>No scheduled reports</Text>
+            <Text style={{ color: COLORS.muted, fontSize: 12, textAlign: "center" }}>
+              Send this branch&apos;s temperature report to your inbox every day, week or month.
+            </Text>
+          </View>
+        ) : (
+          subs.map((s) => (
+            <View key={s.id} style={{ ...cardStyle, opacity: s.active ? 1 : 0.7 }}>
+              <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+                <Text style={{ color: COLORS.text, fontSize: 14.5, fontWeight: "900", flex: 1, paddingRight: 10 }} numberOfLines={1}>
+                  {s.name || "Scheduled report"}
+                </Text>
+                <Text style={{ color: s.active ? COLORS.good : COLORS.muted2, fontWeight: "900", fontSize: 12 }}>
+                  {s.active ? "ACTIVE" : "PAUSED"}
+                </Text>
+              </View>
+
+              <Text style={{ color: COLORS.muted, fontSize: 12.5, fontWeight: "700" }}>
+                {PRESETS.find((p) => p.value === s.preset)?.label ?? s.preset} • {s.format.toUpperCase()}
+              </Text>
+              <Text style={{ color: COLORS.muted, fontSize: 12 }} numberOfLines={2}>
+                To: {s.recipients.join(", ")}
+              </Text>
+              {s.lastSentAt ? (
+                <Text style={{ color: s.lastStatus === "sent" ? COLORS.muted2 : COLORS.warn, fontSize: 11.5 }}>
+                  Last sent {formatWhen(s.lastSentAt)}
+                  {s.lastStatus && s.lastStatus !== "sent" ? ` (${s.lastStatus})` : ""}
+                </Text>
+              ) : null}
+
+              <View style={{ flexDirection: "row", gap: 8, marginTop: 4 }}>
+                <SmallButton
+                  label="Edit"
+                  color={COLORS.text}
+                  onPress={() =>
+                    setDraft({
+                      id: s.id,
+                      name: s.name,
+                      preset: s.preset,
+                      format: s.format,
+                      recipients: s.recipients.join(", "),
+                      active: s.active,
+                    })
+                  }
+                />
+                <SmallButton label={s.active ? "Pause" : "Resume"} color={COLORS.text} onPress={() => toggleActive(s)} />
+                <SmallButton label="Delete" color={COLORS.bad} onPress={() => onDelete(s)} />
+              </View>
+            </View>
+          ))
+        )}
+
+        {/* History */}
+        <Text style={{ color: COLORS.text, fontSize: 15, fontWeight: "900", marginTop: 8 }}>Sent reports</Text>
+        {deliveries.length === 0 ? (
+          <Text style={{ color: COLORS.muted, fontSize: 12 }}>Nothing sent yet.</Text>
+        ) : (
+          deliveries.map((d) => {
+            const color = d.status === "sent" ? COLORS.good : d.status === "partial" ? COLORS.warn : COLORS.bad;
+            return (
+              <View key={d.id} style={cardStyle}>
+                <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+                  <Text style={{ color: COLORS.text, fontSize: 13.5, fontWeight: "900", flex: 1, paddingRight: 10 }} numberOfLines={1}>
+                    {d.name} • {d.format.toUpperCase()}
+                  </Text>
+                  <Text style={{ color, fontWeight: "900", fontSize: 12 }}>{d.status.toUpperCase()}</Text>
+                </View>
+                <Text style={{ color: COLORS.muted, fontSize: 12.5, fontWeight: "700" }}>
+                  {d.from === d.to ? d.from : `${d.from} → ${d.to}`}
+                </Text>
+                <Text style={{ color: COLORS.muted, fontSize: 12 }}>
+                  {d.readings} readings • {d.excursions} excursions • {d.missed} missed
+                </Text>
+                <Text style={{ color: COLORS.muted2, fontSize: 11.5 }} numberOfLines={2}>
+                  {formatWhen(d.sentAt)} • {d.sent}/{d.sent + d.failed} delivered • {d.recipients.join(", ")}
+                </Text>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
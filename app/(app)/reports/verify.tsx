@@ -0,0 +1,224 @@
+// app/(app)/reports/verify.tsx
+import React, { useEffect, useState } from "react";
+import { View, Text, TextInput, Pressable, ScrollView, ActivityIndicator, Alert, Platform } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { useAuth } from "../../../src/context/AuthContext";
+import { verifyReportExport, type ExportVerification } from "../../../src/firebase/functionsClient";
+
+const COLORS = {
+  bg: "#0F172A",
+  card: "#111827",
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  warn: "#FBBF24",
+  bad: "#F43F5E",
+};
+
+const STATUS_LABELS: Record<string, string> = { ok: "OK", warning: "Warning", damaged: "Damaged" };
+
+function formatDate(ms: number) {
+  return new Date(ms).toLocaleDateString();
+}
+
+export default function VerifyReport() {
+  const { user, loading } = useAuth();
+  const params = useLocalSearchParams<{ code?: string }>();
+
+  const [code, setCode] = useState(String(params.code ?? ""));
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<ExportVerification | null>(null);
+  const [names, setNames] = useState<{ branch: string; chiller: string }>({ branch: "", chiller: "" });
+
+  useEffect(() => {
+    if (!loading && !user) router.replace("/(auth)/login");
+  }, [loading, user]);
+
+  const verify = async (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+
+    setChecking(true);
+    setResult(null);
+    try {
+      const res = await verifyReportExport({ code: trimmed });
+      setResult(res);
+
+      // ✅ names for the filters (best effort; ids are shown otherwise)
+      const [b, c] = await Promise.all([
+        getDoc(doc(db, "branches", res.branchId)).catch(() => null),
+        res.chillerId ? getDoc(doc(db, "chillers", res.chillerId)).catch(() => null) : Promise.resolve(null),
+      ]);
+      setNames({
+        branch: (b?.exists() ? (b.data() as any).name : "") || res.branchId,
+        chiller: res.chillerId ? (c?.exists() ? (c.data() as any).name : "") || res.chillerId : "All chillers",
+      });
+    } catch (e: any) {
+      Alert.alert("Not verified", e?.message || "Could not check this code");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // opened from a scanned QR
+  useEffect(() => {
+    if (!user || !params.code) return;
+    setCode(String(params.code));
+    verify(String(params.code));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, params.code]);
+
+  if (loading) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!user) return null;
+
+  const Row = ({ label, value, mono }: { label: string; value: string; mono?: boolean }) => (
+    <View style={{ gap: 2 }}>
+      <Text style={{ color: COLORS.muted, fontSize: 11.5, fontWeight: "800" }}>{label}</Text>
+      <Text
+        selectable
+        style={{
+          color: COLORS.text,
+          fontSize: mono ? 11.5 : 13.5,
+          fontWeight: mono ? "600" : "800",
+          fontFamily: mono ? (Platform.OS === "ios" ? "Menlo" : "monospace") : undefined,
+        }}
+      >
+        {value}
+      </Text>
+    </View>
+  );
+
+  const bannerColor = result?.unchanged ? COLORS.good : COLORS.warn;
+
+  return (
+    <View style={{ flex: 1, backgroundColor: COLORS.bg }}>
+      <ScrollView contentContainerStyle={{ padding: 16, gap: 12, paddingBottom: Platform.OS === "ios" ? 28 : 18 }}>
+        <View style={{ gap: 4 }}>
+          <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>Verify Report</Text>
+          <Text style={{ color: COLORS.muted, fontSize: 12 }}>
+            Enter the verification code printed on a PDF export, or scan its QR from Scan QR.
+          </Text>
+        </View>
+
+        <View
+          style={{
+            backgroundColor: COLORS.card,
+            borderWidth: 1,
+            borderColor: COLORS.border,
+            borderRadius: 16,
+            padding: 14,
+            gap: 10,
+          }}
+        >
+          <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Verification code</Text>
+          <TextInput
+            value={code}
+            onChangeText={setCode}
+            placeholder="ABCD-EFGH-JKMN"
+            placeholderTextColor={COLORS.muted2}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            onSubmitEditing={() => verify(code)}
+            style={{
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              paddingVertical: Platform.OS === "ios" ? 10 : 9,
+              paddingHorizontal: 12,
+              borderRadius: 14,
+              color: COLORS.text,
+              backgroundColor: "#0B1220",
+              fontSize: 15,
+              fontWeight: "800",
+              letterSpacing: 1,
+            }}
+          />
+
+          <Pressable
+            onPress={() => verify(code)}
+            disabled={checking || !code.trim()}
+            style={({ pressed }) => ({
+              paddingVertical: 12,
+              borderRadius: 16,
+              backgroundColor: "rgba(56,189,248,0.18)",
+              borderWidth: 1,
+              borderColor: "rgba(56,189,248,0.35)",
+              alignItems: "center",
+              opacity: checking || !code.trim() ? 0.6 : pressed ? 0.85 : 1,
+            })}
+          >
+            {checking ? (
+              <ActivityIndicator />
+            ) : (
+              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Verify</Text>
+            )}
+          </Pressable>
+        </View>
+
+        {result ? (
+          <>
+            <View
+              style={{
+                borderRadius: 16,
+                borderWidth: 1,
+                borderColor: bannerColor,
+                padding: 14,
+                gap: 4,
+              }}
+            >
+              <Text style={{ color: bannerColor, fontWeight: "900", fontSize: 14 }}>
+                {result.unchanged ? "Export on record — data unchanged" : "Export on record — data has changed since"}
+              </Text>
+              <Text style={{ color: COLORS.muted, fontSize: 12, lineHeight: 17 }}>
+                {result.unchanged
+                  ? "The readings in the app still hash to the value recorded at export time."
+                  : result.currentHash
+                    ? `The readings were corrected, added or removed after export (${result.rowCount} signed, ${result.currentRowCount} now).`
+                    : "This export was signed with an older format and can only be checked against the record below."}
+              </Text>
+              <Text style={{ color: COLORS.muted, fontSize: 12, lineHeight: 17 }}>
+                The PDF is genuine only if its code, reading count and SHA-256 match the record below exactly.
+              </Text>
+            </View>
+
+            <View
+              style={{
+                backgroundColor: COLORS.card,
+                borderWidth: 1,
+                borderColor: COLORS.border,
+                borderRadius: 16,
+                padding: 14,
+                gap: 10,
+              }}
+            >
+              <Row label="CODE" value={result.code} />
+              <Row
+                label="EXPORTED BY"
+                value={`${result.createdByName || result.createdBy} • ${
+                  result.createdAt ? new Date(result.createdAt).toLocaleString() : "—"
+                }`}
+              />
+              <Row label="TYPE" value={result.format === "haccp" ? "HACCP record sheet (PDF)" : "Table (PDF)"} />
+              <Row label="BRANCH" value={names.branch || result.branchId} />
+              <Row label="CHILLER" value={names.chiller || (result.chillerId ?? "All chillers")} />
+              <Row label="STATUS" value={result.status ? STATUS_LABELS[result.status] ?? result.status : "All"} />
+              <Row label="DATE RANGE" value={`${formatDate(result.from)} to ${formatDate(result.to)}`} />
+              <Row label="READINGS SIGNED" value={String(result.rowCount)} />
+              <Row label="SHA-256" value={result.hash} mono />
+            </View>
+          </>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
@@ -11,7 +11,10 @@ import {
 } from "react-native";
 import { Camera, CameraView, BarcodeScanningResult } from "expo-camera";
 import { router } from "expo-router";
-import { parseChillerIdFromQr } from "../../../src/utils/qr";
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { useAuth } from "../../../src/context/AuthContext";
+import { parseChillerIdFromQr, parseVerifyCodeFromQr } from "../../../src/utils/qr";
 
 const C = {
   bg: "#0F172A",
@@ -22,7 +25,11 @@ const C = {
   good: "#38BDF8",
 };
 
+const OTHER_ORG_MESSAGE =
+  "This chiller belongs to another organization. Switch organization in Settings first.";
+
 export default function ScanQr() {
+  const { orgId, canAccessBranch } = useAuth();
   const [hasPermission, setHasPermission] = useState<null | boolean>(null);
   const [scanned, setScanned] = useState(false);
   const [requesting, setRequesting] = useState(false);
@@ -51,10 +58,70 @@ export default function ScanQr() {
     ]);
   };
 
-  const onScan = (res: BarcodeScanningResult) => {
+  const reject = (title: string, message: string) => {
+    Alert.alert(title, message, [{ text: "Scan again", onPress: () => setScanned(false) }]);
+  };
+
+  /**
+   * Chillers outside the org or the user's branches are refused here rather than on the next screen.
+   * When the chiller can't be read because we're offline the scan goes through; Add Reading checks again.
+   * Rules refuse chillers in other orgs, so permission-denied means exactly that.
+   */
+  const checkScope = async (chillerId: string) => {
+    let v: any;
+    try {
+      const snap = await getDoc(doc(db, "chillers", chillerId));
+      if (!snap.exists()) {
+        reject("Chiller not found", "This QR belongs to a chiller that no longer exists.");
+        return false;
+      }
+      v = snap.data();
+    } catch (e: any) {
+      const code = String(e?.code || "");
+      // offline: "unavailable", or "failed-precondition" when only the local cache could answer
+      if (code === "unavailable" || code === "failed-precondition") return true;
+      if (code === "permission-denied") {
+        reject("Other organization", OTHER_ORG_MESSAGE);
+      } else {
+        reject("Could not check chiller", e?.message || "Try scanning again.");
+      }
+      return false;
+    }
+
+    if (v.orgId !== orgId) {
+      reject("Other organization", OTHER_ORG_MESSAGE);
+      return false;
+    }
+
+    if (!canAccessBranch(v.branchId)) {
+      const branch = v.branchId
+        ? await getDoc(doc(db, "branches", v.branchId))
+            .then((b) => (b.exists() ? String((b.data() as any).name ?? "") : ""))
+            .catch(() => "")
+        : "";
+      reject(
+        "Not your branch",
+        `${v.name || "This chiller"} is in ${branch || "a branch"} you're not assigned to. Ask an admin to add you to that branch.`
+      );
+      return false;
+    }
+
+    return true;
+  };
+
+  const onScan = async (res: BarcodeScanningResult) => {
     if (scanned) return;
 
     const raw = String(res?.data ?? "").trim();
+
+    // ✅ QR printed on a signed report -> verify it
+    const verifyCode = parseVerifyCodeFromQr(raw);
+    if (verifyCode) {
+      setScanned(true);
+      router.replace(`/(app)/reports/verify?code=${encodeURIComponent(verifyCode)}`);
+      return;
+    }
+
     const chillerId = parseChillerIdFromQr(raw);
 
     if (!chillerId) {
@@ -64,6 +131,9 @@ export default function ScanQr() {
 
     setScanned(true);
 
+    // ✅ only chillers in the user's branches
+    if (!(await checkScope(chillerId))) return;
+
     Alert.alert("Chiller found", "What do you want to do?", [
       { text: "Cancel", style: "cancel", onPress: () => setScanned(false) },
       {
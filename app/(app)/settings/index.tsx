@@ -10,14 +10,25 @@ import {
   Animated,
   Platform,
   TextInput,
+  ScrollView,
+  Switch,
 } from "react-native";
 import { router } from "expo-router";
 import { collection, getDocs, query, where, doc, updateDoc } from "firebase/firestore";
-import { signOut } from "firebase/auth";
 import { useAuth } from "../../../src/context/AuthContext";
-import { auth, db } from "../../../src/firebase/firebaseConfig";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { addOrgMember } from "../../../src/firebase/functionsClient";
+import {
+  NOTIFY_CATEGORIES,
+  registerPushToken,
+  saveNotifyPrefs,
+  type NotifyCategory,
+} from "../../../src/firebase/push";
+import { ROLE_LABELS, type UserRole } from "../../../src/utils/roles";
+import { useAppLock } from "../../../src/context/AppLockContext";
+import { isValidPin, LOCK_TIMEOUT_OPTIONS } from "../../../src/firebase/appLock";
 
-type Branch = { id: string; name: string; isActive: boolean; ownerId: string };
+type Branch = { id: string; name: string; isActive: boolean; orgId: string };
 
 const COLORS = {
   bg: "#0F172A",
@@ -121,7 +132,8 @@ function SheetPicker<T extends { id: string }>(props: {
 }
 
 export default function SettingsPage() {
-  const { user, profile, loading, refreshProfile } = useAuth();
+  const { user, profile, loading, refreshProfile, signOutUser, org, orgs, orgId, switchOrg, role, can, canAccessBranch } =
+    useAuth();
 
   const [saving, setSaving] = useState(false);
 
@@ -133,6 +145,20 @@ export default function SettingsPage() {
   // Local editable name (optional)
   const [nameDraft, setNameDraft] = useState("");
 
+  // Organization
+  const [orgPickerOpen, setOrgPickerOpen] = useState(false);
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<UserRole>("manager");
+  const [addingMember, setAddingMember] = useState(false);
+
+  // Notifications
+  const [savingPrefs, setSavingPrefs] = useState(false);
+
+  // App lock (this device only)
+  const appLock = useAppLock();
+  const [pinDraft, setPinDraft] = useState("");
+  const [savingPin, setSavingPin] = useState(false);
+
   const anim = useRef(new Animated.Value(0)).current;
 
   // auth gate
@@ -151,10 +177,10 @@ export default function SettingsPage() {
   // Load branches (no orderBy => no composite index)
   useEffect(() => {
     const run = async () => {
-      if (!user) return;
+      if (!user || !orgId) return;
       try {
         setBranchesLoading(true);
-        const q1 = query(collection(db, "branches"), where("ownerId", "==", user.uid));
+        const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
         const snap = await getDocs(q1);
 
         const data: Branch[] = snap.docs.map((d) => {
@@ -163,13 +189,13 @@ export default function SettingsPage() {
             id: d.id,
             name: v.name ?? "",
             isActive: v.isActive ?? true,
-            ownerId: v.ownerId ?? "",
+            orgId: v.orgId ?? "",
           };
         });
 
         // local sort by name for a clean picker
         data.sort((a, b) => a.name.localeCompare(b.name));
-        setBranches(data.filter((b) => b.isActive));
+        setBranches(data.filter((b) => b.isActive && canAccessBranch(b.id)));
       } catch (e: any) {
         Alert.alert("Error", e?.message || "Failed to load branches");
       } finally {
@@ -178,7 +204,8 @@ export default function SettingsPage() {
     };
 
     run();
-  }, [user]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, orgId]);
 
   const defaultBranchName = useMemo(() => {
     const id = profile?.defaultBranchId || "";
@@ -186,6 +213,12 @@ export default function SettingsPage() {
     return branches.find((b) => b.id === id)?.name || "Unknown";
   }, [branches, profile?.defaultBranchId]);
 
+  const assignedBranchName = useMemo(() => {
+    const ids = org?.branchIds ?? [];
+    if (ids.length === 0) return "No branch assigned";
+    return ids.map((id) => branches.find((b) => b.id === id)?.name || "Unknown").join(", ");
+  }, [branches, org?.branchIds]);
+
   const saveProfile = async (patch: Partial<{ name: string; defaultBranchId: string | null }>) => {
     if (!user) return;
     try {
@@ -214,6 +247,89 @@ export default function SettingsPage() {
     return saveProfile({ defaultBranchId: branchId });
   };
 
+  const onPickOrg = async (id: string) => {
+    if (id === orgId) return;
+    try {
+      await switchOrg(id);
+      router.replace("/(app)/dashboard");
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to switch organization");
+    }
+  };
+
+  const onAddMember = async () => {
+    if (!orgId) return;
+    const email = memberEmail.trim().toLowerCase();
+    if (!email) return Alert.alert("Validation", "Email is required.");
+
+    try {
+      setAddingMember(true);
+      await addOrgMember({ orgId, email, role: memberRole });
+      setMemberEmail("");
+      Alert.alert("Member added", `${email} can now switch to ${org?.name || "this organization"}.`);
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to add member");
+    } finally {
+      setAddingMember(false);
+    }
+  };
+
+  const onToggleCategory = async (key: NotifyCategory, value: boolean) => {
+    if (!user || !profile) return;
+    try {
+      setSavingPrefs(true);
+      await saveNotifyPrefs(user.uid, { ...profile.notifyPrefs, [key]: value });
+
+      // opting in is the natural moment to (re)ask for permission
+      if (value) {
+        const token = await registerPushToken(user.uid);
+        if (!token) {
+          Alert.alert(
+            "Notifications off",
+            "Allow notifications for Temp Monitor in your device settings to receive them on this device."
+          );
+        }
+      }
+
+      await refreshProfile();
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to save notification settings");
+    } finally {
+      setSavingPrefs(false);
+    }
+  };
+
+  const onSavePin = async () => {
+    if (!isValidPin(pinDraft)) return Alert.alert("Validation", "PIN must be 4 to 6 digits.");
+    try {
+      setSavingPin(true);
+      await appLock.registerPin(pinDraft);
+      setPinDraft("");
+      Alert.alert("PIN saved", "You can now unlock or switch to your account on this device with it.");
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to save PIN");
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
+  const onRemovePin = () => {
+    Alert.alert("Remove PIN?", "You will no longer be able to unlock or switch to your account on this device.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await appLock.removePin();
+          } catch (e: any) {
+            Alert.alert("Error", e?.message || "Failed to remove PIN");
+          }
+        },
+      },
+    ]);
+  };
+
   const onLogout = async () => {
     Alert.alert("Sign out?", "You will need to login again.", [
       { text: "Cancel", style: "cancel" },
@@ -222,7 +338,7 @@ export default function SettingsPage() {
         style: "destructive",
         onPress: async () => {
           try {
-            await signOut(auth);
+            await signOutUser();
             router.replace("/(auth)/login");
           } catch (e: any) {
             Alert.alert("Error", e?.message || "Failed to sign out");
@@ -246,200 +362,513 @@ export default function SettingsPage() {
       <Animated.View
         style={{
           flex: 1,
-          padding: 16,
-          gap: 12,
           opacity: anim,
           transform: [{ translateY: anim.interpolate({ inputRange: [0, 1], outputRange: [8, 0] }) }],
         }}
       >
-        {/* Header */}
-        <View style={{ gap: 4 }}>
-          <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>Settings</Text>
-          <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
-            Account • Defaults • Shortcuts
-          </Text>
-        </View>
-
-        {/* Account card */}
-        <View
-          style={{
-            backgroundColor: COLORS.card,
-            borderWidth: 1,
-            borderColor: COLORS.border,
-            borderRadius: 16,
-            padding: 14,
-            gap: 10,
-          }}
-        >
-          <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Account</Text>
-
-          <View style={{ gap: 6 }}>
-            <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>Email</Text>
-            <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "800" }} numberOfLines={1}>
-              {user.email || "—"}
+        <ScrollView contentContainerStyle={{ padding: 16, gap: 12, paddingBottom: Platform.OS === "ios" ? 28 : 18 }}>
+          {/* Header */}
+          <View style={{ gap: 4 }}>
+            <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>Settings</Text>
+            <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+              {can("settings.defaults")
+                ? "Account • Organization • Notifications • App Lock • Defaults • Shortcuts"
+                : "Account • Organization • Notifications • App Lock"}
             </Text>
           </View>
 
-          <View style={{ gap: 6 }}>
-            <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>Name</Text>
-            <TextInput
-              value={nameDraft}
-              onChangeText={setNameDraft}
-              placeholder="Your name"
-              placeholderTextColor={COLORS.muted2}
-              style={{
-                borderWidth: 1,
-                borderColor: COLORS.border,
-                paddingVertical: Platform.OS === "ios" ? 10 : 9,
-                paddingHorizontal: 12,
-                borderRadius: 14,
-                color: COLORS.text,
-                backgroundColor: "#0B1220",
-                fontSize: 13.5,
-                fontWeight: "700",
-              }}
-            />
-          </View>
-
-          <Pressable
-            onPress={onSaveName}
-            disabled={saving}
-            style={({ pressed }) => ({
-              paddingVertical: 11,
-              borderRadius: 14,
-              backgroundColor: "#0B1220",
-              borderWidth: 1,
-              borderColor: COLORS.border,
-              alignItems: "center",
-              opacity: saving ? 0.6 : pressed ? 0.85 : 1,
-            })}
-          >
-            {saving ? (
-              <ActivityIndicator />
-            ) : (
-              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Save Name</Text>
-            )}
-          </Pressable>
-        </View>
-
-        {/* Defaults card */}
-        <View
-          style={{
-            backgroundColor: COLORS.card,
-            borderWidth: 1,
-            borderColor: COLORS.border,
-            borderRadius: 16,
-            padding: 14,
-            gap: 10,
-          }}
-        >
-          <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Defaults</Text>
-
-          <Pressable
-            onPress={() => setBranchPickerOpen(true)}
-            disabled={branchesLoading}
-            style={({ pressed }) => ({
-              paddingVertical: 12,
-              paddingHorizontal: 12,
-              borderRadius: 14,
-              backgroundColor: "#0B1220",
+          {/* Account card */}
+          <View
+            style={{
+              backgroundColor: COLORS.card,
               borderWidth: 1,
               borderColor: COLORS.border,
-              opacity: branchesLoading ? 0.6 : pressed ? 0.85 : 1,
-            })}
+              borderRadius: 16,
+              padding: 14,
+              gap: 10,
+            }}
           >
-            <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>Default Branch</Text>
-            <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "900", marginTop: 4 }}>
-              {branchesLoading ? "Loading…" : defaultBranchName}
-            </Text>
-            <Text style={{ color: COLORS.muted2, fontSize: 11.5, marginTop: 2 }}>
-              Tap to choose
-            </Text>
-          </Pressable>
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Account</Text>
 
-          <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
-            This branch will be pre-selected on dashboard/logs.
-          </Text>
-        </View>
+            <View style={{ gap: 6 }}>
+              <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>Email</Text>
+              <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "800" }} numberOfLines={1}>
+                {user.email || "—"}
+              </Text>
+            </View>
 
-        {/* Shortcuts card */}
-        <View
-          style={{
-            backgroundColor: COLORS.card,
-            borderWidth: 1,
-            borderColor: COLORS.border,
-            borderRadius: 16,
-            padding: 14,
-            gap: 10,
-          }}
-        >
-          <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Shortcuts</Text>
+            <View style={{ gap: 6 }}>
+              <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>Name</Text>
+              <TextInput
+                value={nameDraft}
+                onChangeText={setNameDraft}
+                placeholder="Your name"
+                placeholderTextColor={COLORS.muted2}
+                style={{
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  paddingVertical: Platform.OS === "ios" ? 10 : 9,
+                  paddingHorizontal: 12,
+                  borderRadius: 14,
+                  color: COLORS.text,
+                  backgroundColor: "#0B1220",
+                  fontSize: 13.5,
+                  fontWeight: "700",
+                }}
+              />
+            </View>
 
-          <View style={{ flexDirection: "row", gap: 10 }}>
             <Pressable
-              onPress={() => router.push("/(app)/branches")}
+              onPress={onSaveName}
+              disabled={saving}
               style={({ pressed }) => ({
-                flex: 1,
                 paddingVertical: 11,
                 borderRadius: 14,
                 backgroundColor: "#0B1220",
                 borderWidth: 1,
                 borderColor: COLORS.border,
                 alignItems: "center",
-                opacity: pressed ? 0.85 : 1,
+                opacity: saving ? 0.6 : pressed ? 0.85 : 1,
               })}
             >
-              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>Branches</Text>
+              {saving ? (
+                <ActivityIndicator />
+              ) : (
+                <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Save Name</Text>
+              )}
             </Pressable>
+          </View>
+
+          {/* Organization card */}
+          <View
+            style={{
+              backgroundColor: COLORS.card,
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              borderRadius: 16,
+              padding: 14,
+              gap: 10,
+            }}
+          >
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Organization</Text>
 
             <Pressable
-              onPress={() => router.push("/(app)/chillers")}
+              onPress={() => setOrgPickerOpen(true)}
+              disabled={orgs.length < 2}
               style={({ pressed }) => ({
-                flex: 1,
-                paddingVertical: 11,
+                paddingVertical: 12,
+                paddingHorizontal: 12,
                 borderRadius: 14,
                 backgroundColor: "#0B1220",
                 borderWidth: 1,
                 borderColor: COLORS.border,
-                alignItems: "center",
                 opacity: pressed ? 0.85 : 1,
               })}
             >
-              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>Chillers</Text>
+              <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "900" }} numberOfLines={1}>
+                {org?.name || "No organization"}
+              </Text>
+              <Text style={{ color: COLORS.muted, fontSize: 11.5, marginTop: 4 }}>
+                {role ? ROLE_LABELS[role] : "—"}
+                {role && role !== "admin" ? ` • ${branchesLoading ? "Loading…" : assignedBranchName}` : ""}
+              </Text>
+              {orgs.length > 1 ? (
+                <Text style={{ color: COLORS.muted2, fontSize: 11.5, marginTop: 2 }}>
+                  Tap to switch ({orgs.length} organizations)
+                </Text>
+              ) : null}
             </Pressable>
+
+            {can("staff.manage") ? (
+              <View style={{ gap: 8 }}>
+                <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+                  Add an existing account (e.g. a second admin or an auditor)
+                </Text>
+                <TextInput
+                  value={memberEmail}
+                  onChangeText={setMemberEmail}
+                  placeholder="email@company.com"
+                  placeholderTextColor={COLORS.muted2}
+                  autoCapitalize="none"
+                  keyboardType="email-address"
+                  style={{
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    paddingVertical: Platform.OS === "ios" ? 10 : 9,
+                    paddingHorizontal: 12,
+                    borderRadius: 14,
+                    color: COLORS.text,
+                    backgroundColor: "#0B1220",
+                    fontSize: 13.5,
+                    fontWeight: "700",
+                  }}
+                />
+
+                <View style={{ flexDirection: "row", gap: 8 }}>
+                  {(["admin", "manager", "staff"] as UserRole[]).map((r) => {
+                    const active = memberRole === r;
+                    return (
+                      <Pressable
+                        key={r}
+                        onPress={() => setMemberRole(r)}
+                        style={({ pressed }) => ({
+                          flex: 1,
+                          paddingVertical: 9,
+                          borderRadius: 12,
+                          alignItems: "center",
+                          backgroundColor: active ? "#0B1220" : COLORS.card,
+                          borderWidth: 1,
+                          borderColor: active ? COLORS.good : COLORS.border,
+                          opacity: pressed ? 0.85 : 1,
+                        })}
+                      >
+                        <Text style={{ color: active ? COLORS.good : COLORS.muted, fontWeight: "900", fontSize: 11.5 }}>
+                          {ROLE_LABELS[r]}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <Pressable
+                  onPress={onAddMember}
+                  disabled={addingMember}
+                  style={({ pressed }) => ({
+                    paddingVertical: 11,
+                    borderRadius: 14,
+                    backgroundColor: "#0B1220",
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    alignItems: "center",
+                    opacity: addingMember ? 0.6 : pressed ? 0.85 : 1,
+                  })}
+                >
+                  {addingMember ? (
+                    <ActivityIndicator />
+                  ) : (
+                    <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>Add Member</Text>
+                  )}
+                </Pressable>
+              </View>
+            ) : null}
+          </View>
+
+          {/* Notifications card */}
+          <View
+            style={{
+              backgroundColor: COLORS.card,
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              borderRadius: 16,
+              padding: 14,
+              gap: 10,
+            }}
+          >
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Notifications</Text>
+
+            {NOTIFY_CATEGORIES.map((c) => (
+              <View key={c.key} style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "800" }}>{c.label}</Text>
+                  <Text style={{ color: COLORS.muted2, fontSize: 11.5, marginTop: 2 }}>{c.hint}</Text>
+                </View>
+                <Switch
+                  value={!!profile?.notifyPrefs[c.key]}
+                  onValueChange={(v) => onToggleCategory(c.key, v)}
+                  disabled={savingPrefs || !profile}
+                  trackColor={{ true: COLORS.good, false: COLORS.border }}
+                />
+              </View>
+            ))}
+
+            <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+              Push notifications go to every device you are signed in on.
+            </Text>
+          </View>
+
+          {/* App lock card */}
+          <View
+            style={{
+              backgroundColor: COLORS.card,
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              borderRadius: 16,
+              padding: 14,
+              gap: 10,
+            }}
+          >
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>App Lock</Text>
+
+            <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+              {appLock.hasPin
+                ? "Your PIN is set on this device. Enter a new one to change it."
+                : "Set a PIN to unlock this device and to switch to your account without your password."}
+            </Text>
+
+            <View style={{ flexDirection: "row", gap: 10 }}>
+              <TextInput
+                value={pinDraft}
+                onChangeText={(v) => setPinDraft(v.replace(/\D/g, ""))}
+                placeholder="4–6 digit PIN"
+                placeholderTextColor={COLORS.muted2}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={6}
+                style={{
+                  flex: 1,
+                  paddingVertical: 10,
+                  paddingHorizontal: 12,
+                  borderRadius: 14,
+                  backgroundColor: "#0B1220",
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  color: COLORS.text,
+                }}
+              />
+              <Pressable
+                onPress={onSavePin}
+                disabled={savingPin}
+                style={({ pressed }) => ({
+                  paddingHorizontal: 16,
+                  borderRadius: 14,
+                  backgroundColor: "#0B1220",
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  alignItems: "center",
+                  justifyContent: "center",
+                  opacity: savingPin ? 0.6 : pressed ? 0.85 : 1,
+                })}
+              >
+                {savingPin ? (
+                  <ActivityIndicator />
+                ) : (
+                  <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>
+                    {appLock.hasPin ? "Change" : "Set PIN"}
+                  </Text>
+                )}
+              </Pressable>
+            </View>
+
+            <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+              <View style={{ flex: 1 }}>
+                <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "800" }}>Lock when idle</Text>
+                <Text style={{ color: COLORS.muted2, fontSize: 11.5, marginTop: 2 }}>
+                  Applies to everyone using this device.
+                </Text>
+              </View>
+              <Switch
+                value={appLock.settings.enabled}
+                onValueChange={(v) => appLock.updateSettings({ enabled: v })}
+                disabled={!appLock.hasPin}
+                trackColor={{ true: COLORS.good, false: COLORS.border }}
+              />
+            </View>
+
+            {appLock.settings.enabled ? (
+              <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+                {LOCK_TIMEOUT_OPTIONS.map((m) => {
+                  const active = appLock.settings.timeoutMinutes === m;
+                  return (
+                    <Pressable
+                      key={m}
+                      onPress={() => appLock.updateSettings({ timeoutMinutes: m })}
+                      style={{
+                        paddingVertical: 7,
+                        paddingHorizontal: 12,
+                        borderRadius: 999,
+                        backgroundColor: active ? COLORS.good : "#0B1220",
+                        borderWidth: 1,
+                        borderColor: active ? COLORS.good : COLORS.border,
+                      }}
+                    >
+                      <Text style={{ color: active ? COLORS.bg : COLORS.text, fontWeight: "900", fontSize: 12 }}>
+                        {m} min
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ) : null}
+
+            {appLock.biometricLabel ? (
+              <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "800" }}>
+                    Unlock with {appLock.biometricLabel}
+                  </Text>
+                  <Text style={{ color: COLORS.muted2, fontSize: 11.5, marginTop: 2 }}>
+                    Switching to someone else always needs their PIN.
+                  </Text>
+                </View>
+                <Switch
+                  value={appLock.settings.biometrics}
+                  onValueChange={(v) => appLock.updateSettings({ biometrics: v })}
+                  trackColor={{ true: COLORS.good, false: COLORS.border }}
+                />
+              </View>
+            ) : null}
+
+            {appLock.hasPin ? (
+              <View style={{ flexDirection: "row", gap: 10 }}>
+                <Pressable
+                  onPress={appLock.lockNow}
+                  disabled={!appLock.settings.enabled}
+                  style={({ pressed }) => ({
+                    flex: 1,
+                    paddingVertical: 11,
+                    borderRadius: 14,
+                    backgroundColor: "#0B1220",
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    alignItems: "center",
+                    opacity: !appLock.settings.enabled ? 0.5 : pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>Lock now</Text>
+                </Pressable>
+
+                <Pressable
+                  onPress={onRemovePin}
+                  style={({ pressed }) => ({
+                    flex: 1,
+                    paddingVertical: 11,
+                    borderRadius: 14,
+                    backgroundColor: "#0B1220",
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    alignItems: "center",
+                    opacity: pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: COLORS.bad, fontWeight: "900", fontSize: 12.5 }}>Remove PIN</Text>
+                </Pressable>
+              </View>
+            ) : null}
           </View>
 
+          {can("settings.defaults") ? (
+            <>
+              {/* Defaults card */}
+              <View
+                style={{
+                  backgroundColor: COLORS.card,
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  borderRadius: 16,
+                  padding: 14,
+                  gap: 10,
+                }}
+              >
+                <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Defaults</Text>
+
+                <Pressable
+                  onPress={() => setBranchPickerOpen(true)}
+                  disabled={branchesLoading}
+                  style={({ pressed }) => ({
+                    paddingVertical: 12,
+                    paddingHorizontal: 12,
+                    borderRadius: 14,
+                    backgroundColor: "#0B1220",
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    opacity: branchesLoading ? 0.6 : pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>Default Branch</Text>
+                  <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "900", marginTop: 4 }}>
+                    {branchesLoading ? "Loading…" : defaultBranchName}
+                  </Text>
+                  <Text style={{ color: COLORS.muted2, fontSize: 11.5, marginTop: 2 }}>
+                    Tap to choose
+                  </Text>
+                </Pressable>
+
+                <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+                  This branch will be pre-selected on dashboard/logs.
+                </Text>
+              </View>
+
+              {/* Shortcuts card */}
+              <View
+                style={{
+                  backgroundColor: COLORS.card,
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  borderRadius: 16,
+                  padding: 14,
+                  gap: 10,
+                }}
+              >
+                <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Shortcuts</Text>
+
+                <View style={{ flexDirection: "row", gap: 10 }}>
+                  <Pressable
+                    onPress={() => router.push("/(app)/branches")}
+                    style={({ pressed }) => ({
+                      flex: 1,
+                      paddingVertical: 11,
+                      borderRadius: 14,
+                      backgroundColor: "#0B1220",
+                      borderWidth: 1,
+                      borderColor: COLORS.border,
+                      alignItems: "center",
+                      opacity: pressed ? 0.85 : 1,
+                    })}
+                  >
+                    <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>Branches</Text>
+                  </Pressable>
+
+                  <Pressable
+                    onPress={() => router.push("/(app)/chillers")}
+                    style={({ pressed }) => ({
+                      flex: 1,
+                      paddingVertical: 11,
+                      borderRadius: 14,
+                      backgroundColor: "#0B1220",
+                      borderWidth: 1,
+                      borderColor: COLORS.border,
+                      alignItems: "center",
+                      opacity: pressed ? 0.85 : 1,
+                    })}
+                  >
+                    <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>Chillers</Text>
+                  </Pressable>
+                </View>
+
+                <Pressable
+                  onPress={() => router.push("/(app)/reports")}
+                  style={({ pressed }) => ({
+                    paddingVertical: 11,
+                    borderRadius: 14,
+                    backgroundColor: "#0B1220",
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    alignItems: "center",
+                    opacity: pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>Reports</Text>
+                </Pressable>
+              </View>
+            </>
+          ) : null}
+
+          {/* Sign out */}
           <Pressable
-            onPress={() => router.push("/(app)/reports")}
+            onPress={onLogout}
             style={({ pressed }) => ({
-              paddingVertical: 11,
-              borderRadius: 14,
-              backgroundColor: "#0B1220",
+              paddingVertical: 12,
+              borderRadius: 16,
+              backgroundColor: "#2A1220",
               borderWidth: 1,
-              borderColor: COLORS.border,
+              borderColor: "#3B1325",
               alignItems: "center",
               opacity: pressed ? 0.85 : 1,
             })}
           >
-            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>Reports</Text>
+            <Text style={{ color: COLORS.bad, fontWeight: "900", fontSize: 13 }}>Sign out</Text>
           </Pressable>
-        </View>
-
-        {/* Sign out */}
-        <Pressable
-          onPress={onLogout}
-          style={({ pressed }) => ({
-            paddingVertical: 12,
-            borderRadius: 16,
-            backgroundColor: "#2A1220",
-            borderWidth: 1,
-            borderColor: "#3B1325",
-            alignItems: "center",
-            opacity: pressed ? 0.85 : 1,
-          })}
-        >
-          <Text style={{ color: COLORS.bad, fontWeight: "900", fontSize: 13 }}>Sign out</Text>
-        </Pressable>
+        </ScrollView>
       </Animated.View>
 
       {/* Bottom sheet branch picker */}
@@ -453,6 +882,17 @@ export default function SettingsPage() {
         onSelect={onPickDefaultBranch}
         extraTopItem={{ id: "__none__", label: "None" }}
       />
+
+      {/* Bottom sheet organization switcher */}
+      <SheetPicker
+        title="Organization"
+        open={orgPickerOpen}
+        onClose={() => setOrgPickerOpen(false)}
+        items={orgs}
+        selectedId={orgId || ""}
+        getLabel={(o) => `${o.name || "Unnamed"} • ${ROLE_LABELS[o.role]}`}
+        onSelect={onPickOrg}
+      />
     </View>
   );
 }
\ No newline at end of file
@@ -0,0 +1,524 @@
+// app/(app)/staff/[id].tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { View, Text, TextInput, Pressable, Alert, ActivityIndicator, Animated, Platform, ScrollView, Share } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { collection, doc, getDoc, getDocs, query, where } from "firebase/firestore";
+import { useAuth } from "../../../src/context/AuthContext";
+import { db } from "../../../src/firebase/firebaseConfig";
+import {
+  createStaff,
+  deleteStaff,
+  inviteStaff,
+  resetStaffPassword,
+  setStaffActive,
+  updateStaff,
+  type StaffRole,
+} from "../../../src/firebase/functionsClient";
+import { ROLE_LABELS } from "../../../src/utils/roles";
+
+type Branch = { id: string; name: string; isActive: boolean };
+
+const COLORS = {
+  bg: "#0F172A",
+  card: "#111827",
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  bad: "#F43F5E",
+};
+
+const MIN_PASSWORD = 6;
+
+const inputStyle = {
+  borderWidth: 1,
+  borderColor: COLORS.border,
+  paddingVertical: Platform.OS === "ios" ? 10 : 9,
+  paddingHorizontal: 12,
+  borderRadius: 14,
+  color: COLORS.text,
+  backgroundColor: "#0B1220",
+  fontSize: 13.5,
+  fontWeight: "700" as const,
+};
+
+const cardStyle = {
+  backgroundColor: COLORS.card,
+  borderWidth: 1,
+  borderColor: COLORS.border,
+  borderRadius: 16,
+  padding: 14,
+  gap: 10,
+};
+
+export default function StaffEdit() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const isNew = useMemo(() => id === "new", [id]);
+
+  const { user, loading, orgId } = useAuth();
+
+  const [pageLoading, setPageLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [branches, setBranches] = useState<Branch[]>([]);
+
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<StaffRole>("staff");
+  const [branchIds, setBranchIds] = useState<string[]>([]);
+
+  // new only: send an invite link (they pick a password) or set one here
+  const [mode, setMode] = useState<"invite" | "password">("invite");
+
+  // edit only
+  const [isActive, setIsActive] = useState(true);
+  const [managed, setManaged] = useState(true);
+  const [newPassword, setNewPassword] = useState("");
+
+  const anim = useRef(new Animated.Value(0)).current;
+
+  // auth gate
+  useEffect(() => {
+    if (!loading && !user) router.replace("/(auth)/login");
+  }, [loading, user]);
+
+  useEffect(() => {
+    Animated.timing(anim, {
+      toValue: 1,
+      duration: 220,
+      useNativeDriver: true,
+    }).start();
+  }, [anim]);
+
+  // load branches + member (edit)
+  useEffect(() => {
+    const run = async () => {
+      if (!user || !orgId) return;
+
+      try {
+        setPageLoading(true);
+
+        const bSnap = await getDocs(query(collection(db, "branches"), where("orgId", "==", orgId)));
+        const list: Branch[] = bSnap.docs.map((d) => {
+          const v = d.data() as any;
+          return { id: d.id, name: v.name ?? "", isActive: v.isActive ?? true };
+        });
+        list.sort((a, b) => a.name.localeCompare(b.name));
+        setBranches(list);
+
+        if (isNew) return;
+
+        const oSnap = await getDoc(doc(db, "orgs", orgId));
+        const m = ((oSnap.data() as any)?.members ?? {})[String(id)];
+
+        if (!m || m.role === "admin") {
+          Alert.alert("Not found", "This person is not on your staff.");
+          router.back();
+          return;
+        }
+
+        setName(m.name ?? "");
+        setEmail(m.email ?? "");
+        setRole(m.role === "manager" ? "manager" : "staff");
+        // memberships from before multi-branch assignments carry a single branchId
+        setBranchIds(Array.isArray(m.branchIds) ? m.branchIds : m.branchId ? [m.branchId] : []);
+        setIsActive(m.isActive !== false);
+        setManaged(m.managed !== false);
+      } catch (e: any) {
+        Alert.alert("Error", e?.message || "Failed to load staff member");
+      } finally {
+        setPageLoading(false);
+      }
+    };
+
+    run();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, isNew, user, orgId]);
+
+  // inactive branches stay listed only while someone is still assigned to them
+  const branchOptions = useMemo(
+    () => branches.filter((b) => b.isActive || branchIds.includes(b.id)),
+    [branches, branchIds]
+  );
+
+  const toggleBranch = (id: string) =>
+    setBranchIds((prev) => (prev.includes(id) ? prev.filter((b) => b !== id) : [...prev, id]));
+
+  const onSave = async () => {
+    if (!user || !orgId) return;
+
+    const cleanName = name.trim();
+    if (!cleanName) return Alert.alert("Validation", "Name is required.");
+
+    try {
+      setSaving(true);
+
+      if (isNew) {
+        const cleanEmail = email.trim().toLowerCase();
+        if (!cleanEmail) return Alert.alert("Validation", "Email is required.");
+
+        if (mode === "invite") {
+          const res = await inviteStaff({ orgId, name: cleanName, email: cleanEmail, role, branchIds });
+          const days = Math.round((res.expiresAt - Date.now()) / (24 * 60 * 60 * 1000));
+          const share = () =>
+            Share.share({ message: `Join us on Temperature Monitor — open this link to set your password:\n${res.link}` })
+              .catch(() => {})
+              .finally(() => router.back());
+
+          Alert.alert(
+            "Invite created",
+            `${res.emailed ? `We e-mailed the link to ${cleanEmail}.` : "Share the link with them."} It works once and expires in ${days} days.`,
+            [
+              { text: "Share link", onPress: share },
+              { text: "Done", onPress: () => router.back() },
+            ]
+          );
+          return;
+        }
+
+        if (password.trim().length < MIN_PASSWORD) {
+          return Alert.alert("Validation", `Password must be at least ${MIN_PASSWORD} characters.`);
+        }
+
+        await createStaff({ orgId, name: cleanName, email: cleanEmail, password: password.trim(), role, branchIds });
+        Alert.alert("Staff added", `${cleanEmail} can now sign in with the password you set.`);
+      } else {
+        await updateStaff({ orgId, uid: String(id), name: cleanName, role, branchIds });
+      }
+
+      router.back();
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onToggleActive = async () => {
+    if (!orgId || isNew) return;
+    const next = !isActive;
+
+    const run = async () => {
+      try {
+        setSaving(true);
+        await setStaffActive({ orgId, uid: String(id), active: next });
+        setIsActive(next);
+      } catch (e: any) {
+        Alert.alert("Error", e?.message || "Failed to update");
+      } finally {
+        setSaving(false);
+      }
+    };
+
+    if (next) return run();
+
+    Alert.alert("Deactivate login?", `${name || email} will be signed out and can't sign in until reactivated.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Deactivate", style: "destructive", onPress: run },
+    ]);
+  };
+
+  const onResetPassword = async () => {
+    if (!orgId || isNew) return;
+    const clean = newPassword.trim();
+    if (clean.length < MIN_PASSWORD) {
+      return Alert.alert("Validation", `Password must be at least ${MIN_PASSWORD} characters.`);
+    }
+
+    try {
+      setSaving(true);
+      await resetStaffPassword({ orgId, uid: String(id), password: clean });
+      setNewPassword("");
+      Alert.alert("Password reset", "Their other sessions will be signed out. Share the new password with them.");
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to reset password");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onDelete = async () => {
+    if (!orgId || isNew) return;
+
+    Alert.alert(
+      "Remove staff member?",
+      managed
+        ? "This deletes their login. Their past readings stay in the logs."
+        : "They keep their own account but lose access to this organization.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setSaving(true);
+              await deleteStaff({ orgId, uid: String(id) });
+              router.replace("/(app)/staff");
+            } catch (e: any) {
+              Alert.alert("Error", e?.message || "Failed to remove");
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading || pageLoading) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!user) return null;
+
+  const Chip = ({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) => (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => ({
+        paddingVertical: 9,
+        paddingHorizontal: 12,
+        borderRadius: 12,
+        alignItems: "center",
+        backgroundColor: active ? "#0B1220" : COLORS.card,
+        borderWidth: 1,
+        borderColor: active ? COLORS.good : COLORS.border,
+        opacity: pressed ? 0.85 : 1,
+      })}
+    >
+      <Text style={{ color: active ? COLORS.good : COLORS.muted, fontWeight: "900", fontSize: 11.5 }}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: COLORS.bg }}>
+      <Animated.View
+        style={{
+          flex: 1,
+          opacity: anim,
+          transform: [{ translateY: anim.interpolate({ inputRange: [0, 1], outputRange: [8, 0] }) }],
+        }}
+      >
+        <ScrollView contentContainerStyle={{ padding: 16, gap: 12, paddingBottom: Platform.OS === "ios" ? 28 : 18 }}>
+          <View style={{ gap: 4 }}>
+            <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>
+              {isNew ? "Add Staff" : "Edit Staff"}
+            </Text>
+            <Text style={{ color: COLORS.muted, fontSize: 12 }}>
+              {isNew ? "Invite someone on your team, or create their login yourself." : email}
+            </Text>
+          </View>
+
+          {/* Details */}
+          <View style={cardStyle}>
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Name</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g., Sam Taylor"
+              placeholderTextColor={COLORS.muted2}
+              style={inputStyle}
+            />
+
+            {isNew && (
+              <>
+                <View style={{ flexDirection: "row", gap: 8 }}>
+                  <View style={{ flex: 1 }}>
+                    <Chip label="Invite link" active={mode === "invite"} onPress={() => setMode("invite")} />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Chip label="Set password" active={mode === "password"} onPress={() => setMode("password")} />
+                  </View>
+                </View>
+                <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+                  {mode === "invite"
+                    ? "They get a one-time link to choose their own password."
+                    : "You choose the password and pass it on to them."}
+                </Text>
+
+                <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Email</Text>
+                <TextInput
+                  value={email}
+                  onChangeText={setEmail}
+                  placeholder="name@example.com"
+                  placeholderTextColor={COLORS.muted2}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="email-address"
+                  style={inputStyle}
+                />
+
+                {mode === "password" && (
+                  <>
+                    <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Password</Text>
+                    <TextInput
+                      value={password}
+                      onChangeText={setPassword}
+                      placeholder={`At least ${MIN_PASSWORD} characters`}
+                      placeholderTextColor={COLORS.muted2}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      secureTextEntry
+                      style={inputStyle}
+                    />
+                  </>
+                )}
+              </>
+            )}
+
+            <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Role</Text>
+            <View style={{ flexDirection: "row", gap: 8 }}>
+              {(["manager", "staff"] as StaffRole[]).map((r) => (
+                <View key={r} style={{ flex: 1 }}>
+                  <Chip label={ROLE_LABELS[r]} active={role === r} onPress={() => setRole(r)} />
+                </View>
+              ))}
+            </View>
+          </View>
+
+          {/* Branch */}
+          <View style={cardStyle}>
+            <View style={{ gap: 2 }}>
+              <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Branches</Text>
+              <Text style={{ color: COLORS.muted2, fontSize: 11.5 }}>
+                They only see and scan chillers in the branches picked here. Tap to add or remove.
+              </Text>
+            </View>
+
+            <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+              {branchOptions.map((b) => (
+                <Chip
+                  key={b.id}
+                  label={`${b.name || "Unnamed"}${b.isActive ? "" : " (inactive)"}`}
+                  active={branchIds.includes(b.id)}
+                  onPress={() => toggleBranch(b.id)}
+                />
+              ))}
+            </View>
+
+            {branchIds.length === 0 ? (
+              <Text style={{ color: COLORS.bad, fontSize: 11.5 }}>No branch yet — they won't see any chillers.</Text>
+            ) : null}
+          </View>
+
+          {/* Save */}
+          <Pressable
+            onPress={onSave}
+            disabled={saving}
+            style={({ pressed }) => ({
+              paddingVertical: 12,
+              borderRadius: 16,
+              backgroundColor: COLORS.card,
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              alignItems: "center",
+              opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+            })}
+          >
+            {saving ? (
+              <ActivityIndicator />
+            ) : (
+              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>{isNew ? (mode === "invite" ? "Send Invite" : "Create Login") : "Save"}</Text>
+            )}
+          </Pressable>
+
+          {/* Login (only for accounts this org created) */}
+          {!isNew && managed && (
+            <View style={cardStyle}>
+              <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Login</Text>
+
+              <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", gap: 10 }}>
+                <View style={{ flex: 1, gap: 2 }}>
+                  <Text style={{ color: COLORS.text, fontSize: 13, fontWeight: "900" }}>
+                    {isActive ? "Active" : "Deactivated"}
+                  </Text>
+                  <Text style={{ color: COLORS.muted, fontSize: 11.5 }}>
+                    {isActive ? "Can sign in and log readings." : "Signed out and blocked from signing in."}
+                  </Text>
+                </View>
+
+                <Pressable
+                  onPress={onToggleActive}
+                  disabled={saving}
+                  style={({ pressed }) => ({
+                    paddingVertical: 9,
+                    paddingHorizontal: 12,
+                    borderRadius: 12,
+                    backgroundColor: "#0B1220",
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: isActive ? COLORS.bad : COLORS.good, fontWeight: "900", fontSize: 12 }}>
+                    {isActive ? "Deactivate" : "Reactivate"}
+                  </Text>
+                </Pressable>
+              </View>
+
+              <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800", marginTop: 4 }}>Reset Password</Text>
+              <View style={{ flexDirection: "row", gap: 8 }}>
+                <TextInput
+                  value={newPassword}
+                  onChangeText={setNewPassword}
+                  placeholder="New password"
+                  placeholderTextColor={COLORS.muted2}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  secureTextEntry
+                  style={[inputStyle, { flex: 1 }]}
+                />
+                <Pressable
+                  onPress={onResetPassword}
+                  disabled={saving || !newPassword.trim()}
+                  style={({ pressed }) => ({
+                    paddingHorizontal: 14,
+                    borderRadius: 14,
+                    justifyContent: "center",
+                    backgroundColor: "#0B1220",
+                    borderWidth: 1,
+                    borderColor: COLORS.border,
+                    opacity: saving || !newPassword.trim() ? 0.6 : pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12 }}>Reset</Text>
+                </Pressable>
+              </View>
+            </View>
+          )}
+
+          {!isNew && !managed && (
+            <Text style={{ color: COLORS.muted2, fontSize: 11.5, paddingHorizontal: 4 }}>
+              This person joined with their own account, so their login and password are theirs to manage.
+            </Text>
+          )}
+
+          {/* Delete */}
+          {!isNew && (
+            <Pressable
+              onPress={onDelete}
+              disabled={saving}
+              style={({ pressed }) => ({
+                paddingVertical: 12,
+                borderRadius: 16,
+                backgroundColor: "#2A1220",
+                borderWidth: 1,
+                borderColor: "#3B1325",
+                alignItems: "center",
+                opacity: saving ? 0.6 : pressed ? 0.85 : 1,
+              })}
+            >
+              <Text style={{ color: COLORS.bad, fontWeight: "900", fontSize: 13 }}>Remove Staff Member</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </Animated.View>
+    </View>
+  );
+}
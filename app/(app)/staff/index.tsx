@@ -0,0 +1,339 @@
+// app/(app)/staff/index.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { View, Text, Pressable, FlatList, ActivityIndicator, Alert, Animated, Platform } from "react-native";
+import { Link, router } from "expo-router";
+import { collection, doc, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "../../../src/firebase/firebaseConfig";
+import { useAuth } from "../../../src/context/AuthContext";
+import { revokeStaffInvite } from "../../../src/firebase/functionsClient";
+import { ROLE_LABELS, normalizeRole, type UserRole } from "../../../src/utils/roles";
+
+type StaffMember = {
+  uid: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  branchIds: string[];
+  isActive: boolean;
+  managed: boolean | null; // null = added before this was recorded
+  addedAt?: any;
+};
+
+type PendingInvite = {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  expiresAt: number;
+};
+
+const COLORS = {
+  bg: "#0F172A",
+  card: "#111827",
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  bad: "#F43F5E",
+};
+
+export default function StaffList() {
+  const { user, loading, orgId } = useAuth();
+
+  const [listLoading, setListLoading] = useState(true);
+  const [items, setItems] = useState<StaffMember[]>([]);
+  const [branchNames, setBranchNames] = useState<Map<string, string>>(new Map());
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+
+  const anim = useRef(new Animated.Value(0)).current;
+
+  // auth gate
+  useEffect(() => {
+    if (!loading && !user) router.replace("/(auth)/login");
+  }, [loading, user]);
+
+  useEffect(() => {
+    Animated.timing(anim, {
+      toValue: 1,
+      duration: 220,
+      useNativeDriver: true,
+    }).start();
+  }, [anim]);
+
+  // ✅ Members live on the org doc; admins are managed from Settings
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    const unsub = onSnapshot(
+      doc(db, "orgs", orgId),
+      (snap) => {
+        const members = ((snap.data() as any)?.members ?? {}) as Record<string, any>;
+        const data: StaffMember[] = Object.entries(members)
+          .map(([uid, m]) => ({
+            uid,
+            name: m?.name ?? "",
+            email: m?.email ?? "",
+            role: normalizeRole(m?.role),
+            // memberships from before multi-branch assignments carry a single branchId
+            branchIds: Array.isArray(m?.branchIds) ? m.branchIds : m?.branchId ? [m.branchId] : [],
+            isActive: m?.isActive !== false,
+            managed: typeof m?.managed === "boolean" ? m.managed : null,
+            addedAt: m?.addedAt,
+          }))
+          .filter((m) => m.role !== "admin");
+
+        // active first, then by name
+        data.sort((a, b) => Number(b.isActive) - Number(a.isActive) || (a.name || a.email).localeCompare(b.name || b.email));
+
+        setItems(data);
+        setListLoading(false);
+      },
+      (err) => {
+        setListLoading(false);
+        Alert.alert("Error", err.message || "Failed to load staff");
+      }
+    );
+
+    return () => unsub();
+  }, [user, orgId]);
+
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    const q1 = query(collection(db, "branches"), where("orgId", "==", orgId));
+    const unsub = onSnapshot(
+      q1,
+      (snap) => setBranchNames(new Map(snap.docs.map((d) => [d.id, String((d.data() as any).name ?? "")]))),
+      (err) => console.log(err)
+    );
+
+    return () => unsub();
+  }, [user, orgId]);
+
+  // ✅ Invite links not used yet (admins only can read them)
+  useEffect(() => {
+    if (!user || !orgId) return;
+
+    const q1 = query(collection(db, "staffInvites"), where("orgId", "==", orgId), where("status", "==", "pending"));
+    const unsub = onSnapshot(
+      q1,
+      (snap) => {
+        const data: PendingInvite[] = snap.docs.map((d) => {
+          const v = d.data() as any;
+          return {
+            id: d.id,
+            email: v.email ?? "",
+            name: v.name ?? "",
+            role: normalizeRole(v.role),
+            expiresAt: v.expiresAt?.toMillis?.() ?? 0,
+          };
+        });
+        data.sort((a, b) => b.expiresAt - a.expiresAt);
+        setInvites(data);
+      },
+      (err) => console.log(err)
+    );
+
+    return () => unsub();
+  }, [user, orgId]);
+
+  const onRevoke = (invite: PendingInvite) => {
+    if (!orgId) return;
+
+    Alert.alert("Cancel invite?", `The link sent to ${invite.email} will stop working.`, [
+      { text: "Keep", style: "cancel" },
+      {
+        text: "Cancel invite",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await revokeStaffInvite({ orgId, inviteId: invite.id });
+          } catch (e: any) {
+            Alert.alert("Error", e?.message || "Failed to cancel invite");
+          }
+        },
+      },
+    ]);
+  };
+
+  const activeCount = useMemo(() => items.filter((m) => m.isActive).length, [items]);
+
+  if (loading) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center", backgroundColor: COLORS.bg }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!user) return null;
+
+  const Header = () => (
+    <View style={{ paddingHorizontal: 16, paddingTop: 14, paddingBottom: 12 }}>
+      <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+        <View style={{ flex: 1, paddingRight: 12 }}>
+          <Text style={{ color: COLORS.text, fontSize: 18, fontWeight: "900" }}>Staff</Text>
+          <Text style={{ color: COLORS.muted, marginTop: 2, fontSize: 12 }}>
+            {activeCount} active • {items.length} total
+            {invites.length ? ` • ${invites.length} invited` : ""}
+          </Text>
+        </View>
+
+        <Link href="/(app)/staff/new" asChild>
+          <Pressable
+            style={({ pressed }) => ({
+              paddingVertical: 9,
+              paddingHorizontal: 12,
+              borderRadius: 12,
+              backgroundColor: COLORS.card,
+              borderWidth: 1,
+              borderColor: COLORS.border,
+              opacity: pressed ? 0.85 : 1,
+            })}
+          >
+            <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>+ Add</Text>
+          </Pressable>
+        </Link>
+      </View>
+    </View>
+  );
+
+  const Card = ({ item }: { item: StaffMember }) => {
+    const branch =
+      item.branchIds.length === 0
+        ? "No branch"
+        : item.branchIds.map((id) => branchNames.get(id) || "Unknown branch").join(", ");
+
+    return (
+      <Pressable
+        onPress={() => router.push(`/(app)/staff/${item.uid}`)}
+        style={({ pressed }) => ({
+          padding: 14,
+          borderRadius: 16,
+          borderWidth: 1,
+          borderColor: COLORS.border,
+          backgroundColor: COLORS.card,
+          opacity: pressed ? 0.88 : item.isActive ? 1 : 0.7,
+        })}
+      >
+        <View style={{ flexDirection: "row", justifyContent: "space-between", alignItems: "center" }}>
+          <Text
+            style={{ color: COLORS.text, fontSize: 14.5, fontWeight: "900", flex: 1, paddingRight: 10 }}
+            numberOfLines={1}
+          >
+            {item.name || item.email || "Unnamed"}
+          </Text>
+
+          <View
+            style={{ width: 8, height: 8, borderRadius: 999, backgroundColor: item.isActive ? COLORS.good : COLORS.muted2 }}
+          />
+        </View>
+
+        <Text style={{ marginTop: 4, color: COLORS.muted, fontSize: 12 }} numberOfLines={1}>
+          {item.email}
+        </Text>
+
+        <Text style={{ marginTop: 6, color: item.isActive ? COLORS.good : COLORS.muted2, fontSize: 12.5, fontWeight: "800" }}>
+          {ROLE_LABELS[item.role]} • {branch}
+          {item.isActive ? "" : " • Deactivated"}
+        </Text>
+
+        {item.managed === false ? (
+          <Text style={{ marginTop: 4, color: COLORS.muted2, fontSize: 11.5 }}>Own account (added by email)</Text>
+        ) : null}
+      </Pressable>
+    );
+  };
+
+  const Invites = () =>
+    invites.length === 0 ? null : (
+      <View style={{ marginTop: 18, gap: 10 }}>
+        <Text style={{ color: COLORS.muted, fontSize: 12, fontWeight: "800" }}>Pending invites</Text>
+
+        {invites.map((inv) => {
+          const expired = inv.expiresAt <= Date.now();
+          return (
+            <View
+              key={inv.id}
+              style={{
+                padding: 14,
+                borderRadius: 16,
+                borderWidth: 1,
+                borderColor: COLORS.border,
+                backgroundColor: COLORS.card,
+                flexDirection: "row",
+                alignItems: "center",
+                gap: 10,
+              }}
+            >
+              <View style={{ flex: 1 }}>
+                <Text style={{ color: COLORS.text, fontSize: 13.5, fontWeight: "900" }} numberOfLines={1}>
+                  {inv.name || inv.email}
+                </Text>
+                <Text style={{ marginTop: 2, color: COLORS.muted, fontSize: 12 }} numberOfLines={1}>
+                  {inv.email} • {ROLE_LABELS[inv.role]}
+                </Text>
+                <Text style={{ marginTop: 4, color: expired ? COLORS.bad : COLORS.muted2, fontSize: 11.5 }}>
+                  {expired ? "Expired — invite them again" : `Expires ${new Date(inv.expiresAt).toLocaleDateString()}`}
+                </Text>
+              </View>
+
+              <Pressable
+                onPress={() => onRevoke(inv)}
+                style={({ pressed }) => ({
+                  paddingVertical: 8,
+                  paddingHorizontal: 10,
+                  borderRadius: 12,
+                  backgroundColor: "#0B1220",
+                  borderWidth: 1,
+                  borderColor: COLORS.border,
+                  opacity: pressed ? 0.85 : 1,
+                })}
+              >
+                <Text style={{ color: COLORS.bad, fontWeight: "900", fontSize: 11.5 }}>Cancel</Text>
+              </Pressable>
+            </View>
+          );
+        })}
+      </View>
+    );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: COLORS.bg }}>
+      <Animated.View
+        style={{
+          flex: 1,
+          opacity: anim,
+          transform: [{ translateY: anim.interpolate({ inputRange: [0, 1], outputRange: [8, 0] }) }],
+        }}
+      >
+        <Header />
+
+        {listLoading ? (
+          <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+            <ActivityIndicator />
+          </View>
+        ) : (
+          <FlatList
+            data={items}
+            keyExtractor={(i) => i.uid}
+            contentContainerStyle={{
+              paddingHorizontal: 16,
+              paddingBottom: Platform.OS === "ios" ? 28 : 18,
+            }}
+            ItemSeparatorComponent={() => <View style={{ height: 10 }} />}
+            renderItem={({ item }) => <Card item={item} />}
+            ListFooterComponent={<Invites />}
+            ListEmptyComponent={
+              <View style={{ paddingVertical: 40, alignItems: "center", gap: 6 }}>
+                <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 13 }}>No staff yet</Text>
+                <Text style={{ color: COLORS.muted, fontSize: 12 }}>Tap “Add” to create a login for your team.</Text>
+              </View>
+            }
+          />
+        )}
+      </Animated.View>
+    </View>
+  );
+}
@@ -0,0 +1,277 @@
+// app/(auth)/accept-invite.tsx
+import React, { useEffect, useState } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+import {
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  Text,
+  TextInput,
+  View,
+  StyleSheet,
+  TouchableWithoutFeedback,
+} from "react-native";
+import { LinearGradient } from "expo-linear-gradient";
+import { signInWithEmailAndPassword } from "firebase/auth";
+import { auth } from "../../src/firebase/firebaseConfig";
+import { useAuth } from "../../src/context/AuthContext";
+import { acceptStaffInvite, getStaffInvite, type StaffInvite } from "../../src/firebase/functionsClient";
+import { ROLE_LABELS } from "../../src/utils/roles";
+
+const C = {
+  bgTop: "#06121F",
+  bgMid: "#071A2E",
+  bgBottom: "#06121F",
+  card: "rgba(255,255,255,0.06)",
+  cardBorder: "rgba(255,255,255,0.10)",
+  line: "rgba(255,255,255,0.12)",
+  text: "#F8FAFC",
+  muted: "#9CA3AF",
+  cold: "#38BDF8",
+  danger: "#FB7185",
+};
+
+const MIN_PASSWORD = 6;
+
+export default function AcceptInviteScreen() {
+  const { user, loading, signOutUser } = useAuth();
+  const params = useLocalSearchParams<{ token?: string }>();
+  const token = String(params.token ?? "");
+
+  const [invite, setInvite] = useState<StaffInvite | null>(null);
+  const [problem, setProblem] = useState("");
+  const [checking, setChecking] = useState(true);
+
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // ✅ look the invite up (no login needed; the token is the credential)
+  useEffect(() => {
+    let cancelled = false;
+
+    const run = async () => {
+      if (!token) {
+        setProblem("This invite link is incomplete. Ask your admin to send it again.");
+        setChecking(false);
+        return;
+      }
+      try {
+        const res = await getStaffInvite({ token });
+        if (cancelled) return;
+        setInvite(res);
+        setName(res.name);
+      } catch (e: any) {
+        if (!cancelled) setProblem(e?.message || "This invite link is not valid.");
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const onAccept = async () => {
+    if (!invite) return;
+    if (!name.trim()) return Alert.alert("Missing info", "Please enter your name.");
+    if (password.length < MIN_PASSWORD) {
+      return Alert.alert("Password too short", `Use at least ${MIN_PASSWORD} characters.`);
+    }
+    if (password !== confirm) return Alert.alert("Check password", "The passwords don't match.");
+
+    try {
+      setSubmitting(true);
+      const res = await acceptStaffInvite({ token, name: name.trim(), password });
+      await signInWithEmailAndPassword(auth, res.email, password);
+      router.replace("/(app)/dashboard");
+    } catch (e: any) {
+      Alert.alert("Could not join", e?.message || "Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || checking) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color={C.text} />
+      </View>
+    );
+  }
+
+  const body = () => {
+    if (problem || !invite) {
+      return (
+        <View style={styles.card}>
+          <Text style={[styles.label, { color: C.danger }]}>Invite unavailable</Text>
+          <Text style={styles.subtitle}>{problem}</Text>
+          <Pressable onPress={() => router.replace("/(auth)/login")} style={[styles.button, { marginTop: 14 }]}>
+            <Text style={styles.buttonText}>Go to login</Text>
+          </Pressable>
+        </View>
+      );
+    }
+
+    // a new login is created for the invite, so nobody should be signed in here
+    if (user) {
+      return (
+        <View style={styles.card}>
+          <Text style={styles.subtitle}>
+            You're signed in as {user.email}. Sign out to accept this invite for {invite.email}.
+          </Text>
+          <Pressable
+            onPress={() => signOutUser().catch((e: any) => Alert.alert("Error", e?.message || "Failed to sign out"))}
+            style={[styles.button, { marginTop: 14 }]}
+          >
+            <Text style={styles.buttonText}>Sign out</Text>
+          </Pressable>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.card}>
+        <View style={{ gap: 12 }}>
+          <View style={{ gap: 6 }}>
+            <Text style={styles.label}>Email</Text>
+            <Text style={[styles.input, { color: C.muted }]}>{invite.email}</Text>
+          </View>
+
+          <View style={{ gap: 6 }}>
+            <Text style={styles.label}>Your name</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Full name"
+              placeholderTextColor="rgba(156,163,175,0.7)"
+              style={styles.input}
+              returnKeyType="next"
+            />
+          </View>
+
+          <View style={{ gap: 6 }}>
+            <Text style={styles.label}>Password</Text>
+            <TextInput
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              placeholder={`At least ${MIN_PASSWORD} characters`}
+              placeholderTextColor="rgba(156,163,175,0.7)"
+              style={styles.input}
+              returnKeyType="next"
+            />
+          </View>
+
+          <View style={{ gap: 6 }}>
+            <Text style={styles.label}>Confirm password</Text>
+            <TextInput
+              value={confirm}
+              onChangeText={setConfirm}
+              secureTextEntry
+              placeholder="••••••••"
+              placeholderTextColor="rgba(156,163,175,0.7)"
+              style={styles.input}
+              returnKeyType="done"
+              onSubmitEditing={onAccept}
+            />
+          </View>
+
+          <Pressable
+            onPress={onAccept}
+            disabled={submitting}
+            style={({ pressed }) => [
+              styles.button,
+              submitting ? styles.buttonDisabled : null,
+              { opacity: pressed && !submitting ? 0.92 : 1 },
+            ]}
+          >
+            {submitting ? (
+              <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+                <ActivityIndicator color={C.bgTop} />
+                <Text style={styles.buttonText}>Joining…</Text>
+              </View>
+            ) : (
+              <Text style={styles.buttonText}>Join {invite.orgName || "team"}</Text>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient colors={[C.bgTop, C.bgMid, C.bgBottom]} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }} style={styles.bg}>
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss} accessible={false}>
+        <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+          <View style={styles.container}>
+            <View style={{ gap: 8 }}>
+              <Text style={styles.title}>You're invited</Text>
+              <Text style={styles.subtitle}>
+                {invite
+                  ? `Join ${invite.orgName || "your team"} as ${ROLE_LABELS[invite.role]}. Set a password to finish.`
+                  : "Set up your Temperature Monitor login."}
+              </Text>
+            </View>
+
+            {body()}
+          </View>
+        </KeyboardAvoidingView>
+      </TouchableWithoutFeedback>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  bg: { flex: 1 },
+  center: {
+    flex: 1,
+    backgroundColor: C.bgTop,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  container: {
+    flex: 1,
+    padding: 18,
+    justifyContent: "center",
+    gap: 16,
+  },
+
+  title: { color: C.text, fontSize: 28, fontWeight: "900" },
+  subtitle: { color: C.muted },
+
+  card: {
+    marginTop: 6,
+    padding: 14,
+    borderRadius: 18,
+    backgroundColor: C.card,
+    borderWidth: 1,
+    borderColor: C.cardBorder,
+  },
+  label: { color: "rgba(248,250,252,0.92)", fontWeight: "800" },
+  input: {
+    borderWidth: 1,
+    borderColor: C.line,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    backgroundColor: "rgba(0,0,0,0.18)",
+    color: C.text,
+  },
+
+  button: {
+    marginTop: 6,
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: "center",
+    backgroundColor: C.cold,
+  },
+  buttonDisabled: { backgroundColor: "rgba(56,189,248,0.7)" },
+  buttonText: { color: C.bgTop, fontWeight: "900", fontSize: 16 },
+});
@@ -3,14 +3,20 @@ import React from "react";
 import { Stack } from "expo-router";
 import Toast from "react-native-toast-message";
 import { AuthProvider } from "../src/context/AuthContext";
+import { OutboxProvider } from "../src/context/OutboxContext";
+import { AppLockProvider } from "../src/context/AppLockContext";
+import LockScreen from "../src/components/LockScreen";
 
 export default function RootLayout() {
   return (
     <AuthProvider>
-      <>
-        <Stack screenOptions={{ headerShown: false }} />
-        <Toast />
-      </>
+      <OutboxProvider>
+        <AppLockProvider>
+          <Stack screenOptions={{ headerShown: false }} />
+          <LockScreen />
+          <Toast />
+        </AppLockProvider>
+      </OutboxProvider>
     </AuthProvider>
   );
-}
\ No newline at end of file
+}
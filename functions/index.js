@@ -1,78 +1,51 @@
 // functions/index.js (Gen 2)
-const { onCall, HttpsError } = require("firebase-functions/v2/https");
 const admin = require("firebase-admin");
 
 admin.initializeApp();
 
-exports.createStaff = onCall({ region: "us-central1" }, async (request) => {
-  const auth = request.auth;
-  const data = request.data || {};
-
-  if (!auth) {
-    throw new HttpsError("unauthenticated", "Login required");
-  }
-
-  const callerUid = auth.uid;
-
-  // ✅ check caller role
-  const callerSnap = await admin.firestore().doc(`users/${callerUid}`).get();
-  const callerRole = callerSnap.exists ? callerSnap.data().role : null;
-
-  if (callerRole !== "admin") {
-    throw new HttpsError("permission-denied", "Admin only");
-  }
-
-  const email = String(data.email || "").trim().toLowerCase();
-  const password = String(data.password || "").trim();
-  const name = String(data.name || "").trim();
-  const branchId = data.branchId ? String(data.branchId) : null;
-
-  if (!email || !password || !name) {
-    throw new HttpsError("invalid-argument", "email, password, name are required");
-  }
-
-  if (password.length < 6) {
-    throw new HttpsError("invalid-argument", "Password must be at least 6 characters");
-  }
-
-  try {
-    // ✅ Create Auth user
-    const userRecord = await admin.auth().createUser({
-      email,
-      password,
-      displayName: name,
-    });
-
-    // ✅ Create Firestore profile
-    await admin.firestore().doc(`users/${userRecord.uid}`).set(
-      {
-        uid: userRecord.uid,
-        email,
-        name,
-        role: "staff",
-        defaultBranchId: branchId, // ✅ aligns with your UserProfile type
-        isActive: true,
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        createdBy: callerUid,
-      },
-      { merge: true }
-    );
-
-    return { ok: true, uid: userRecord.uid };
-  } catch (err) {
-    // ✅ Better readable errors for the app
-    const code = err?.code || "";
-    if (code === "auth/email-already-exists") {
-      throw new HttpsError("already-exists", "This email is already registered");
-    }
-    if (code === "auth/invalid-password") {
-      throw new HttpsError("invalid-argument", "Password is invalid");
-    }
-    if (code === "auth/invalid-email") {
-      throw new HttpsError("invalid-argument", "Email is invalid");
-    }
-
-    throw new HttpsError("internal", err?.message || "Failed to create staff");
-  }
-});
\ No newline at end of file
+const orgs = require("./src/orgs");
+const alerts = require("./src/alerts");
+const missed = require("./src/missed");
+const readings = require("./src/readings");
+const amendments = require("./src/amendments");
+const actions = require("./src/actions");
+const reports = require("./src/reports");
+const dailyStats = require("./src/dailyStats");
+const subscriptions = require("./src/subscriptions");
+const reportExports = require("./src/reportExports");
+const staff = require("./src/staff");
+const invites = require("./src/invites");
+const quickUnlock = require("./src/quickUnlock");
+const notify = require("./src/notify");
+
+exports.ensureOrg = orgs.ensureOrg;
+exports.addOrgMember = orgs.addOrgMember;
+exports.onTempLogCreated = alerts.onTempLogCreated;
+exports.checkMissedReadings = missed.checkMissedReadings;
+exports.sendDailySummaries = notify.sendDailySummaries;
+exports.clearMissedOnLateReading = missed.clearMissedOnLateReading;
+exports.amendReading = amendments.amendReading;
+exports.closeCorrectiveAction = actions.closeCorrectiveAction;
+exports.getReportPage = reports.getReportPage;
+exports.getReportSummary = reports.getReportSummary;
+exports.rollupOnTempLog = dailyStats.rollupOnTempLog;
+exports.rollupOnAmendment = dailyStats.rollupOnAmendment;
+exports.rollupOnMissedCheck = dailyStats.rollupOnMissedCheck;
+exports.sendScheduledReports = subscriptions.sendScheduledReports;
+exports.saveReportSubscription = subscriptions.saveReportSubscription;
+exports.deleteReportSubscription = subscriptions.deleteReportSubscription;
+exports.signReportExport = reportExports.signReportExport;
+exports.verifyReportExport = reportExports.verifyReportExport;
+exports.createStaff = staff.createStaff;
+exports.updateStaff = staff.updateStaff;
+exports.setStaffActive = staff.setStaffActive;
+exports.resetStaffPassword = staff.resetStaffPassword;
+exports.deleteStaff = staff.deleteStaff;
+exports.inviteStaff = invites.inviteStaff;
+exports.revokeStaffInvite = invites.revokeStaffInvite;
+exports.getStaffInvite = invites.getStaffInvite;
+exports.acceptStaffInvite = invites.acceptStaffInvite;
+exports.registerQuickUnlock = quickUnlock.registerQuickUnlock;
+exports.quickUnlock = quickUnlock.quickUnlock;
+exports.removeQuickUnlock = quickUnlock.removeQuickUnlock;
+exports.submitReading = readings.submitReading;
@@ -0,0 +1,122 @@
+// functions/src/actions.js
+// Corrective actions: every warning/damaged reading opens
+// correctiveActions/{logId}; staff follow up (re-check reading, what was done,
+// stock discarded) and close it.
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {getMembership, inBranch} = require("./orgs");
+
+/**
+ * The open action for a new out-of-spec reading (written by submitReading).
+ * @param {string} logId tempLog id
+ * @param {Object} log tempLog data
+ * @param {Object} chiller chiller data
+ * @return {Object} correctiveActions doc
+ */
+function openActionData(logId, log, chiller) {
+  return {
+    orgId: log.orgId,
+    branchId: log.branchId,
+    chillerId: log.chillerId,
+    chillerName: chiller.name || "",
+    logId,
+    logStatus: log.status,
+    logTempC: log.tempC,
+    logNote: log.note || "",
+    logCapturedAt: log.capturedAt,
+    status: "open",
+    openedBy: log.createdBy,
+    openedAt: admin.firestore.FieldValue.serverTimestamp(),
+
+    action: "",
+    productDiscarded: null,
+    quantity: "",
+    recheckLogId: null,
+    recheckTempC: null,
+    recheckStatus: null,
+    recheckAt: null,
+    closedBy: null,
+    closedByName: "",
+    closedAt: null,
+  };
+}
+
+/**
+ * Validates the close payload.
+ * @param {Object} data request.data
+ * @return {Object} {logId, action, productDiscarded, quantity}
+ */
+function parseClose(data) {
+  const bad = (msg) => new HttpsError("invalid-argument", msg);
+
+  const logId = String(data.logId || "");
+  if (!logId || logId.includes("/")) throw bad("logId is required");
+
+  const action = String(data.action || "").trim();
+  if (action.length < 3) throw bad("Describe the action taken");
+  if (action.length > 1000) throw bad("Action is too long");
+
+  if (typeof data.productDiscarded !== "boolean") {
+    throw bad("productDiscarded must be yes or no");
+  }
+
+  const quantity = String(data.quantity || "").trim().slice(0, 100);
+  if (data.productDiscarded && !quantity) {
+    throw bad("Quantity is required when product is discarded");
+  }
+
+  return {
+    logId,
+    action,
+    productDiscarded: data.productDiscarded,
+    quantity: data.productDiscarded ? quantity : "",
+  };
+}
+
+exports.closeCorrectiveAction = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Login required");
+      }
+
+      const uid = request.auth.uid;
+      const input = parseClose(request.data || {});
+
+      const db = admin.firestore();
+      const ref = db.doc(`correctiveActions/${input.logId}`);
+      const first = await ref.get();
+      if (!first.exists) throw new HttpsError("not-found", "Action not found");
+
+      const {orgId, branchId} = first.data();
+      const member = await getMembership(orgId, uid);
+      if (!member || !inBranch(member, branchId)) {
+        throw new HttpsError(
+            "permission-denied",
+            "Not allowed for this branch",
+        );
+      }
+
+      await db.runTransaction(async (tx) => {
+        const cur = (await tx.get(ref)).data();
+        if (cur.status === "closed") {
+          throw new HttpsError("failed-precondition", "Already closed");
+        }
+
+        tx.update(ref, {
+          action: input.action,
+          productDiscarded: input.productDiscarded,
+          quantity: input.quantity,
+          status: "closed",
+          closedBy: uid,
+          closedByName: member.name || member.email || "",
+          closedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+
+      return {ok: true};
+    },
+);
+
+exports.openActionData = openActionData;
+exports.parseClose = parseClose;
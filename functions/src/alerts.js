@@ -0,0 +1,285 @@
+// functions/src/alerts.js
+// Excursion alerting: every new tempLog is checked against its chiller's
+// limits. One "open" alert per chiller collects repeated bad readings and is
+// resolved by the next in-range reading taken after them.
+const {onDocumentCreated} = require("firebase-functions/v2/firestore");
+const logger = require("firebase-functions/logger");
+const admin = require("firebase-admin");
+const {pushToUsers, sendEmail, escapeHtml} = require("./notify");
+const {branchLeads} = require("./orgs");
+const {takenAt} = require("./dailyStats");
+
+// degrees past a limit that turn a warning into a critical alert
+const CRITICAL_MARGIN_C = 3;
+// an alert that stays open re-notifies at most this often
+const RENOTIFY_MS = 60 * 60 * 1000;
+
+const SEVERITY_RANK = {warning: 1, critical: 2};
+
+/**
+ * @param {*} v value
+ * @return {number|null} finite number or null
+ */
+function num(v) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Decides whether a reading is an excursion.
+ * @param {Object} log tempLog data
+ * @param {Object} chiller chiller data (minTemp / maxTemp)
+ * @return {{severity: string, reason: string}|null} null when compliant
+ */
+function evaluateReading(log, chiller) {
+  const tempC = num(log.tempC);
+  const min = num(chiller.minTemp);
+  const max = num(chiller.maxTemp);
+
+  if (log.status === "damaged") {
+    return {severity: "critical", reason: "Chiller reported damaged / faulty"};
+  }
+  if (tempC !== null && max !== null && tempC > max) {
+    const over = tempC - max;
+    return {
+      severity: over >= CRITICAL_MARGIN_C ? "critical" : "warning",
+      reason: `${tempC}°C is above the ${max}°C maximum`,
+    };
+  }
+  if (tempC !== null && min !== null && tempC < min) {
+    const under = min - tempC;
+    return {
+      severity: under >= CRITICAL_MARGIN_C ? "critical" : "warning",
+      reason: `${tempC}°C is below the ${min}°C minimum`,
+    };
+  }
+  if (log.status === "warning") {
+    return {severity: "warning", reason: "Reading flagged as warning"};
+  }
+  return null;
+}
+
+/**
+ * @param {string} a severity
+ * @param {string} b severity
+ * @return {string} the worse of the two
+ */
+function worse(a, b) {
+  return (SEVERITY_RANK[b] || 0) > (SEVERITY_RANK[a] || 0) ? b : a;
+}
+
+/**
+ * @param {*} ts Firestore Timestamp or empty
+ * @return {number} millis (0 when missing)
+ */
+function millis(ts) {
+  return ts && typeof ts.toMillis === "function" ? ts.toMillis() : 0;
+}
+
+/**
+ * Admins plus managers of the alert's branch, and any extra addresses set
+ * on the org (`alertEmails`).
+ * @param {string} orgId org id
+ * @param {string} branchId branch of the chiller
+ * @return {Promise<{uids: string[], emails: string[]}>} recipients
+ */
+async function alertRecipients(orgId, branchId) {
+  const db = admin.firestore();
+  const orgSnap = await db.doc(`orgs/${orgId}`).get();
+  if (!orgSnap.exists) return {uids: [], emails: []};
+
+  const org = orgSnap.data();
+  const members = org.members || {};
+  const uids = branchLeads(org, branchId);
+
+  const emails = [...(org.alertEmails || [])];
+
+  const userSnaps = uids.length ?
+    await db.getAll(...uids.map((uid) => db.doc(`users/${uid}`))) :
+    [];
+  userSnaps.forEach((s, i) => {
+    const u = s.exists ? s.data() : {};
+    if (u.isActive === false) return;
+    const email = u.email || members[uids[i]].email;
+    if (email) emails.push(email);
+  });
+
+  // push honours each user's notifyPrefs; email stays on for compliance
+  return {uids, emails};
+}
+
+/**
+ * Pushes + mails an alert and records the delivery on the alert doc.
+ * @param {FirebaseFirestore.DocumentReference} ref alert doc
+ * @param {Object} alert alert data
+ * @return {Promise<void>}
+ */
+async function deliverAlert(ref, alert) {
+  const {uids, emails} = await alertRecipients(alert.orgId, alert.branchId);
+
+  const label = alert.severity === "critical" ? "Critical" : "Warning";
+  const title = `${label}: ${alert.chillerName || "Chiller"}`;
+  const body = alert.count > 1 ?
+    `${alert.reason} (${alert.count} readings out of range)` :
+    alert.reason;
+
+  const push = await pushToUsers(uids, "excursions", {
+    title,
+    body,
+    data: {type: "excursion", alertId: ref.id, chillerId: alert.chillerId},
+  });
+  const email = await sendEmail(emails, {
+    subject: `[Temp Monitor] ${title}`,
+    text: `${body}\n\nChiller: ${alert.chillerName}\n` +
+      `Open the app to review the reading and record a corrective action.`,
+    html: `<p><strong>${escapeHtml(body)}</strong></p>` +
+      `<p>Chiller: ${escapeHtml(alert.chillerName)}` +
+      `</p><p>Open the app to review the reading and record a corrective ` +
+      `action.</p>`,
+  });
+
+  await ref.update({
+    notifiedAt: admin.firestore.FieldValue.serverTimestamp(),
+    notifyCount: admin.firestore.FieldValue.increment(1),
+    lastDelivery: {push, email},
+  });
+}
+
+/**
+ * Opens, extends or resolves the chiller's alert for one new reading. Order
+ * is by capture time: a reading taken before the alert's latest one (an
+ * offline reading synced late) can join the alert but never resolves or
+ * escalates it.
+ * @param {string} logId tempLog id
+ * @param {Object} log tempLog data
+ * @param {Object} chiller chiller data
+ * @return {Promise<Object|null>} {ref, alert} when someone should be told
+ */
+async function applyReading(logId, log, chiller) {
+  const db = admin.firestore();
+  const result = evaluateReading(log, chiller);
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const at = takenAt(log);
+  const capturedAt = at === null ?
+    null :
+    admin.firestore.Timestamp.fromMillis(at);
+
+  const openQuery = db.collection("alerts")
+      .where("chillerId", "==", log.chillerId)
+      .where("status", "==", "open")
+      .limit(1);
+
+  return db.runTransaction(async (tx) => {
+    const open = await tx.get(openQuery);
+    const current = open.empty ? null : open.docs[0];
+    const prev = current ? current.data() : null;
+
+    // trigger retries deliver the same event twice
+    if (prev && prev.logIds && prev.logIds.includes(logId)) return null;
+
+    const older = !!prev && at !== null && at < millis(prev.lastCapturedAt);
+
+    if (!result) {
+      if (current && !older) {
+        tx.update(current.ref, {
+          status: "resolved",
+          resolvedAt: now,
+          resolvedByLogId: logId,
+          updatedAt: now,
+        });
+      }
+      return null;
+    }
+
+    if (!current) {
+      const ref = db.collection("alerts").doc();
+      const alert = {
+        orgId: log.orgId,
+        branchId: log.branchId || chiller.branchId || null,
+        chillerId: log.chillerId,
+        chillerName: chiller.name || "",
+        status: "open",
+        severity: result.severity,
+        reason: result.reason,
+        minTemp: num(chiller.minTemp),
+        maxTemp: num(chiller.maxTemp),
+        tempC: num(log.tempC),
+        readingStatus: log.status || null,
+        firstLogId: logId,
+        lastLogId: logId,
+        lastCapturedAt: capturedAt,
+        logIds: [logId],
+        count: 1,
+        notifyCount: 0,
+        notifiedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      tx.set(ref, alert);
+      return {ref, alert};
+    }
+
+    if (older) {
+      // part of the excursion's history, not news
+      tx.update(current.ref, {
+        logIds: admin.firestore.FieldValue.arrayUnion(logId),
+        count: admin.firestore.FieldValue.increment(1),
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    const severity = worse(prev.severity, result.severity);
+    const escalated = severity !== prev.severity;
+    const stale = Date.now() - millis(prev.notifiedAt) > RENOTIFY_MS;
+
+    const patch = {
+      severity,
+      reason: result.reason,
+      tempC: num(log.tempC),
+      readingStatus: log.status || null,
+      lastLogId: logId,
+      lastCapturedAt: capturedAt,
+      logIds: admin.firestore.FieldValue.arrayUnion(logId),
+      count: admin.firestore.FieldValue.increment(1),
+      updatedAt: now,
+    };
+    tx.update(current.ref, patch);
+
+    if (!escalated && !stale) return null;
+    return {
+      ref: current.ref,
+      alert: {...prev, ...patch, count: (prev.count || 0) + 1},
+    };
+  });
+}
+
+exports.onTempLogCreated = onDocumentCreated(
+    {document: "tempLogs/{logId}", region: "us-central1"},
+    async (event) => {
+      const snap = event.data;
+      if (!snap) return;
+
+      const logId = event.params.logId;
+      const log = snap.data();
+      if (!log.orgId || !log.chillerId) return;
+
+      const chillerSnap =
+        await admin.firestore().doc(`chillers/${log.chillerId}`).get();
+      if (!chillerSnap.exists) return;
+
+      const outcome = await applyReading(logId, log, chillerSnap.data());
+      if (!outcome) return;
+
+      try {
+        await deliverAlert(outcome.ref, outcome.alert);
+      } catch (err) {
+        logger.error("deliverAlert failed", {
+          alertId: outcome.ref.id,
+          error: err.message,
+        });
+      }
+    },
+);
+
+exports.evaluateReading = evaluateReading;
+exports.applyReading = applyReading;
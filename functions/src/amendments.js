@@ -0,0 +1,173 @@
+// functions/src/amendments.js
+// Corrections to readings. tempLogs stay untouched; every correction is a
+// logAmendments/{logId}_{seq} record holding the values before and after,
+// the reason, and who made it.
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {getMembership, inBranch} = require("./orgs");
+const {readingStatus} = require("./readings");
+
+const FIELDS = ["tempC", "humidity", "status", "note"];
+const STATUSES = ["ok", "warning", "damaged"];
+
+/**
+ * @param {*} v value
+ * @return {number|null} finite number or null
+ */
+function num(v) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Validates the callable payload. Only the fields present are changed.
+ * @param {Object} data request.data
+ * @return {{logId: string, changes: Object, reason: string}} clean input
+ */
+function parseAmendment(data) {
+  const bad = (msg) => new HttpsError("invalid-argument", msg);
+
+  const logId = String(data.logId || "");
+  if (!logId || logId.includes("/")) throw bad("logId is required");
+
+  const reason = String(data.reason || "").trim();
+  if (reason.length < 3) throw bad("A reason is required");
+  if (reason.length > 500) throw bad("Reason is too long");
+
+  const changes = {};
+  if (data.tempC !== undefined) {
+    const t = num(data.tempC);
+    if (t === null || t < -60 || t > 60) {
+      throw bad("tempC must be a number between -60 and 60");
+    }
+    changes.tempC = t;
+  }
+  if (data.humidity !== undefined) {
+    const h = data.humidity === null ? null : num(data.humidity);
+    if (data.humidity !== null && (h === null || h < 0 || h > 100)) {
+      throw bad("humidity must be between 0 and 100");
+    }
+    changes.humidity = h;
+  }
+  if (data.status !== undefined) {
+    if (!STATUSES.includes(data.status)) throw bad("status is invalid");
+    changes.status = data.status;
+  }
+  if (data.note !== undefined) {
+    changes.note = String(data.note || "").trim().slice(0, 1000);
+  }
+
+  if (Object.keys(changes).length === 0) throw bad("Nothing to change");
+  return {logId, changes, reason};
+}
+
+/**
+ * @param {Object} log tempLog data
+ * @param {Array<Object>} amendments earlier amendments of the log
+ * @return {Object} the values currently in force
+ */
+function currentValues(log, amendments) {
+  const latest = [...amendments].sort((a, b) => b.seq - a.seq)[0];
+  const src = latest ? latest.values : log;
+  return {
+    tempC: src.tempC,
+    humidity: src.humidity == null ? null : src.humidity,
+    status: src.status,
+    note: src.note || "",
+  };
+}
+
+/**
+ * Applies a correction on top of the current values.
+ * @param {Object} current values in force
+ * @param {Object} changes requested changes
+ * @param {Object} chiller chiller data (limits)
+ * @return {{values: Object, changed: string[]}} new values + changed fields
+ */
+function applyAmendment(current, changes, chiller) {
+  const next = {...current, ...changes};
+  if (next.status !== "ok" && !next.note) {
+    throw new HttpsError("invalid-argument", "A note is required");
+  }
+  next.status = readingStatus(next.status, next.tempC, chiller || {});
+
+  const changed = FIELDS.filter((f) => next[f] !== current[f]);
+  if (changed.length === 0) {
+    throw new HttpsError("invalid-argument", "Nothing to change");
+  }
+  return {values: next, changed};
+}
+
+exports.amendReading = onCall({region: "us-central1"}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+
+  const uid = request.auth.uid;
+  const input = parseAmendment(request.data || {});
+
+  const db = admin.firestore();
+  const logRef = db.doc(`tempLogs/${input.logId}`);
+
+  const first = await logRef.get();
+  if (!first.exists) throw new HttpsError("not-found", "Reading not found");
+  const {orgId, branchId, createdBy} = first.data();
+
+  // managers/admins correct anything in their branches, staff their own
+  const member = await getMembership(orgId, uid);
+  const allowed = member && inBranch(member, branchId) &&
+    (member.role !== "staff" || createdBy === uid);
+  if (!allowed) {
+    throw new HttpsError("permission-denied", "Not allowed for this reading");
+  }
+
+  return db.runTransaction(async (tx) => {
+    const log = (await tx.get(logRef)).data();
+    const chillerRef = db.doc(`chillers/${log.chillerId}`);
+    const chillerSnap = await tx.get(chillerRef);
+    const earlier = await tx.get(
+        db.collection("logAmendments").where("logId", "==", logRef.id),
+    );
+
+    const history = earlier.docs.map((d) => d.data());
+    const current = currentValues(log, history);
+    const chiller = chillerSnap.exists ? chillerSnap.data() : {};
+    const {values, changed} = applyAmendment(current, input.changes, chiller);
+
+    const seq = history.reduce((m, a) => Math.max(m, a.seq || 0), 0) + 1;
+    const amendRef = db.doc(`logAmendments/${logRef.id}_${seq}`);
+
+    tx.create(amendRef, {
+      orgId: log.orgId,
+      branchId: log.branchId,
+      chillerId: log.chillerId,
+      logId: logRef.id,
+      seq,
+      previous: current,
+      values,
+      changed,
+      reason: input.reason,
+      amendedBy: uid,
+      amendedByName: member.name || member.email || "",
+      amendedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // keep the dashboard in step when the latest reading is corrected
+    const last = chiller.lastReading;
+    if (last && last.logId === logRef.id) {
+      tx.update(chillerRef, {
+        "lastReading.tempC": values.tempC,
+        "lastReading.humidity": values.humidity,
+        "lastReading.status": values.status,
+        "lastReading.note": values.note,
+        "lastReading.amended": true,
+        "updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    return {ok: true, amendmentId: amendRef.id, seq, values};
+  });
+});
+
+exports.parseAmendment = parseAmendment;
+exports.currentValues = currentValues;
+exports.applyAmendment = applyAmendment;
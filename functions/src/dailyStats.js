@@ -0,0 +1,237 @@
+// functions/src/dailyStats.js
+// Per-chiller daily rollups: dailyStats/{chillerId}_{YYYY-MM-DD} (day in the
+// branch's time zone, by when the reading was taken). Every change to a
+// reading, correction or missed check rebuilds that day from the raw docs, so
+// a retried trigger can't double count.
+const {onDocumentCreated, onDocumentWritten} =
+  require("firebase-functions/v2/firestore");
+const admin = require("firebase-admin");
+const {currentValues} = require("./amendments");
+const {localDate, localToUtc, addDays, safeTimeZone} = require("./schedule");
+
+// Firestore "in" filters take at most 30 values
+const IN_CHUNK = 30;
+
+/**
+ * @param {string} chillerId chiller
+ * @param {string} date "YYYY-MM-DD"
+ * @return {string} dailyStats doc id
+ */
+function statsId(chillerId, date) {
+  return `${chillerId}_${date}`;
+}
+
+/**
+ * @param {*} ts Firestore Timestamp or empty
+ * @return {number|null} millis
+ */
+function millisOf(ts) {
+  return ts && typeof ts.toMillis === "function" ? ts.toMillis() : null;
+}
+
+/**
+ * When the reading was taken: capturedAt, or createdAt for logs written
+ * before the outbox recorded it. An offline reading synced after midnight
+ * still belongs to the day it was taken.
+ * @param {Object} log tempLogs data
+ * @return {number|null} millis
+ */
+function takenAt(log) {
+  const captured = millisOf(log.capturedAt);
+  return captured === null ? millisOf(log.createdAt) : captured;
+}
+
+/**
+ * Rolls one chiller-day up.
+ * @param {Array<Object>} readings {at, tempC, status} with corrections applied
+ * @param {number} missed missed checks still open for the day
+ * @return {Object} {count, ok, warning, damaged, excursions, minC, maxC,
+ *   meanC, firstAt, lastAt, missed} (temps / times null without readings)
+ */
+function rollupDay(readings, missed) {
+  const out = {
+    count: 0,
+    ok: 0,
+    warning: 0,
+    damaged: 0,
+    excursions: 0,
+    minC: null,
+    maxC: null,
+    meanC: null,
+    firstAt: null,
+    lastAt: null,
+    missed,
+  };
+
+  let sum = 0;
+  readings.forEach((r) => {
+    if (typeof r.tempC !== "number" || !Number.isFinite(r.tempC)) return;
+    out.count++;
+    if (out[r.status] !== undefined) out[r.status]++;
+    if (r.status !== "ok") out.excursions++;
+    out.minC = out.minC === null ? r.tempC : Math.min(out.minC, r.tempC);
+    out.maxC = out.maxC === null ? r.tempC : Math.max(out.maxC, r.tempC);
+    out.firstAt = out.firstAt === null ? r.at : Math.min(out.firstAt, r.at);
+    out.lastAt = out.lastAt === null ? r.at : Math.max(out.lastAt, r.at);
+    sum += r.tempC;
+  });
+  if (out.count > 0) out.meanC = Math.round((sum / out.count) * 10) / 10;
+
+  return out;
+}
+
+/**
+ * Chiller + the time zone its branch keeps days in.
+ * @param {string} chillerId chiller
+ * @return {Promise<Object|null>} {chiller, tz} or null when it's gone
+ */
+async function loadChillerDay(chillerId) {
+  const db = admin.firestore();
+  const snap = await db.doc(`chillers/${chillerId}`).get();
+  if (!snap.exists) return null;
+
+  const chiller = snap.data();
+  const branch = chiller.branchId ?
+    await db.doc(`branches/${chiller.branchId}`).get() :
+    null;
+  const tz = safeTimeZone(
+      branch && branch.exists ? branch.get("timezone") : "",
+  );
+  return {chiller, tz};
+}
+
+/**
+ * Recomputes dailyStats for one chiller-day from tempLogs, logAmendments and
+ * missedChecks.
+ * @param {string} chillerId chiller
+ * @param {string} date "YYYY-MM-DD" in the branch time zone
+ * @param {{chiller: Object, tz: string}} ctx from loadChillerDay
+ * @return {Promise<Object>} the rollup written
+ */
+async function rebuildDailyStats(chillerId, date, ctx) {
+  const db = admin.firestore();
+  const Timestamp = admin.firestore.Timestamp;
+  const start = localToUtc(date, "00:00", ctx.tz);
+  const end = localToUtc(addDays(date, 1), "00:00", ctx.tz);
+  const ref = db.doc(`dailyStats/${statsId(chillerId, date)}`);
+
+  return db.runTransaction(async (tx) => {
+    // reading the rollup first serialises concurrent rebuilds of the same day
+    await tx.get(ref);
+
+    const logsIn = (field) => tx.get(db.collection("tempLogs")
+        .where("chillerId", "==", chillerId)
+        .where(field, ">=", Timestamp.fromMillis(start))
+        .where(field, "<", Timestamp.fromMillis(end)));
+    const [captured, legacy, missed] = await Promise.all([
+      logsIn("capturedAt"),
+      logsIn("createdAt"),
+      tx.get(db.collection("missedChecks")
+          .where("chillerId", "==", chillerId)
+          .where("date", "==", date)),
+    ]);
+    // createdAt only decides the day for logs without a capturedAt
+    const logs = {
+      docs: [
+        ...captured.docs,
+        ...legacy.docs.filter((d) => millisOf(d.get("capturedAt")) === null),
+      ],
+    };
+
+    const history = new Map();
+    const ids = logs.docs.map((d) => d.id);
+    for (let i = 0; i < ids.length; i += IN_CHUNK) {
+      const snap = await tx.get(db.collection("logAmendments")
+          .where("logId", "in", ids.slice(i, i + IN_CHUNK)));
+      snap.docs.forEach((d) => {
+        const a = d.data();
+        if (!history.has(a.logId)) history.set(a.logId, []);
+        history.get(a.logId).push(a);
+      });
+    }
+
+    const readings = logs.docs.map((d) => {
+      const log = d.data();
+      const v = currentValues(log, history.get(d.id) || []);
+      return {at: takenAt(log), tempC: v.tempC, status: v.status};
+    });
+    const stillMissed = missed.docs
+        .filter((d) => d.get("status") === "missed").length;
+
+    const stats = rollupDay(readings, stillMissed);
+    const data = {
+      orgId: ctx.chiller.orgId || null,
+      branchId: ctx.chiller.branchId || null,
+      chillerId,
+      chillerName: ctx.chiller.name || "",
+      date,
+      timezone: ctx.tz,
+      ...stats,
+      firstAt: stats.firstAt === null ?
+        null :
+        Timestamp.fromMillis(stats.firstAt),
+      lastAt: stats.lastAt === null ? null : Timestamp.fromMillis(stats.lastAt),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    tx.set(ref, data);
+    return data;
+  });
+}
+
+/**
+ * Rebuilds the day a reading was taken in.
+ * @param {string} chillerId chiller
+ * @param {number|null} atMs takenAt of the reading
+ * @return {Promise<void>}
+ */
+async function rebuildDayOf(chillerId, atMs) {
+  if (!chillerId || atMs === null) return;
+  const ctx = await loadChillerDay(chillerId);
+  if (!ctx) return;
+  await rebuildDailyStats(chillerId, localDate(atMs, ctx.tz), ctx);
+}
+
+exports.rollupOnTempLog = onDocumentCreated(
+    {document: "tempLogs/{logId}", region: "us-central1"},
+    async (event) => {
+      const snap = event.data;
+      if (!snap) return;
+      const log = snap.data();
+      await rebuildDayOf(log.chillerId, takenAt(log));
+    },
+);
+
+exports.rollupOnAmendment = onDocumentCreated(
+    {document: "logAmendments/{amendmentId}", region: "us-central1"},
+    async (event) => {
+      const snap = event.data;
+      if (!snap) return;
+      const {logId} = snap.data();
+      const logSnap = await admin.firestore().doc(`tempLogs/${logId}`).get();
+      if (!logSnap.exists) return;
+      const log = logSnap.data();
+      await rebuildDayOf(log.chillerId, takenAt(log));
+    },
+);
+
+// created by checkMissedReadings, flipped to "cleared" by a late sync
+exports.rollupOnMissedCheck = onDocumentWritten(
+    {document: "missedChecks/{checkId}", region: "us-central1"},
+    async (event) => {
+      const change = event.data;
+      if (!change) return;
+      const doc = change.after.exists ? change.after : change.before;
+      const m = doc.data();
+      if (!m.chillerId || !m.date) return;
+
+      const ctx = await loadChillerDay(m.chillerId);
+      if (!ctx) return;
+      // the check's own date is already in the branch time zone
+      await rebuildDailyStats(m.chillerId, m.date, ctx);
+    },
+);
+
+exports.statsId = statsId;
+exports.takenAt = takenAt;
+exports.rollupDay = rollupDay;
+exports.rebuildDailyStats = rebuildDailyStats;
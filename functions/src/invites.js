@@ -0,0 +1,266 @@
+// functions/src/invites.js
+// Invite links for staff, so admins don't pick passwords for people. An admin
+// invites an email; the invitee opens tempmonitor://accept-invite?token=...
+// and sets their own password. staffInvites/{id} is keyed by the SHA-256 of
+// the token, so the stored invite can't be turned back into a working link.
+const crypto = require("crypto");
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {memberBranchIds, requireOrgRole} = require("./orgs");
+const {sendEmail, escapeHtml} = require("./notify");
+const {
+  parseStaffFields,
+  parsePassword,
+  requireBranches,
+  createLogin,
+  addManagedMember,
+} = require("./staff");
+
+const INVITE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LINK_PREFIX = "tempmonitor://accept-invite?token=";
+
+/**
+ * @return {string} random url-safe invite token
+ */
+function newInviteToken() {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * @param {*} token invite token
+ * @return {string|null} staffInvites doc id, or null for a malformed token
+ */
+function inviteIdFor(token) {
+  const t = String(token || "").trim();
+  if (!/^[A-Za-z0-9_-]{32,64}$/.test(t)) return null;
+  return crypto.createHash("sha256").update(t).digest("hex");
+}
+
+/**
+ * @param {string} token invite token
+ * @return {string} deep link that opens the accept screen
+ */
+function inviteLink(token) {
+  return LINK_PREFIX + encodeURIComponent(token);
+}
+
+/**
+ * Why an invite can't be used right now, if it can't.
+ * @param {Object|null} invite staffInvites data
+ * @param {number} nowMs current time
+ * @return {string|null} "missing" | "accepted" | "revoked" | "expired"
+ */
+function inviteProblem(invite, nowMs) {
+  if (!invite) return "missing";
+  if (invite.status === "accepted") return "accepted";
+  if (invite.status === "revoked") return "revoked";
+  if (invite.status !== "pending") return "missing";
+  const expires = invite.expiresAt && invite.expiresAt.toMillis ?
+    invite.expiresAt.toMillis() :
+    0;
+  return expires > nowMs ? null : "expired";
+}
+
+const PROBLEM_ERRORS = {
+  missing: ["not-found", "This invite link is not valid"],
+  accepted: ["failed-precondition", "This invite has already been used"],
+  revoked: ["failed-precondition", "This invite was cancelled"],
+  expired: ["failed-precondition", "This invite has expired"],
+};
+
+/**
+ * Loads an invite by token and throws unless it can still be accepted.
+ * @param {*} token invite token
+ * @param {Object} [tx] transaction to read in
+ * @return {Promise<Object>} {ref, invite}
+ */
+async function loadUsableInvite(token, tx) {
+  const id = inviteIdFor(token);
+  const ref = id ? admin.firestore().doc(`staffInvites/${id}`) : null;
+  const snap = ref ? await (tx ? tx.get(ref) : ref.get()) : null;
+  const invite = snap && snap.exists ? snap.data() : null;
+
+  const problem = inviteProblem(invite, Date.now());
+  if (problem) {
+    const [code, message] = PROBLEM_ERRORS[problem];
+    throw new HttpsError(code, message);
+  }
+  return {ref, invite};
+}
+
+exports.inviteStaff = onCall({region: "us-central1"}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+  const s = parseStaffFields(request.data || {});
+  const callerUid = request.auth.uid;
+
+  await requireOrgRole(s.orgId, callerUid, ["admin"]);
+  await requireBranches(s.orgId, s.branchIds);
+
+  const existing = await admin.auth().getUserByEmail(s.email).catch((err) => {
+    if (err.code === "auth/user-not-found") return null;
+    throw err;
+  });
+  if (existing) {
+    throw new HttpsError(
+        "already-exists",
+        "This email already has an account; add them by email in Settings",
+    );
+  }
+
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  const expiresMs = Date.now() + INVITE_DAYS * DAY_MS;
+  const orgName = (await db.doc(`orgs/${s.orgId}`).get()).get("name") || "";
+
+  // a fresh invite replaces any older link sent to the same address
+  const older = await db.collection("staffInvites")
+      .where("orgId", "==", s.orgId)
+      .where("email", "==", s.email)
+      .where("status", "==", "pending")
+      .get();
+
+  const token = newInviteToken();
+  const id = inviteIdFor(token);
+  const batch = db.batch();
+  older.docs.forEach((d) => batch.update(d.ref, {
+    status: "revoked",
+    revokedAt: now,
+    revokedBy: callerUid,
+  }));
+  batch.set(db.doc(`staffInvites/${id}`), {
+    orgId: s.orgId,
+    orgName,
+    email: s.email,
+    name: s.name,
+    role: s.role,
+    branchIds: s.branchIds,
+    status: "pending",
+    createdBy: callerUid,
+    createdAt: now,
+    expiresAt: admin.firestore.Timestamp.fromMillis(expiresMs),
+  });
+  await batch.commit();
+
+  const link = inviteLink(token);
+  const team = orgName || "your team";
+  const text = `You've been invited to join ${team} on Temperature ` +
+    `Monitor.\n\nOpen this link on your phone to set your password:\n` +
+    `${link}\n\nThe link expires in ${INVITE_DAYS} days.`;
+  const mail = await sendEmail([s.email], {
+    subject: `Join ${team} on Temperature Monitor`,
+    text,
+    html: `<p>${escapeHtml(text).replace(/\n/g, "<br/>")}</p>`,
+  });
+
+  return {
+    ok: true,
+    inviteId: id,
+    link,
+    expiresAt: expiresMs,
+    emailed: mail.sent > 0,
+  };
+});
+
+exports.revokeStaffInvite = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Login required");
+      }
+      const data = request.data || {};
+      const orgId = String(data.orgId || "");
+      const inviteId = String(data.inviteId || "");
+      if (!orgId || !/^[0-9a-f]{64}$/.test(inviteId)) {
+        throw new HttpsError(
+            "invalid-argument",
+            "orgId and inviteId are required",
+        );
+      }
+
+      await requireOrgRole(orgId, request.auth.uid, ["admin"]);
+
+      const ref = admin.firestore().doc(`staffInvites/${inviteId}`);
+      const snap = await ref.get();
+      if (!snap.exists || snap.get("orgId") !== orgId) {
+        throw new HttpsError("not-found", "Invite not found");
+      }
+      if (snap.get("status") !== "pending") {
+        throw new HttpsError(
+            "failed-precondition",
+            "Only pending invites can be cancelled",
+        );
+      }
+
+      await ref.update({
+        status: "revoked",
+        revokedAt: admin.firestore.FieldValue.serverTimestamp(),
+        revokedBy: request.auth.uid,
+      });
+      return {ok: true};
+    },
+);
+
+// no login needed: the token is the credential
+exports.getStaffInvite = onCall({region: "us-central1"}, async (request) => {
+  const {invite} = await loadUsableInvite((request.data || {}).token);
+  return {
+    orgName: invite.orgName || "",
+    email: invite.email,
+    name: invite.name || "",
+    role: invite.role,
+    expiresAt: invite.expiresAt.toMillis(),
+  };
+});
+
+exports.acceptStaffInvite = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      const data = request.data || {};
+      const password = parsePassword(data.password);
+      const db = admin.firestore();
+
+      // claim the invite first so the same link can't make two accounts
+      const {ref, invite} = await db.runTransaction(async (tx) => {
+        const found = await loadUsableInvite(data.token, tx);
+        tx.update(found.ref, {
+          status: "accepted",
+          acceptedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return found;
+      });
+
+      const name = String(data.name || "").trim() || invite.name;
+      const s = {
+        orgId: invite.orgId,
+        email: invite.email,
+        name,
+        role: invite.role,
+        branchIds: memberBranchIds(invite),
+      };
+
+      let uid;
+      try {
+        uid = await createLogin({...s, password});
+      } catch (err) {
+        // nothing was created, so the link stays usable
+        await ref.update({
+          status: "pending",
+          acceptedAt: admin.firestore.FieldValue.delete(),
+        });
+        throw err;
+      }
+
+      await addManagedMember(uid, s, invite.createdBy);
+      await ref.update({acceptedUid: uid});
+
+      return {ok: true, email: s.email};
+    },
+);
+
+exports.INVITE_DAYS = INVITE_DAYS;
+exports.inviteIdFor = inviteIdFor;
+exports.inviteLink = inviteLink;
+exports.inviteProblem = inviteProblem;
@@ -0,0 +1,196 @@
+// functions/src/missed.js
+// Missed-reading detection: every scheduled slot without a tempLog inside its
+// grace window becomes a missedChecks/{chillerId}_{date}_{HHMM} document.
+const {onSchedule} = require("firebase-functions/v2/scheduler");
+const {onDocumentCreated} = require("firebase-functions/v2/firestore");
+const logger = require("firebase-functions/logger");
+const admin = require("firebase-admin");
+const {normalizeSchedule, safeTimeZone, dueSlots} = require("./schedule");
+const {pushToUsers} = require("./notify");
+const {branchLeads} = require("./orgs");
+
+// slots whose window closed this long ago are still (re)checked, so a few
+// failed runs don't lose anything; the deterministic doc id keeps it idempotent
+const LOOKBACK_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * @param {string} chillerId chiller
+ * @param {string} date "YYYY-MM-DD"
+ * @param {string} time "HH:MM"
+ * @return {string} missedChecks doc id
+ */
+function missedId(chillerId, date, time) {
+  return `${chillerId}_${date}_${time.replace(":", "")}`;
+}
+
+/**
+ * Matched on capturedAt (when it was taken), not createdAt: a reading kept
+ * in the offline outbox past the deadline still covers its slot.
+ * @param {string} chillerId chiller
+ * @param {number} fromMs window start
+ * @param {number} toMs window end
+ * @return {Promise<boolean>} whether any reading was taken in the window
+ */
+async function hasReadingBetween(chillerId, fromMs, toMs) {
+  const Timestamp = admin.firestore.Timestamp;
+  const snap = await admin.firestore().collection("tempLogs")
+      .where("chillerId", "==", chillerId)
+      .where("capturedAt", ">=", Timestamp.fromMillis(fromMs))
+      .where("capturedAt", "<=", Timestamp.fromMillis(toMs))
+      .limit(1)
+      .get();
+  return !snap.empty;
+}
+
+/**
+ * One push per branch listing the checks that were just missed.
+ * @param {Array<Object>} created new missedChecks data
+ * @return {Promise<void>}
+ */
+async function notifyMissed(created) {
+  const db = admin.firestore();
+  const groups = new Map();
+  created.forEach((m) => {
+    const key = `${m.orgId}|${m.branchId}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(m);
+  });
+
+  for (const list of groups.values()) {
+    const {orgId, branchId} = list[0];
+    const orgSnap = await db.doc(`orgs/${orgId}`).get();
+    if (!orgSnap.exists) continue;
+
+    const names = list.map((m) => `${m.chillerName || "Chiller"} (${m.time})`);
+    await pushToUsers(branchLeads(orgSnap.data(), branchId), "missed", {
+      title: list.length === 1 ?
+        "Missed reading" :
+        `${list.length} missed readings`,
+      body: names.slice(0, 5).join(", ") +
+        (names.length > 5 ? ` +${names.length - 5} more` : ""),
+      data: {type: "missed", branchId, chillerId: list[0].chillerId},
+    });
+  }
+}
+
+/**
+ * Checks every active chiller's slots that closed in the lookback window.
+ * @param {number} now current time (ms)
+ * @return {Promise<number>} missed checks recorded
+ */
+async function runMissedCheck(now) {
+  const db = admin.firestore();
+  const from = now - LOOKBACK_MS;
+
+  const chillers = await db.collection("chillers")
+      .where("isActive", "==", true)
+      .get();
+
+  const branches = new Map();
+  const branchOf = async (id) => {
+    if (!id) return {};
+    if (!branches.has(id)) {
+      const s = await db.doc(`branches/${id}`).get();
+      branches.set(id, s.exists ? s.data() : {});
+    }
+    return branches.get(id);
+  };
+
+  const created = [];
+
+  for (const c of chillers.docs) {
+    const chiller = c.data();
+    if (!chiller.orgId) continue;
+
+    const branch = await branchOf(chiller.branchId);
+    if (branch.isActive === false) continue;
+
+    const schedule = normalizeSchedule(chiller.schedule) ||
+      normalizeSchedule(branch.schedule);
+    if (!schedule) continue;
+
+    const tz = safeTimeZone(branch.timezone);
+
+    for (const slot of dueSlots(schedule, tz, from, now)) {
+      const id = missedId(c.id, slot.date, slot.time);
+      const ref = db.doc(`missedChecks/${id}`);
+      if ((await ref.get()).exists) continue;
+      if (await hasReadingBetween(c.id, slot.opensAt, slot.deadline)) continue;
+
+      const data = {
+        orgId: chiller.orgId,
+        branchId: chiller.branchId || null,
+        chillerId: c.id,
+        chillerName: chiller.name || "",
+        date: slot.date,
+        time: slot.time,
+        slotAt: admin.firestore.Timestamp.fromMillis(slot.slotAt),
+        graceMinutes: schedule.graceMinutes,
+        timezone: tz,
+        status: "missed",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+
+      try {
+        await ref.create(data);
+        created.push(data);
+      } catch (err) {
+        // another run got there first
+        if (err.code !== 6) throw err; // 6 = ALREADY_EXISTS
+      }
+    }
+  }
+
+  if (created.length > 0) await notifyMissed(created);
+  return created.length;
+}
+
+exports.checkMissedReadings = onSchedule(
+    {schedule: "every 15 minutes", region: "us-central1"},
+    async () => {
+      const recorded = await runMissedCheck(Date.now());
+      if (recorded > 0) logger.info("missed checks recorded", {recorded});
+    },
+);
+
+/**
+ * A reading taken on time but synced late (offline outbox) clears the
+ * missed check that was raised while it was still on the device.
+ */
+exports.clearMissedOnLateReading = onDocumentCreated(
+    {document: "tempLogs/{logId}", region: "us-central1"},
+    async (event) => {
+      const snap = event.data;
+      if (!snap) return;
+
+      const log = snap.data();
+      const capturedAt = log.capturedAt && log.capturedAt.toMillis ?
+        log.capturedAt.toMillis() :
+        null;
+      if (!log.chillerId || capturedAt === null) return;
+
+      const Timestamp = admin.firestore.Timestamp;
+      const day = 24 * 60 * 60 * 1000;
+      const missed = await admin.firestore().collection("missedChecks")
+          .where("chillerId", "==", log.chillerId)
+          .where("slotAt", ">=", Timestamp.fromMillis(capturedAt - day))
+          .where("slotAt", "<=", Timestamp.fromMillis(capturedAt + day))
+          .get();
+
+      const hits = missed.docs.filter((d) => {
+        const m = d.data();
+        const graceMs = (m.graceMinutes || 0) * 60000;
+        return m.status === "missed" &&
+          Math.abs(capturedAt - m.slotAt.toMillis()) <= graceMs;
+      });
+
+      await Promise.all(hits.map((d) => d.ref.update({
+        status: "cleared",
+        clearedByLogId: event.params.logId,
+        clearedAt: admin.firestore.FieldValue.serverTimestamp(),
+      })));
+    },
+);
+
+exports.runMissedCheck = runMissedCheck;
+exports.hasReadingBetween = hasReadingBetween;
@@ -0,0 +1,389 @@
+// functions/src/notify.js
+// Outgoing notifications: Expo push + email through a swappable transport,
+// and the evening "daily summary" push.
+const {onSchedule} = require("firebase-functions/v2/scheduler");
+const logger = require("firebase-functions/logger");
+const admin = require("firebase-admin");
+const {inBranch} = require("./orgs");
+const {localDate, safeTimeZone, zonedParts} = require("./schedule");
+
+const DEFAULT_EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+const PUSH_CHUNK = 100; // Expo accepts at most 100 messages per request
+
+// local hour (branch time zone) after which the day's summary goes out
+const SUMMARY_HOUR = 20;
+
+// push categories a user can opt in/out of (users/{uid}.notifyPrefs);
+// keep in sync with NOTIFY_CATEGORIES in src/firebase/push.ts
+const DEFAULT_NOTIFY_PREFS = {
+  excursions: true,
+  missed: true,
+  dailySummary: false,
+};
+
+/**
+ * Where push messages go. Point EXPO_PUSH_URL at a local fake when testing.
+ * @return {string} endpoint url
+ */
+function pushUrl() {
+  return process.env.EXPO_PUSH_URL || DEFAULT_EXPO_PUSH_URL;
+}
+
+/**
+ * @param {string} token candidate push token
+ * @return {boolean} true for Expo push tokens
+ */
+function isExpoToken(token) {
+  return typeof token === "string" &&
+    /^Expo(nent)?PushToken\[.+\]$/.test(token);
+}
+
+/**
+ * Sends one message to many Expo push tokens.
+ * @param {string[]} tokens Expo push tokens
+ * @param {{title: string, body: string, data: Object}} message payload
+ * @return {Promise<Object>} {sent, failed, invalid} where invalid lists
+ *   tokens Expo reported as no longer registered
+ */
+async function sendPush(tokens, message) {
+  const list = [...new Set(tokens || [])].filter(isExpoToken);
+  const invalid = [];
+  let sent = 0;
+  let failed = 0;
+
+  for (let i = 0; i < list.length; i += PUSH_CHUNK) {
+    const chunk = list.slice(i, i + PUSH_CHUNK).map((to) => ({
+      to,
+      sound: "default",
+      title: message.title,
+      body: message.body,
+      data: message.data || {},
+    }));
+
+    try {
+      const res = await fetch(pushUrl(), {
+        method: "POST",
+        headers: {
+          "Accept": "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(chunk),
+      });
+      if (!res.ok) throw new Error(`push endpoint answered ${res.status}`);
+
+      const json = await res.json().catch(() => ({}));
+      const tickets = Array.isArray(json.data) ? json.data : [];
+      const bad = tickets.filter((t) => t && t.status === "error").length;
+      sent += chunk.length - bad;
+      failed += bad;
+
+      // tickets come back in message order
+      tickets.forEach((t, idx) => {
+        const reason = t && t.details && t.details.error;
+        if (reason === "DeviceNotRegistered") invalid.push(chunk[idx].to);
+      });
+    } catch (err) {
+      logger.warn("sendPush failed", {error: err.message});
+      failed += chunk.length;
+    }
+  }
+
+  return {sent, failed, invalid};
+}
+
+/**
+ * @param {Object} user users/{uid} data
+ * @param {string} category excursions | missed | dailySummary
+ * @return {boolean} whether the user wants pushes of that category
+ */
+function wantsCategory(user, category) {
+  const prefs = (user && user.notifyPrefs) || {};
+  if (typeof prefs[category] === "boolean") return prefs[category];
+  return DEFAULT_NOTIFY_PREFS[category] === true;
+}
+
+/**
+ * Pushes to every registered device of the users that opted into the
+ * category, and drops tokens Expo says are gone.
+ * @param {string[]} uids recipients
+ * @param {string} category excursions | missed | dailySummary
+ * @param {{title: string, body: string, data: Object}} message payload
+ * @return {Promise<{sent: number, failed: number}>} delivery counts
+ */
+async function pushToUsers(uids, category, message) {
+  const list = [...new Set(uids || [])];
+  if (list.length === 0) return {sent: 0, failed: 0};
+
+  const db = admin.firestore();
+  const snaps = await db.getAll(...list.map((uid) => db.doc(`users/${uid}`)));
+
+  const owner = new Map(); // token -> uid
+  snaps.forEach((s) => {
+    const u = s.exists ? s.data() : null;
+    if (!u || u.isActive === false || !wantsCategory(u, category)) return;
+    (u.pushTokens || []).forEach((t) => owner.set(t, s.id));
+  });
+
+  const {sent, failed, invalid} = await sendPush([...owner.keys()], {
+    ...message,
+    data: {category, ...(message.data || {})},
+  });
+
+  await Promise.all(invalid.map((t) => db.doc(`users/${owner.get(t)}`)
+      .update({pushTokens: admin.firestore.FieldValue.arrayRemove(t)})
+      .catch((err) => logger.warn("token prune failed", {error: err.message})),
+  ));
+
+  return {sent, failed};
+}
+
+// -------------------------
+// Email
+// -------------------------
+
+// A mail is {to, subject, text, html, attachments?}; each attachment is
+// {filename, contentType, content} with the content base64-encoded.
+
+/**
+ * For user-entered text (org, branch, chiller names) going into mail HTML.
+ * @param {*} value text
+ * @return {string} HTML-escaped text
+ */
+function escapeHtml(value) {
+  return String(value == null ? "" : value)
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+}
+
+/**
+ * Local stub: logs the mail instead of sending it.
+ * @param {Object} mail {to, subject, text, html, attachments}
+ * @return {Promise<{id: string}>} fake message id
+ */
+async function stubTransport(mail) {
+  logger.info("mail (stub transport)", {
+    to: mail.to,
+    subject: mail.subject,
+    text: mail.text,
+    attachments: (mail.attachments || []).map((a) => ({
+      filename: a.filename,
+      bytes: Buffer.byteLength(a.content || "", "base64"),
+    })),
+  });
+  return {id: `stub-${Date.now()}`};
+}
+
+/**
+ * Posts the mail as JSON to MAIL_WEBHOOK_URL (e.g. a relay service).
+ * @param {Object} mail {to, subject, text, html, attachments}
+ * @return {Promise<{id: string}>} relay message id
+ */
+async function webhookTransport(mail) {
+  const res = await fetch(process.env.MAIL_WEBHOOK_URL, {
+    method: "POST",
+    headers: {"Content-Type": "application/json"},
+    body: JSON.stringify(mail),
+  });
+  if (!res.ok) throw new Error(`mail webhook answered ${res.status}`);
+  const json = await res.json().catch(() => ({}));
+  return {id: json.id || ""};
+}
+
+let customTransport = null;
+
+/**
+ * Overrides the mail transport (tests, or a real provider at boot).
+ * @param {Function|null} fn async (mail) => ({id})
+ */
+function setMailTransport(fn) {
+  customTransport = fn;
+}
+
+/**
+ * @return {Function} the transport in use
+ */
+function mailTransport() {
+  if (customTransport) return customTransport;
+  const env = process.env;
+  if (env.MAIL_TRANSPORT === "webhook" && env.MAIL_WEBHOOK_URL) {
+    return webhookTransport;
+  }
+  return stubTransport;
+}
+
+/**
+ * Sends one mail per recipient so addresses aren't shared between customers.
+ * @param {string[]} to recipient addresses
+ * @param {Object} mail {subject, text, html, attachments}
+ * @return {Promise<{sent: number, failed: number}>} delivery counts
+ */
+async function sendEmail(to, mail) {
+  const list = [...new Set((to || []).map((e) => String(e).trim()))]
+      .filter((e) => e.includes("@"));
+  const transport = mailTransport();
+  let sent = 0;
+  let failed = 0;
+
+  for (const address of list) {
+    try {
+      await transport({...mail, to: address});
+      sent++;
+    } catch (err) {
+      logger.warn("sendEmail failed", {to: address, error: err.message});
+      failed++;
+    }
+  }
+
+  return {sent, failed};
+}
+
+// -------------------------
+// Daily summary
+// -------------------------
+
+/**
+ * @param {string} branchName branch
+ * @param {Array<Object>} stats the day's dailyStats docs for the branch
+ * @return {{title: string, body: string}} push text
+ */
+function summaryMessage(branchName, stats) {
+  const sum = (key) => stats.reduce((n, s) => n + (s[key] || 0), 0);
+  const count = sum("count");
+  const excursions = sum("excursions");
+  const missed = sum("missed");
+
+  const parts = [`${count} ${count === 1 ? "reading" : "readings"}`];
+  parts.push(excursions === 0 ?
+    "no excursions" :
+    `${excursions} ${excursions === 1 ? "excursion" : "excursions"}`);
+  parts.push(missed === 0 ?
+    "no missed checks" :
+    `${missed} missed ${missed === 1 ? "check" : "checks"}`);
+
+  const worst = stats
+      .filter((s) => (s.excursions || 0) + (s.missed || 0) > 0)
+      .map((s) => s.chillerName || "Chiller");
+
+  return {
+    title: `Today at ${branchName || "your branch"}`,
+    body: parts.join(", ") +
+      (worst.length > 0 ?
+        `. Check: ${worst.slice(0, 3).join(", ")}` +
+          (worst.length > 3 ? ` +${worst.length - 3} more` : "") :
+        "."),
+  };
+}
+
+/**
+ * Active members who work in the branch (admins see every branch).
+ * @param {Object} org orgs/{orgId} data
+ * @param {string} branchId branch
+ * @return {string[]} uids
+ */
+function branchMembers(org, branchId) {
+  const members = (org && org.members) || {};
+  return Object.keys(members).filter((uid) => {
+    const m = members[uid] || {};
+    return m.isActive !== false && inBranch(m, branchId);
+  });
+}
+
+/**
+ * Pushes each branch's results for the local day once SUMMARY_HOUR has
+ * passed there; branches/{id}.lastSummaryDate keeps it to one a day.
+ * @param {number} now current time (ms)
+ * @return {Promise<number>} branches summarised
+ */
+async function runDailySummaries(now) {
+  const db = admin.firestore();
+  const branches = await db.collection("branches").get();
+  const orgs = new Map();
+  let summarised = 0;
+
+  for (const doc of branches.docs) {
+    const branch = doc.data();
+    if (branch.isActive === false || !branch.orgId) continue;
+
+    const tz = safeTimeZone(branch.timezone);
+    if (zonedParts(now, tz).hour < SUMMARY_HOUR) continue;
+    const date = localDate(now, tz);
+    if (branch.lastSummaryDate === date) continue;
+
+    // claim first so an overlapping run can't push twice
+    const previous = await db.runTransaction(async (tx) => {
+      const fresh = await tx.get(doc.ref);
+      if (!fresh.exists || fresh.get("lastSummaryDate") === date) {
+        return undefined;
+      }
+      tx.update(doc.ref, {lastSummaryDate: date});
+      return fresh.get("lastSummaryDate") || null;
+    });
+    if (previous === undefined) continue;
+
+    try {
+      const stats = await db.collection("dailyStats")
+          .where("orgId", "==", branch.orgId)
+          .where("branchId", "==", doc.id)
+          .where("date", "==", date)
+          .get();
+      // nothing scheduled or logged here today
+      if (stats.empty) continue;
+
+      if (!orgs.has(branch.orgId)) {
+        const o = await db.doc(`orgs/${branch.orgId}`).get();
+        orgs.set(branch.orgId, o.exists ? o.data() : null);
+      }
+      const org = orgs.get(branch.orgId);
+      if (!org) continue;
+
+      await pushToUsers(
+          branchMembers(org, doc.id),
+          "dailySummary",
+          {
+            ...summaryMessage(branch.name, stats.docs.map((d) => d.data())),
+            data: {type: "dailySummary", branchId: doc.id, date},
+          },
+      );
+      summarised++;
+    } catch (err) {
+      // release the claim so the next run tries again
+      await doc.ref.update({lastSummaryDate: previous})
+          .catch(() => {});
+      logger.error("daily summary failed", {
+        branchId: doc.id,
+        date,
+        error: err.message,
+      });
+    }
+  }
+
+  return summarised;
+}
+
+const sendDailySummaries = onSchedule(
+    {schedule: "every 60 minutes", region: "us-central1"},
+    async () => {
+      const summarised = await runDailySummaries(Date.now());
+      if (summarised > 0) logger.info("daily summaries sent", {summarised});
+    },
+);
+
+module.exports = {
+  DEFAULT_NOTIFY_PREFS,
+  SUMMARY_HOUR,
+  isExpoToken,
+  wantsCategory,
+  sendPush,
+  pushToUsers,
+  sendEmail,
+  escapeHtml,
+  setMailTransport,
+  stubTransport,
+  summaryMessage,
+  branchMembers,
+  runDailySummaries,
+  sendDailySummaries,
+};
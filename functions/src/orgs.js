@@ -0,0 +1,327 @@
+// functions/src/orgs.js
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+
+const MEMBER_ROLES = ["admin", "manager", "staff"];
+const MIGRATED_COLLECTIONS = ["branches", "chillers", "tempLogs"];
+const BATCH_SIZE = 400;
+// dashboards query chillers with "branchId in [...]", which takes up to 30
+const MAX_MEMBER_BRANCHES = 30;
+
+/**
+ * Reads the caller's membership of an org.
+ * @param {string} orgId org document id
+ * @param {string} uid member uid
+ * @return {Promise<Object|null>} {role, branchIds, ...} or null
+ */
+async function getMembership(orgId, uid) {
+  if (!orgId || !uid) return null;
+  const snap = await admin.firestore().doc(`orgs/${orgId}`).get();
+  if (!snap.exists) return null;
+  const member = (snap.data().members || {})[uid];
+  return member ? {...member, orgId} : null;
+}
+
+/**
+ * Throws unless `uid` is a member of `orgId` with one of `roles`.
+ * @param {string} orgId org document id
+ * @param {string} uid caller uid
+ * @param {string[]} roles allowed roles
+ * @return {Promise<Object>} the membership
+ */
+async function requireOrgRole(orgId, uid, roles) {
+  const member = await getMembership(orgId, uid);
+  if (!member) {
+    throw new HttpsError(
+        "permission-denied",
+        "Not a member of this organization",
+    );
+  }
+  if (!roles.includes(member.role)) {
+    throw new HttpsError("permission-denied", "Not allowed for your role");
+  }
+  return member;
+}
+
+/**
+ * Stamps `orgId` on every doc of `collection` still keyed by `ownerId`.
+ * @param {string} collection collection name
+ * @param {string} ownerUid legacy owner uid
+ * @param {string} orgId target org id
+ * @return {Promise<number>} number of docs updated
+ */
+async function stampCollection(collection, ownerUid, orgId) {
+  const db = admin.firestore();
+  const byId = admin.firestore.FieldPath.documentId();
+  let updated = 0;
+  let last = null;
+
+  for (;;) {
+    let q = db.collection(collection)
+        .where("ownerId", "==", ownerUid)
+        .orderBy(byId)
+        .limit(BATCH_SIZE);
+    if (last) q = q.startAfter(last);
+
+    const snap = await q.get();
+    if (snap.empty) break;
+
+    const batch = db.batch();
+    let writes = 0;
+    snap.docs.forEach((d) => {
+      if (d.get("orgId") === orgId) return;
+      batch.update(d.ref, {orgId});
+      writes++;
+    });
+    if (writes > 0) await batch.commit();
+
+    updated += writes;
+    last = snap.docs[snap.docs.length - 1];
+    if (snap.size < BATCH_SIZE) break;
+  }
+
+  return updated;
+}
+
+/**
+ * Moves a legacy owner (signup account + the staff it created) into an org
+ * whose id is the owner's uid. Runs once per owner: after that the member
+ * map is the truth, so people removed since can't be brought back by their
+ * old `ownerId` / `createdBy`.
+ * @param {string} ownerUid legacy owner uid
+ * @return {Promise<Object>} {orgId, migrated} (migrated null when done before)
+ */
+async function migrateOwner(ownerUid) {
+  const db = admin.firestore();
+  const orgId = ownerUid;
+  const orgRef = db.doc(`orgs/${orgId}`);
+
+  if ((await orgRef.get()).exists) return {orgId, migrated: null};
+
+  const [ownerSnap, createdSnap, ownedSnap] = await Promise.all([
+    db.doc(`users/${ownerUid}`).get(),
+    db.collection("users").where("createdBy", "==", ownerUid).get(),
+    db.collection("users").where("ownerId", "==", ownerUid).get(),
+  ]);
+
+  const owner = ownerSnap.exists ? ownerSnap.data() : {};
+
+  const people = new Map();
+  people.set(ownerUid, {...owner, role: "admin"});
+  [...createdSnap.docs, ...ownedSnap.docs].forEach((d) => {
+    if (d.id !== ownerUid) people.set(d.id, d.data());
+  });
+
+  const members = {};
+  people.forEach((p, uid) => {
+    const role = MEMBER_ROLES.includes(p.role) ? p.role : "staff";
+    members[uid] = {
+      role,
+      branchIds: role === "admin" || !p.defaultBranchId ?
+        [] :
+        [p.defaultBranchId],
+      name: p.name || "",
+      email: p.email || "",
+      addedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+  });
+
+  // stamping is idempotent, so the org doc goes last: a run that fails
+  // half-way is simply repeated
+  const migrated = {};
+  for (const c of MIGRATED_COLLECTIONS) {
+    migrated[c] = await stampCollection(c, ownerUid, orgId);
+  }
+
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  await orgRef.set({
+    name: owner.name ? `${owner.name}'s business` : "My business",
+    memberIds: [...people.keys()],
+    members,
+    createdBy: ownerUid,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  // first org becomes the active one for everybody that had none
+  const batch = db.batch();
+  let writes = 0;
+  people.forEach((p, uid) => {
+    if (p.activeOrgId) return;
+    batch.set(db.doc(`users/${uid}`), {activeOrgId: orgId}, {merge: true});
+    writes++;
+  });
+  if (writes > 0) await batch.commit();
+
+  return {orgId, migrated};
+}
+
+/**
+ * Makes sure the caller belongs to an org. Legacy accounts (data keyed by
+ * `ownerId`) are migrated; a brand new signup gets an empty org of its own.
+ */
+exports.ensureOrg = onCall({region: "us-central1"}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+
+  const uid = request.auth.uid;
+  const db = admin.firestore();
+
+  const memberOf = await db.collection("orgs")
+      .where("memberIds", "array-contains", uid)
+      .get();
+  if (!memberOf.empty) {
+    return {ok: true, orgIds: memberOf.docs.map((d) => d.id), migrated: null};
+  }
+
+  const userSnap = await db.doc(`users/${uid}`).get();
+  const profile = userSnap.exists ? userSnap.data() : {};
+  const role = profile.role || "admin";
+
+  // staff belong to whoever created them
+  const ownerUid = role === "admin" ?
+    uid :
+    profile.ownerId || profile.createdBy || null;
+  if (!ownerUid) {
+    throw new HttpsError(
+        "failed-precondition",
+        "Your account is not linked to an organization",
+    );
+  }
+
+  const res = await migrateOwner(ownerUid);
+
+  const orgSnap = await db.doc(`orgs/${res.orgId}`).get();
+  if (!(orgSnap.data().memberIds || []).includes(uid)) {
+    throw new HttpsError(
+        "failed-precondition",
+        "Your account is not linked to an organization",
+    );
+  }
+
+  return {ok: true, orgIds: [res.orgId], migrated: res.migrated};
+});
+
+/**
+ * Adds an existing account (e.g. a consultant auditing several businesses)
+ * to an org. Admin only.
+ */
+exports.addOrgMember = onCall({region: "us-central1"}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+
+  const data = request.data || {};
+  const orgId = String(data.orgId || "");
+  const email = String(data.email || "").trim().toLowerCase();
+  const role = MEMBER_ROLES.includes(data.role) ? data.role : "staff";
+  const branchIds = parseBranchIds(data);
+
+  if (!orgId || !email) {
+    throw new HttpsError("invalid-argument", "orgId and email are required");
+  }
+
+  await requireOrgRole(orgId, request.auth.uid, ["admin"]);
+
+  let userRecord;
+  try {
+    userRecord = await admin.auth().getUserByEmail(email);
+  } catch (err) {
+    throw new HttpsError("not-found", "No account uses this email");
+  }
+
+  const db = admin.firestore();
+  const userSnap = await db.doc(`users/${userRecord.uid}`).get();
+  const profile = userSnap.exists ? userSnap.data() : {};
+
+  await db.doc(`orgs/${orgId}`).set(
+      {
+        memberIds: admin.firestore.FieldValue.arrayUnion(userRecord.uid),
+        members: {
+          [userRecord.uid]: {
+            role,
+            branchIds: role === "admin" ? [] : branchIds,
+            name: profile.name || userRecord.displayName || "",
+            email,
+            managed: false,
+            addedAt: admin.firestore.FieldValue.serverTimestamp(),
+            addedBy: request.auth.uid,
+          },
+        },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      {merge: true},
+  );
+
+  return {ok: true, uid: userRecord.uid};
+});
+
+/**
+ * Branches a member is assigned to. Memberships from before multi-branch
+ * assignments carry a single branchId instead.
+ * @param {Object} member membership
+ * @return {string[]} branch ids (admins may have none and still see all)
+ */
+function memberBranchIds(member) {
+  if (!member) return [];
+  if (Array.isArray(member.branchIds)) return member.branchIds;
+  return member.branchId ? [member.branchId] : [];
+}
+
+/**
+ * Reads a branch assignment from a request: branchIds, or the single
+ * branchId / defaultBranchId older app builds send.
+ * @param {Object} data request.data
+ * @return {string[]} distinct branch ids
+ */
+function parseBranchIds(data) {
+  const raw = Array.isArray(data.branchIds) ?
+    data.branchIds :
+    [data.branchId || data.defaultBranchId].filter(Boolean);
+  const ids = [...new Set(raw.map((b) => String(b || "")).filter(Boolean))];
+  if (ids.some((b) => b.includes("/"))) {
+    throw new HttpsError("invalid-argument", "branchIds is invalid");
+  }
+  if (ids.length > MAX_MEMBER_BRANCHES) {
+    throw new HttpsError(
+        "invalid-argument",
+        `At most ${MAX_MEMBER_BRANCHES} branches per person`,
+    );
+  }
+  return ids;
+}
+
+/**
+ * Who hears about a branch: every admin plus the managers assigned to it.
+ * @param {Object} org orgs/{orgId} data
+ * @param {string} branchId branch
+ * @return {string[]} member uids
+ */
+function branchLeads(org, branchId) {
+  const members = (org && org.members) || {};
+  return Object.keys(members).filter((uid) => {
+    const m = members[uid] || {};
+    if (m.role === "admin") return true;
+    return m.role === "manager" && memberBranchIds(m).includes(branchId);
+  });
+}
+
+/**
+ * @param {Object} member membership ({role, branchIds})
+ * @param {string} branchId branch
+ * @return {boolean} whether the member may work in that branch
+ */
+function inBranch(member, branchId) {
+  if (!member) return false;
+  if (member.role === "admin") return true;
+  return !!branchId && memberBranchIds(member).includes(branchId);
+}
+
+exports.getMembership = getMembership;
+exports.inBranch = inBranch;
+exports.memberBranchIds = memberBranchIds;
+exports.parseBranchIds = parseBranchIds;
+exports.branchLeads = branchLeads;
+exports.requireOrgRole = requireOrgRole;
+exports.migrateOwner = migrateOwner;
@@ -0,0 +1,150 @@
+// functions/src/pdf.js
+// Tiny text-only PDF writer for server-rendered reports: A4 pages of
+// monospaced lines (Courier, WinAnsi), so columns line up without a layout
+// engine or extra dependencies.
+
+const PAGE_W = 595;
+const PAGE_H = 842;
+const MARGIN = 40;
+const FONT_SIZE = 8;
+const LINE_H = 10;
+const TITLE_SIZE = 12;
+
+// Courier glyphs are 0.6em wide
+const CHARS_PER_LINE = Math.floor((PAGE_W - 2 * MARGIN) / (FONT_SIZE * 0.6));
+const LINES_PER_PAGE =
+  Math.floor((PAGE_H - 2 * MARGIN - TITLE_SIZE - LINE_H * 2) / LINE_H);
+
+/**
+ * Latin-1 text safe inside a PDF string literal.
+ * @param {string} s text
+ * @return {string} escaped text (unsupported chars become "?")
+ */
+function pdfText(s) {
+  return String(s == null ? "" : s)
+      .replace(/[–—]/g, "-")
+      .replace(/[‘’]/g, "'")
+      .replace(/[“”]/g, "\"")
+      .replace(/•/g, "*")
+      .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+      .replace(/\\/g, "\\\\")
+      .replace(/\(/g, "\\(")
+      .replace(/\)/g, "\\)");
+}
+
+/**
+ * @param {string} s cell text
+ * @param {number} width column width in characters
+ * @param {boolean} right right-align (numbers)
+ * @return {string} text padded / cut to width
+ */
+function fit(s, width, right) {
+  const text = String(s == null ? "" : s);
+  if (text.length > width) return text.slice(0, Math.max(0, width - 1)) + "~";
+  return right ? text.padStart(width) : text.padEnd(width);
+}
+
+/**
+ * Fixed-width table lines (header, rule, rows).
+ * @param {Array<{header: string, width: number, right: boolean}>} columns
+ * @param {Array<Array<*>>} rows cell values in column order
+ * @return {Array<Object>} lines for renderTextPdf
+ */
+function tableLines(columns, rows) {
+  const line = (cells) => columns
+      .map((c, i) => fit(cells[i], c.width, c.right))
+      .join(" ");
+  const header = line(columns.map((c) => c.header));
+  return [
+    {text: header, bold: true},
+    {text: "-".repeat(Math.min(CHARS_PER_LINE, header.length))},
+    ...rows.map((r) => ({text: line(r)})),
+  ];
+}
+
+/**
+ * Renders title + lines into a PDF, page numbers in the footer.
+ * @param {{title: string, lines: Array<string|Object>}} doc content; a line
+ *   is a string or {text, bold}
+ * @return {Buffer} the PDF file
+ */
+function renderTextPdf(doc) {
+  const lines = (doc.lines || []).map((l) =>
+    typeof l === "string" ? {text: l} : l,
+  );
+
+  const pages = [];
+  for (let i = 0; i < lines.length || pages.length === 0;
+    i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // objects: 1 catalog, 2 pages, 3 font, 4 bold font, then page + content
+  const objects = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier " +
+    "/Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold " +
+    "/Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((pageLines, p) => {
+    const ops = [
+      "BT",
+      `/F2 ${TITLE_SIZE} Tf`,
+      `${MARGIN} ${PAGE_H - MARGIN - TITLE_SIZE} Td`,
+      `(${pdfText(doc.title)}) Tj`,
+      `/F1 ${FONT_SIZE} Tf`,
+      `0 ${-LINE_H * 2} Td`,
+    ];
+    let bold = false;
+    pageLines.forEach((l) => {
+      if (!!l.bold !== bold) {
+        bold = !!l.bold;
+        ops.push(`/${bold ? "F2" : "F1"} ${FONT_SIZE} Tf`);
+      }
+      ops.push(`(${pdfText(fit(l.text, CHARS_PER_LINE))
+          .trimEnd()}) Tj`, `0 ${-LINE_H} Td`);
+    });
+    ops.push("ET", "BT", `/F1 ${FONT_SIZE} Tf`,
+        `${PAGE_W - MARGIN - 60} ${MARGIN / 2} Td`,
+        `(Page ${p + 1} of ${pages.length}) Tj`, "ET");
+
+    const stream = ops.join("\n");
+    objects[pageIds[p]] = "<< /Type /Page /Parent 2 0 R " +
+      `/MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+      "/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> " +
+      `/Contents ${pageIds[p] + 1} 0 R >>`;
+    objects[pageIds[p] + 1] =
+      `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\n` +
+      `stream\n${stream}\nendstream`;
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(out, "latin1");
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefAt = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\n` +
+    `startxref\n${xrefAt}\n%%EOF\n`;
+
+  return Buffer.from(out, "latin1");
+}
+
+module.exports = {
+  CHARS_PER_LINE,
+  LINES_PER_PAGE,
+  pdfText,
+  tableLines,
+  renderTextPdf,
+};
@@ -0,0 +1,229 @@
+// functions/src/quickUnlock.js
+// PIN sign-in for shared tablets. A signed-in member registers a PIN on a
+// device; the device keeps a random secret in its secure store, and
+// quickUnlocks/{deviceId}_{uid} keeps only hashes of both. Switching user
+// sends secret + PIN and gets a custom token back, so readings are written by
+// the person who actually unlocked, without typing email and password.
+const crypto = require("crypto");
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {getMembership} = require("./orgs");
+
+// wrong PINs allowed before the device needs a full login again
+const MAX_FAILURES = 5;
+const TOO_MANY = "Too many wrong PINs. Sign in with email and password";
+
+/**
+ * @param {*} pin typed PIN
+ * @return {boolean} 4 to 6 digits
+ */
+function isValidPin(pin) {
+  return typeof pin === "string" && /^\d{4,6}$/.test(pin);
+}
+
+/**
+ * @param {*} deviceId id the app generated for itself
+ * @return {boolean} safe to use in a doc id
+ */
+function isValidDeviceId(deviceId) {
+  return typeof deviceId === "string" &&
+    /^[A-Za-z0-9_-]{16,64}$/.test(deviceId);
+}
+
+/**
+ * @param {string} pin PIN
+ * @param {string} salt hex salt
+ * @return {string} hex scrypt hash
+ */
+function hashPin(pin, salt) {
+  return crypto.scryptSync(pin, Buffer.from(salt, "hex"), 32).toString("hex");
+}
+
+/**
+ * @param {string} value secret
+ * @return {string} hex SHA-256
+ */
+function sha256(value) {
+  return crypto.createHash("sha256").update(String(value)).digest("hex");
+}
+
+/**
+ * Constant-time comparison of two hex digests.
+ * @param {string} a hex
+ * @param {string} b hex
+ * @return {boolean} equal
+ */
+function sameHex(a, b) {
+  const x = Buffer.from(String(a || ""), "hex");
+  const y = Buffer.from(String(b || ""), "hex");
+  return x.length > 0 && x.length === y.length && crypto.timingSafeEqual(x, y);
+}
+
+/**
+ * @param {string} deviceId device
+ * @param {string} uid user
+ * @return {FirebaseFirestore.DocumentReference} the enrollment doc
+ */
+function unlockRef(deviceId, uid) {
+  return admin.firestore().doc(`quickUnlocks/${deviceId}_${uid}`);
+}
+
+/**
+ * Checks secret + PIN and counts a wrong PIN in one transaction, so parallel
+ * guesses can't all slip under MAX_FAILURES.
+ * @param {string} deviceId device
+ * @param {string} uid user
+ * @param {string} secret device secret
+ * @param {string} pin typed PIN
+ * @return {Promise<Object>} the enrollment when the PIN is right
+ */
+async function checkPin(deviceId, uid, secret, pin) {
+  const ref = unlockRef(deviceId, uid);
+  const outcome = await admin.firestore().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const rec = snap.exists ? snap.data() : null;
+    // a wrong secret looks like no registration at all
+    if (!rec || !sameHex(rec.secretHash, sha256(secret || ""))) {
+      return {error: "not-found"};
+    }
+    const failures = rec.failures || 0;
+    if (failures >= MAX_FAILURES) return {error: "locked"};
+
+    if (!sameHex(rec.pinHash, hashPin(pin, rec.pinSalt))) {
+      tx.update(ref, {failures: failures + 1});
+      return {error: "wrong", left: MAX_FAILURES - failures - 1};
+    }
+    return {rec};
+  });
+
+  if (outcome.error === "not-found") {
+    throw new HttpsError(
+        "not-found",
+        "PIN sign-in isn't set up for this person on this device",
+    );
+  }
+  if (outcome.error === "locked") {
+    throw new HttpsError("failed-precondition", TOO_MANY);
+  }
+  if (outcome.error === "wrong" && outcome.left <= 0) {
+    throw new HttpsError("permission-denied", TOO_MANY);
+  }
+  if (outcome.error === "wrong") {
+    throw new HttpsError(
+        "permission-denied",
+        `Wrong PIN (${outcome.left} ${outcome.left === 1 ? "try" : "tries"} ` +
+          "left)",
+    );
+  }
+  return outcome.rec;
+}
+
+exports.registerQuickUnlock = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Login required");
+      }
+      const data = request.data || {};
+      const orgId = String(data.orgId || "");
+      if (!orgId || !isValidDeviceId(data.deviceId)) {
+        throw new HttpsError(
+            "invalid-argument",
+            "orgId and deviceId are required",
+        );
+      }
+      if (!isValidPin(data.pin)) {
+        throw new HttpsError("invalid-argument", "PIN must be 4 to 6 digits");
+      }
+
+      const uid = request.auth.uid;
+      const member = await getMembership(orgId, uid);
+      if (!member || member.isActive === false) {
+        throw new HttpsError(
+            "permission-denied",
+            "Not a member of this organization",
+        );
+      }
+
+      const secret = crypto.randomBytes(32).toString("base64url");
+      const salt = crypto.randomBytes(16).toString("hex");
+      const now = admin.firestore.FieldValue.serverTimestamp();
+
+      // re-registering replaces the PIN and the device secret
+      await unlockRef(data.deviceId, uid).set({
+        uid,
+        orgId,
+        deviceId: data.deviceId,
+        name: member.name || "",
+        pinSalt: salt,
+        pinHash: hashPin(data.pin, salt),
+        secretHash: sha256(secret),
+        failures: 0,
+        createdAt: now,
+        lastUsedAt: null,
+      });
+
+      return {ok: true, secret};
+    },
+);
+
+// no login needed: the device secret + PIN are the credential
+exports.quickUnlock = onCall({region: "us-central1"}, async (request) => {
+  const data = request.data || {};
+  const uid = String(data.uid || "");
+  if (!isValidDeviceId(data.deviceId) || !uid || uid.includes("/")) {
+    throw new HttpsError("invalid-argument", "deviceId and uid are required");
+  }
+  if (!isValidPin(data.pin)) {
+    throw new HttpsError("invalid-argument", "PIN must be 4 to 6 digits");
+  }
+
+  const ref = unlockRef(data.deviceId, uid);
+  const rec = await checkPin(data.deviceId, uid, data.secret, data.pin);
+
+  // deactivated or removed since registering: the PIN dies with the access
+  const [member, account] = await Promise.all([
+    getMembership(rec.orgId, uid),
+    admin.auth().getUser(uid).catch(() => null),
+  ]);
+  if (!member || member.isActive === false || !account || account.disabled) {
+    await ref.delete();
+    throw new HttpsError(
+        "permission-denied",
+        "This account no longer has access",
+    );
+  }
+
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  await Promise.all([
+    ref.update({failures: 0, lastUsedAt: now}),
+    // open the tablet's org, whatever they used last elsewhere
+    db.doc(`users/${uid}`).set({activeOrgId: rec.orgId}, {merge: true}),
+  ]);
+
+  const token = await admin.auth().createCustomToken(uid, {quickUnlock: true});
+  return {token};
+});
+
+exports.removeQuickUnlock = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Login required");
+      }
+      const deviceId = (request.data || {}).deviceId;
+      if (!isValidDeviceId(deviceId)) {
+        throw new HttpsError("invalid-argument", "deviceId is required");
+      }
+      await unlockRef(deviceId, request.auth.uid).delete();
+      return {ok: true};
+    },
+);
+
+exports.MAX_FAILURES = MAX_FAILURES;
+exports.isValidPin = isValidPin;
+exports.isValidDeviceId = isValidDeviceId;
+exports.hashPin = hashPin;
+exports.sameHex = sameHex;
+exports.checkPin = checkPin;
@@ -0,0 +1,239 @@
+// functions/src/readings.js
+// Reading submission: the log and chiller.lastReading are written together,
+// and lastReading only moves forward in time. The client's logId makes retries
+// from the offline outbox idempotent. Out-of-spec readings open a corrective
+// action; a re-check reading (recheckOf) is linked to the one it follows up.
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {getMembership, inBranch} = require("./orgs");
+const {openActionData} = require("./actions");
+
+const STATUSES = ["ok", "warning", "damaged"];
+const LOG_ID_RE = /^[A-Za-z0-9_-]{6,64}$/;
+
+// device clocks drift; queued (offline) readings can sync days later
+const MAX_FUTURE_MS = 5 * 60 * 1000;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * @param {*} v value
+ * @return {number|null} finite number or null
+ */
+function num(v) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * Server-side status: "damaged" is a physical observation and always wins;
+ * otherwise a reading outside the chiller's limits is at least a warning,
+ * whatever the client sent.
+ * @param {string} requested status picked on the device
+ * @param {number} tempC reading
+ * @param {Object} chiller chiller data (minTemp / maxTemp)
+ * @return {string} ok | warning | damaged
+ */
+function readingStatus(requested, tempC, chiller) {
+  if (requested === "damaged") return "damaged";
+
+  const min = num(chiller.minTemp);
+  const max = num(chiller.maxTemp);
+  const outside = (min !== null && tempC < min) ||
+    (max !== null && tempC > max);
+
+  return requested === "warning" || outside ? "warning" : "ok";
+}
+
+/**
+ * Validates the callable payload.
+ * @param {Object} data request.data
+ * @param {string} uid caller
+ * @param {number} now current time (ms)
+ * @return {Object} clean reading input
+ */
+function parseReading(data, uid, now) {
+  const bad = (msg) => new HttpsError("invalid-argument", msg);
+
+  const logId = String(data.logId || "");
+  if (!LOG_ID_RE.test(logId)) throw bad("logId is invalid");
+
+  const chillerId = String(data.chillerId || "");
+  if (!chillerId || chillerId.includes("/")) throw bad("chillerId is required");
+
+  const tempC = num(data.tempC);
+  if (tempC === null || tempC < -60 || tempC > 60) {
+    throw bad("tempC must be a number between -60 and 60");
+  }
+
+  const humidity = data.humidity == null ? null : num(data.humidity);
+  if (data.humidity != null && (humidity === null ||
+      humidity < 0 || humidity > 100)) {
+    throw bad("humidity must be between 0 and 100");
+  }
+
+  const status = String(data.status || "ok");
+  if (!STATUSES.includes(status)) throw bad("status is invalid");
+
+  const note = String(data.note || "").trim().slice(0, 1000);
+  if (status !== "ok" && !note) throw bad("A note is required");
+
+  const photoPath = data.photoPath ? String(data.photoPath) : null;
+  const photoUrl = data.photoUrl ? String(data.photoUrl) : null;
+  if (photoPath && !photoPath.startsWith(`tempLogs/${chillerId}/${uid}/`)) {
+    throw bad("photoPath is invalid");
+  }
+  if (status === "damaged" && !photoPath) {
+    throw bad("A photo is required when status is damaged");
+  }
+
+  // follow-up reading for a corrective action (its original log id)
+  const recheckOf = data.recheckOf ? String(data.recheckOf) : null;
+  if (recheckOf && !LOG_ID_RE.test(recheckOf)) {
+    throw bad("recheckOf is invalid");
+  }
+
+  const capturedAt = num(data.capturedAt);
+  if (capturedAt === null ||
+      capturedAt > now + MAX_FUTURE_MS ||
+      capturedAt < now - MAX_AGE_MS) {
+    throw bad("capturedAt is out of range");
+  }
+
+  return {
+    logId,
+    chillerId,
+    tempC,
+    humidity,
+    status,
+    note,
+    photoUrl,
+    photoPath,
+    capturedAt,
+    recheckOf,
+  };
+}
+
+/**
+ * Writes one parsed reading for `uid` (see the header for the rules).
+ * @param {string} uid caller
+ * @param {Object} input parseReading() result
+ * @return {Promise<Object>} {ok, logId, status, conflict, duplicate}
+ */
+async function saveReading(uid, input) {
+  const db = admin.firestore();
+  const chillerRef = db.doc(`chillers/${input.chillerId}`);
+  const logRef = db.doc(`tempLogs/${input.logId}`);
+  const actionRef = db.doc(`correctiveActions/${input.logId}`);
+  const recheckRef = input.recheckOf ?
+    db.doc(`correctiveActions/${input.recheckOf}`) :
+    null;
+
+  const first = await chillerRef.get();
+  if (!first.exists) {
+    throw new HttpsError("not-found", "Chiller not found");
+  }
+
+  const member = await getMembership(first.data().orgId, uid);
+  if (!member || !inBranch(member, first.data().branchId)) {
+    throw new HttpsError("permission-denied", "Not allowed for this chiller");
+  }
+
+  return db.runTransaction(async (tx) => {
+    const refs = [chillerRef, logRef];
+    if (recheckRef) refs.push(recheckRef);
+    const [chillerSnap, logSnap, recheckSnap] = await tx.getAll(...refs);
+    const chiller = chillerSnap.data();
+
+    let log;
+    let duplicate = false;
+
+    if (logSnap.exists) {
+      // a retry after a lost response: keep the stored log, just finish the job
+      log = logSnap.data();
+      duplicate = true;
+      if (log.createdBy !== uid || log.chillerId !== input.chillerId) {
+        throw new HttpsError("already-exists", "logId is already used");
+      }
+    } else {
+      if (chiller.isActive === false) {
+        throw new HttpsError("failed-precondition", "Chiller is inactive");
+      }
+
+      log = {
+        orgId: chiller.orgId,
+        chillerId: input.chillerId,
+        branchId: chiller.branchId,
+        tempC: input.tempC,
+        humidity: input.humidity,
+        status: readingStatus(input.status, input.tempC, chiller),
+        note: input.note,
+        photoUrl: input.photoUrl,
+        photoPath: input.photoPath,
+        createdBy: uid,
+        capturedAt: admin.firestore.Timestamp.fromMillis(input.capturedAt),
+        recheckOf: input.recheckOf,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      tx.create(logRef, log);
+
+      if (log.status !== "ok") {
+        tx.create(actionRef, openActionData(logRef.id, log, chiller));
+      }
+
+      const open = recheckSnap && recheckSnap.exists ?
+        recheckSnap.data() :
+        null;
+      if (open && open.status === "open" && open.chillerId === log.chillerId) {
+        tx.update(recheckRef, {
+          recheckLogId: logRef.id,
+          recheckTempC: log.tempC,
+          recheckStatus: log.status,
+          recheckAt: log.capturedAt,
+        });
+      }
+    }
+
+    const last = chiller.lastReading || null;
+    const lastAt = last ? (last.capturedAt || last.at) : null;
+    const conflict = !!lastAt && lastAt.toMillis() > log.capturedAt.toMillis();
+
+    if (!conflict && (!last || last.logId !== logRef.id)) {
+      tx.update(chillerRef, {
+        lastReading: {
+          tempC: log.tempC,
+          humidity: log.humidity,
+          status: log.status,
+          note: log.note,
+          at: admin.firestore.FieldValue.serverTimestamp(),
+          capturedAt: log.capturedAt,
+          by: uid,
+          photoUrl: log.photoUrl,
+          photoPath: log.photoPath,
+          logId: logRef.id,
+        },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    return {
+      ok: true,
+      logId: logRef.id,
+      status: log.status,
+      conflict,
+      duplicate,
+    };
+  });
+}
+
+exports.submitReading = onCall({region: "us-central1"}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+
+  const uid = request.auth.uid;
+  const input = parseReading(request.data || {}, uid, Date.now());
+  return saveReading(uid, input);
+});
+
+exports.readingStatus = readingStatus;
+exports.parseReading = parseReading;
+exports.saveReading = saveReading;
@@ -0,0 +1,206 @@
+// functions/src/reportExports.js
+// Tamper evidence for exported reports. Before the app renders a PDF it asks
+// for a signature: the server hashes the readings the export covers (with
+// corrections applied) and keeps reportExports/{code} with who / when / which
+// filters / how many rows / the hash. The code + hash are printed on the PDF;
+// verifyReportExport looks the code up and re-hashes today's data.
+const crypto = require("crypto");
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {getMembership, inBranch} = require("./orgs");
+const {parseReportQuery, requireReportAccess, scanRange} = require("./reports");
+const {takenAt} = require("./dailyStats");
+
+const STATUSES = ["ok", "warning", "damaged"];
+const FORMATS = ["pdf", "haccp"];
+// no 0/O, 1/I/L so codes can be typed from paper
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+// bumped if the row serialisation ever changes, so old records still verify
+// (1: rows picked and timed by createdAt; 2: by capturedAt, like the rollups)
+const HASH_VERSION = 2;
+
+/**
+ * @return {string} random export code (CODE_LENGTH chars)
+ */
+function newExportCode() {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  return [...bytes].map((b) => CODE_ALPHABET[b % CODE_ALPHABET.length])
+      .join("");
+}
+
+/**
+ * "abcd-efgh jkmn" -> "ABCDEFGHJKMN"
+ * @param {*} input typed or scanned code
+ * @return {string|null} code, or null when it can't be one
+ */
+function normalizeCode(input) {
+  const code = String(input || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (code.length !== CODE_LENGTH) return null;
+  return [...code].every((c) => CODE_ALPHABET.includes(c)) ? code : null;
+}
+
+/**
+ * @param {string} code normalized code
+ * @return {string} "ABCD-EFGH-JKMN"
+ */
+function formatCode(code) {
+  return code.match(/.{1,4}/g).join("-");
+}
+
+/**
+ * SHA-256 over the export's filters and rows, in scan order.
+ * @param {Object} scope {orgId, branchId, chillerId, status, from, to}
+ * @param {Array<Object>} rows {id, at, chillerId, tempC, humidity, status,
+ *   note}
+ * @return {string} hex digest
+ */
+function exportHash(scope, rows) {
+  const h = crypto.createHash("sha256");
+  h.update(JSON.stringify([
+    HASH_VERSION,
+    scope.orgId,
+    scope.branchId,
+    scope.chillerId || null,
+    scope.status || null,
+    scope.from,
+    scope.to,
+  ]));
+  rows.forEach((r) => {
+    h.update("\n");
+    h.update(JSON.stringify([
+      r.id,
+      r.at,
+      r.chillerId,
+      r.tempC,
+      r.humidity == null ? null : r.humidity,
+      r.status,
+      r.note || "",
+    ]));
+  });
+  return h.digest("hex");
+}
+
+/**
+ * Reads the rows an export covers and hashes them.
+ * @param {Object} scope {orgId, branchId, chillerId, status, from, to}
+ * @param {number} [version] HASH_VERSION the record was made with
+ * @return {Promise<{hash: string, rowCount: number}>}
+ */
+async function hashScope(scope, version = HASH_VERSION) {
+  const byCreated = version === 1;
+  const rows = [];
+  await scanRange(scope, null, (id, log, v) => {
+    if (scope.status && v.status !== scope.status) return;
+    rows.push({
+      id,
+      at: byCreated ? log.createdAt.toMillis() : takenAt(log),
+      chillerId: log.chillerId || "",
+      tempC: v.tempC,
+      humidity: v.humidity,
+      status: v.status,
+      note: v.note,
+    });
+  }, byCreated ? ["createdAt"] : undefined);
+  return {hash: exportHash(scope, rows), rowCount: rows.length};
+}
+
+exports.signReportExport = onCall({region: "us-central1"}, async (request) => {
+  const data = request.data || {};
+  const q = parseReportQuery(data);
+  await requireReportAccess(request, q);
+
+  const status = data.status ? String(data.status) : null;
+  if (status && !STATUSES.includes(status)) {
+    throw new HttpsError("invalid-argument", "status is invalid");
+  }
+  const format = String(data.format || "pdf");
+  if (!FORMATS.includes(format)) {
+    throw new HttpsError("invalid-argument", "format is invalid");
+  }
+
+  const scope = {
+    orgId: q.orgId,
+    branchId: q.branchId,
+    chillerId: q.chillerId,
+    status,
+    from: q.from,
+    to: q.to,
+  };
+  const {hash, rowCount} = await hashScope(scope);
+
+  const member = await getMembership(q.orgId, request.auth.uid);
+  const db = admin.firestore();
+
+  // a collision just means drawing another code
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const code = newExportCode();
+    try {
+      await db.doc(`reportExports/${code}`).create({
+        ...scope,
+        format,
+        hashVersion: HASH_VERSION,
+        hash,
+        rowCount,
+        createdBy: request.auth.uid,
+        createdByName: (member && member.name) || "",
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return {code: formatCode(code), hash, rowCount};
+    } catch (err) {
+      if (err.code !== 6) throw err; // 6 = ALREADY_EXISTS
+    }
+  }
+  throw new HttpsError("unavailable", "Could not allocate a code, try again");
+});
+
+exports.verifyReportExport = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Login required");
+      }
+      const code = normalizeCode((request.data || {}).code);
+      if (!code) {
+        throw new HttpsError("invalid-argument", "Not a verification code");
+      }
+
+      const snap = await admin.firestore().doc(`reportExports/${code}`).get();
+      const rec = snap.exists ? snap.data() : null;
+      const member = rec ?
+        await getMembership(rec.orgId, request.auth.uid) :
+        null;
+      // unknown and not-yours look the same, so codes can't be probed
+      if (!rec || !member || !inBranch(member, rec.branchId)) {
+        throw new HttpsError("not-found", "No export with this code");
+      }
+
+      const current = rec.hashVersion >= 1 && rec.hashVersion <= HASH_VERSION ?
+        await hashScope(rec, rec.hashVersion) :
+        null;
+
+      return {
+        code: formatCode(code),
+        orgId: rec.orgId,
+        branchId: rec.branchId,
+        chillerId: rec.chillerId || null,
+        status: rec.status || null,
+        from: rec.from,
+        to: rec.to,
+        format: rec.format,
+        hash: rec.hash,
+        rowCount: rec.rowCount,
+        createdBy: rec.createdBy,
+        createdByName: rec.createdByName || "",
+        createdAt: rec.createdAt ? rec.createdAt.toMillis() : null,
+        currentHash: current ? current.hash : null,
+        currentRowCount: current ? current.rowCount : null,
+        unchanged: !!current && current.hash === rec.hash,
+      };
+    },
+);
+
+exports.newExportCode = newExportCode;
+exports.normalizeCode = normalizeCode;
+exports.formatCode = formatCode;
+exports.exportHash = exportHash;
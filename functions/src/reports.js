@@ -0,0 +1,391 @@
+// functions/src/reports.js
+// Report data for any date range: raw tempLogs in pages (newest first, by
+// capture time) and a per-chiller, per-day aggregate, so exports are never
+// cut off by a list limit.
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {getMembership, inBranch} = require("./orgs");
+const {currentValues} = require("./amendments");
+const {takenAt} = require("./dailyStats");
+const {localDate, safeTimeZone} = require("./schedule");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 400;
+const DEFAULT_PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 500;
+// summary reads the range in chunks of this many docs
+const SCAN_CHUNK = 1000;
+// ranges longer than this are summarised from dailyStats rollups
+const ROLLUP_AFTER_DAYS = 3;
+// readings are placed by when they were taken, like the dailyStats rollups;
+// logs from before capturedAt existed only have createdAt and come last
+const RANGE_FIELDS = ["capturedAt", "createdAt"];
+
+/**
+ * @param {*} ts Firestore Timestamp or empty
+ * @return {number|null} millis
+ */
+function millisOf(ts) {
+  return ts && typeof ts.toMillis === "function" ? ts.toMillis() : null;
+}
+
+/**
+ * Validates the shared report request.
+ * @param {Object} data request.data
+ * @return {Object} {orgId, branchId, chillerId, from, to, pageSize, cursor}
+ */
+function parseReportQuery(data) {
+  const bad = (msg) => new HttpsError("invalid-argument", msg);
+
+  const orgId = String(data.orgId || "");
+  const branchId = String(data.branchId || "");
+  if (!orgId || !branchId) throw bad("orgId and branchId are required");
+
+  const chillerId = data.chillerId ? String(data.chillerId) : null;
+  if (chillerId && chillerId.includes("/")) throw bad("chillerId is invalid");
+
+  const from = Number(data.from);
+  const to = Number(data.to);
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from > to) {
+    throw bad("from/to must be a valid range");
+  }
+  if (to - from > MAX_RANGE_DAYS * DAY_MS) {
+    throw bad(`Range is limited to ${MAX_RANGE_DAYS} days`);
+  }
+
+  const size = Number(data.pageSize) || DEFAULT_PAGE_SIZE;
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(size)));
+
+  let cursor = null;
+  if (data.cursor) {
+    const at = Number(data.cursor.at);
+    const id = String(data.cursor.id || "");
+    const field = String(data.cursor.field || RANGE_FIELDS[0]);
+    if (!Number.isFinite(at) || !id || id.includes("/") ||
+      !RANGE_FIELDS.includes(field)) {
+      throw bad("cursor is invalid");
+    }
+    cursor = {at, id, field};
+  }
+
+  return {orgId, branchId, chillerId, from, to, pageSize, cursor};
+}
+
+/**
+ * Plain JSON row for the client (timestamps as millis).
+ * @param {string} id tempLog id
+ * @param {Object} log tempLog data
+ * @return {Object} row
+ */
+function logRow(id, log) {
+  return {
+    id,
+    chillerId: log.chillerId || "",
+    branchId: log.branchId || "",
+    tempC: log.tempC,
+    humidity: log.humidity == null ? null : log.humidity,
+    status: log.status || "ok",
+    note: log.note || "",
+    photoUrl: log.photoUrl || null,
+    photoPath: log.photoPath || null,
+    createdBy: log.createdBy || "",
+    createdAt: millisOf(log.createdAt),
+    capturedAt: millisOf(log.capturedAt),
+    recheckOf: log.recheckOf || null,
+  };
+}
+
+/**
+ * Count / min / max / avg per chiller per local day.
+ * @param {Array<Object>} rows {chillerId, at, tempC, status}
+ * @param {string} tz IANA zone the days are cut in
+ * @return {Array<Object>} {chillerId, date, count, ok, warning, damaged,
+ *   minC, maxC, avgC}, sorted by date then chiller
+ */
+function aggregateDaily(rows, tz) {
+  const zone = safeTimeZone(tz);
+  const groups = new Map();
+
+  rows.forEach((r) => {
+    if (typeof r.tempC !== "number" || !Number.isFinite(r.tempC)) return;
+    const date = localDate(r.at, zone);
+    const key = `${date}|${r.chillerId}`;
+    let g = groups.get(key);
+    if (!g) {
+      g = {
+        chillerId: r.chillerId,
+        date,
+        count: 0,
+        ok: 0,
+        warning: 0,
+        damaged: 0,
+        minC: r.tempC,
+        maxC: r.tempC,
+        sum: 0,
+      };
+      groups.set(key, g);
+    }
+    g.count++;
+    if (g[r.status] !== undefined) g[r.status]++;
+    g.minC = Math.min(g.minC, r.tempC);
+    g.maxC = Math.max(g.maxC, r.tempC);
+    g.sum += r.tempC;
+  });
+
+  return [...groups.values()]
+      .map(({sum, ...g}) => ({
+        ...g,
+        avgC: Math.round((sum / g.count) * 10) / 10,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date) ||
+        a.chillerId.localeCompare(b.chillerId));
+}
+
+/**
+ * tempLogs with `field` in the range, newest first (ties broken by doc id).
+ * @param {Object} q parsed query
+ * @param {string} field one of RANGE_FIELDS
+ * @return {FirebaseFirestore.Query} query
+ */
+function rangeQuery(q, field) {
+  const Timestamp = admin.firestore.Timestamp;
+  let ref = admin.firestore().collection("tempLogs")
+      .where("orgId", "==", q.orgId)
+      .where("branchId", "==", q.branchId);
+  if (q.chillerId) ref = ref.where("chillerId", "==", q.chillerId);
+  return ref
+      .where(field, ">=", Timestamp.fromMillis(q.from))
+      .where(field, "<=", Timestamp.fromMillis(q.to))
+      .orderBy(field, "desc")
+      .orderBy(admin.firestore.FieldPath.documentId(), "desc");
+}
+
+/**
+ * The createdAt pass only picks up legacy logs; the rest were placed by
+ * capturedAt already.
+ * @param {string} field range field of the pass
+ * @param {Array<string>} passes fields being read
+ * @param {Object} log tempLog data
+ * @return {boolean} the log belongs to this pass
+ */
+function inPass(field, passes, log) {
+  return field !== "createdAt" || !passes.includes("capturedAt") ||
+    !log.capturedAt;
+}
+
+/**
+ * Throws unless the caller may report on the branch.
+ * @param {Object} request callable request
+ * @param {Object} q parsed query
+ * @return {Promise<void>}
+ */
+async function requireReportAccess(request, q) {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+  const member = await getMembership(q.orgId, request.auth.uid);
+  if (!member || !inBranch(member, q.branchId)) {
+    throw new HttpsError("permission-denied", "Not allowed for this branch");
+  }
+}
+
+/**
+ * One page of raw readings: by capture time, then the legacy logs.
+ * @param {Object} q parsed query
+ * @return {Promise<Object>} {rows, nextCursor}
+ */
+async function readPage(q) {
+  const Timestamp = admin.firestore.Timestamp;
+  const rows = [];
+  const start = q.cursor ? RANGE_FIELDS.indexOf(q.cursor.field) : 0;
+
+  for (const field of RANGE_FIELDS.slice(start)) {
+    let after = q.cursor && q.cursor.field === field ?
+      [Timestamp.fromMillis(q.cursor.at), q.cursor.id] :
+      null;
+
+    for (;;) {
+      let ref = rangeQuery(q, field);
+      if (after) ref = ref.startAfter(...after);
+
+      // one extra doc tells us whether more exist
+      const want = q.pageSize - rows.length;
+      const snap = await ref.limit(want + 1).get();
+      const docs = snap.docs.slice(0, want);
+      docs.forEach((d) => {
+        if (inPass(field, RANGE_FIELDS, d.data())) {
+          rows.push(logRow(d.id, d.data()));
+        }
+      });
+      if (snap.size <= want) break;
+
+      const last = docs[docs.length - 1];
+      if (rows.length >= q.pageSize) {
+        return {
+          rows,
+          nextCursor: {at: millisOf(last.get(field)), id: last.id, field},
+        };
+      }
+      // some docs belonged to the other pass; keep filling the page
+      after = [last.get(field), last.id];
+    }
+
+    const next = RANGE_FIELDS[RANGE_FIELDS.indexOf(field) + 1];
+    if (rows.length >= q.pageSize && next) {
+      // the next pass starts from the top of the range: any id sorts after
+      // a time past `to`
+      return {rows, nextCursor: {at: q.to + 1, id: "-", field: next}};
+    }
+  }
+
+  return {rows, nextCursor: null};
+}
+
+/**
+ * One page of raw readings; pass `nextCursor` back to get the next one.
+ */
+exports.getReportPage = onCall({region: "us-central1"}, async (request) => {
+  const q = parseReportQuery(request.data || {});
+  await requireReportAccess(request, q);
+  return readPage(q);
+});
+
+/**
+ * Walks every reading of the range in chunks, newest first, with the
+ * corrections in force.
+ * @param {Object} q parsed query
+ * @param {Array<string>|null} fields tempLog fields to read (null = all)
+ * @param {Function} onLog (id, log, values) for each reading
+ * @param {Array<string>} [passes] range fields, in order (RANGE_FIELDS)
+ * @return {Promise<void>}
+ */
+async function scanRange(q, fields, onLog, passes = RANGE_FIELDS) {
+  const amendSnap = await admin.firestore().collection("logAmendments")
+      .where("orgId", "==", q.orgId)
+      .where("branchId", "==", q.branchId)
+      .get();
+
+  const history = new Map();
+  amendSnap.docs.forEach((d) => {
+    const a = d.data();
+    if (!history.has(a.logId)) history.set(a.logId, []);
+    history.get(a.logId).push(a);
+  });
+
+  for (const field of passes) {
+    let last = null;
+    for (;;) {
+      let ref = rangeQuery(q, field);
+      if (fields) ref = ref.select(...new Set([...fields, ...RANGE_FIELDS]));
+      ref = ref.limit(SCAN_CHUNK);
+      if (last) ref = ref.startAfter(last);
+
+      const snap = await ref.get();
+      snap.docs.forEach((d) => {
+        const log = d.data();
+        if (!inPass(field, passes, log)) return;
+        onLog(d.id, log, currentValues(log, history.get(d.id) || []));
+      });
+
+      if (snap.size < SCAN_CHUNK) break;
+      last = snap.docs[snap.docs.length - 1];
+    }
+  }
+}
+
+/**
+ * Scans the raw readings of the range (corrections applied).
+ * @param {Object} q parsed query
+ * @param {string} tz branch time zone
+ * @return {Promise<Array<Object>>} aggregateDaily rows
+ */
+async function scanDays(q, tz) {
+  const rows = [];
+  await scanRange(
+      q,
+      [
+        "chillerId", "createdAt", "capturedAt",
+        "tempC", "humidity", "status", "note",
+      ],
+      (id, log, v) => rows.push({
+        chillerId: log.chillerId || "",
+        // same day key as the dailyStats rollups
+        at: takenAt(log),
+        tempC: v.tempC,
+        status: v.status,
+      }),
+  );
+  return aggregateDaily(rows, tz);
+}
+
+/**
+ * Reads the dailyStats rollups covering the range (whole branch-local days).
+ * @param {Object} q parsed query
+ * @param {string} tz branch time zone
+ * @return {Promise<Array<Object>>} rows shaped like aggregateDaily's
+ */
+async function rollupDays(q, tz) {
+  let ref = admin.firestore().collection("dailyStats")
+      .where("orgId", "==", q.orgId)
+      .where("branchId", "==", q.branchId);
+  if (q.chillerId) ref = ref.where("chillerId", "==", q.chillerId);
+
+  const snap = await ref
+      .where("date", ">=", localDate(q.from, tz))
+      .where("date", "<=", localDate(q.to, tz))
+      .orderBy("date")
+      .get();
+
+  return snap.docs
+      .map((d) => d.data())
+      .filter((s) => s.count > 0)
+      .map((s) => ({
+        chillerId: s.chillerId,
+        date: s.date,
+        count: s.count,
+        ok: s.ok,
+        warning: s.warning,
+        damaged: s.damaged,
+        minC: s.minC,
+        maxC: s.maxC,
+        avgC: s.meanC,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date) ||
+        a.chillerId.localeCompare(b.chillerId));
+}
+
+/**
+ * Daily aggregate for the whole range, with corrections applied. Short ranges
+ * are scanned live; longer ones come from the dailyStats rollups.
+ */
+exports.getReportSummary = onCall({region: "us-central1"}, async (request) => {
+  const q = parseReportQuery(request.data || {});
+  await requireReportAccess(request, q);
+
+  const branchSnap =
+    await admin.firestore().doc(`branches/${q.branchId}`).get();
+  const tz = safeTimeZone(branchSnap.exists ? branchSnap.get("timezone") : "");
+
+  const source = q.to - q.from > ROLLUP_AFTER_DAYS * DAY_MS ? "rollup" : "scan";
+  const days = source === "rollup" ?
+    await rollupDays(q, tz) :
+    await scanDays(q, tz);
+
+  const totals = {count: 0, ok: 0, warning: 0, damaged: 0};
+  days.forEach((d) => {
+    totals.count += d.count;
+    totals.ok += d.ok;
+    totals.warning += d.warning;
+    totals.damaged += d.damaged;
+  });
+
+  return {timezone: tz, source, days, totals};
+});
+
+exports.parseReportQuery = parseReportQuery;
+exports.logRow = logRow;
+exports.aggregateDaily = aggregateDaily;
+exports.readPage = readPage;
+exports.scanRange = scanRange;
+exports.scanDays = scanDays;
+exports.requireReportAccess = requireReportAccess;
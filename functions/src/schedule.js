@@ -0,0 +1,162 @@
+// functions/src/schedule.js
+// Logging schedules ("08:00" local times + grace window) and the time zone
+// math to turn them into instants. Mirrors src/utils/schedule.ts in the app.
+
+const DEFAULT_GRACE_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_RE = /^([01]?\d|2[0-3])[:.]?([0-5]\d)$/;
+
+/**
+ * @param {string} raw "8:00", "0800", ...
+ * @return {string|null} "08:00" or null
+ */
+function parseSlotTime(raw) {
+  const m = String(raw == null ? "" : raw).trim().match(TIME_RE);
+  if (!m) return null;
+  return `${m[1].padStart(2, "0")}:${m[2]}`;
+}
+
+/**
+ * @param {*} v stored schedule
+ * @return {{times: string[], graceMinutes: number}|null} clean schedule
+ */
+function normalizeSchedule(v) {
+  if (!v || !Array.isArray(v.times)) return null;
+  const times = [...new Set(v.times.map(parseSlotTime).filter(Boolean))].sort();
+  if (times.length === 0) return null;
+
+  const grace = Number(v.graceMinutes);
+  return {
+    times,
+    graceMinutes: Number.isFinite(grace) && grace > 0 ?
+      Math.round(grace) :
+      DEFAULT_GRACE_MINUTES,
+  };
+}
+
+/**
+ * @param {number} ms instant
+ * @param {string} tz IANA zone
+ * @return {Object} wall-clock parts in that zone
+ */
+function zonedParts(ms, tz) {
+  const fmt = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const out = {};
+  fmt.formatToParts(new Date(ms)).forEach((p) => {
+    if (p.type !== "literal") out[p.type] = Number(p.value);
+  });
+  return out;
+}
+
+/**
+ * @param {number} ms instant
+ * @param {string} tz IANA zone
+ * @return {number} offset of the zone from UTC at that instant (ms)
+ */
+function tzOffsetMs(ms, tz) {
+  const p = zonedParts(ms, tz);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return asUtc - Math.floor(ms / 60000) * 60000;
+}
+
+/**
+ * @param {string} date "YYYY-MM-DD" (local to tz)
+ * @param {string} time "HH:MM" (local to tz)
+ * @param {string} tz IANA zone
+ * @return {number} the UTC instant of that wall-clock time
+ */
+function localToUtc(date, time, tz) {
+  const [y, mo, d] = date.split("-").map(Number);
+  const [h, mi] = time.split(":").map(Number);
+  const guess = Date.UTC(y, mo - 1, d, h, mi);
+
+  // second pass settles times next to a DST switch
+  const first = guess - tzOffsetMs(guess, tz);
+  const second = guess - tzOffsetMs(first, tz);
+  return second;
+}
+
+/**
+ * @param {number} ms instant
+ * @param {string} tz IANA zone
+ * @return {string} local calendar date "YYYY-MM-DD"
+ */
+function localDate(ms, tz) {
+  const p = zonedParts(ms, tz);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-` +
+    `${String(p.day).padStart(2, "0")}`;
+}
+
+/**
+ * @param {string} date "YYYY-MM-DD"
+ * @param {number} n days to add
+ * @return {string} shifted date
+ */
+function addDays(date, n) {
+  const [y, m, d] = date.split("-").map(Number);
+  const ms = Date.UTC(y, m - 1, d) + n * DAY_MS;
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * @param {string} tz candidate zone
+ * @return {string} tz when valid, else "UTC"
+ */
+function safeTimeZone(tz) {
+  try {
+    new Intl.DateTimeFormat("en-US", {timeZone: tz || "UTC"});
+    return tz || "UTC";
+  } catch (err) {
+    return "UTC";
+  }
+}
+
+/**
+ * Slots whose grace window closed in (fromMs, toMs].
+ * @param {{times: string[], graceMinutes: number}} schedule clean schedule
+ * @param {string} tz IANA zone of the branch
+ * @param {number} fromMs exclusive start
+ * @param {number} toMs inclusive end
+ * @return {Array<Object>} {date, time, slotAt, opensAt, deadline}
+ */
+function dueSlots(schedule, tz, fromMs, toMs) {
+  const graceMs = schedule.graceMinutes * 60000;
+  const zone = safeTimeZone(tz);
+  const out = [];
+
+  let date = localDate(fromMs - graceMs - DAY_MS, zone);
+  const last = localDate(toMs, zone);
+
+  while (date <= last) {
+    for (const time of schedule.times) {
+      const slotAt = localToUtc(date, time, zone);
+      const deadline = slotAt + graceMs;
+      if (deadline > fromMs && deadline <= toMs) {
+        out.push({date, time, slotAt, opensAt: slotAt - graceMs, deadline});
+      }
+    }
+    date = addDays(date, 1);
+  }
+
+  return out;
+}
+
+module.exports = {
+  DEFAULT_GRACE_MINUTES,
+  parseSlotTime,
+  normalizeSchedule,
+  zonedParts,
+  localToUtc,
+  localDate,
+  addDays,
+  safeTimeZone,
+  dueSlots,
+};
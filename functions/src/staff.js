@@ -0,0 +1,386 @@
+// functions/src/staff.js
+// Staff accounts managed by an org's admins: create, change role / branch,
+// deactivate, reset password and delete. Accounts an org created itself
+// (createStaff) are "managed" and may have their login changed; people added
+// with their own account (addOrgMember) can only be re-assigned or removed.
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const admin = require("firebase-admin");
+const {
+  memberBranchIds,
+  parseBranchIds,
+  requireOrgRole,
+} = require("./orgs");
+
+const STAFF_ROLES = ["manager", "staff"];
+const MIN_PASSWORD = 6;
+
+/**
+ * Validates who a new staff account is for.
+ * @param {Object} data request.data
+ * @return {Object} {orgId, email, name, role, branchIds}
+ */
+function parseStaffFields(data) {
+  const bad = (msg) => new HttpsError("invalid-argument", msg);
+
+  const orgId = String(data.orgId || "");
+  if (!orgId) throw bad("orgId is required");
+
+  const email = String(data.email || "").trim().toLowerCase();
+  const name = String(data.name || "").trim();
+  if (!email || !name) throw bad("email and name are required");
+
+  return {
+    orgId,
+    email,
+    name,
+    role: data.role === "manager" ? "manager" : "staff",
+    branchIds: parseBranchIds(data),
+  };
+}
+
+/**
+ * @param {*} input typed password
+ * @return {string} the password, trimmed
+ */
+function parsePassword(input) {
+  const password = String(input || "").trim();
+  if (password.length < MIN_PASSWORD) {
+    throw new HttpsError(
+        "invalid-argument",
+        `Password must be at least ${MIN_PASSWORD} characters`,
+    );
+  }
+  return password;
+}
+
+/**
+ * Validates a new staff account.
+ * @param {Object} data request.data
+ * @return {Object} {orgId, email, password, name, role, branchIds}
+ */
+function parseStaffInput(data) {
+  return {...parseStaffFields(data), password: parsePassword(data.password)};
+}
+
+/**
+ * @param {Object} profile users/{uid} data
+ * @param {string} orgId org
+ * @param {Object} org orgs/{orgId} data
+ * @return {boolean} whether the org created (and so controls) the account
+ */
+function isManagedBy(profile, orgId, org) {
+  if (!profile) return false;
+  if (profile.createdInOrg) return profile.createdInOrg === orgId;
+  // accounts from before createdInOrg: created by one of the org's admins
+  const creator = ((org && org.members) || {})[profile.createdBy];
+  return !!creator && creator.role === "admin";
+}
+
+/**
+ * Throws unless every branch belongs to the org.
+ * @param {string} orgId org
+ * @param {string[]} branchIds branches (may be empty)
+ * @return {Promise<void>}
+ */
+async function requireBranches(orgId, branchIds) {
+  if (branchIds.length === 0) return;
+  const db = admin.firestore();
+  const refs = branchIds.map((b) => db.doc(`branches/${b}`));
+  const snaps = await db.getAll(...refs);
+  if (snaps.some((snap) => !snap.exists || snap.get("orgId") !== orgId)) {
+    throw new HttpsError("not-found", "Branch not found");
+  }
+}
+
+/**
+ * Loads the staff member an admin is acting on.
+ * @param {Object} request callable request
+ * @return {Promise<Object>} {orgId, uid, org, member, profile, managed}
+ */
+async function loadTarget(request) {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+  const data = request.data || {};
+  const orgId = String(data.orgId || "");
+  const uid = String(data.uid || "");
+  if (!orgId || !uid || uid.includes("/")) {
+    throw new HttpsError("invalid-argument", "orgId and uid are required");
+  }
+
+  await requireOrgRole(orgId, request.auth.uid, ["admin"]);
+  if (uid === request.auth.uid) {
+    throw new HttpsError("failed-precondition", "You can't change yourself");
+  }
+
+  const db = admin.firestore();
+  const [orgSnap, userSnap] = await Promise.all([
+    db.doc(`orgs/${orgId}`).get(),
+    db.doc(`users/${uid}`).get(),
+  ]);
+  const org = orgSnap.data() || {};
+  const member = (org.members || {})[uid];
+  if (!member) {
+    throw new HttpsError("not-found", "Not a member of this organization");
+  }
+  if (member.role === "admin") {
+    throw new HttpsError("failed-precondition", "Admins can't be changed here");
+  }
+
+  const profile = userSnap.exists ? userSnap.data() : null;
+  return {
+    orgId,
+    uid,
+    org,
+    member,
+    profile,
+    managed: isManagedBy(profile, orgId, org),
+  };
+}
+
+/**
+ * @param {Object} target loadTarget() result
+ */
+function requireManaged(target) {
+  if (!target.managed) {
+    throw new HttpsError(
+        "failed-precondition",
+        "This person uses their own account; remove them instead",
+    );
+  }
+}
+
+/**
+ * Creates the Auth user for a staff account, with readable errors.
+ * @param {Object} s {email, password, name}
+ * @return {Promise<string>} new uid
+ */
+async function createLogin(s) {
+  try {
+    // ✅ Create Auth user
+    const userRecord = await admin.auth().createUser({
+      email: s.email,
+      password: s.password,
+      displayName: s.name,
+    });
+    return userRecord.uid;
+  } catch (err) {
+    // ✅ Better readable errors for the app
+    const code = (err && err.code) || "";
+    if (code === "auth/email-already-exists") {
+      throw new HttpsError(
+          "already-exists",
+          "This email is already registered",
+      );
+    }
+    if (code === "auth/invalid-password") {
+      throw new HttpsError("invalid-argument", "Password is invalid");
+    }
+    if (code === "auth/invalid-email") {
+      throw new HttpsError("invalid-argument", "Email is invalid");
+    }
+    throw new HttpsError("internal", err.message || "Failed to create staff");
+  }
+}
+
+/**
+ * Writes the profile and org membership of an account the org created.
+ * @param {string} uid new account
+ * @param {Object} s {orgId, email, name, role, branchIds}
+ * @param {string} addedBy admin who created or invited them
+ * @return {Promise<void>}
+ */
+async function addManagedMember(uid, s, addedBy) {
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  // ✅ Create Firestore profile
+  await db.doc(`users/${uid}`).set(
+      {
+        uid,
+        email: s.email,
+        name: s.name,
+        activeOrgId: s.orgId,
+        defaultBranchId: s.branchIds[0] || null,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: addedBy,
+        createdInOrg: s.orgId,
+      },
+      {merge: true},
+  );
+
+  // ✅ Role + branch assignment live on the org membership
+  await db.doc(`orgs/${s.orgId}`).set(
+      {
+        memberIds: admin.firestore.FieldValue.arrayUnion(uid),
+        members: {
+          [uid]: {
+            role: s.role,
+            branchIds: s.branchIds,
+            name: s.name,
+            email: s.email,
+            isActive: true,
+            // the org owns the login (see isManagedBy)
+            managed: true,
+            addedAt: now,
+            addedBy,
+          },
+        },
+        updatedAt: now,
+      },
+      {merge: true},
+  );
+}
+
+exports.createStaff = onCall({region: "us-central1"}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+  const s = parseStaffInput(request.data || {});
+  const callerUid = request.auth.uid;
+
+  // ✅ check caller role in that org
+  await requireOrgRole(s.orgId, callerUid, ["admin"]);
+  await requireBranches(s.orgId, s.branchIds);
+
+  const uid = await createLogin(s);
+  await addManagedMember(uid, s, callerUid);
+
+  return {ok: true, uid};
+});
+
+exports.updateStaff = onCall({region: "us-central1"}, async (request) => {
+  const t = await loadTarget(request);
+  const data = request.data || {};
+
+  const role = data.role === undefined ? t.member.role : String(data.role);
+  if (!STAFF_ROLES.includes(role)) {
+    throw new HttpsError("invalid-argument", "role must be manager or staff");
+  }
+  const unchanged = data.branchIds === undefined &&
+    data.branchId === undefined;
+  const branchIds = unchanged ?
+    memberBranchIds(t.member) :
+    parseBranchIds(data);
+  await requireBranches(t.orgId, branchIds);
+
+  const name = data.name === undefined ?
+    t.member.name || "" :
+    String(data.name).trim();
+  if (!name) throw new HttpsError("invalid-argument", "name is required");
+
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await db.doc(`orgs/${t.orgId}`).update({
+    [`members.${t.uid}.role`]: role,
+    [`members.${t.uid}.branchIds`]: branchIds,
+    // single-branch field of older memberships
+    [`members.${t.uid}.branchId`]: admin.firestore.FieldValue.delete(),
+    [`members.${t.uid}.name`]: name,
+    updatedAt: now,
+  });
+
+  if (t.managed) {
+    // the UI default stays put while it's still one of their branches
+    const current = t.profile && t.profile.defaultBranchId;
+    const defaultBranchId = branchIds.includes(current) ?
+      current :
+      branchIds[0] || null;
+    await db.doc(`users/${t.uid}`).set(
+        {name, defaultBranchId, updatedAt: now},
+        {merge: true},
+    );
+    if (name !== (t.profile.name || "")) {
+      await admin.auth().updateUser(t.uid, {displayName: name});
+    }
+  }
+
+  return {ok: true};
+});
+
+exports.setStaffActive = onCall({region: "us-central1"}, async (request) => {
+  const t = await loadTarget(request);
+  requireManaged(t);
+  const active = (request.data || {}).active !== false;
+
+  await admin.auth().updateUser(t.uid, {disabled: !active});
+  // signs them out everywhere once their current token expires
+  if (!active) await admin.auth().revokeRefreshTokens(t.uid);
+
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  await Promise.all([
+    db.doc(`users/${t.uid}`).set({isActive: active, updatedAt: now},
+        {merge: true}),
+    db.doc(`orgs/${t.orgId}`).update({
+      [`members.${t.uid}.isActive`]: active,
+      updatedAt: now,
+    }),
+  ]);
+
+  return {ok: true, active};
+});
+
+exports.resetStaffPassword = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      const t = await loadTarget(request);
+      requireManaged(t);
+
+      const password = parsePassword((request.data || {}).password);
+
+      try {
+        await admin.auth().updateUser(t.uid, {password});
+      } catch (err) {
+        if (err && err.code === "auth/invalid-password") {
+          throw new HttpsError("invalid-argument", "Password is invalid");
+        }
+        throw err;
+      }
+      await admin.auth().revokeRefreshTokens(t.uid);
+
+      return {ok: true};
+    },
+);
+
+exports.deleteStaff = onCall({region: "us-central1"}, async (request) => {
+  const t = await loadTarget(request);
+  const db = admin.firestore();
+
+  await db.doc(`orgs/${t.orgId}`).update({
+    memberIds: admin.firestore.FieldValue.arrayRemove(t.uid),
+    [`members.${t.uid}`]: admin.firestore.FieldValue.delete(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // the login itself only goes when this org made it and nobody else uses it
+  const others = await db.collection("orgs")
+      .where("memberIds", "array-contains", t.uid)
+      .get();
+  if (t.managed && others.empty) {
+    await admin.auth().deleteUser(t.uid).catch((err) => {
+      if (err.code !== "auth/user-not-found") throw err;
+    });
+    await db.doc(`users/${t.uid}`).delete();
+    return {ok: true, accountDeleted: true};
+  }
+
+  if (t.profile && t.profile.activeOrgId === t.orgId) {
+    await db.doc(`users/${t.uid}`).set(
+        {activeOrgId: others.empty ? null : others.docs[0].id},
+        {merge: true},
+    );
+  }
+  return {ok: true, accountDeleted: false};
+});
+
+exports.parseStaffFields = parseStaffFields;
+exports.parsePassword = parsePassword;
+exports.parseStaffInput = parseStaffInput;
+exports.isManagedBy = isManagedBy;
+exports.requireBranches = requireBranches;
+exports.createLogin = createLogin;
+exports.addManagedMember = addManagedMember;
@@ -0,0 +1,638 @@
+// functions/src/subscriptions.js
+// Scheduled report delivery: reportSubscriptions/{id} say which branch, which
+// period (daily / weekly / monthly), CSV or PDF and who gets it. An hourly job
+// renders each period once it has closed and mails it; every send is kept in
+// reportDeliveries/{subscriptionId}_{period} for the history screen.
+const {onCall, HttpsError} = require("firebase-functions/v2/https");
+const {onSchedule} = require("firebase-functions/v2/scheduler");
+const logger = require("firebase-functions/logger");
+const admin = require("firebase-admin");
+const {inBranch, requireOrgRole} = require("./orgs");
+const {scanRange} = require("./reports");
+const {takenAt} = require("./dailyStats");
+const {sendEmail, escapeHtml} = require("./notify");
+const {tableLines, renderTextPdf} = require("./pdf");
+const {
+  zonedParts,
+  localToUtc,
+  localDate,
+  addDays,
+  safeTimeZone,
+} = require("./schedule");
+
+const PRESETS = ["daily", "weekly", "monthly"];
+const FORMATS = ["csv", "pdf"];
+const MAX_RECIPIENTS = 10;
+// reports go out at this branch-local time on the first day after the period
+const SEND_TIME = "06:00";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validates a subscription from the app.
+ * @param {Object} data request.data
+ * @return {Object} {id, orgId, branchId, name, preset, format, recipients,
+ *   active}
+ */
+function parseSubscription(data) {
+  const bad = (msg) => new HttpsError("invalid-argument", msg);
+
+  const id = data.id ? String(data.id) : null;
+  if (id && id.includes("/")) throw bad("id is invalid");
+
+  const orgId = String(data.orgId || "");
+  const branchId = String(data.branchId || "");
+  if (!orgId || !branchId || branchId.includes("/")) {
+    throw bad("orgId and branchId are required");
+  }
+
+  const preset = String(data.preset || "");
+  if (!PRESETS.includes(preset)) throw bad("Pick daily, weekly or monthly");
+
+  const format = String(data.format || "");
+  if (!FORMATS.includes(format)) throw bad("Pick CSV or PDF");
+
+  const recipients = [...new Set((Array.isArray(data.recipients) ?
+    data.recipients : [])
+      .map((e) => String(e).trim().toLowerCase())
+      .filter(Boolean))];
+  if (recipients.length === 0) throw bad("Add at least one recipient");
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw bad(`At most ${MAX_RECIPIENTS} recipients`);
+  }
+  const invalid = recipients.find((e) => !EMAIL_RE.test(e));
+  if (invalid) throw bad(`Not an email address: ${invalid}`);
+
+  const name = String(data.name || "").trim().slice(0, 80) ||
+    `${preset[0].toUpperCase()}${preset.slice(1)} report`;
+
+  return {
+    id,
+    orgId,
+    branchId,
+    name,
+    preset,
+    format,
+    recipients,
+    active: data.active !== false,
+  };
+}
+
+/**
+ * @param {string} date "YYYY-MM-DD"
+ * @return {number} 0 = Sunday .. 6 = Saturday
+ */
+function weekday(date) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * @param {string} date "YYYY-MM-DD"
+ * @return {string} first day of the previous month
+ */
+function previousMonthStart(date) {
+  return `${addDays(`${date.slice(0, 8)}01`, -1).slice(0, 8)}01`;
+}
+
+/**
+ * The latest period whose report is due by `nowMs` (branch-local days).
+ * @param {string} preset daily | weekly | monthly
+ * @param {number} nowMs current time
+ * @param {string} tz branch time zone
+ * @return {Object} {key, from, to, fromMs, toMs}; from/to inclusive dates
+ */
+function periodFor(preset, nowMs, tz) {
+  const zone = safeTimeZone(tz);
+  const today = localDate(nowMs, zone);
+  const due = (date) => localToUtc(date, SEND_TIME, zone) <= nowMs;
+
+  let from;
+  let to;
+  if (preset === "monthly") {
+    let first = `${today.slice(0, 8)}01`;
+    if (!due(first)) first = previousMonthStart(first);
+    from = previousMonthStart(first);
+    to = addDays(first, -1);
+  } else if (preset === "weekly") {
+    let monday = addDays(today, -((weekday(today) + 6) % 7));
+    if (!due(monday)) monday = addDays(monday, -7);
+    from = addDays(monday, -7);
+    to = addDays(monday, -1);
+  } else {
+    const sendDay = due(today) ? today : addDays(today, -1);
+    from = addDays(sendDay, -1);
+    to = from;
+  }
+
+  return {
+    key: `${preset}:${preset === "monthly" ? from.slice(0, 7) : from}`,
+    from,
+    to,
+    fromMs: localToUtc(from, "00:00", zone),
+    toMs: localToUtc(addDays(to, 1), "00:00", zone) - 1,
+  };
+}
+
+/**
+ * @param {number} ms instant
+ * @param {string} tz zone
+ * @return {string} "YYYY-MM-DD HH:MM" local to tz
+ */
+function localStamp(ms, tz) {
+  const p = zonedParts(ms, tz);
+  const two = (n) => String(n).padStart(2, "0");
+  return `${localDate(ms, tz)} ${two(p.hour % 24)}:${two(p.minute)}`;
+}
+
+/**
+ * Per-chiller totals for the period.
+ * @param {Array<Object>} rows {chillerId, tempC, status}
+ * @param {Array<Object>} missed {chillerId}
+ * @return {Array<Object>} {chillerId, count, ok, excursions, missed, minC,
+ *   maxC, avgC, compliance} (compliance 0..1 or null)
+ */
+function chillerSummary(rows, missed) {
+  const byChiller = new Map();
+  const get = (id) => {
+    if (!byChiller.has(id)) {
+      byChiller.set(id, {
+        chillerId: id,
+        count: 0,
+        ok: 0,
+        excursions: 0,
+        missed: 0,
+        minC: null,
+        maxC: null,
+        sum: 0,
+      });
+    }
+    return byChiller.get(id);
+  };
+
+  rows.forEach((r) => {
+    const c = get(r.chillerId);
+    c.count++;
+    if (r.status === "ok") c.ok++;
+    else c.excursions++;
+    if (typeof r.tempC === "number" && Number.isFinite(r.tempC)) {
+      c.minC = c.minC === null ? r.tempC : Math.min(c.minC, r.tempC);
+      c.maxC = c.maxC === null ? r.tempC : Math.max(c.maxC, r.tempC);
+      c.sum += r.tempC;
+    }
+  });
+  missed.forEach((m) => get(m.chillerId).missed++);
+
+  return [...byChiller.values()].map(({sum, ...c}) => ({
+    ...c,
+    avgC: c.count > 0 ? Math.round((sum / c.count) * 10) / 10 : null,
+    // share of checks (readings + missed) that were taken and in range
+    compliance: c.count + c.missed > 0 ? c.ok / (c.count + c.missed) : null,
+  }));
+}
+
+/**
+ * @param {*} v cell value
+ * @return {string} CSV-safe cell
+ */
+function csvCell(v) {
+  const s = v == null ? "" : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, "\"\"")}"` : s;
+}
+
+/**
+ * The period's readings and missed checks, oldest first.
+ * @param {Object} report {rows, missed, tz, chillerName}
+ * @return {string} CSV text
+ */
+function reportCsv({rows, missed, tz, chillerName}) {
+  const lines = [
+    ["DateTime", "Chiller", "TempC", "Humidity", "Status", "Note", "Amended"],
+  ];
+  const all = [
+    ...rows.map((r) => ({at: r.at, cells: [
+      chillerName(r.chillerId), r.tempC, r.humidity == null ? "" : r.humidity,
+      r.status, r.note || "", r.amended ? "yes" : "",
+    ]})),
+    ...missed.map((m) => ({at: m.at, cells: [
+      chillerName(m.chillerId), "", "", "missed",
+      `No reading for the ${m.time} check`, "",
+    ]})),
+  ].sort((a, b) => a.at - b.at);
+
+  all.forEach((r) => lines.push([localStamp(r.at, tz), ...r.cells]));
+  return lines.map((l) => l.map(csvCell).join(",")).join("\n");
+}
+
+/**
+ * @param {number|null} v 0..1
+ * @return {string} "97.5%" or "-"
+ */
+function pct(v) {
+  return v == null ? "-" : `${Math.round(v * 1000) / 10}%`;
+}
+
+/**
+ * Summary per chiller followed by every reading / missed check.
+ * @param {Object} report {title, meta, rows, missed, tz, chillerName}
+ * @return {Buffer} PDF file
+ */
+function reportPdf({title, meta, rows, missed, tz, chillerName}) {
+  const summary = chillerSummary(rows, missed)
+      .sort((a, b) => chillerName(a.chillerId)
+          .localeCompare(chillerName(b.chillerId)));
+
+  const events = [
+    ...rows.map((r) => ({at: r.at, cells: [
+      chillerName(r.chillerId), r.tempC, r.humidity == null ? "" : r.humidity,
+      `${r.status.toUpperCase()}${r.amended ? " *" : ""}`, r.note || "",
+    ]})),
+    ...missed.map((m) => ({at: m.at, cells: [
+      chillerName(m.chillerId), "", "", "MISSED", `${m.time} check`,
+    ]})),
+  ].sort((a, b) => a.at - b.at);
+
+  return renderTextPdf({
+    title,
+    lines: [
+      ...meta,
+      "",
+      {text: "Summary", bold: true},
+      ...tableLines([
+        {header: "Chiller", width: 24},
+        {header: "Readings", width: 8, right: true},
+        {header: "Excursions", width: 10, right: true},
+        {header: "Missed", width: 6, right: true},
+        {header: "Min C", width: 6, right: true},
+        {header: "Max C", width: 6, right: true},
+        {header: "Avg C", width: 6, right: true},
+        {header: "Compliance", width: 10, right: true},
+      ], summary.map((c) => [
+        chillerName(c.chillerId), c.count, c.excursions, c.missed,
+        c.minC == null ? "-" : c.minC, c.maxC == null ? "-" : c.maxC,
+        c.avgC == null ? "-" : c.avgC, pct(c.compliance),
+      ])),
+      "",
+      {text: "Readings", bold: true},
+      ...tableLines([
+        {header: "Date/Time", width: 16},
+        {header: "Chiller", width: 22},
+        {header: "Temp C", width: 7, right: true},
+        {header: "Hum %", width: 6, right: true},
+        {header: "Status", width: 10},
+        {header: "Note", width: 38},
+      ], events.map((e) => [localStamp(e.at, tz), ...e.cells])),
+      "",
+      "* corrected after entry; the corrected value is shown.",
+      "Compliance = checks taken and in range / (readings + missed checks).",
+    ],
+  });
+}
+
+/**
+ * Renders and mails one period of a subscription, then records it.
+ * @param {string} subId subscription id
+ * @param {Object} sub subscription data
+ * @param {Object} period periodFor() result
+ * @param {Object} branch branch data
+ * @return {Promise<Object>} the reportDeliveries doc written
+ */
+async function deliver(subId, sub, period, branch) {
+  const db = admin.firestore();
+  const Timestamp = admin.firestore.Timestamp;
+  const tz = safeTimeZone(branch.timezone);
+  const q = {
+    orgId: sub.orgId,
+    branchId: sub.branchId,
+    chillerId: null,
+    from: period.fromMs,
+    to: period.toMs,
+  };
+
+  const rows = [];
+  await scanRange(q, null, (id, log, v) => rows.push({
+    chillerId: log.chillerId || "",
+    at: takenAt(log),
+    tempC: v.tempC,
+    humidity: v.humidity,
+    status: v.status,
+    note: v.note,
+    amended: v.tempC !== log.tempC || v.status !== log.status ||
+      v.note !== (log.note || "") ||
+      v.humidity !== (log.humidity == null ? null : log.humidity),
+  }));
+
+  const [missedSnap, chillerSnap] = await Promise.all([
+    db.collection("missedChecks")
+        .where("orgId", "==", sub.orgId)
+        .where("branchId", "==", sub.branchId)
+        .where("slotAt", ">=", Timestamp.fromMillis(period.fromMs))
+        .where("slotAt", "<=", Timestamp.fromMillis(period.toMs))
+        .get(),
+    db.collection("chillers")
+        .where("orgId", "==", sub.orgId)
+        .where("branchId", "==", sub.branchId)
+        .get(),
+  ]);
+
+  const names = new Map(chillerSnap.docs.map((d) => [d.id, d.get("name")]));
+  const chillerName = (id) => names.get(id) || id || "Chiller";
+  const missed = missedSnap.docs
+      .map((d) => d.data())
+      .filter((m) => m.status === "missed")
+      .map((m) => ({
+        chillerId: m.chillerId || "",
+        at: m.slotAt.toMillis(),
+        time: m.time || "",
+      }));
+
+  const branchName = branch.name || "Branch";
+  const range = period.from === period.to ?
+    period.from :
+    `${period.from} to ${period.to}`;
+  const title = `Temperature Report - ${branchName}`;
+  const fileBase = `TempReport_${branchName.replace(/[^\w-]+/g, "_")}_` +
+    `${period.from}`;
+
+  const attachment = sub.format === "pdf" ?
+    {
+      filename: `${fileBase}.pdf`,
+      contentType: "application/pdf",
+      content: reportPdf({
+        title,
+        meta: [
+          `Period: ${range} (${tz})`,
+          `Subscription: ${sub.name}`,
+          `Readings: ${rows.length}   Missed checks: ${missed.length}`,
+        ],
+        rows,
+        missed,
+        tz,
+        chillerName,
+      }).toString("base64"),
+    } :
+    {
+      filename: `${fileBase}.csv`,
+      contentType: "text/csv",
+      content: Buffer.from(reportCsv({rows, missed, tz, chillerName}))
+          .toString("base64"),
+    };
+
+  const excursions = rows.filter((r) => r.status !== "ok").length;
+  const text = `${sub.name}: ${branchName}, ${range}.\n` +
+    `${rows.length} readings, ${excursions} excursions, ` +
+    `${missed.length} missed checks. The report is attached.`;
+
+  const result = await sendEmail(sub.recipients, {
+    subject: `${title} (${range})`,
+    text,
+    html: `<p>${escapeHtml(text).replace(/\n/g, "<br/>")}</p>`,
+    attachments: [attachment],
+  });
+
+  // nobody got it (mail transport down): the caller releases the period
+  if (result.sent === 0 && result.failed > 0) {
+    throw new Error(`mail could not be sent to any of ${result.failed} ` +
+      "recipients");
+  }
+  const status = result.failed === 0 ? "sent" : "partial";
+
+  const delivery = {
+    orgId: sub.orgId,
+    branchId: sub.branchId,
+    subscriptionId: subId,
+    name: sub.name,
+    preset: sub.preset,
+    format: sub.format,
+    period: period.key,
+    from: period.from,
+    to: period.to,
+    recipients: sub.recipients,
+    filename: attachment.filename,
+    readings: rows.length,
+    excursions,
+    missed: missed.length,
+    sent: result.sent,
+    failed: result.failed,
+    status,
+    sentAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  await db.doc(`reportDeliveries/${subId}_${period.key.replace(":", "_")}`)
+      .set(delivery);
+  await db.doc(`reportSubscriptions/${subId}`).update({
+    lastSentAt: admin.firestore.FieldValue.serverTimestamp(),
+    lastStatus: status,
+  });
+
+  return delivery;
+}
+
+/**
+ * Leaves a "failed" delivery in the history and releases the period so the
+ * next run tries again.
+ * @param {string} subId subscription id
+ * @param {Object} sub subscription data
+ * @param {Object} period from periodFor
+ * @param {string|null} previous lastPeriodKey before the claim
+ * @param {Error} err what went wrong
+ * @return {Promise<void>}
+ */
+async function recordFailure(subId, sub, period, previous, err) {
+  const db = admin.firestore();
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  await db.doc(`reportDeliveries/${subId}_${period.key.replace(":", "_")}`)
+      .set({
+        orgId: sub.orgId,
+        branchId: sub.branchId,
+        subscriptionId: subId,
+        name: sub.name,
+        preset: sub.preset,
+        format: sub.format,
+        period: period.key,
+        from: period.from,
+        to: period.to,
+        recipients: sub.recipients,
+        filename: null,
+        readings: 0,
+        excursions: 0,
+        missed: 0,
+        sent: 0,
+        failed: (sub.recipients || []).length,
+        status: "failed",
+        error: String(err && err.message || err),
+        sentAt: now,
+      });
+  await db.doc(`reportSubscriptions/${subId}`).update({
+    lastPeriodKey: previous,
+    lastStatus: "failed",
+  });
+}
+
+/**
+ * Sends every subscription whose current period hasn't gone out yet.
+ * @param {number} now current time (ms)
+ * @return {Promise<number>} reports delivered
+ */
+async function runSubscriptions(now) {
+  const db = admin.firestore();
+  const subs = await db.collection("reportSubscriptions")
+      .where("active", "==", true)
+      .get();
+
+  const branches = new Map();
+  let delivered = 0;
+
+  for (const doc of subs.docs) {
+    const sub = doc.data();
+    if (!branches.has(sub.branchId)) {
+      const b = await db.doc(`branches/${sub.branchId}`).get();
+      branches.set(sub.branchId, b.exists ? b.data() : null);
+    }
+    const branch = branches.get(sub.branchId);
+    if (!branch || branch.isActive === false) continue;
+
+    const period = periodFor(sub.preset, now, branch.timezone);
+    if (sub.lastPeriodKey === period.key) continue;
+
+    // claim the period first so an overlapping run can't mail it twice;
+    // resolves to the key it replaced (undefined = someone else has it)
+    const previous = await db.runTransaction(async (tx) => {
+      const fresh = await tx.get(doc.ref);
+      if (!fresh.exists || fresh.get("lastPeriodKey") === period.key) {
+        return undefined;
+      }
+      tx.update(doc.ref, {lastPeriodKey: period.key});
+      return fresh.get("lastPeriodKey") || null;
+    });
+    if (previous === undefined) continue;
+
+    try {
+      await deliver(doc.id, sub, period, branch);
+      delivered++;
+    } catch (err) {
+      logger.error("report delivery failed", {
+        subscriptionId: doc.id,
+        period: period.key,
+        error: err.message,
+      });
+      await recordFailure(doc.id, sub, period, previous, err)
+          .catch((e) => logger.error("recording the failure failed", {
+            subscriptionId: doc.id,
+            error: e.message,
+          }));
+    }
+  }
+
+  return delivered;
+}
+
+exports.sendScheduledReports = onSchedule(
+    {schedule: "every 60 minutes", region: "us-central1"},
+    async () => {
+      const delivered = await runSubscriptions(Date.now());
+      if (delivered > 0) logger.info("scheduled reports sent", {delivered});
+    },
+);
+
+/**
+ * Managers and admins of the branch may manage its subscriptions.
+ * @param {Object} request callable request
+ * @param {string} orgId org
+ * @param {string} branchId branch
+ * @return {Promise<Object>} membership
+ */
+async function requireScheduler(request, orgId, branchId) {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Login required");
+  }
+  const member =
+    await requireOrgRole(orgId, request.auth.uid, ["admin", "manager"]);
+  if (!inBranch(member, branchId)) {
+    throw new HttpsError("permission-denied", "Not allowed for this branch");
+  }
+  return member;
+}
+
+exports.saveReportSubscription = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      const s = parseSubscription(request.data || {});
+      await requireScheduler(request, s.orgId, s.branchId);
+
+      const db = admin.firestore();
+      const branchSnap = await db.doc(`branches/${s.branchId}`).get();
+      if (!branchSnap.exists || branchSnap.get("orgId") !== s.orgId) {
+        throw new HttpsError("not-found", "Branch not found");
+      }
+
+      const ref = s.id ?
+        db.doc(`reportSubscriptions/${s.id}`) :
+        db.collection("reportSubscriptions").doc();
+      const existing = s.id ? await ref.get() : null;
+      if (existing && (!existing.exists || existing.get("orgId") !== s.orgId)) {
+        throw new HttpsError("not-found", "Subscription not found");
+      }
+      // moving a subscription needs rights on the branch it came from too
+      if (existing) {
+        await requireScheduler(request, s.orgId, existing.get("branchId"));
+      }
+
+      const data = {
+        orgId: s.orgId,
+        branchId: s.branchId,
+        name: s.name,
+        preset: s.preset,
+        format: s.format,
+        recipients: s.recipients,
+        active: s.active,
+        updatedBy: request.auth.uid,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+
+      // new (or re-timed) subscriptions start with the next period, not one
+      // that closed before they existed
+      const samePeriods = existing &&
+        existing.get("preset") === s.preset &&
+        existing.get("branchId") === s.branchId;
+      if (!samePeriods) {
+        data.lastPeriodKey =
+          periodFor(s.preset, Date.now(), branchSnap.get("timezone")).key;
+      }
+      if (!existing) {
+        data.createdBy = request.auth.uid;
+        data.createdAt = admin.firestore.FieldValue.serverTimestamp();
+      }
+
+      await ref.set(data, {merge: true});
+      return {ok: true, id: ref.id};
+    },
+);
+
+exports.deleteReportSubscription = onCall(
+    {region: "us-central1"},
+    async (request) => {
+      const orgId = String((request.data || {}).orgId || "");
+      const id = String((request.data || {}).id || "");
+      if (!orgId || !id || id.includes("/")) {
+        throw new HttpsError("invalid-argument", "orgId and id are required");
+      }
+
+      const ref = admin.firestore().doc(`reportSubscriptions/${id}`);
+      const snap = await ref.get();
+      if (!snap.exists || snap.get("orgId") !== orgId) {
+        throw new HttpsError("not-found", "Subscription not found");
+      }
+      await requireScheduler(request, orgId, snap.get("branchId"));
+
+      await ref.delete();
+      return {ok: true};
+    },
+);
+
+exports.parseSubscription = parseSubscription;
+exports.periodFor = periodFor;
+exports.chillerSummary = chillerSummary;
+exports.reportCsv = reportCsv;
+exports.reportPdf = reportPdf;
+exports.runSubscriptions = runSubscriptions;
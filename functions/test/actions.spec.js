@@ -0,0 +1,52 @@
+// functions/test/actions.spec.js
+const assert = require("assert");
+const {openActionData, parseClose} = require("../src/actions");
+
+describe("corrective actions", () => {
+  describe("openActionData", () => {
+    it("opens an action carrying the reading it follows up", () => {
+      const a = openActionData("l1", {
+        orgId: "org1",
+        branchId: "b1",
+        chillerId: "c1",
+        status: "warning",
+        tempC: 9,
+        note: "door left open",
+        createdBy: "u1",
+      }, {name: "Walk-in"});
+
+      assert.strictEqual(a.status, "open");
+      assert.strictEqual(a.logId, "l1");
+      assert.strictEqual(a.chillerName, "Walk-in");
+      assert.strictEqual(a.logTempC, 9);
+      assert.strictEqual(a.recheckLogId, null);
+    });
+  });
+
+  describe("parseClose", () => {
+    const base = {logId: "l1", action: "Moved stock", productDiscarded: false};
+
+    it("accepts a close without discarded stock", () => {
+      assert.deepStrictEqual(parseClose({...base, quantity: "ignored"}), {
+        logId: "l1",
+        action: "Moved stock",
+        productDiscarded: false,
+        quantity: "",
+      });
+    });
+
+    it("needs a quantity when stock was discarded", () => {
+      assert.throws(() => parseClose({...base, productDiscarded: true}));
+      assert.strictEqual(
+          parseClose({...base, productDiscarded: true, quantity: "4 kg"})
+              .quantity,
+          "4 kg",
+      );
+    });
+
+    it("requires the action and an explicit yes/no", () => {
+      assert.throws(() => parseClose({...base, action: ""}));
+      assert.throws(() => parseClose({logId: "l1", action: "Moved stock"}));
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// functions/test/alerts.spec.js
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {evaluateReading, applyReading} = require("../src/alerts");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+
+const at = (iso) => admin.firestore.Timestamp.fromMillis(Date.parse(iso));
+
+describe("evaluateReading", () => {
+  const chiller = {minTemp: 0, maxTemp: 5};
+
+  it("ignores compliant readings", () => {
+    const ok = (tempC) => evaluateReading({tempC, status: "ok"}, chiller);
+    assert.strictEqual(ok(3), null);
+    assert.strictEqual(ok(5), null);
+  });
+
+  it("grades excursions by distance from the limit", () => {
+    assert.strictEqual(
+        evaluateReading({tempC: 6, status: "warning"}, chiller).severity,
+        "warning",
+    );
+    assert.strictEqual(
+        evaluateReading({tempC: 8, status: "warning"}, chiller).severity,
+        "critical",
+    );
+    assert.strictEqual(
+        evaluateReading({tempC: -4, status: "warning"}, chiller).severity,
+        "critical",
+    );
+  });
+
+  it("treats damaged as critical and manual warnings as warnings", () => {
+    assert.strictEqual(
+        evaluateReading({tempC: 3, status: "damaged"}, chiller).severity,
+        "critical",
+    );
+    assert.strictEqual(
+        evaluateReading({tempC: 3, status: "warning"}, chiller).severity,
+        "warning",
+    );
+  });
+
+  it("skips limits that aren't set", () => {
+    assert.strictEqual(evaluateReading({tempC: 40, status: "ok"}, {}), null);
+  });
+});
+
+describe("applyReading", () => {
+  const chiller = {name: "Walk-in", branchId: "b1", minTemp: 0, maxTemp: 5};
+  const log = (tempC, captured) => ({
+    orgId: "org1", branchId: "b1", chillerId: "c1", tempC, status: "ok",
+    capturedAt: at(captured), createdAt: at("2026-01-15T12:00:00Z"),
+  });
+  let db;
+  let restore;
+
+  beforeEach(() => {
+    db = new FakeFirestore();
+    restore = useFakeFirestore(db);
+  });
+
+  afterEach(() => restore());
+
+  const openAlerts = () => [...db.docs.entries()]
+      .filter(([path, a]) => path.startsWith("alerts/") && a.status === "open")
+      .map(([, a]) => a);
+
+  it("opens an alert and resolves it with a later in-range reading",
+      async () => {
+        const opened = await applyReading("l1",
+            log(7, "2026-01-15T10:00:00Z"), chiller);
+        assert.strictEqual(opened.alert.severity, "warning");
+
+        await applyReading("l2", log(3, "2026-01-15T10:30:00Z"), chiller);
+        assert.strictEqual(openAlerts().length, 0);
+      });
+
+  it("isn't resolved by an in-range reading taken before it", async () => {
+    await applyReading("l2", log(7, "2026-01-15T10:00:00Z"), chiller);
+    // taken at 09:00 offline, synced after the excursion was raised
+    await applyReading("l1", log(3, "2026-01-15T09:00:00Z"), chiller);
+
+    const [alert] = openAlerts();
+    assert.ok(alert);
+    assert.strictEqual(alert.lastLogId, "l2");
+    assert.strictEqual(alert.resolvedByLogId, undefined);
+  });
+
+  it("doesn't escalate on an older critical reading", async () => {
+    await applyReading("l2", log(7, "2026-01-15T10:00:00Z"), chiller);
+    const outcome = await applyReading("l1",
+        log(12, "2026-01-15T09:00:00Z"), chiller);
+
+    assert.strictEqual(outcome, null);
+    const [alert] = openAlerts();
+    assert.strictEqual(alert.severity, "warning");
+    assert.strictEqual(alert.tempC, 7);
+    assert.deepStrictEqual(alert.logIds, ["l2", "l1"]);
+    assert.strictEqual(alert.count, 2);
+  });
+});
@@ -0,0 +1,68 @@
+// functions/test/amendments.spec.js
+const assert = require("assert");
+const {
+  parseAmendment,
+  currentValues,
+  applyAmendment,
+} = require("../src/amendments");
+
+describe("amendments", () => {
+  const log = {tempC: 3, humidity: null, status: "ok", note: ""};
+  const chiller = {minTemp: 0, maxTemp: 5};
+
+  describe("parseAmendment", () => {
+    it("keeps only the fields being corrected", () => {
+      const r = parseAmendment({logId: "l1", tempC: 4, reason: "typo"});
+      assert.deepStrictEqual(r, {
+        logId: "l1",
+        changes: {tempC: 4},
+        reason: "typo",
+      });
+    });
+
+    it("requires a reason and at least one change", () => {
+      assert.throws(() => parseAmendment({logId: "l1", tempC: 4}));
+      assert.throws(() => parseAmendment({logId: "l1", reason: "typo"}));
+    });
+
+    it("validates values like a new reading", () => {
+      assert.throws(() => parseAmendment({
+        logId: "l1", tempC: "4", reason: "typo",
+      }));
+      assert.throws(() => parseAmendment({
+        logId: "l1", status: "fine", reason: "typo",
+      }));
+    });
+  });
+
+  describe("currentValues", () => {
+    it("uses the latest amendment when there is one", () => {
+      assert.deepStrictEqual(currentValues(log, []), log);
+
+      const amendments = [
+        {seq: 2, values: {tempC: 5, humidity: 40, status: "ok", note: "b"}},
+        {seq: 1, values: {tempC: 4, humidity: null, status: "ok", note: "a"}},
+      ];
+      assert.strictEqual(currentValues(log, amendments).tempC, 5);
+    });
+  });
+
+  describe("applyAmendment", () => {
+    it("returns the new values and what changed", () => {
+      const r = applyAmendment(log, {tempC: 4}, chiller);
+      assert.deepStrictEqual(r.changed, ["tempC"]);
+      assert.strictEqual(r.values.tempC, 4);
+    });
+
+    it("re-checks the status against the limits", () => {
+      const r = applyAmendment(log, {tempC: 9, note: "misread"}, chiller);
+      assert.strictEqual(r.values.status, "warning");
+      assert.deepStrictEqual(r.changed, ["tempC", "status", "note"]);
+    });
+
+    it("rejects no-op corrections and non-ok readings without a note", () => {
+      assert.throws(() => applyAmendment(log, {tempC: 3}, chiller));
+      assert.throws(() => applyAmendment(log, {status: "warning"}, chiller));
+    });
+  });
+});
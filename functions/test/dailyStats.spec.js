@@ -0,0 +1,113 @@
+// functions/test/dailyStats.spec.js
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+const {
+  statsId,
+  takenAt,
+  rollupDay,
+  rebuildDailyStats,
+} = require("../src/dailyStats");
+
+const at = (iso) => admin.firestore.Timestamp.fromMillis(Date.parse(iso));
+
+describe("dailyStats", () => {
+  describe("statsId", () => {
+    it("joins the chiller and local date", () => {
+      assert.strictEqual(statsId("c1", "2026-01-05"), "c1_2026-01-05");
+    });
+  });
+
+  describe("rollupDay", () => {
+    it("counts, bounds and averages the day's readings", () => {
+      const s = rollupDay([
+        {at: 300, tempC: 4.5, status: "ok"},
+        {at: 100, tempC: 3, status: "ok"},
+        {at: 200, tempC: 9, status: "warning"},
+        {at: 400, tempC: 12, status: "damaged"},
+      ], 1);
+      assert.strictEqual(s.count, 4);
+      assert.strictEqual(s.ok, 2);
+      assert.strictEqual(s.warning, 1);
+      assert.strictEqual(s.damaged, 1);
+      assert.strictEqual(s.excursions, 2);
+      assert.strictEqual(s.minC, 3);
+      assert.strictEqual(s.maxC, 12);
+      assert.strictEqual(s.meanC, 7.1);
+      assert.strictEqual(s.firstAt, 100);
+      assert.strictEqual(s.lastAt, 400);
+      assert.strictEqual(s.missed, 1);
+    });
+
+    it("skips readings without a usable temperature", () => {
+      const s = rollupDay([
+        {at: 100, tempC: null, status: "ok"},
+        {at: 200, tempC: NaN, status: "warning"},
+        {at: 300, tempC: 2, status: "ok"},
+      ], 0);
+      assert.strictEqual(s.count, 1);
+      assert.strictEqual(s.excursions, 0);
+      assert.strictEqual(s.meanC, 2);
+    });
+
+    it("leaves temps and times empty on a day without readings", () => {
+      const s = rollupDay([], 3);
+      assert.deepStrictEqual(
+          [s.count, s.minC, s.maxC, s.meanC, s.firstAt, s.lastAt, s.missed],
+          [0, null, null, null, null, null, 3]);
+    });
+  });
+
+  describe("takenAt", () => {
+    it("prefers capturedAt and falls back to createdAt", () => {
+      const createdAt = at("2026-01-06T00:10:00Z");
+      const capturedAt = at("2026-01-05T23:50:00Z");
+      assert.strictEqual(takenAt({createdAt, capturedAt}),
+          capturedAt.toMillis());
+      assert.strictEqual(takenAt({createdAt}), createdAt.toMillis());
+      assert.strictEqual(takenAt({}), null);
+    });
+  });
+
+  describe("rebuildDailyStats", () => {
+    let db;
+    let restore;
+    const ctx = {
+      chiller: {orgId: "org1", branchId: "b1", name: "Walk-in"},
+      tz: "UTC",
+    };
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        // taken before midnight, synced after
+        "tempLogs/late": {
+          chillerId: "c1", tempC: 4, status: "ok",
+          capturedAt: at("2026-01-05T23:50:00Z"),
+          createdAt: at("2026-01-06T00:10:00Z"),
+        },
+        "tempLogs/next": {
+          chillerId: "c1", tempC: 9, status: "warning",
+          capturedAt: at("2026-01-06T08:00:00Z"),
+          createdAt: at("2026-01-06T08:00:01Z"),
+        },
+        // written before capturedAt existed
+        "tempLogs/legacy": {
+          chillerId: "c1", tempC: 3, status: "ok",
+          createdAt: at("2026-01-05T12:00:00Z"),
+        },
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    it("counts readings on the day they were taken", async () => {
+      const day5 = await rebuildDailyStats("c1", "2026-01-05", ctx);
+      assert.deepStrictEqual([day5.count, day5.minC, day5.maxC], [2, 3, 4]);
+
+      const day6 = await rebuildDailyStats("c1", "2026-01-06", ctx);
+      assert.deepStrictEqual([day6.count, day6.excursions], [1, 1]);
+      assert.strictEqual(db.docs.get("dailyStats/c1_2026-01-06").count, 1);
+    });
+  });
+});
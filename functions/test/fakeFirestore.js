@@ -0,0 +1,368 @@
+// functions/test/fakeFirestore.js
+// Just enough of admin.firestore() in memory to run the scheduled jobs
+// without the emulator. Docs are keyed by path ("tempLogs/l1").
+const admin = require("firebase-admin");
+
+const {Timestamp, FieldValue, FieldPath} = admin.firestore;
+
+const OPS = {
+  "==": (a, b) => a === b,
+  "!=": (a, b) => a !== b,
+  "<": (a, b) => a < b,
+  "<=": (a, b) => a <= b,
+  ">": (a, b) => a > b,
+  ">=": (a, b) => a >= b,
+  "in": (a, b) => b.includes(a),
+  "array-contains": (a, b) => Array.isArray(a) && a.includes(b),
+};
+
+/**
+ * @param {*} v stored value
+ * @return {*} comparable value (timestamps as millis)
+ */
+function plain(v) {
+  return v && typeof v.toMillis === "function" ? v.toMillis() : v;
+}
+
+/**
+ * @param {Object} current stored data
+ * @param {Object} patch written fields (FieldValue sentinels allowed)
+ * @return {Object} merged data
+ */
+function applyPatch(current, patch) {
+  const next = {...current};
+  Object.entries(patch).forEach(([k, v]) => {
+    if (v instanceof FieldValue) {
+      if (v.isEqual(FieldValue.serverTimestamp())) {
+        next[k] = Timestamp.now();
+      } else if (v.isEqual(FieldValue.delete())) {
+        delete next[k];
+      } else if (typeof v.operand === "number") {
+        next[k] = (next[k] || 0) + v.operand;
+      } else if (Array.isArray(v.elements) &&
+        v.isEqual(FieldValue.arrayUnion(...v.elements))) {
+        const list = Array.isArray(next[k]) ? next[k] : [];
+        next[k] = [...list, ...v.elements.filter((e) => !list.includes(e))];
+      } else {
+        throw new Error(`fakeFirestore: unsupported FieldValue for ${k}`);
+      }
+    } else {
+      next[k] = v;
+    }
+  });
+  return next;
+}
+
+/**
+ * @param {Object} snap doc snapshot
+ * @param {string|Object} field field name or FieldPath.documentId()
+ * @return {*} comparable value
+ */
+function valueOf(snap, field) {
+  return typeof field === "string" ? plain(snap.get(field)) : snap.id;
+}
+
+/**
+ * @param {*} a value
+ * @param {*} b value
+ * @return {number} sort order
+ */
+function compare(a, b) {
+  if (a === b) return 0;
+  if (a === undefined) return -1;
+  if (b === undefined) return 1;
+  return a < b ? -1 : 1;
+}
+
+/**
+ * @param {FakeFirestore} db store
+ * @param {string} path doc path
+ * @return {Object} snapshot
+ */
+function snapshot(db, path) {
+  const data = db.docs.get(path);
+  return {
+    id: path.split("/").pop(),
+    ref: db.doc(path),
+    exists: data !== undefined,
+    data: () => (data === undefined ? undefined : {...data}),
+    get: (field) => (data === undefined ? undefined : data[field]),
+  };
+}
+
+/** In-memory document reference. */
+class DocRef {
+  /**
+   * @param {FakeFirestore} db store
+   * @param {string} path doc path
+   */
+  constructor(db, path) {
+    this.db = db;
+    this.path = path;
+    this.id = path.split("/").pop();
+  }
+
+  /** @return {Promise<Object>} snapshot */
+  async get() {
+    return snapshot(this.db, this.path);
+  }
+
+  /**
+   * @param {Object} data fields
+   * @param {Object} [options] {merge}
+   * @return {Promise<void>}
+   */
+  async set(data, options = {}) {
+    const base = options.merge ? this.db.docs.get(this.path) || {} : {};
+    this.db.docs.set(this.path, applyPatch(base, data));
+  }
+
+  /**
+   * @param {Object} data fields
+   * @return {Promise<void>}
+   */
+  async create(data) {
+    if (this.db.docs.has(this.path)) {
+      throw Object.assign(new Error("already exists"), {code: 6});
+    }
+    this.db.docs.set(this.path, applyPatch({}, data));
+  }
+
+  /**
+   * @param {Object} data fields
+   * @return {Promise<void>}
+   */
+  async update(data) {
+    if (!this.db.docs.has(this.path)) {
+      throw Object.assign(new Error("not found"), {code: 5});
+    }
+    this.db.docs.set(this.path, applyPatch(this.db.docs.get(this.path), data));
+  }
+
+  /** @return {Promise<void>} */
+  async delete() {
+    this.db.docs.delete(this.path);
+  }
+}
+
+/** In-memory query over one collection. */
+class Query {
+  /**
+   * @param {FakeFirestore} db store
+   * @param {string} name collection
+   * @param {Object} [spec] {filters, orders, max, after}
+   */
+  constructor(db, name, spec = {}) {
+    this.db = db;
+    this.name = name;
+    this.filters = spec.filters || [];
+    this.orders = spec.orders || [];
+    this.max = spec.max === undefined ? null : spec.max;
+    this.after = spec.after || null;
+  }
+
+  /**
+   * @param {Object} patch spec fields to replace
+   * @return {Query} copy
+   */
+  with(patch) {
+    return new Query(this.db, this.name, {
+      filters: this.filters,
+      orders: this.orders,
+      max: this.max,
+      after: this.after,
+      ...patch,
+    });
+  }
+
+  /**
+   * @param {string} field field
+   * @param {string} op operator
+   * @param {*} value value
+   * @return {Query} narrowed query
+   */
+  where(field, op, value) {
+    return this.with({filters: [...this.filters, [field, op, value]]});
+  }
+
+  /**
+   * @param {string|Object} field field or FieldPath.documentId()
+   * @param {string} [dir] "asc" | "desc"
+   * @return {Query} ordered query
+   */
+  orderBy(field, dir = "asc") {
+    return this.with({orders: [...this.orders, [field, dir]]});
+  }
+
+  /**
+   * @param {...*} values order values, or one doc snapshot
+   * @return {Query} query starting after that position
+   */
+  startAfter(...values) {
+    const snap = values[0];
+    const after = snap && typeof snap.get === "function" ?
+      this.orders.map(([field]) => valueOf(snap, field)) :
+      values.map(plain);
+    return this.with({after});
+  }
+
+  /** @return {Query} same query (every field is returned anyway) */
+  select() {
+    return this;
+  }
+
+  /**
+   * @param {number} n max docs
+   * @return {Query} limited query
+   */
+  limit(n) {
+    return this.with({max: n});
+  }
+
+  /**
+   * @param {string} [id] doc id (random when omitted)
+   * @return {DocRef} reference
+   */
+  doc(id) {
+    const docId = id || Math.random().toString(36).slice(2, 12);
+    return this.db.doc(`${this.name}/${docId}`);
+  }
+
+  /** @return {Promise<Object>} query snapshot */
+  async get() {
+    if (this.db.failing.has(this.name)) {
+      throw Object.assign(new Error(`${this.name} unavailable`), {code: 14});
+    }
+    const prefix = `${this.name}/`;
+    let docs = [...this.db.docs.keys()]
+        .filter((p) => p.startsWith(prefix) &&
+          !p.slice(prefix.length).includes("/"))
+        .map((p) => snapshot(this.db, p))
+        .filter((s) => this.filters.every(([field, op, value]) => {
+          const v = s.get(field);
+          return v !== undefined && OPS[op](plain(v),
+              Array.isArray(value) ? value.map(plain) : plain(value));
+        }));
+    const order = (a, b) => {
+      for (let i = 0; i < this.orders.length; i++) {
+        const c = compare(a[i], b[i]);
+        if (c !== 0) return this.orders[i][1] === "desc" ? -c : c;
+      }
+      return 0;
+    };
+    if (this.orders.length) {
+      const key = (snap) => this.orders.map(([f]) => valueOf(snap, f));
+      docs = docs
+          .map((snap) => ({snap, k: key(snap)}))
+          .sort((a, b) => order(a.k, b.k))
+          .filter(({k}) => !this.after || order(k, this.after) > 0)
+          .map(({snap}) => snap);
+    }
+    if (this.max !== null) docs = docs.slice(0, this.max);
+    return {empty: docs.length === 0, size: docs.length, docs};
+  }
+}
+
+/** In-memory stand-in for admin.firestore(). */
+class FakeFirestore {
+  /** @param {Object} [seed] path -> data */
+  constructor(seed = {}) {
+    this.docs = new Map(Object.entries(seed));
+    // collections whose queries throw, to exercise failure paths
+    this.failing = new Set();
+  }
+
+  /**
+   * @param {string} path doc path
+   * @return {DocRef} reference
+   */
+  doc(path) {
+    return new DocRef(this, path);
+  }
+
+  /**
+   * @param {string} name collection
+   * @return {Query} query over the whole collection
+   */
+  collection(name) {
+    return new Query(this, name);
+  }
+
+  /**
+   * Writes are queued and applied on commit.
+   * @return {Object} write batch
+   */
+  batch() {
+    const ops = [];
+    const batch = {
+      set(ref, data, options) {
+        ops.push(() => ref.set(data, options));
+        return batch;
+      },
+      update(ref, data) {
+        ops.push(() => ref.update(data));
+        return batch;
+      },
+      create(ref, data) {
+        ops.push(() => ref.create(data));
+        return batch;
+      },
+      delete(ref) {
+        ops.push(() => ref.delete());
+        return batch;
+      },
+      async commit() {
+        for (const op of ops) await op();
+      },
+    };
+    return batch;
+  }
+
+  /**
+   * @param {...DocRef} refs references
+   * @return {Promise<Array<Object>>} snapshots in the same order
+   */
+  async getAll(...refs) {
+    return Promise.all(refs.map((r) => r.get()));
+  }
+
+  /**
+   * Runs the function once and applies its writes afterwards, like a commit;
+   * good enough without concurrent writers.
+   * @param {Function} fn transaction body
+   * @return {Promise<*>} its result
+   */
+  async runTransaction(fn) {
+    const batch = this.batch();
+    const result = await fn({
+      get: (ref) => ref.get(),
+      getAll: (...refs) => this.getAll(...refs),
+      set: (ref, data, options) => batch.set(ref, data, options),
+      update: (ref, data) => batch.update(ref, data),
+      create: (ref, data) => batch.create(ref, data),
+      delete: (ref) => batch.delete(ref),
+    });
+    await batch.commit();
+    return result;
+  }
+}
+
+/**
+ * Points admin.firestore() at a fake store until the returned restore runs.
+ * @param {FakeFirestore} db fake store
+ * @return {Function} restore
+ */
+function useFakeFirestore(db) {
+  const own = Object.getOwnPropertyDescriptor(admin, "firestore");
+  const fn = Object.assign(() => db, {Timestamp, FieldValue, FieldPath});
+  Object.defineProperty(admin, "firestore", {
+    configurable: true,
+    get: () => fn,
+  });
+  return () => {
+    if (own) Object.defineProperty(admin, "firestore", own);
+    else delete admin.firestore;
+  };
+}
+
+module.exports = {FakeFirestore, useFakeFirestore};
@@ -0,0 +1,49 @@
+// functions/test/invites.spec.js
+const assert = require("assert");
+const {inviteIdFor, inviteLink, inviteProblem} = require("../src/invites");
+
+const TOKEN = "k3Jx9_Qm-2vT8rLpZ0aBcDeFgHiJkLmNoPqRsTuVwXy";
+const at = (ms) => ({toMillis: () => ms});
+
+describe("invites", () => {
+  describe("inviteIdFor", () => {
+    it("hashes the token into a stable doc id", () => {
+      const id = inviteIdFor(TOKEN);
+      assert.match(id, /^[0-9a-f]{64}$/);
+      assert.strictEqual(inviteIdFor(` ${TOKEN} `), id);
+      assert.notStrictEqual(inviteIdFor(TOKEN.slice(1)), id);
+    });
+
+    it("rejects anything that isn't a token", () => {
+      assert.strictEqual(inviteIdFor(""), null);
+      assert.strictEqual(inviteIdFor(undefined), null);
+      assert.strictEqual(inviteIdFor("short"), null);
+      assert.strictEqual(inviteIdFor(`${TOKEN.slice(0, 40)}/../x`), null);
+    });
+  });
+
+  it("links to the accept screen", () => {
+    assert.strictEqual(inviteLink(TOKEN),
+        `tempmonitor://accept-invite?token=${TOKEN}`);
+  });
+
+  describe("inviteProblem", () => {
+    const now = Date.UTC(2026, 9, 18);
+    const pending = {status: "pending", expiresAt: at(now + 1000)};
+
+    it("accepts a pending invite before it expires", () => {
+      assert.strictEqual(inviteProblem(pending, now), null);
+    });
+
+    it("explains why an invite can't be used", () => {
+      assert.strictEqual(inviteProblem(null, now), "missing");
+      assert.strictEqual(inviteProblem({...pending, status: "accepted"}, now),
+          "accepted");
+      assert.strictEqual(inviteProblem({...pending, status: "revoked"}, now),
+          "revoked");
+      assert.strictEqual(inviteProblem({...pending, expiresAt: at(now)}, now),
+          "expired");
+      assert.strictEqual(inviteProblem({status: "pending"}, now), "expired");
+    });
+  });
+});
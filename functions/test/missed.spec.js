@@ -0,0 +1,57 @@
+// functions/test/missed.spec.js
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+const {runMissedCheck} = require("../src/missed");
+
+const at = (iso) => admin.firestore.Timestamp.fromMillis(Date.parse(iso));
+
+describe("missed", () => {
+  describe("runMissedCheck", () => {
+    let db;
+    let restore;
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        "branches/b1": {orgId: "org1", name: "Main", timezone: "UTC"},
+        "chillers/c1": {
+          orgId: "org1", branchId: "b1", name: "Walk-in", isActive: true,
+          schedule: {times: ["08:00"], graceMinutes: 60},
+        },
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    const now = Date.parse("2026-01-15T10:00:00Z");
+
+    it("records a slot nobody read", async () => {
+      assert.strictEqual(await runMissedCheck(now), 1);
+      const m = db.docs.get("missedChecks/c1_2026-01-15_0800");
+      assert.strictEqual(m.status, "missed");
+      assert.strictEqual(m.branchId, "b1");
+    });
+
+    it("counts a reading taken on time but synced after the deadline",
+        async () => {
+          db.docs.set("tempLogs/l1", {
+            orgId: "org1", branchId: "b1", chillerId: "c1",
+            capturedAt: at("2026-01-15T08:10:00Z"),
+            createdAt: at("2026-01-15T09:30:00Z"),
+          });
+          assert.strictEqual(await runMissedCheck(now), 0);
+          assert.strictEqual(db.docs.has("missedChecks/c1_2026-01-15_0800"),
+              false);
+        });
+
+    it("ignores a reading taken after the deadline", async () => {
+      db.docs.set("tempLogs/l1", {
+        orgId: "org1", branchId: "b1", chillerId: "c1",
+        capturedAt: at("2026-01-15T09:20:00Z"),
+        createdAt: at("2026-01-15T09:20:05Z"),
+      });
+      assert.strictEqual(await runMissedCheck(now), 1);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+// functions/test/notify.spec.js
+const assert = require("assert");
+const http = require("http");
+const notify = require("../src/notify");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+
+describe("notify", () => {
+  describe("wantsCategory", () => {
+    it("falls back to the defaults", () => {
+      assert.strictEqual(notify.wantsCategory({}, "excursions"), true);
+      assert.strictEqual(notify.wantsCategory({}, "missed"), true);
+      assert.strictEqual(notify.wantsCategory({}, "dailySummary"), false);
+      assert.strictEqual(notify.wantsCategory({}, "unknown"), false);
+    });
+
+    it("honours the user's choices", () => {
+      const user = {notifyPrefs: {excursions: false, dailySummary: true}};
+      assert.strictEqual(notify.wantsCategory(user, "excursions"), false);
+      assert.strictEqual(notify.wantsCategory(user, "dailySummary"), true);
+      assert.strictEqual(notify.wantsCategory(user, "missed"), true);
+    });
+  });
+
+
+  let server;
+  let received;
+
+  before((done) => {
+    // fake Expo push endpoint
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (c) => (body += c));
+      req.on("end", () => {
+        const messages = JSON.parse(body);
+        received.push(...messages);
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({
+          data: messages.map((m) => (m.to.includes("bad") ?
+            {
+              status: "error",
+              message: "not registered",
+              details: {error: "DeviceNotRegistered"},
+            } :
+            {status: "ok", id: "ticket"})),
+        }));
+      });
+    });
+    server.listen(0, () => {
+      process.env.EXPO_PUSH_URL = `http://127.0.0.1:${server.address().port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  after((done) => {
+    delete process.env.EXPO_PUSH_URL;
+    notify.setMailTransport(null);
+    server.close(done);
+  });
+
+  it("sends to unique Expo tokens and counts errors", async () => {
+    const res = await notify.sendPush(
+        [
+          "ExpoPushToken[aaa]",
+          "ExpoPushToken[aaa]",
+          "ExpoPushToken[bad]",
+          "not-a-token",
+        ],
+        {title: "Warning", body: "6°C", data: {chillerId: "c1"}},
+    );
+
+    assert.deepStrictEqual(res, {
+      sent: 1,
+      failed: 1,
+      invalid: ["ExpoPushToken[bad]"],
+    });
+    assert.strictEqual(received.length, 2);
+    assert.strictEqual(received[0].title, "Warning");
+    assert.deepStrictEqual(received[0].data, {chillerId: "c1"});
+  });
+
+  it("splits large batches into chunks of 100", async () => {
+    const tokens = Array.from({length: 150}, (_, i) => `ExpoPushToken[${i}]`);
+    const res = await notify.sendPush(tokens, {title: "t", body: "b"});
+
+    assert.deepStrictEqual(res, {sent: 150, failed: 0, invalid: []});
+    assert.strictEqual(received.length, 150);
+  });
+
+  it("counts everything as failed when the endpoint is down", async () => {
+    const url = process.env.EXPO_PUSH_URL;
+    process.env.EXPO_PUSH_URL = "http://127.0.0.1:9/unreachable";
+    try {
+      const res = await notify.sendPush(["ExpoPushToken[aaa]"], {
+        title: "t",
+        body: "b",
+      });
+      assert.deepStrictEqual(res, {sent: 0, failed: 1, invalid: []});
+    } finally {
+      process.env.EXPO_PUSH_URL = url;
+    }
+  });
+
+  describe("escapeHtml", () => {
+    it("escapes markup in user-entered names", () => {
+      assert.strictEqual(notify.escapeHtml(`<b>Tom & "Jo's"</b>`),
+          "&lt;b&gt;Tom &amp; &quot;Jo&#39;s&quot;&lt;/b&gt;");
+    });
+
+    it("treats missing values as empty", () => {
+      assert.strictEqual(notify.escapeHtml(undefined), "");
+      assert.strictEqual(notify.escapeHtml(4.5), "4.5");
+    });
+  });
+
+  describe("daily summary", () => {
+    let db;
+    let restore;
+
+    // 21:00 in London, past SUMMARY_HOUR
+    const now = Date.parse("2026-01-15T21:00:00Z");
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        "orgs/org1": {
+          members: {
+            admin: {role: "admin"},
+            cook: {role: "staff", branchIds: ["b1"]},
+            other: {role: "staff", branchIds: ["b2"]},
+            gone: {role: "staff", branchIds: ["b1"], isActive: false},
+          },
+        },
+        "branches/b1": {orgId: "org1", name: "Main", timezone: "Europe/London"},
+        "dailyStats/c1_2026-01-15": {
+          orgId: "org1", branchId: "b1", date: "2026-01-15",
+          chillerName: "Walk-in", count: 3, excursions: 1, missed: 0,
+        },
+        "dailyStats/c2_2026-01-15": {
+          orgId: "org1", branchId: "b1", date: "2026-01-15",
+          chillerName: "Bar", count: 2, excursions: 0, missed: 0,
+        },
+      });
+      ["admin", "cook", "other", "gone"].forEach((uid) => {
+        db.docs.set(`users/${uid}`, {
+          notifyPrefs: {dailySummary: uid !== "admin"},
+          pushTokens: [`ExpoPushToken[${uid}]`],
+        });
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    it("words the day's totals", () => {
+      const msg = notify.summaryMessage("Main", [
+        {chillerName: "Walk-in", count: 3, excursions: 1, missed: 1},
+        {chillerName: "Bar", count: 1, excursions: 0, missed: 0},
+      ]);
+      assert.strictEqual(msg.title, "Today at Main");
+      assert.strictEqual(msg.body,
+          "4 readings, 1 excursion, 1 missed check. Check: Walk-in");
+      assert.strictEqual(
+          notify.summaryMessage("Main", [{count: 1}]).body,
+          "1 reading, no excursions, no missed checks.",
+      );
+    });
+
+    it("picks active members of the branch", () => {
+      const org = db.docs.get("orgs/org1");
+      assert.deepStrictEqual(notify.branchMembers(org, "b1"),
+          ["admin", "cook"]);
+    });
+
+    it("pushes once per branch-day to members who opted in", async () => {
+      assert.strictEqual(await notify.runDailySummaries(now), 1);
+      assert.deepStrictEqual(received.map((m) => m.to),
+          ["ExpoPushToken[cook]"]);
+      assert.strictEqual(received[0].data.category, "dailySummary");
+      assert.strictEqual(
+          db.docs.get("branches/b1").lastSummaryDate, "2026-01-15");
+
+      assert.strictEqual(await notify.runDailySummaries(now + 3600000), 0);
+      assert.strictEqual(received.length, 1);
+    });
+
+    it("waits for the evening in the branch's time zone", async () => {
+      const early = Date.parse("2026-01-15T19:00:00Z");
+      assert.strictEqual(await notify.runDailySummaries(early), 0);
+      assert.strictEqual(received.length, 0);
+    });
+
+    it("retries on the next run when it fails", async () => {
+      db.failing.add("dailyStats");
+      assert.strictEqual(await notify.runDailySummaries(now), 0);
+      assert.strictEqual(db.docs.get("branches/b1").lastSummaryDate, null);
+
+      db.failing.delete("dailyStats");
+      assert.strictEqual(await notify.runDailySummaries(now), 1);
+    });
+  });
+
+  it("mails each recipient through the configured transport", async () => {
+    const sent = [];
+    notify.setMailTransport(async (mail) => {
+      sent.push(mail);
+      if (mail.to === "down@example.com") throw new Error("bounce");
+      return {id: "1"};
+    });
+
+    const res = await notify.sendEmail(
+        ["a@example.com", "a@example.com", "down@example.com", "nope"],
+        {subject: "Alert", text: "hi", html: "<p>hi</p>"},
+    );
+
+    assert.deepStrictEqual(res, {sent: 1, failed: 1});
+    assert.deepStrictEqual(sent.map((m) => m.to), [
+      "a@example.com",
+      "down@example.com",
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+// functions/test/orgs.spec.js
+const assert = require("assert");
+const {
+  branchLeads,
+  inBranch,
+  memberBranchIds,
+  migrateOwner,
+  parseBranchIds,
+} = require("../src/orgs");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+
+describe("orgs", () => {
+  describe("memberBranchIds", () => {
+    it("reads multi-branch and older single-branch memberships", () => {
+      assert.deepStrictEqual(memberBranchIds({branchIds: ["b1", "b2"]}),
+          ["b1", "b2"]);
+      assert.deepStrictEqual(memberBranchIds({branchId: "b1"}), ["b1"]);
+      assert.deepStrictEqual(memberBranchIds({branchId: null}), []);
+      assert.deepStrictEqual(memberBranchIds(null), []);
+    });
+
+    it("prefers branchIds once it has been written", () => {
+      assert.deepStrictEqual(
+          memberBranchIds({branchIds: [], branchId: "b1"}), []);
+    });
+  });
+
+  describe("inBranch", () => {
+    it("lets admins into every branch", () => {
+      assert.strictEqual(inBranch({role: "admin", branchIds: []}, "b9"), true);
+    });
+
+    it("limits staff to their assigned branches", () => {
+      const staff = {role: "staff", branchIds: ["b1", "b2"]};
+      assert.strictEqual(inBranch(staff, "b2"), true);
+      assert.strictEqual(inBranch(staff, "b3"), false);
+      assert.strictEqual(inBranch(staff, ""), false);
+      assert.strictEqual(inBranch({role: "staff", branchId: "b1"}, "b1"),
+          true);
+      assert.strictEqual(inBranch(null, "b1"), false);
+    });
+  });
+
+  it("branchLeads picks admins and the branch's managers", () => {
+    const org = {members: {
+      a: {role: "admin"},
+      m1: {role: "manager", branchIds: ["b1", "b2"]},
+      m2: {role: "manager", branchId: "b2"},
+      s1: {role: "staff", branchIds: ["b2"]},
+    }};
+    assert.deepStrictEqual(branchLeads(org, "b2"), ["a", "m1", "m2"]);
+    assert.deepStrictEqual(branchLeads(org, "b1"), ["a", "m1"]);
+  });
+
+  describe("parseBranchIds", () => {
+    it("accepts a list or a single branch", () => {
+      assert.deepStrictEqual(parseBranchIds({branchIds: ["b1", "", "b1"]}),
+          ["b1"]);
+      assert.deepStrictEqual(parseBranchIds({branchId: "b2"}), ["b2"]);
+      assert.deepStrictEqual(parseBranchIds({defaultBranchId: "b3"}), ["b3"]);
+      assert.deepStrictEqual(parseBranchIds({}), []);
+    });
+
+    it("rejects paths and oversized lists", () => {
+      const code = {code: "invalid-argument"};
+      assert.throws(() => parseBranchIds({branchIds: ["a/b"]}), code);
+      const many = Array.from({length: 31}, (_, i) => `b${i}`);
+      assert.throws(() => parseBranchIds({branchIds: many}), code);
+    });
+  });
+
+  describe("migrateOwner", () => {
+    let db;
+    let restore;
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        "users/owner": {name: "Ana", role: "admin"},
+        "users/s1": {name: "Sam", role: "staff", createdBy: "owner",
+          defaultBranchId: "b1"},
+        "branches/b1": {ownerId: "owner", name: "Main"},
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    it("moves the owner, their staff and data into one org", async () => {
+      const res = await migrateOwner("owner");
+      assert.strictEqual(res.orgId, "owner");
+      assert.strictEqual(res.migrated.branches, 1);
+
+      const org = db.docs.get("orgs/owner");
+      assert.deepStrictEqual(org.memberIds, ["owner", "s1"]);
+      assert.strictEqual(org.members.owner.role, "admin");
+      assert.deepStrictEqual(org.members.s1.branchIds, ["b1"]);
+      assert.strictEqual(db.docs.get("branches/b1").orgId, "owner");
+      assert.strictEqual(db.docs.get("users/s1").activeOrgId, "owner");
+    });
+
+    it("doesn't bring back someone removed after the migration", async () => {
+      await migrateOwner("owner");
+      // deleteStaff took them out; their users doc still names the owner
+      const org = db.docs.get("orgs/owner");
+      delete org.members.s1;
+      org.memberIds = ["owner"];
+
+      const res = await migrateOwner("owner");
+      assert.strictEqual(res.migrated, null);
+      assert.deepStrictEqual(db.docs.get("orgs/owner").memberIds, ["owner"]);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+// functions/test/pdf.spec.js
+const assert = require("assert");
+const {
+  LINES_PER_PAGE,
+  pdfText,
+  tableLines,
+  renderTextPdf,
+} = require("../src/pdf");
+
+describe("pdf", () => {
+  describe("pdfText", () => {
+    it("escapes string delimiters and replaces unsupported characters", () => {
+      assert.strictEqual(pdfText("a (b) \\ c"), "a \\(b\\) \\\\ c");
+      assert.strictEqual(pdfText("4°C – ok ✓"), "4°C - ok ?");
+    });
+  });
+
+  describe("tableLines", () => {
+    it("pads, right-aligns and cuts cells to the column width", () => {
+      const lines = tableLines([
+        {header: "Name", width: 6},
+        {header: "Temp", width: 5, right: true},
+      ], [["Walk-in cooler", 4.5]]);
+      assert.strictEqual(lines[0].text, "Name    Temp");
+      assert.strictEqual(lines[0].bold, true);
+      assert.strictEqual(lines[2].text, "Walk-~   4.5");
+    });
+  });
+
+  describe("renderTextPdf", () => {
+    it("paginates and writes a valid cross-reference table", () => {
+      const lines = Array.from({length: LINES_PER_PAGE + 1}, (_, i) => `#${i}`);
+      const pdf = renderTextPdf({title: "Report", lines}).toString("latin1");
+
+      assert.ok(pdf.includes("/Count 2"));
+      assert.ok(pdf.includes("(Page 2 of 2) Tj"));
+
+      const xrefAt = Number(pdf.match(/startxref\n(\d+)/)[1]);
+      assert.ok(pdf.slice(xrefAt).startsWith("xref"));
+      const offsets = pdf.slice(xrefAt).match(/^\d{10} 00000 n $/gm)
+          .map((l) => Number(l.slice(0, 10)));
+      offsets.forEach((off, i) => {
+        assert.ok(pdf.slice(off).startsWith(`${i + 1} 0 obj`));
+      });
+    });
+  });
+});
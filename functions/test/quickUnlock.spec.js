@@ -0,0 +1,97 @@
+// functions/test/quickUnlock.spec.js
+const assert = require("assert");
+const crypto = require("crypto");
+const {
+  MAX_FAILURES,
+  isValidPin,
+  isValidDeviceId,
+  hashPin,
+  sameHex,
+  checkPin,
+} = require("../src/quickUnlock");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+
+describe("quickUnlock", () => {
+  it("takes 4 to 6 digit PINs", () => {
+    assert.strictEqual(isValidPin("1234"), true);
+    assert.strictEqual(isValidPin("123456"), true);
+    assert.strictEqual(isValidPin("123"), false);
+    assert.strictEqual(isValidPin("1234567"), false);
+    assert.strictEqual(isValidPin("12a4"), false);
+    assert.strictEqual(isValidPin(1234), false);
+  });
+
+  it("only takes device ids that are safe in a doc id", () => {
+    assert.strictEqual(isValidDeviceId("a1B2c3D4e5F6g7H8"), true);
+    assert.strictEqual(isValidDeviceId("short"), false);
+    assert.strictEqual(isValidDeviceId("a1B2c3D4e5F6g7H8/x"), false);
+    assert.strictEqual(isValidDeviceId(undefined), false);
+  });
+
+  it("hashes PINs per salt", () => {
+    const salt = "00112233445566778899aabbccddeeff";
+    const other = "ffeeddccbbaa99887766554433221100";
+    const h = hashPin("2468", salt);
+    assert.match(h, /^[0-9a-f]{64}$/);
+    assert.strictEqual(hashPin("2468", salt), h);
+    assert.notStrictEqual(hashPin("2469", salt), h);
+    assert.notStrictEqual(hashPin("2468", other), h);
+  });
+
+  it("compares digests without accepting empty ones", () => {
+    assert.strictEqual(sameHex("abcd", "abcd"), true);
+    assert.strictEqual(sameHex("abcd", "abce"), false);
+    assert.strictEqual(sameHex("abcd", "abcdef"), false);
+    assert.strictEqual(sameHex("", ""), false);
+    assert.strictEqual(sameHex(undefined, ""), false);
+  });
+
+  describe("checkPin", () => {
+    const device = "a1B2c3D4e5F6g7H8";
+    const path = `quickUnlocks/${device}_u1`;
+    const salt = "00112233445566778899aabbccddeeff";
+    const secretHash = crypto.createHash("sha256").update("s3cret")
+        .digest("hex");
+    let db;
+    let restore;
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        [path]: {
+          uid: "u1", orgId: "org1", pinSalt: salt,
+          pinHash: hashPin("2468", salt), secretHash, failures: 0,
+        },
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    it("returns the enrollment for the right secret and PIN", async () => {
+      const rec = await checkPin(device, "u1", "s3cret", "2468");
+      assert.strictEqual(rec.orgId, "org1");
+    });
+
+    it("treats a wrong secret like a missing registration", async () => {
+      await assert.rejects(checkPin(device, "u1", "nope", "2468"),
+          {code: "not-found"});
+      assert.strictEqual(db.docs.get(path).failures, 0);
+    });
+
+    it("counts wrong PINs and locks at the limit", async () => {
+      await assert.rejects(checkPin(device, "u1", "s3cret", "0000"),
+          {code: "permission-denied", message: /4 tries left/});
+      assert.strictEqual(db.docs.get(path).failures, 1);
+
+      for (let i = 1; i < MAX_FAILURES; i++) {
+        await assert.rejects(checkPin(device, "u1", "s3cret", "0000"));
+      }
+      assert.strictEqual(db.docs.get(path).failures, MAX_FAILURES);
+
+      // even the right PIN is refused now, and nothing more is counted
+      await assert.rejects(checkPin(device, "u1", "s3cret", "2468"),
+          {code: "failed-precondition"});
+      assert.strictEqual(db.docs.get(path).failures, MAX_FAILURES);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+// functions/test/readings.spec.js
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {readingStatus, parseReading, saveReading} = require("../src/readings");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+
+describe("readings", () => {
+  const NOW = Date.parse("2026-03-01T10:00:00Z");
+  const UID = "u1";
+  const input = (over = {}) => ({
+    logId: "abc123xyz",
+    chillerId: "c1",
+    tempC: 3,
+    humidity: null,
+    status: "ok",
+    note: "",
+    capturedAt: NOW - 1000,
+    ...over,
+  });
+
+  describe("readingStatus", () => {
+    const chiller = {minTemp: 0, maxTemp: 5};
+
+    it("recomputes out-of-range readings as warnings", () => {
+      assert.strictEqual(readingStatus("ok", 3, chiller), "ok");
+      assert.strictEqual(readingStatus("ok", 7, chiller), "warning");
+      assert.strictEqual(readingStatus("ok", -1, chiller), "warning");
+    });
+
+    it("keeps what the user observed", () => {
+      assert.strictEqual(readingStatus("warning", 3, chiller), "warning");
+      assert.strictEqual(readingStatus("damaged", 3, chiller), "damaged");
+    });
+
+    it("ignores limits that aren't set", () => {
+      assert.strictEqual(readingStatus("ok", 40, {}), "ok");
+    });
+  });
+
+  describe("parseReading", () => {
+    it("accepts a valid reading", () => {
+      const r = parseReading(input({note: "  door open "}), UID, NOW);
+      assert.strictEqual(r.tempC, 3);
+      assert.strictEqual(r.note, "door open");
+      assert.strictEqual(r.photoPath, null);
+    });
+
+    it("rejects bad numbers", () => {
+      const bad = (over) => assert.throws(
+          () => parseReading(input(over), UID, NOW),
+          (err) => err.code === "invalid-argument",
+      );
+      bad({tempC: "cold"});
+      bad({tempC: 200});
+      bad({humidity: 140});
+      bad({status: "fine"});
+      bad({logId: "a/b"});
+    });
+
+    it("requires a note and photo where the form does", () => {
+      assert.throws(() => parseReading(input({status: "warning"}), UID, NOW));
+      assert.throws(() => parseReading(
+          input({status: "damaged", note: "dented"}), UID, NOW,
+      ));
+      assert.doesNotThrow(() => parseReading(input({
+        status: "damaged",
+        note: "dented",
+        photoPath: `tempLogs/c1/${UID}/1.jpg`,
+      }), UID, NOW));
+    });
+
+    it("only accepts photos from the caller's own folder", () => {
+      assert.throws(() => parseReading(
+          input({photoPath: "tempLogs/c1/someone-else/1.jpg"}), UID, NOW,
+      ));
+    });
+
+    it("validates the re-check link", () => {
+      assert.strictEqual(parseReading(input(), UID, NOW).recheckOf, null);
+      assert.strictEqual(
+          parseReading(input({recheckOf: "orig123"}), UID, NOW).recheckOf,
+          "orig123",
+      );
+      assert.throws(() => parseReading(
+          input({recheckOf: "../x"}), UID, NOW,
+      ));
+    });
+
+    it("bounds capturedAt", () => {
+      assert.throws(() => parseReading(
+          input({capturedAt: NOW + 60 * 60 * 1000}), UID, NOW,
+      ));
+      assert.throws(() => parseReading(
+          input({capturedAt: NOW - 40 * 24 * 60 * 60 * 1000}), UID, NOW,
+      ));
+    });
+  });
+
+  describe("saveReading", () => {
+    let db;
+    let restore;
+    // what parseReading hands over
+    const reading = (over = {}) => ({
+      logId: "log00001",
+      chillerId: "c1",
+      tempC: 3,
+      humidity: null,
+      status: "ok",
+      note: "",
+      photoUrl: null,
+      photoPath: null,
+      capturedAt: NOW - 60 * 1000,
+      recheckOf: null,
+      ...over,
+    });
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        "orgs/org1": {
+          memberIds: [UID],
+          members: {[UID]: {role: "staff", branchIds: ["b1"]}},
+        },
+        "chillers/c1": {
+          orgId: "org1", branchId: "b1", name: "Walk-in", isActive: true,
+          minTemp: 0, maxTemp: 5,
+        },
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    it("writes the log and moves lastReading forward", async () => {
+      const res = await saveReading(UID, reading());
+      assert.deepStrictEqual(
+          {status: res.status, conflict: res.conflict, dup: res.duplicate},
+          {status: "ok", conflict: false, dup: false},
+      );
+      assert.strictEqual(db.docs.get("tempLogs/log00001").branchId, "b1");
+      const last = db.docs.get("chillers/c1").lastReading;
+      assert.strictEqual(last.logId, "log00001");
+      assert.strictEqual(last.capturedAt.toMillis(), NOW - 60 * 1000);
+    });
+
+    it("finishes a retried submission without writing it twice",
+        async () => {
+          await saveReading(UID, reading());
+          const stored = db.docs.get("tempLogs/log00001");
+
+          const res = await saveReading(UID, reading({tempC: 4}));
+          assert.strictEqual(res.duplicate, true);
+          assert.strictEqual(db.docs.get("tempLogs/log00001"), stored);
+
+          // someone else can't claim the id
+          db.docs.get("orgs/org1").members.u2 = {role: "staff",
+            branchIds: ["b1"]};
+          await assert.rejects(saveReading("u2", reading()),
+              {code: "already-exists"});
+        });
+
+    it("keeps a newer lastReading when an older one syncs late",
+        async () => {
+          await saveReading(UID, reading({logId: "log00002"}));
+          const res = await saveReading(UID, reading({
+            logId: "log00001",
+            capturedAt: NOW - 60 * 60 * 1000,
+          }));
+
+          assert.strictEqual(res.conflict, true);
+          assert.ok(db.docs.has("tempLogs/log00001"));
+          assert.strictEqual(db.docs.get("chillers/c1").lastReading.logId,
+              "log00002");
+        });
+
+    it("opens a corrective action for an excursion", async () => {
+      const res = await saveReading(UID, reading({tempC: 8}));
+      assert.strictEqual(res.status, "warning");
+
+      const action = db.docs.get("correctiveActions/log00001");
+      assert.strictEqual(action.status, "open");
+      assert.strictEqual(action.logTempC, 8);
+      assert.strictEqual(action.branchId, "b1");
+      assert.ok(action.openedAt instanceof admin.firestore.Timestamp);
+      assert.strictEqual(db.docs.has("correctiveActions/log00002"), false);
+    });
+
+    it("doesn't open one for an in-range reading", async () => {
+      await saveReading(UID, reading());
+      assert.strictEqual(db.docs.has("correctiveActions/log00001"), false);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+// functions/test/reportExports.spec.js
+const assert = require("assert");
+const {
+  newExportCode,
+  normalizeCode,
+  formatCode,
+  exportHash,
+} = require("../src/reportExports");
+
+const scope = {
+  orgId: "org1",
+  branchId: "b1",
+  chillerId: null,
+  status: null,
+  from: 1000,
+  to: 2000,
+};
+
+const rows = [
+  {id: "l2", at: 1500, chillerId: "c1", tempC: 9, humidity: null,
+    status: "warning", note: "door open"},
+  {id: "l1", at: 1200, chillerId: "c1", tempC: 3, humidity: 55,
+    status: "ok", note: ""},
+];
+
+describe("reportExports", () => {
+  describe("codes", () => {
+    it("draws codes that survive formatting and re-typing", () => {
+      const code = newExportCode();
+      assert.strictEqual(code.length, 12);
+      assert.match(formatCode(code), /^\w{4}-\w{4}-\w{4}$/);
+      assert.strictEqual(normalizeCode(formatCode(code)), code);
+      assert.strictEqual(normalizeCode(` ${formatCode(code).toLowerCase()} `),
+          code);
+    });
+
+    it("rejects input that can't be a code", () => {
+      assert.strictEqual(normalizeCode("ABCD-EFGH"), null);
+      assert.strictEqual(normalizeCode("ABCD-EFGH-JKM0"), null);
+      assert.strictEqual(normalizeCode(null), null);
+    });
+  });
+
+  describe("exportHash", () => {
+    it("is stable for the same rows", () => {
+      const a = exportHash(scope, rows);
+      assert.match(a, /^[0-9a-f]{64}$/);
+      assert.strictEqual(exportHash({...scope}, rows.map((r) => ({...r}))), a);
+    });
+
+    it("changes when a value, the row set or the filters change", () => {
+      const a = exportHash(scope, rows);
+      const edited = [{...rows[0], tempC: 4}, rows[1]];
+      assert.notStrictEqual(exportHash(scope, edited), a);
+      assert.notStrictEqual(exportHash(scope, rows.slice(1)), a);
+      assert.notStrictEqual(exportHash({...scope, status: "ok"}, rows), a);
+      assert.notStrictEqual(exportHash({...scope, to: 2001}, rows), a);
+    });
+
+    it("treats a missing humidity or note like an empty one", () => {
+      const bare = rows.map(({humidity, note, ...r}) => r);
+      const empty = rows.map((r) => ({...r, humidity: null, note: ""}));
+      assert.strictEqual(exportHash(scope, bare), exportHash(scope, empty));
+    });
+  });
+});
@@ -0,0 +1,171 @@
+// functions/test/reports.spec.js
+const assert = require("assert");
+const admin = require("firebase-admin");
+const {
+  parseReportQuery,
+  logRow,
+  aggregateDaily,
+  readPage,
+  scanDays,
+} = require("../src/reports");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+
+const at = (iso) => admin.firestore.Timestamp.fromMillis(Date.parse(iso));
+
+describe("reports", () => {
+  const base = {orgId: "o1", branchId: "b1", from: 0, to: 1000};
+
+  describe("parseReportQuery", () => {
+    it("fills defaults and clamps the page size", () => {
+      const q = parseReportQuery(base);
+      assert.strictEqual(q.pageSize, 200);
+      assert.strictEqual(q.chillerId, null);
+      assert.strictEqual(q.cursor, null);
+      assert.strictEqual(parseReportQuery({...base, pageSize: 9999}).pageSize,
+          500);
+    });
+
+    it("rejects bad ranges and cursors", () => {
+      assert.throws(() => parseReportQuery({...base, branchId: ""}));
+      assert.throws(() => parseReportQuery({...base, from: 10, to: 5}));
+      assert.throws(() => parseReportQuery({
+        ...base, to: 401 * 24 * 60 * 60 * 1000,
+      }));
+      assert.throws(() => parseReportQuery({...base, cursor: {at: 1}}));
+      assert.throws(() => parseReportQuery({
+        ...base, cursor: {at: 1, id: "a/b"},
+      }));
+      assert.throws(() => parseReportQuery({
+        ...base, cursor: {at: 1, id: "l1", field: "tempC"},
+      }));
+    });
+
+    it("keeps a valid cursor", () => {
+      const q = parseReportQuery({...base, cursor: {at: "5", id: "l1"}});
+      assert.deepStrictEqual(q.cursor, {at: 5, id: "l1", field: "capturedAt"});
+      const legacy = parseReportQuery({
+        ...base, cursor: {at: 5, id: "l1", field: "createdAt"},
+      });
+      assert.strictEqual(legacy.cursor.field, "createdAt");
+    });
+  });
+
+  describe("logRow", () => {
+    it("turns timestamps into millis", () => {
+      const ts = {toMillis: () => 42};
+      const row = logRow("l1", {chillerId: "c1", tempC: 3, createdAt: ts});
+      assert.strictEqual(row.createdAt, 42);
+      assert.strictEqual(row.capturedAt, null);
+      assert.strictEqual(row.status, "ok");
+      assert.strictEqual(row.recheckOf, null);
+    });
+  });
+
+  describe("aggregateDaily", () => {
+    const at = (iso) => Date.parse(iso);
+
+    it("groups by chiller and local day", () => {
+      const days = aggregateDaily([
+        {chillerId: "c1", at: at("2026-03-01T08:00:00Z"), tempC: 2,
+          status: "ok"},
+        {chillerId: "c1", at: at("2026-03-01T16:00:00Z"), tempC: 7,
+          status: "warning"},
+        {chillerId: "c2", at: at("2026-03-01T09:00:00Z"), tempC: 4,
+          status: "ok"},
+        {chillerId: "c1", at: at("2026-03-02T08:00:00Z"), tempC: 3,
+          status: "ok"},
+      ], "UTC");
+
+      assert.strictEqual(days.length, 3);
+      assert.deepStrictEqual(days[0], {
+        chillerId: "c1",
+        date: "2026-03-01",
+        count: 2,
+        ok: 1,
+        warning: 1,
+        damaged: 0,
+        minC: 2,
+        maxC: 7,
+        avgC: 4.5,
+      });
+      assert.strictEqual(days[1].chillerId, "c2");
+      assert.strictEqual(days[2].date, "2026-03-02");
+    });
+
+    it("cuts days in the branch's time zone", () => {
+      const days = aggregateDaily([
+        {chillerId: "c1", at: at("2026-03-01T22:00:00Z"), tempC: 2,
+          status: "ok"},
+      ], "Asia/Dubai");
+      assert.strictEqual(days[0].date, "2026-03-02");
+    });
+  });
+
+  describe("range by capture time", () => {
+    let db;
+    let restore;
+    const log = (chillerId, captured, created) => ({
+      orgId: "o1", branchId: "b1", chillerId, tempC: 3, status: "ok",
+      ...(captured ? {capturedAt: at(captured)} : {}),
+      createdAt: at(created),
+    });
+    // Monday 2026-01-05 in UTC
+    const monday = parseReportQuery({
+      ...base,
+      from: Date.parse("2026-01-05T00:00:00Z"),
+      to: Date.parse("2026-01-05T23:59:59Z"),
+    });
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        // taken Monday, synced Wednesday
+        "tempLogs/late": log("c1", "2026-01-05T09:00:00Z",
+            "2026-01-07T08:00:00Z"),
+        // taken Sunday, synced Monday
+        "tempLogs/early": log("c1", "2026-01-04T22:00:00Z",
+            "2026-01-05T06:00:00Z"),
+        "tempLogs/noon": log("c1", "2026-01-05T12:00:00Z",
+            "2026-01-05T12:00:01Z"),
+        // from before capturedAt was recorded
+        "tempLogs/old": log("c2", null, "2026-01-05T10:00:00Z"),
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    it("pages readings taken in the range, legacy logs last", async () => {
+      const first = await readPage({...monday, pageSize: 1});
+      assert.deepStrictEqual(first.rows.map((r) => r.id), ["noon"]);
+      assert.strictEqual(first.nextCursor.field, "capturedAt");
+
+      const second = await readPage({...monday, cursor: first.nextCursor});
+      assert.deepStrictEqual(second.rows.map((r) => r.id), ["late", "old"]);
+      assert.strictEqual(second.nextCursor, null);
+    });
+
+    it("moves on to the legacy logs when a pass ends on a full page",
+        async () => {
+          const first = await readPage({...monday, pageSize: 2});
+          assert.deepStrictEqual(first.rows.map((r) => r.id),
+              ["noon", "late"]);
+          assert.strictEqual(first.nextCursor.field, "createdAt");
+          db.docs.delete("tempLogs/old");
+          db.docs.set("tempLogs/old2", log("c2", null, "2026-01-05T11:00:00Z"));
+          db.docs.set("tempLogs/old1", log("c2", null, "2026-01-05T10:00:00Z"));
+
+          const second = await readPage({...monday, cursor: first.nextCursor,
+            pageSize: 2});
+          assert.deepStrictEqual(second.rows.map((r) => r.id),
+              ["old2", "old1"]);
+        });
+
+    it("summarises the same readings the rollups count", async () => {
+      const days = await scanDays(monday, "UTC");
+      assert.deepStrictEqual(
+          days.map((d) => [d.date, d.chillerId, d.count]),
+          [["2026-01-05", "c1", 2], ["2026-01-05", "c2", 1]],
+      );
+    });
+  });
+});
@@ -0,0 +1,486 @@
+// functions/test/rules.spec.js
+// Runs against the Firestore + Storage emulators: `npm test` (emulators:exec)
+// or `npm run test:only` when `firebase emulators:start` is already running.
+const fs = require("fs");
+const path = require("path");
+const {
+  initializeTestEnvironment,
+  assertFails,
+  assertSucceeds,
+} = require("@firebase/rules-unit-testing");
+
+const PROJECT_ID = "demo-tempmonitor";
+const ROOT = path.join(__dirname, "..", "..");
+
+const ADMIN = "admin-uid";
+const MANAGER = "manager-uid";
+const STAFF = "staff-uid";
+const OUTSIDER = "outsider-uid";
+
+let env;
+
+const reading = (overrides = {}) => ({
+  orgId: "org1",
+  chillerId: "c1",
+  branchId: "b1",
+  tempC: 3.5,
+  humidity: null,
+  status: "ok",
+  note: "",
+  photoUrl: null,
+  photoPath: null,
+  createdBy: STAFF,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const db = (uid) => env.authenticatedContext(uid).firestore();
+const bucket = (uid) => env.authenticatedContext(uid).storage();
+
+const seed = () => env.withSecurityRulesDisabled(async (ctx) => {
+  const fdb = ctx.firestore();
+
+  await fdb.doc("orgs/org1").set({
+    name: "Kitchen Co",
+    memberIds: [ADMIN, MANAGER, STAFF],
+    members: {
+      [ADMIN]: {role: "admin", branchId: null},
+      [MANAGER]: {role: "manager", branchIds: ["b1", "b3"]},
+      // single-branch membership from before branchIds
+      [STAFF]: {role: "staff", branchId: "b1"},
+    },
+  });
+  await fdb.doc("orgs/org2").set({
+    name: "Other Co",
+    memberIds: [OUTSIDER],
+    members: {[OUTSIDER]: {role: "admin", branchId: null}},
+  });
+
+  await fdb.doc("users/" + STAFF).set({uid: STAFF, name: "Sam"});
+
+  await fdb.doc("branches/b1").set({orgId: "org1", name: "Main"});
+  await fdb.doc("branches/b2").set({orgId: "org1", name: "Annex"});
+
+  await fdb.doc("chillers/c1").set({
+    orgId: "org1", branchId: "b1", name: "Walk-in", minTemp: 0, maxTemp: 5,
+  });
+  await fdb.doc("chillers/c2").set({
+    orgId: "org1", branchId: "b2", name: "Bar", minTemp: 0, maxTemp: 5,
+  });
+
+  await fdb.doc("tempLogs/l1").set(reading());
+
+  await fdb.doc("alerts/a1").set({
+    orgId: "org1", branchId: "b1", chillerId: "c1", status: "open",
+  });
+
+  await fdb.doc("correctiveActions/l1").set({
+    orgId: "org1", branchId: "b1", chillerId: "c1", logId: "l1", status: "open",
+  });
+
+  await fdb.doc("logAmendments/l1_1").set({
+    orgId: "org1", branchId: "b1", chillerId: "c1", logId: "l1", seq: 1,
+  });
+
+  await fdb.doc("missedChecks/c1_2026-01-01_0800").set({
+    orgId: "org1", branchId: "b1", chillerId: "c1", status: "missed",
+  });
+
+  await fdb.doc("dailyStats/c1_2026-01-01").set({
+    orgId: "org1", branchId: "b1", chillerId: "c1", date: "2026-01-01",
+    count: 3,
+  });
+
+  // the same kinds of records in a branch staff and manager aren't assigned to
+  await fdb.doc("tempLogs/l9").set(reading({chillerId: "c2", branchId: "b2"}));
+  await fdb.doc("logAmendments/l9_1").set({
+    orgId: "org1", branchId: "b2", chillerId: "c2", logId: "l9", seq: 1,
+  });
+  await fdb.doc("correctiveActions/l9").set({
+    orgId: "org1", branchId: "b2", chillerId: "c2", logId: "l9", status: "open",
+  });
+  await fdb.doc("alerts/a9").set({
+    orgId: "org1", branchId: "b2", chillerId: "c2", status: "open",
+  });
+  await fdb.doc("missedChecks/c2_2026-01-01_0800").set({
+    orgId: "org1", branchId: "b2", chillerId: "c2", status: "missed",
+  });
+  await fdb.doc("dailyStats/c2_2026-01-01").set({
+    orgId: "org1", branchId: "b2", chillerId: "c2", date: "2026-01-01",
+    count: 2,
+  });
+
+  await fdb.doc("reportSubscriptions/s1").set({
+    orgId: "org1", branchId: "b1", preset: "weekly", format: "pdf",
+    recipients: ["chef@example.com"], active: true,
+  });
+  await fdb.doc("reportDeliveries/s1_weekly_2026-01-05").set({
+    orgId: "org1", branchId: "b1", subscriptionId: "s1", status: "sent",
+  });
+
+  await fdb.doc("reportExports/ABCDEFGHJKMN").set({
+    orgId: "org1", branchId: "b1", rowCount: 1, hash: "00",
+  });
+});
+
+describe("security rules", () => {
+  before(async () => {
+    env = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: {
+        rules: fs.readFileSync(path.join(ROOT, "firestore.rules"), "utf8"),
+      },
+      storage: {
+        rules: fs.readFileSync(path.join(ROOT, "storage.rules"), "utf8"),
+      },
+    });
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.clearStorage();
+    await seed();
+  });
+
+  after(async () => {
+    if (env) await env.cleanup();
+  });
+
+  describe("users", () => {
+    it("lets a user read and rename their own profile", async () => {
+      await assertSucceeds(db(STAFF).doc("users/" + STAFF).get());
+      await assertSucceeds(
+          db(STAFF).doc("users/" + STAFF).update({name: "Samantha"}),
+      );
+    });
+
+    it("hides other profiles", async () => {
+      await assertFails(db(STAFF).doc("users/" + ADMIN).get());
+    });
+
+    it("creates a profile without privileged fields", async () => {
+      await assertSucceeds(
+          db(ADMIN).doc("users/" + ADMIN).set({uid: ADMIN, name: "Ada"}),
+      );
+      await assertFails(
+          db(OUTSIDER).doc("users/" + OUTSIDER)
+              .set({uid: OUTSIDER, name: "Eve", role: "admin"}),
+      );
+    });
+
+    it("blocks self-promotion and deactivation changes", async () => {
+      const ref = db(STAFF).doc("users/" + STAFF);
+      await assertFails(ref.update({role: "admin"}));
+      await assertFails(ref.update({isActive: false}));
+    });
+
+    it("only allows switching to an org the user belongs to", async () => {
+      const ref = db(STAFF).doc("users/" + STAFF);
+      await assertSucceeds(ref.update({activeOrgId: "org1"}));
+      await assertFails(ref.update({activeOrgId: "org2"}));
+    });
+
+    it("stores push tokens and notification categories", async () => {
+      const ref = db(STAFF).doc("users/" + STAFF);
+      await assertSucceeds(ref.update({
+        pushTokens: ["ExponentPushToken[abc]"],
+        notifyPrefs: {excursions: true, missed: false},
+      }));
+      await assertFails(ref.update({pushTokens: "ExponentPushToken[abc]"}));
+      await assertFails(ref.update({
+        pushTokens: Array.from({length: 11}, (_, i) => `t${i}`),
+      }));
+    });
+  });
+
+  describe("orgs", () => {
+    it("is readable by members only", async () => {
+      await assertSucceeds(db(STAFF).doc("orgs/org1").get());
+      await assertFails(db(OUTSIDER).doc("orgs/org1").get());
+    });
+
+    it("is never written from the client", async () => {
+      await assertFails(db(ADMIN).doc("orgs/org1").update({name: "Renamed"}));
+      await assertFails(db(OUTSIDER).doc("orgs/org3").set({
+        name: "Mine",
+        memberIds: [OUTSIDER],
+        members: {[OUTSIDER]: {role: "admin"}},
+      }));
+    });
+  });
+
+  describe("branches", () => {
+    it("is readable by org members only", async () => {
+      await assertSucceeds(db(STAFF).doc("branches/b2").get());
+      await assertSucceeds(
+          db(STAFF).collection("branches").where("orgId", "==", "org1").get(),
+      );
+      await assertFails(db(OUTSIDER).doc("branches/b1").get());
+    });
+
+    it("is managed by admins only", async () => {
+      await assertSucceeds(
+          db(ADMIN).doc("branches/b3").set({orgId: "org1", name: "New"}),
+      );
+      await assertFails(
+          db(MANAGER).doc("branches/b4").set({orgId: "org1", name: "New"}),
+      );
+      await assertFails(db(STAFF).doc("branches/b1").update({name: "X"}));
+      await assertFails(db(OUTSIDER).doc("branches/b1").delete());
+    });
+
+    it("can't be moved to another org", async () => {
+      await assertFails(db(ADMIN).doc("branches/b1").update({orgId: "org2"}));
+    });
+  });
+
+  describe("chillers", () => {
+    it("lets managers manage chillers in their own branch", async () => {
+      await assertSucceeds(db(MANAGER).doc("chillers/c3").set({
+        orgId: "org1", branchId: "b1", name: "Reach-in",
+      }));
+      await assertSucceeds(db(MANAGER).doc("chillers/c1").update({maxTemp: 4}));
+    });
+
+    it("covers every branch a manager is assigned to", async () => {
+      await assertSucceeds(db(MANAGER).doc("chillers/c5").set({
+        orgId: "org1", branchId: "b3", name: "Freezer",
+      }));
+    });
+
+    it("keeps managers out of other branches", async () => {
+      await assertFails(db(MANAGER).doc("chillers/c4").set({
+        orgId: "org1", branchId: "b2", name: "Reach-in",
+      }));
+      await assertFails(db(MANAGER).doc("chillers/c2").update({maxTemp: 4}));
+      await assertFails(
+          db(MANAGER).doc("chillers/c1").update({branchId: "b2"}),
+      );
+    });
+
+    it("doesn't let staff edit settings", async () => {
+      await assertFails(db(STAFF).doc("chillers/c1").update({maxTemp: 10}));
+    });
+
+    it("leaves lastReading to the submitReading function", async () => {
+      const lastReading = {tempC: 3, status: "ok", by: STAFF};
+      await assertFails(db(STAFF).doc("chillers/c1").update({lastReading}));
+      await assertFails(db(ADMIN).doc("chillers/c1").update({lastReading}));
+    });
+
+    it("is invisible to other orgs", async () => {
+      await assertFails(db(OUTSIDER).doc("chillers/c1").get());
+    });
+  });
+
+  describe("tempLogs", () => {
+    it("can't be written by clients", async () => {
+      await assertFails(db(STAFF).doc("tempLogs/l2").set(reading()));
+      await assertFails(
+          db(ADMIN).doc("tempLogs/l3").set(reading({createdBy: ADMIN})),
+      );
+    });
+
+    it("is immutable, even for admins", async () => {
+      await assertFails(db(STAFF).doc("tempLogs/l1").update({tempC: 4}));
+      await assertFails(db(ADMIN).doc("tempLogs/l1").update({note: "fixed"}));
+      await assertFails(db(ADMIN).doc("tempLogs/l1").delete());
+    });
+
+    it("is readable by org members only", async () => {
+      await assertSucceeds(
+          db(MANAGER).collection("tempLogs")
+              .where("orgId", "==", "org1")
+              .where("branchId", "==", "b1")
+              .where("chillerId", "==", "c1")
+              .get(),
+      );
+      await assertFails(db(OUTSIDER).doc("tempLogs/l1").get());
+      await assertFails(
+          db(OUTSIDER).collection("tempLogs")
+              .where("orgId", "==", "org1")
+              .get(),
+      );
+    });
+  });
+
+  describe("logAmendments", () => {
+    it("is readable by org members and written by functions only", async () => {
+      await assertSucceeds(db(STAFF).doc("logAmendments/l1_1").get());
+      await assertFails(db(OUTSIDER).doc("logAmendments/l1_1").get());
+      await assertFails(db(ADMIN).doc("logAmendments/l1_2").set({
+        orgId: "org1", logId: "l1", seq: 2,
+      }));
+      await assertFails(db(ADMIN).doc("logAmendments/l1_1").delete());
+    });
+  });
+
+  describe("correctiveActions", () => {
+    it("is readable by org members and written by functions only", async () => {
+      const id = "correctiveActions/l1";
+      await assertSucceeds(db(STAFF).doc(id).get());
+      await assertFails(db(OUTSIDER).doc(id).get());
+      await assertFails(db(STAFF).doc(id).update({status: "closed"}));
+      await assertFails(db(ADMIN).doc(id).delete());
+    });
+  });
+
+  describe("alerts", () => {
+    it("is readable by org members and written by functions only", async () => {
+      await assertSucceeds(db(STAFF).doc("alerts/a1").get());
+      await assertFails(db(OUTSIDER).doc("alerts/a1").get());
+      await assertFails(
+          db(ADMIN).doc("alerts/a1").update({status: "resolved"}),
+      );
+      await assertFails(db(ADMIN).doc("alerts/a2").set({orgId: "org1"}));
+    });
+  });
+
+  describe("missedChecks", () => {
+    const id = "missedChecks/c1_2026-01-01_0800";
+
+    it("is readable by org members and written by functions only", async () => {
+      await assertSucceeds(db(STAFF).doc(id).get());
+      await assertFails(db(OUTSIDER).doc(id).get());
+      await assertFails(db(ADMIN).doc(id).update({status: "cleared"}));
+      await assertFails(db(ADMIN).doc(id).delete());
+    });
+  });
+
+  describe("dailyStats", () => {
+    const id = "dailyStats/c1_2026-01-01";
+
+    it("is readable by org members and written by functions only", async () => {
+      await assertSucceeds(db(STAFF).doc(id).get());
+      await assertFails(db(OUTSIDER).doc(id).get());
+      await assertFails(db(ADMIN).doc(id).update({count: 0}));
+      await assertFails(db(STAFF).doc("dailyStats/c1_2026-01-02").set({
+        orgId: "org1", branchId: "b1", chillerId: "c1", count: 1,
+      }));
+    });
+  });
+
+  describe("reading data in other branches", () => {
+    const other = [
+      "tempLogs/l9",
+      "logAmendments/l9_1",
+      "correctiveActions/l9",
+      "alerts/a9",
+      "missedChecks/c2_2026-01-01_0800",
+      "dailyStats/c2_2026-01-01",
+    ];
+
+    it("is hidden from staff and managers not assigned there", async () => {
+      for (const id of other) {
+        await assertFails(db(STAFF).doc(id).get());
+        await assertFails(db(MANAGER).doc(id).get());
+      }
+    });
+
+    it("is readable by admins", async () => {
+      for (const id of other) {
+        await assertSucceeds(db(ADMIN).doc(id).get());
+      }
+    });
+
+    it("needs non-admin queries to filter on their branches", async () => {
+      await assertFails(
+          db(STAFF).collection("tempLogs")
+              .where("orgId", "==", "org1")
+              .get(),
+      );
+      await assertFails(
+          db(STAFF).collection("dailyStats")
+              .where("orgId", "==", "org1")
+              .where("branchId", "==", "b2")
+              .get(),
+      );
+      await assertSucceeds(
+          db(STAFF).collection("missedChecks")
+              .where("orgId", "==", "org1")
+              .where("branchId", "==", "b1")
+              .get(),
+      );
+      await assertSucceeds(
+          db(MANAGER).collection("dailyStats")
+              .where("orgId", "==", "org1")
+              .where("branchId", "in", ["b1", "b3"])
+              .get(),
+      );
+      await assertSucceeds(
+          db(ADMIN).collection("tempLogs")
+              .where("orgId", "==", "org1")
+              .get(),
+      );
+    });
+  });
+
+  describe("report subscriptions", () => {
+    const sub = "reportSubscriptions/s1";
+    const sent = "reportDeliveries/s1_weekly_2026-01-05";
+
+    it("are readable by the branch's managers and admins", async () => {
+      await assertSucceeds(db(ADMIN).doc(sub).get());
+      await assertSucceeds(db(MANAGER).doc(sub).get());
+      await assertSucceeds(db(MANAGER).doc(sent).get());
+      await assertFails(db(STAFF).doc(sub).get());
+      await assertFails(db(STAFF).doc(sent).get());
+      await assertFails(db(OUTSIDER).doc(sub).get());
+    });
+
+    it("are written by functions only", async () => {
+      await assertFails(db(ADMIN).doc(sub).update({recipients: []}));
+      await assertFails(db(MANAGER).doc("reportSubscriptions/s2").set({
+        orgId: "org1", branchId: "b1", preset: "daily", active: true,
+      }));
+      await assertFails(db(ADMIN).doc(sent).delete());
+    });
+  });
+
+  describe("reportExports", () => {
+    const id = "reportExports/ABCDEFGHJKMN";
+
+    it("are readable in the branch and never editable", async () => {
+      await assertSucceeds(db(STAFF).doc(id).get());
+      await assertFails(db(OUTSIDER).doc(id).get());
+      await assertFails(db(ADMIN).doc(id).update({hash: "11"}));
+      await assertFails(db(STAFF).doc("reportExports/ZZZZZZZZZZZZ").set({
+        orgId: "org1", branchId: "b1", rowCount: 0, hash: "00",
+      }));
+    });
+  });
+
+  describe("storage: reading photos", () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+    const upload = (uid, filePath, contentType = "image/jpeg") =>
+      bucket(uid).ref(filePath).put(jpeg, {contentType}).then((s) => s);
+
+    it("lets a member upload to their own folder", async () => {
+      await assertSucceeds(upload(STAFF, `tempLogs/c1/${STAFF}/1.jpg`));
+    });
+
+    it("rejects uploads into someone else's folder", async () => {
+      await assertFails(upload(STAFF, `tempLogs/c1/${ADMIN}/1.jpg`));
+    });
+
+    it("rejects non-images and outsiders", async () => {
+      await assertFails(
+          upload(STAFF, `tempLogs/c1/${STAFF}/1.txt`, "text/plain"),
+      );
+      await assertFails(upload(OUTSIDER, `tempLogs/c1/${OUTSIDER}/1.jpg`));
+    });
+
+    it("keeps photos readable by members and never deletable", async () => {
+      await env.withSecurityRulesDisabled((ctx) =>
+        ctx.storage().ref(`tempLogs/c1/${STAFF}/1.jpg`)
+            .put(jpeg, {contentType: "image/jpeg"}).then(() => null),
+      );
+
+      const filePath = `tempLogs/c1/${STAFF}/1.jpg`;
+      await assertSucceeds(bucket(MANAGER).ref(filePath).getMetadata());
+      await assertFails(bucket(OUTSIDER).ref(filePath).getMetadata());
+      await assertFails(bucket(STAFF).ref(filePath).delete());
+      await assertFails(upload(STAFF, filePath));
+    });
+  });
+});
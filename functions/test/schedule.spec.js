@@ -0,0 +1,81 @@
+// functions/test/schedule.spec.js
+const assert = require("assert");
+const {
+  normalizeSchedule,
+  localToUtc,
+  localDate,
+  dueSlots,
+} = require("../src/schedule");
+
+describe("schedule", () => {
+  describe("normalizeSchedule", () => {
+    it("cleans, de-duplicates and sorts times", () => {
+      assert.deepStrictEqual(
+          normalizeSchedule({times: ["14:30", "8:00", "0800", "nope"]}),
+          {times: ["08:00", "14:30"], graceMinutes: 60},
+      );
+    });
+
+    it("returns null without usable times", () => {
+      assert.strictEqual(normalizeSchedule(null), null);
+      assert.strictEqual(normalizeSchedule({times: ["25:00"]}), null);
+    });
+  });
+
+  describe("time zones", () => {
+    it("converts local wall-clock time to UTC", () => {
+      const utc = localToUtc("2026-01-15", "08:00", "America/New_York");
+      assert.strictEqual(utc, Date.parse("2026-01-15T13:00:00Z"));
+    });
+
+    it("follows daylight saving time", () => {
+      const utc = localToUtc("2026-07-15", "08:00", "America/New_York");
+      assert.strictEqual(utc, Date.parse("2026-07-15T12:00:00Z"));
+    });
+
+    it("reports the local calendar date", () => {
+      const ms = Date.parse("2026-01-15T23:30:00Z");
+      assert.strictEqual(localDate(ms, "Asia/Tokyo"), "2026-01-16");
+      assert.strictEqual(localDate(ms, "UTC"), "2026-01-15");
+    });
+  });
+
+  describe("dueSlots", () => {
+    const schedule = {times: ["08:00", "20:00"], graceMinutes: 30};
+
+    it("lists slots whose grace window closed in the range", () => {
+      const from = Date.parse("2026-01-15T08:00:00Z");
+      const to = Date.parse("2026-01-15T09:00:00Z");
+      const slots = dueSlots(schedule, "UTC", from, to);
+
+      assert.strictEqual(slots.length, 1);
+      assert.strictEqual(slots[0].date, "2026-01-15");
+      assert.strictEqual(slots[0].time, "08:00");
+      assert.strictEqual(slots[0].deadline, Date.parse("2026-01-15T08:30:00Z"));
+      assert.strictEqual(slots[0].opensAt, Date.parse("2026-01-15T07:30:00Z"));
+    });
+
+    it("skips slots still inside their grace window", () => {
+      const from = Date.parse("2026-01-15T07:00:00Z");
+      const to = Date.parse("2026-01-15T08:15:00Z");
+      assert.deepStrictEqual(dueSlots(schedule, "UTC", from, to), []);
+    });
+
+    it("uses the branch time zone across midnight", () => {
+      // 20:00 in Sydney (UTC+11 in January) is 09:00 UTC
+      const from = Date.parse("2026-01-15T09:00:00Z");
+      const to = Date.parse("2026-01-15T10:00:00Z");
+      const slots = dueSlots(schedule, "Australia/Sydney", from, to);
+
+      assert.strictEqual(slots.length, 1);
+      assert.strictEqual(slots[0].date, "2026-01-15");
+      assert.strictEqual(slots[0].time, "20:00");
+    });
+
+    it("falls back to UTC for an unknown zone", () => {
+      const from = Date.parse("2026-01-15T08:00:00Z");
+      const to = Date.parse("2026-01-15T09:00:00Z");
+      assert.strictEqual(dueSlots(schedule, "Mars/Base", from, to).length, 1);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// functions/test/staff.spec.js
+const assert = require("assert");
+const {parseStaffInput, isManagedBy} = require("../src/staff");
+
+const valid = {
+  orgId: "org1",
+  email: " Sam@Example.com ",
+  password: "secret1",
+  name: " Sam ",
+  branchId: "b1",
+};
+
+describe("staff", () => {
+  describe("parseStaffInput", () => {
+    it("normalizes the account fields", () => {
+      const s = parseStaffInput(valid);
+      assert.strictEqual(s.email, "sam@example.com");
+      assert.strictEqual(s.name, "Sam");
+      assert.strictEqual(s.role, "staff");
+      assert.deepStrictEqual(s.branchIds, ["b1"]);
+    });
+
+    it("takes several branches", () => {
+      const s = parseStaffInput({...valid, branchIds: ["b1", "b2", "b1"]});
+      assert.deepStrictEqual(s.branchIds, ["b1", "b2"]);
+    });
+
+    it("accepts the branch as defaultBranchId from older apps", () => {
+      const {branchId, ...rest} = valid;
+      assert.strictEqual(branchId, "b1");
+      const s = parseStaffInput({...rest, defaultBranchId: "b2"});
+      assert.deepStrictEqual(s.branchIds, ["b2"]);
+      assert.deepStrictEqual(parseStaffInput(rest).branchIds, []);
+    });
+
+    it("only creates managers or staff", () => {
+      assert.strictEqual(parseStaffInput({...valid, role: "manager"}).role,
+          "manager");
+      assert.strictEqual(parseStaffInput({...valid, role: "admin"}).role,
+          "staff");
+    });
+
+    it("rejects missing fields and short passwords", () => {
+      const code = {code: "invalid-argument"};
+      assert.throws(() => parseStaffInput({...valid, orgId: ""}), code);
+      assert.throws(() => parseStaffInput({...valid, name: " "}), code);
+      assert.throws(() => parseStaffInput({...valid, password: "12345"}),
+          code);
+      assert.throws(() => parseStaffInput({...valid, branchId: "a/b"}), code);
+    });
+  });
+
+  describe("isManagedBy", () => {
+    const org = {members: {boss: {role: "admin"}, mgr: {role: "manager"}}};
+
+    it("trusts createdInOrg when present", () => {
+      assert.strictEqual(isManagedBy({createdInOrg: "org1"}, "org1", org),
+          true);
+      assert.strictEqual(
+          isManagedBy({createdInOrg: "org2", createdBy: "boss"}, "org1", org),
+          false);
+    });
+
+    it("falls back to an admin of the org as creator", () => {
+      assert.strictEqual(isManagedBy({createdBy: "boss"}, "org1", org), true);
+      assert.strictEqual(isManagedBy({createdBy: "mgr"}, "org1", org), false);
+      assert.strictEqual(isManagedBy({}, "org1", org), false);
+      assert.strictEqual(isManagedBy(null, "org1", org), false);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+// functions/test/subscriptions.spec.js
+const assert = require("assert");
+const {
+  parseSubscription,
+  periodFor,
+  chillerSummary,
+  reportCsv,
+  reportPdf,
+  runSubscriptions,
+} = require("../src/subscriptions");
+const {setMailTransport} = require("../src/notify");
+const {FakeFirestore, useFakeFirestore} = require("./fakeFirestore");
+
+const valid = {
+  orgId: "org1",
+  branchId: "b1",
+  preset: "weekly",
+  format: "pdf",
+  recipients: ["Chef@Example.com", "chef@example.com ", "gm@example.com"],
+};
+
+describe("subscriptions", () => {
+  describe("parseSubscription", () => {
+    it("cleans recipients and fills a default name", () => {
+      const s = parseSubscription(valid);
+      assert.deepStrictEqual(s.recipients,
+          ["chef@example.com", "gm@example.com"]);
+      assert.strictEqual(s.name, "Weekly report");
+      assert.strictEqual(s.active, true);
+      assert.strictEqual(s.id, null);
+    });
+
+    it("rejects bad presets, formats and addresses", () => {
+      const code = {code: "invalid-argument"};
+      assert.throws(() => parseSubscription({...valid, preset: "hourly"}),
+          code);
+      assert.throws(() => parseSubscription({...valid, format: "xlsx"}), code);
+      assert.throws(() => parseSubscription({...valid, recipients: []}), code);
+      assert.throws(() => parseSubscription({...valid, recipients: ["chef"]}),
+          code);
+      assert.throws(() => parseSubscription({...valid, branchId: ""}), code);
+      const many = Array.from({length: 11}, (_, i) => `u${i}@example.com`);
+      assert.throws(() => parseSubscription({...valid, recipients: many}),
+          code);
+    });
+  });
+
+  describe("periodFor", () => {
+    const at = (iso) => Date.parse(iso);
+
+    it("sends yesterday once the send hour has passed", () => {
+      const early = periodFor("daily", at("2026-01-07T05:00:00Z"),
+          "Europe/London");
+      assert.strictEqual(early.key, "daily:2026-01-05");
+
+      const p = periodFor("daily", at("2026-01-07T07:00:00Z"),
+          "Europe/London");
+      assert.strictEqual(p.key, "daily:2026-01-06");
+      assert.strictEqual(p.from, "2026-01-06");
+      assert.strictEqual(p.to, "2026-01-06");
+      assert.strictEqual(p.fromMs, at("2026-01-06T00:00:00Z"));
+      assert.strictEqual(p.toMs, at("2026-01-07T00:00:00Z") - 1);
+    });
+
+    it("covers the previous Monday to Sunday", () => {
+      const p = periodFor("weekly", at("2026-01-07T12:00:00Z"), "UTC");
+      assert.strictEqual(p.from, "2025-12-29");
+      assert.strictEqual(p.to, "2026-01-04");
+      assert.strictEqual(p.key, "weekly:2025-12-29");
+
+      // Monday before the send hour: still the week before
+      const monday = periodFor("weekly", at("2026-01-05T05:00:00Z"), "UTC");
+      assert.strictEqual(monday.from, "2025-12-22");
+      assert.strictEqual(monday.to, "2025-12-28");
+    });
+
+    it("covers the previous calendar month", () => {
+      const p = periodFor("monthly", at("2026-02-01T07:00:00Z"), "UTC");
+      assert.strictEqual(p.from, "2026-01-01");
+      assert.strictEqual(p.to, "2026-01-31");
+      assert.strictEqual(p.key, "monthly:2026-01");
+
+      const early = periodFor("monthly", at("2026-02-01T05:00:00Z"), "UTC");
+      assert.strictEqual(early.key, "monthly:2025-12");
+      assert.strictEqual(early.to, "2025-12-31");
+    });
+
+    it("uses the branch's local days", () => {
+      // 07:00 on Jan 7 in Sydney (UTC+11)
+      const p = periodFor("daily", at("2026-01-06T20:00:00Z"),
+          "Australia/Sydney");
+      assert.strictEqual(p.from, "2026-01-06");
+      assert.strictEqual(p.fromMs, at("2026-01-05T13:00:00Z"));
+    });
+  });
+
+  const rows = [
+    {chillerId: "c1", at: 2000, tempC: 4, humidity: null, status: "ok",
+      note: "", amended: false},
+    {chillerId: "c1", at: 1000, tempC: 9.5, humidity: 60, status: "warning",
+      note: "door, left open", amended: true},
+    {chillerId: "c2", at: 3000, tempC: 2, humidity: null, status: "ok",
+      note: "", amended: false},
+  ];
+  const missed = [{chillerId: "c2", at: 1500, time: "08:00"}];
+  const chillerName = (id) => ({c1: "Walk-in", c2: "Bar"})[id] || id;
+
+  describe("chillerSummary", () => {
+    it("totals readings and missed checks per chiller", () => {
+      const byId = Object.fromEntries(
+          chillerSummary(rows, missed).map((c) => [c.chillerId, c]));
+      assert.strictEqual(byId.c1.count, 2);
+      assert.strictEqual(byId.c1.excursions, 1);
+      assert.strictEqual(byId.c1.minC, 4);
+      assert.strictEqual(byId.c1.maxC, 9.5);
+      assert.strictEqual(byId.c1.avgC, 6.8);
+      assert.strictEqual(byId.c1.compliance, 0.5);
+      assert.strictEqual(byId.c2.missed, 1);
+      assert.strictEqual(byId.c2.compliance, 0.5);
+    });
+  });
+
+  describe("reportCsv", () => {
+    it("lists readings and missed checks oldest first", () => {
+      const lines = reportCsv({rows, missed, tz: "UTC", chillerName})
+          .split("\n");
+      assert.strictEqual(lines.length, 5);
+      assert.match(lines[0], /^DateTime,Chiller,TempC/);
+      assert.strictEqual(lines[1],
+          "1970-01-01 00:00,Walk-in,9.5,60,warning,\"door, left open\",yes");
+      assert.match(lines[2], /,Bar,,,missed,No reading for the 08:00 check,$/);
+      assert.match(lines[4], /,Bar,2,,ok,,$/);
+    });
+  });
+
+  describe("reportPdf", () => {
+    it("renders a PDF with the summary and readings", () => {
+      const pdf = reportPdf({
+        title: "Temperature Report - Main",
+        meta: ["Period: 2026-01-05"],
+        rows,
+        missed,
+        tz: "UTC",
+        chillerName,
+      }).toString("latin1");
+      assert.ok(pdf.startsWith("%PDF-1.4"));
+      assert.ok(pdf.includes("(Summary) Tj"));
+      assert.ok(pdf.includes("MISSED"));
+      assert.ok(pdf.includes("WARNING *"));
+    });
+  });
+
+  describe("runSubscriptions", () => {
+    let db;
+    let restore;
+    const now = Date.parse("2026-01-07T07:00:00Z");
+
+    beforeEach(() => {
+      db = new FakeFirestore({
+        "branches/b1": {orgId: "org1", name: "Main", timezone: "UTC"},
+        "reportSubscriptions/s1": {
+          ...valid,
+          preset: "daily",
+          name: "Daily",
+          recipients: ["chef@example.com"],
+          active: true,
+          lastPeriodKey: "daily:2026-01-05",
+        },
+      });
+      restore = useFakeFirestore(db);
+    });
+
+    afterEach(() => restore());
+
+    it("records a failed delivery and releases the period", async () => {
+      db.failing.add("logAmendments");
+
+      assert.strictEqual(await runSubscriptions(now), 0);
+
+      const d = db.docs.get("reportDeliveries/s1_daily_2026-01-06");
+      assert.strictEqual(d.status, "failed");
+      assert.strictEqual(d.failed, 1);
+      assert.match(d.error, /unavailable/);
+
+      // next run sees the period as not sent yet
+      const sub = db.docs.get("reportSubscriptions/s1");
+      assert.strictEqual(sub.lastPeriodKey, "daily:2026-01-05");
+      assert.strictEqual(sub.lastStatus, "failed");
+    });
+
+    it("releases the period when no recipient could be mailed", async () => {
+      setMailTransport(async () => {
+        throw new Error("smtp down");
+      });
+      try {
+        assert.strictEqual(await runSubscriptions(now), 0);
+      } finally {
+        setMailTransport(null);
+      }
+
+      const d = db.docs.get("reportDeliveries/s1_daily_2026-01-06");
+      assert.strictEqual(d.status, "failed");
+      assert.match(d.error, /could not be sent/);
+      const sub = db.docs.get("reportSubscriptions/s1");
+      assert.strictEqual(sub.lastPeriodKey, "daily:2026-01-05");
+      assert.strictEqual(sub.lastStatus, "failed");
+    });
+
+    it("keeps the period once the report went out", async () => {
+      const sent = [];
+      setMailTransport(async (mail) => {
+        sent.push(mail.to);
+        return {id: "m1"};
+      });
+      try {
+        assert.strictEqual(await runSubscriptions(now), 1);
+      } finally {
+        setMailTransport(null);
+      }
+
+      assert.deepStrictEqual(sent, ["chef@example.com"]);
+      const sub = db.docs.get("reportSubscriptions/s1");
+      assert.strictEqual(sub.lastPeriodKey, "daily:2026-01-06");
+      assert.strictEqual(sub.lastStatus, "sent");
+    });
+  });
+});
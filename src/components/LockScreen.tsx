@@ -0,0 +1,245 @@
+// src/components/LockScreen.tsx
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { router } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { useAuth } from "../context/AuthContext";
+import { useAppLock } from "../context/AppLockContext";
+import { isValidPin, type DeviceUser } from "../firebase/appLock";
+
+const C = {
+  bg: "#06121F",
+  card: "rgba(255,255,255,0.06)",
+  cardBorder: "rgba(255,255,255,0.10)",
+  line: "rgba(255,255,255,0.12)",
+  text: "#F8FAFC",
+  muted: "#9CA3AF",
+  cold: "#38BDF8",
+  danger: "#FB7185",
+};
+
+/** Full-screen cover shown while the app is locked; also where shared-tablet users switch. */
+export default function LockScreen() {
+  const { user, profile, signOutUser } = useAuth();
+  const { locked, settings, deviceUsers, biometricLabel, unlockWithPin, unlockWithBiometrics, switchUser } =
+    useAppLock();
+
+  // null = unlocking as the signed-in person
+  const [target, setTarget] = useState<DeviceUser | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const promptedRef = useRef(false);
+
+  const useBiometrics = !!biometricLabel && settings.biometrics && !target;
+  const others = deviceUsers.filter((u) => u.uid !== user?.uid);
+
+  // reset each time the lock comes up, and offer Face ID / fingerprint once
+  useEffect(() => {
+    if (!locked) {
+      promptedRef.current = false;
+      return;
+    }
+    setTarget(null);
+    setPin("");
+    setError("");
+    if (biometricLabel && settings.biometrics && !promptedRef.current) {
+      promptedRef.current = true;
+      unlockWithBiometrics().catch(() => {});
+    }
+  }, [locked, biometricLabel, settings.biometrics, unlockWithBiometrics]);
+
+  const onSubmit = async () => {
+    if (!isValidPin(pin)) return setError("Enter your 4–6 digit PIN.");
+    setError("");
+    try {
+      setBusy(true);
+      if (target) {
+        await switchUser(target.uid, pin);
+      } else {
+        const res = await unlockWithPin(pin);
+        if (res.ok) return;
+        setPin("");
+        if (res.attemptsLeft > 0) {
+          setError(`Wrong PIN (${res.attemptsLeft} ${res.attemptsLeft === 1 ? "try" : "tries"} left).`);
+        } else {
+          Alert.alert("Signed out", "Too many wrong PINs. Sign in with email and password.");
+          router.replace("/(auth)/login");
+        }
+      }
+    } catch (e: any) {
+      setPin("");
+      setError(e?.message || "Could not switch user.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onPasswordLogin = async () => {
+    try {
+      await signOutUser();
+      router.replace("/(auth)/login");
+    } catch (e: any) {
+      Alert.alert("Error", e?.message || "Failed to sign out");
+    }
+  };
+
+  const pickUser = (u: DeviceUser | null) => {
+    setTarget(u);
+    setPin("");
+    setError("");
+  };
+
+  const who = target ? target.name : profile?.name || user?.email || "";
+
+  return (
+    <Modal visible={locked} animationType="fade" onRequestClose={() => {}}>
+      <KeyboardAvoidingView
+        style={{ flex: 1, backgroundColor: C.bg }}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <ScrollView
+          contentContainerStyle={{ flexGrow: 1, padding: 18, justifyContent: "center", gap: 16 }}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={{ alignItems: "center", gap: 8 }}>
+            <Ionicons name="lock-closed" size={34} color={C.cold} />
+            <Text style={{ color: C.text, fontSize: 24, fontWeight: "900" }}>
+              {target ? "Switch user" : "Locked"}
+            </Text>
+            <Text style={{ color: C.muted, textAlign: "center" }}>
+              {target ? `Enter ${target.name}'s PIN to continue as them.` : `Signed in as ${who}`}
+            </Text>
+          </View>
+
+          <View
+            style={{
+              padding: 14,
+              borderRadius: 18,
+              backgroundColor: C.card,
+              borderWidth: 1,
+              borderColor: C.cardBorder,
+              gap: 12,
+            }}
+          >
+            <TextInput
+              value={pin}
+              onChangeText={(v) => setPin(v.replace(/\D/g, ""))}
+              placeholder="PIN"
+              placeholderTextColor="rgba(156,163,175,0.7)"
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={6}
+              autoFocus={!useBiometrics}
+              onSubmitEditing={onSubmit}
+              style={{
+                borderWidth: 1,
+                borderColor: C.line,
+                borderRadius: 14,
+                paddingHorizontal: 12,
+                paddingVertical: 12,
+                backgroundColor: "rgba(0,0,0,0.18)",
+                color: C.text,
+                fontSize: 22,
+                letterSpacing: 8,
+                textAlign: "center",
+              }}
+            />
+
+            {error ? <Text style={{ color: C.danger, fontWeight: "800" }}>{error}</Text> : null}
+
+            <Pressable
+              onPress={onSubmit}
+              disabled={busy}
+              style={({ pressed }) => ({
+                borderRadius: 16,
+                paddingVertical: 14,
+                alignItems: "center",
+                backgroundColor: busy ? "rgba(56,189,248,0.7)" : C.cold,
+                opacity: pressed && !busy ? 0.92 : 1,
+              })}
+            >
+              {busy ? (
+                <ActivityIndicator color={C.bg} />
+              ) : (
+                <Text style={{ color: C.bg, fontWeight: "900", fontSize: 16 }}>{target ? "Switch" : "Unlock"}</Text>
+              )}
+            </Pressable>
+
+            {useBiometrics ? (
+              <Pressable
+                onPress={() => unlockWithBiometrics().catch(() => {})}
+                style={({ pressed }) => ({
+                  flexDirection: "row",
+                  justifyContent: "center",
+                  alignItems: "center",
+                  gap: 8,
+                  paddingVertical: 10,
+                  opacity: pressed ? 0.8 : 1,
+                })}
+              >
+                <Ionicons
+                  name={biometricLabel === "Face ID" ? "scan-outline" : "finger-print-outline"}
+                  size={18}
+                  color={C.cold}
+                />
+                <Text style={{ color: C.cold, fontWeight: "900" }}>Use {biometricLabel}</Text>
+              </Pressable>
+            ) : null}
+
+            {target ? (
+              <Pressable onPress={() => pickUser(null)} style={{ alignItems: "center", paddingVertical: 8 }}>
+                <Text style={{ color: C.muted, fontWeight: "800" }}>Back to {profile?.name || "my account"}</Text>
+              </Pressable>
+            ) : null}
+          </View>
+
+          {/* ✅ quick switch: readings after this are recorded under the person who unlocked */}
+          {!target && others.length > 0 ? (
+            <View style={{ gap: 8 }}>
+              <Text style={{ color: C.muted, fontSize: 12, fontWeight: "800" }}>Not you? Switch user</Text>
+              {others.map((u) => (
+                <Pressable
+                  key={u.uid}
+                  onPress={() => pickUser(u)}
+                  style={({ pressed }) => ({
+                    flexDirection: "row",
+                    alignItems: "center",
+                    gap: 10,
+                    padding: 12,
+                    borderRadius: 14,
+                    backgroundColor: C.card,
+                    borderWidth: 1,
+                    borderColor: C.cardBorder,
+                    opacity: pressed ? 0.85 : 1,
+                  })}
+                >
+                  <Ionicons name="person-circle-outline" size={22} color={C.muted} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: C.text, fontWeight: "900" }}>{u.name}</Text>
+                    <Text style={{ color: C.muted, fontSize: 11.5 }}>{u.email}</Text>
+                  </View>
+                </Pressable>
+              ))}
+            </View>
+          ) : null}
+
+          <Pressable onPress={onPasswordLogin} style={{ alignItems: "center", paddingVertical: 10 }}>
+            <Text style={{ color: C.muted, fontWeight: "800" }}>Sign in with email and password</Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
@@ -0,0 +1,120 @@
+// src/components/ScheduleEditor.tsx
+import React, { useState } from "react";
+import { Alert, Platform, Pressable, Text, TextInput, View } from "react-native";
+import { DEFAULT_GRACE_MINUTES, parseSlotTime, sortTimes } from "../utils/schedule";
+
+const COLORS = {
+  card: "#111827",
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  bad: "#F43F5E",
+};
+
+type Props = {
+  times: string[];
+  graceMinutes: string;
+  onChangeTimes: (next: string[]) => void;
+  onChangeGrace: (next: string) => void;
+  emptyHint?: string; // shown when no times are set (e.g. "Uses the branch schedule")
+};
+
+export default function ScheduleEditor({ times, graceMinutes, onChangeTimes, onChangeGrace, emptyHint }: Props) {
+  const [draft, setDraft] = useState("");
+
+  const addTime = () => {
+    const t = parseSlotTime(draft);
+    if (!t) {
+      Alert.alert("Validation", "Enter a time like 08:00 or 14:30.");
+      return;
+    }
+    onChangeTimes(sortTimes([...times, t]));
+    setDraft("");
+  };
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.card,
+    color: COLORS.text,
+    paddingVertical: Platform.OS === "ios" ? 11 : 9,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    fontSize: 13,
+    fontWeight: "800" as const,
+  };
+
+  return (
+    <View style={{ gap: 10 }}>
+      <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+        {times.length === 0 ? (
+          <Text style={{ color: COLORS.muted, fontSize: 12 }}>{emptyHint || "No check times yet."}</Text>
+        ) : (
+          times.map((t) => (
+            <Pressable
+              key={t}
+              onPress={() => onChangeTimes(times.filter((x) => x !== t))}
+              style={({ pressed }) => ({
+                flexDirection: "row",
+                alignItems: "center",
+                gap: 6,
+                paddingVertical: 7,
+                paddingHorizontal: 10,
+                borderRadius: 999,
+                borderWidth: 1,
+                borderColor: "rgba(56,189,248,0.35)",
+                backgroundColor: "rgba(56,189,248,0.10)",
+                opacity: pressed ? 0.8 : 1,
+              })}
+            >
+              <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>{t}</Text>
+              <Text style={{ color: COLORS.muted, fontWeight: "900", fontSize: 12 }}>✕</Text>
+            </Pressable>
+          ))
+        )}
+      </View>
+
+      <View style={{ flexDirection: "row", gap: 10 }}>
+        <TextInput
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Add time (HH:MM)"
+          placeholderTextColor={COLORS.muted2}
+          keyboardType="numbers-and-punctuation"
+          onSubmitEditing={addTime}
+          style={[inputStyle, { flex: 1 }]}
+        />
+        <Pressable
+          onPress={addTime}
+          style={({ pressed }) => ({
+            paddingHorizontal: 16,
+            justifyContent: "center",
+            borderRadius: 14,
+            borderWidth: 1,
+            borderColor: COLORS.border,
+            backgroundColor: COLORS.card,
+            opacity: pressed ? 0.85 : 1,
+          })}
+        >
+          <Text style={{ color: COLORS.text, fontWeight: "900", fontSize: 12.5 }}>+ Add</Text>
+        </Pressable>
+      </View>
+
+      <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+        <Text style={{ color: COLORS.muted, fontSize: 12, flex: 1 }}>
+          Grace window (minutes either side)
+        </Text>
+        <TextInput
+          value={graceMinutes}
+          onChangeText={(v) => onChangeGrace(v.replace(/[^0-9]/g, ""))}
+          placeholder={String(DEFAULT_GRACE_MINUTES)}
+          placeholderTextColor={COLORS.muted2}
+          keyboardType="number-pad"
+          style={[inputStyle, { width: 80, textAlign: "center" }]}
+        />
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,203 @@
+// src/components/TrendChart.tsx
+import React, { useMemo, useState } from "react";
+import { Pressable, View } from "react-native";
+import Svg, { Circle, Line, Path, Rect, Text as SvgText } from "react-native-svg";
+
+const COLORS = {
+  border: "#1F2937",
+  text: "#F8FAFC",
+  muted: "#94A3B8",
+  muted2: "#64748B",
+  good: "#38BDF8",
+  warn: "#FBBF24",
+  bad: "#F43F5E",
+  humidity: "#A78BFA",
+};
+
+export type ChartPoint = {
+  id: string;
+  at: number; // ms
+  tempC: number;
+  humidity: number | null;
+  status: "ok" | "warning" | "damaged";
+};
+
+type Props = {
+  points: ChartPoint[];
+  from: number; // ms
+  to: number; // ms
+  minTemp?: number | null;
+  maxTemp?: number | null;
+  showHumidity?: boolean;
+  selectedId?: string | null;
+  onSelect: (id: string | null) => void;
+  height?: number;
+};
+
+const PAD = { top: 10, bottom: 22, left: 34, right: 34 };
+const TAP_RADIUS = 24; // px around a point that still counts as a tap on it
+
+/** Out of the chiller's range, or flagged by whoever took the reading. */
+export function isExcursion(p: ChartPoint, minTemp?: number | null, maxTemp?: number | null) {
+  if (p.status !== "ok") return true;
+  if (minTemp != null && p.tempC < minTemp) return true;
+  if (maxTemp != null && p.tempC > maxTemp) return true;
+  return false;
+}
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function axisLabel(ms: number, span: number) {
+  const d = new Date(ms);
+  if (span <= 36 * 60 * 60 * 1000) return `${pad2(d.getHours())}:${pad2(d.getMinutes())}`;
+  return `${d.getDate()}/${d.getMonth() + 1}`;
+}
+
+export default function TrendChart({
+  points,
+  from,
+  to,
+  minTemp,
+  maxTemp,
+  showHumidity = false,
+  selectedId,
+  onSelect,
+  height = 200,
+}: Props) {
+  const [width, setWidth] = useState(0);
+
+  const sorted = useMemo(() => [...points].sort((a, b) => a.at - b.at), [points]);
+
+  // temperature axis covers every reading plus the allowed band, with a degree of headroom
+  const [lo, hi] = useMemo(() => {
+    const values = sorted.map((p) => p.tempC);
+    if (minTemp != null) values.push(minTemp);
+    if (maxTemp != null) values.push(maxTemp);
+    if (values.length === 0) return [0, 10];
+    const a = Math.floor(Math.min(...values) - 1);
+    const b = Math.ceil(Math.max(...values) + 1);
+    return a === b ? [a - 1, b + 1] : [a, b];
+  }, [sorted, minTemp, maxTemp]);
+
+  const plotW = Math.max(1, width - PAD.left - PAD.right);
+  const plotH = Math.max(1, height - PAD.top - PAD.bottom);
+  const span = Math.max(1, to - from);
+
+  const x = (ms: number) => PAD.left + ((ms - from) / span) * plotW;
+  const y = (t: number) => PAD.top + ((hi - t) / (hi - lo)) * plotH;
+  const yHum = (h: number) => PAD.top + ((100 - h) / 100) * plotH;
+
+  const tempPath = sorted.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.at).toFixed(1)},${y(p.tempC).toFixed(1)}`).join(" ");
+
+  const humPath = sorted
+    .filter((p) => p.humidity != null)
+    .map((p, i) => `${i === 0 ? "M" : "L"}${x(p.at).toFixed(1)},${yHum(p.humidity as number).toFixed(1)}`)
+    .join(" ");
+
+  const ticks = [0, 1, 2, 3, 4].map((i) => lo + ((hi - lo) * i) / 4);
+
+  const bandTop = maxTemp != null ? y(maxTemp) : PAD.top;
+  const bandBottom = minTemp != null ? y(minTemp) : PAD.top + plotH;
+  const hasBand = minTemp != null || maxTemp != null;
+
+  // nearest reading to the tap along the time axis
+  const onPress = (locationX: number) => {
+    let best: ChartPoint | null = null;
+    let bestDist = TAP_RADIUS;
+    for (const p of sorted) {
+      const d = Math.abs(x(p.at) - locationX);
+      if (d <= bestDist) {
+        best = p;
+        bestDist = d;
+      }
+    }
+    onSelect(best ? best.id : null);
+  };
+
+  return (
+    <View onLayout={(e) => setWidth(e.nativeEvent.layout.width)} style={{ height }}>
+      {width > 0 && (
+        <Pressable onPress={(e) => onPress(e.nativeEvent.locationX)} style={{ flex: 1 }}>
+          <Svg width={width} height={height}>
+            {hasBand && (
+              <Rect
+                x={PAD.left}
+                y={Math.max(PAD.top, bandTop)}
+                width={plotW}
+                height={Math.max(0, Math.min(PAD.top + plotH, bandBottom) - Math.max(PAD.top, bandTop))}
+                fill={COLORS.good}
+                opacity={0.12}
+              />
+            )}
+
+            {ticks.map((t) => (
+              <React.Fragment key={t}>
+                <Line x1={PAD.left} x2={PAD.left + plotW} y1={y(t)} y2={y(t)} stroke={COLORS.border} strokeWidth={1} />
+                <SvgText x={PAD.left - 6} y={y(t) + 3} fontSize={9} fill={COLORS.muted2} textAnchor="end">
+                  {`${Math.round(t * 10) / 10}°`}
+                </SvgText>
+              </React.Fragment>
+            ))}
+
+            {showHumidity &&
+              [0, 50, 100].map((h) => (
+                <SvgText key={h} x={PAD.left + plotW + 6} y={yHum(h) + 3} fontSize={9} fill={COLORS.humidity}>
+                  {`${h}%`}
+                </SvgText>
+              ))}
+
+            {[maxTemp, minTemp].map((limitC, i) =>
+              limitC == null ? null : (
+                <Line
+                  key={i}
+                  x1={PAD.left}
+                  x2={PAD.left + plotW}
+                  y1={y(limitC)}
+                  y2={y(limitC)}
+                  stroke={COLORS.good}
+                  strokeWidth={1}
+                  strokeDasharray="4 4"
+                  opacity={0.6}
+                />
+              ),
+            )}
+
+            {showHumidity && !!humPath && (
+              <Path d={humPath} stroke={COLORS.humidity} strokeWidth={1.5} strokeDasharray="3 3" fill="none" />
+            )}
+
+            {!!tempPath && <Path d={tempPath} stroke={COLORS.good} strokeWidth={2} fill="none" />}
+
+            {sorted.map((p) => {
+              const bad = isExcursion(p, minTemp, maxTemp);
+              const color = !bad ? COLORS.good : p.status === "damaged" ? COLORS.bad : COLORS.warn;
+              return (
+                <React.Fragment key={p.id}>
+                  {p.id === selectedId && (
+                    <Circle cx={x(p.at)} cy={y(p.tempC)} r={8} stroke={COLORS.text} strokeWidth={1.5} fill="none" />
+                  )}
+                  <Circle cx={x(p.at)} cy={y(p.tempC)} r={bad ? 4.5 : 2.5} fill={color} />
+                </React.Fragment>
+              );
+            })}
+
+            {[from, from + span / 2, to].map((ms, i) => (
+              <SvgText
+                key={i}
+                x={x(ms)}
+                y={height - 6}
+                fontSize={9}
+                fill={COLORS.muted2}
+                textAnchor={i === 0 ? "start" : i === 2 ? "end" : "middle"}
+              >
+                {axisLabel(ms, span)}
+              </SvgText>
+            ))}
+          </Svg>
+        </Pressable>
+      )}
+    </View>
+  );
+}
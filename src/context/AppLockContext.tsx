@@ -0,0 +1,266 @@
+// src/context/AppLockContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { AppState, View } from "react-native";
+import * as LocalAuthentication from "expo-local-authentication";
+import {
+  checkDevicePin,
+  DEFAULT_APP_LOCK,
+  forgetDeviceUser,
+  hasDevicePin,
+  loadAppLockSettings,
+  loadDeviceUsers,
+  registerDevicePin,
+  saveAppLockSettings,
+  switchToDeviceUser,
+  type AppLockSettings,
+  type DeviceUser,
+  type PinCheck,
+} from "../firebase/appLock";
+import { useAuth } from "./AuthContext";
+
+// how often the inactivity timer is checked while the app is open
+const TICK_MS = 15_000;
+
+type AppLockCtx = {
+  locked: boolean;
+  settings: AppLockSettings;
+  hasPin: boolean; // signed-in person registered a PIN on this device
+  deviceUsers: DeviceUser[];
+  biometricLabel: string | null; // "Face ID" / "Fingerprint"; null = not set up on this device
+
+  lockNow: () => void;
+  unlockWithPin: (pin: string) => Promise<PinCheck>; // attemptsLeft 0 => signed out, password needed
+  unlockWithBiometrics: () => Promise<boolean>;
+  switchUser: (uid: string, pin: string) => Promise<void>;
+  registerPin: (pin: string) => Promise<void>;
+  removePin: () => Promise<void>;
+  updateSettings: (patch: Partial<AppLockSettings>) => Promise<void>;
+};
+
+const Ctx = createContext<AppLockCtx>({
+  locked: false,
+  settings: DEFAULT_APP_LOCK,
+  hasPin: false,
+  deviceUsers: [],
+  biometricLabel: null,
+  lockNow: () => {},
+  unlockWithPin: async () => ({ ok: false, attemptsLeft: 0 }),
+  unlockWithBiometrics: async () => false,
+  switchUser: async () => {},
+  registerPin: async () => {},
+  removePin: async () => {},
+  updateSettings: async () => {},
+});
+
+export function AppLockProvider({ children }: { children: React.ReactNode }) {
+  const { user, profile, orgId, loading, signOutUser } = useAuth();
+
+  const [settings, setSettings] = useState<AppLockSettings>(DEFAULT_APP_LOCK);
+  const [loaded, setLoaded] = useState(false);
+  const [hasPin, setHasPin] = useState(false);
+  const [deviceUsers, setDeviceUsers] = useState<DeviceUser[]>([]);
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+  const [locked, setLocked] = useState(false);
+
+  const lastActiveRef = useRef(Date.now());
+  // the "open locked" check only applies to a session restored at launch
+  const startedLockedRef = useRef(false);
+  const bootedRef = useRef(false);
+
+  const lockActive = loaded && settings.enabled && !!user && hasPin;
+  const lockActiveRef = useRef(lockActive);
+  lockActiveRef.current = lockActive;
+  const timeoutMsRef = useRef(settings.timeoutMinutes * 60_000);
+  timeoutMsRef.current = settings.timeoutMinutes * 60_000;
+
+  const refreshUsers = useCallback(async () => {
+    setDeviceUsers(await loadDeviceUsers());
+    setHasPin(user ? await hasDevicePin(user.uid) : false);
+  }, [user]);
+
+  // load device settings + what the hardware offers once
+  useEffect(() => {
+    loadAppLockSettings().then((s) => {
+      setSettings(s);
+      setLoaded(true);
+    });
+
+    const probe = async () => {
+      const [hardware, enrolled] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+      ]);
+      if (!hardware || !enrolled) return setBiometricLabel(null);
+
+      const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+      const face = types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION);
+      setBiometricLabel(face ? "Face ID" : "Fingerprint");
+    };
+    probe().catch(() => setBiometricLabel(null));
+  }, []);
+
+  // who is signed in changed (login, logout, switch)
+  useEffect(() => {
+    lastActiveRef.current = Date.now();
+    setLocked(false);
+    refreshUsers().catch((e) => console.log("applock users error:", e));
+  }, [refreshUsers]);
+
+  // launched signed out: whoever logs in with a password next is already verified
+  useEffect(() => {
+    if (loading || bootedRef.current) return;
+    bootedRef.current = true;
+    if (!user) startedLockedRef.current = true;
+  }, [loading, user]);
+
+  // cold start: an enabled lock opens locked
+  useEffect(() => {
+    if (lockActive && !startedLockedRef.current) {
+      startedLockedRef.current = true;
+      setLocked(true);
+    }
+    if (!lockActive) setLocked(false);
+  }, [lockActive]);
+
+  const lockIfIdle = useCallback(() => {
+    if (!lockActiveRef.current) return;
+    if (Date.now() - lastActiveRef.current >= timeoutMsRef.current) setLocked(true);
+  }, []);
+
+  useEffect(() => {
+    const id = setInterval(lockIfIdle, TICK_MS);
+    return () => clearInterval(id);
+  }, [lockIfIdle]);
+
+  // background counts as idle time; coming back checks it straight away
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (s) => {
+      if (s === "active") lockIfIdle();
+    });
+    return () => sub.remove();
+  }, [lockIfIdle]);
+
+  const unlocked = useCallback(() => {
+    lastActiveRef.current = Date.now();
+    setLocked(false);
+  }, []);
+
+  const lockNow = useCallback(() => {
+    if (lockActiveRef.current) setLocked(true);
+  }, []);
+
+  const unlockWithPin = useCallback(
+    async (pin: string): Promise<PinCheck> => {
+      if (!user) return { ok: false, attemptsLeft: 0 };
+      const res = await checkDevicePin(user.uid, pin);
+      if (res.ok) unlocked();
+      // too many wrong PINs: whoever has the device now needs the password
+      else if (res.attemptsLeft === 0) await signOutUser();
+      return res;
+    },
+    [user, unlocked, signOutUser],
+  );
+
+  const unlockWithBiometrics = useCallback(async () => {
+    if (!user || !biometricLabel || !settings.biometrics) return false;
+    const res = await LocalAuthentication.authenticateAsync({
+      promptMessage: "Unlock Temperature Monitor",
+      disableDeviceFallback: true,
+      cancelLabel: "Use PIN",
+    });
+    if (res.success) unlocked();
+    return res.success;
+  }, [user, biometricLabel, settings.biometrics, unlocked]);
+
+  const switchUser = useCallback(
+    async (uid: string, pin: string) => {
+      try {
+        await switchToDeviceUser(uid, pin);
+      } finally {
+        // a failed switch may have dropped a revoked person from the list
+        setDeviceUsers(await loadDeviceUsers());
+      }
+    },
+    [],
+  );
+
+  const registerPin = useCallback(
+    async (pin: string) => {
+      if (!user || !orgId) throw new Error("Sign in first.");
+      await registerDevicePin({
+        orgId,
+        pin,
+        user: { uid: user.uid, name: profile?.name || user.email || "User", email: user.email || "" },
+      });
+      startedLockedRef.current = true;
+      await refreshUsers();
+    },
+    [user, profile?.name, orgId, refreshUsers],
+  );
+
+  const removePin = useCallback(async () => {
+    if (!user) return;
+    await forgetDeviceUser(user.uid);
+    await refreshUsers();
+  }, [user, refreshUsers]);
+
+  const updateSettings = useCallback(
+    async (patch: Partial<AppLockSettings>) => {
+      const next = { ...settings, ...patch };
+      setSettings(next);
+      lastActiveRef.current = Date.now();
+      // turning the lock on mid-session shouldn't lock straight away
+      startedLockedRef.current = true;
+      await saveAppLockSettings(next);
+    },
+    [settings],
+  );
+
+  const value = useMemo(
+    () => ({
+      locked,
+      settings,
+      hasPin,
+      deviceUsers,
+      biometricLabel,
+      lockNow,
+      unlockWithPin,
+      unlockWithBiometrics,
+      switchUser,
+      registerPin,
+      removePin,
+      updateSettings,
+    }),
+    [
+      locked,
+      settings,
+      hasPin,
+      deviceUsers,
+      biometricLabel,
+      lockNow,
+      unlockWithPin,
+      unlockWithBiometrics,
+      switchUser,
+      registerPin,
+      removePin,
+      updateSettings,
+    ],
+  );
+
+  return (
+    <Ctx.Provider value={value}>
+      {/* any touch counts as activity (capture phase, so it never blocks the tap) */}
+      <View
+        style={{ flex: 1 }}
+        onStartShouldSetResponderCapture={() => {
+          lastActiveRef.current = Date.now();
+          return false;
+        }}
+      >
+        {children}
+      </View>
+    </Ctx.Provider>
+  );
+}
+
+export const useAppLock = () => useContext(Ctx);
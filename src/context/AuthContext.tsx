@@ -2,27 +2,62 @@
 import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
 import { onAuthStateChanged, type User } from "firebase/auth";
 import {
+  collection,
   doc,
   getDoc,
+  getDocs,
+  query,
   setDoc,
   serverTimestamp,
+  where,
   type DocumentData,
 } from "firebase/firestore";
 import { auth, db } from "../firebase/firebaseConfig";
+import { ensureOrg } from "../firebase/functionsClient";
+import { normalizeNotifyPrefs, registerPushToken, unregisterPushToken, type NotifyPrefs } from "../firebase/push";
+import { can, canAccessBranch, normalizeRole, type Permission, type UserRole } from "../utils/roles";
+
+export type { UserRole } from "../utils/roles";
 
 export type UserProfile = {
   uid: string;
   name: string;
   email: string;
+  activeOrgId?: string | null;
   defaultBranchId?: string | null;
+  isActive: boolean;
+  notifyPrefs: NotifyPrefs; // push categories this user opted into
+  createdBy?: string | null;
   createdAt?: any;
   updatedAt?: any;
 };
 
+// One business; members are keyed by uid on the org doc (orgs/{orgId}.members)
+export type OrgMembership = {
+  id: string; // orgId
+  name: string;
+  role: UserRole;
+  branchIds: string[]; // assigned branches (managers/staff)
+};
+
 type AuthCtx = {
   user: User | null;
   profile: UserProfile | null;
   loading: boolean;
+
+  // organizations the user belongs to + the one the app is scoped to
+  orgs: OrgMembership[];
+  org: OrgMembership | null;
+  orgId: string | null; // scope for orgId queries
+  switchOrg: (orgId: string) => Promise<void>;
+  refreshOrgs: () => Promise<OrgMembership[]>;
+
+  // access model (derived from the active org membership)
+  role: UserRole | null;
+  branchIds: string[] | null; // null => all branches of the org
+  can: (perm: Permission) => boolean;
+  canAccessBranch: (branchId: string | null | undefined) => boolean;
+
   ensureProfile: (params?: { name?: string }) => Promise<UserProfile | null>;
   refreshProfile: () => Promise<UserProfile | null>;
   signOutUser: () => Promise<void>;
@@ -32,6 +67,15 @@ const Ctx = createContext<AuthCtx>({
   user: null,
   profile: null,
   loading: true,
+  orgs: [],
+  org: null,
+  orgId: null,
+  switchOrg: async () => {},
+  refreshOrgs: async () => [],
+  role: null,
+  branchIds: [],
+  can: () => false,
+  canAccessBranch: () => false,
   ensureProfile: async () => null,
   refreshProfile: async () => null,
   signOutUser: async () => {},
@@ -42,7 +86,11 @@ function normalizeProfile(u: User, data?: DocumentData | null, params?: { name?:
     uid: u.uid,
     name: (data?.name as string) || params?.name || u.displayName || "User",
     email: (data?.email as string) || u.email || "",
+    activeOrgId: (data?.activeOrgId as string | null) ?? null,
     defaultBranchId: (data?.defaultBranchId as string | null) ?? null,
+    isActive: data?.isActive ?? true,
+    notifyPrefs: normalizeNotifyPrefs(data?.notifyPrefs),
+    createdBy: (data?.createdBy as string | null) ?? null,
     createdAt: data?.createdAt ?? serverTimestamp(),
     updatedAt: serverTimestamp(),
   };
@@ -57,9 +105,29 @@ async function createDefaultProfile(u: User, params?: { name?: string }) {
   return data;
 }
 
+async function fetchOrgs(uid: string): Promise<OrgMembership[]> {
+  const snap = await getDocs(query(collection(db, "orgs"), where("memberIds", "array-contains", uid)));
+
+  const list: OrgMembership[] = snap.docs.map((d) => {
+    const v = d.data() as any;
+    const m = v.members?.[uid] ?? {};
+    return {
+      id: d.id,
+      name: v.name ?? "",
+      role: normalizeRole(m.role),
+      // memberships from before multi-branch assignments carry a single branchId
+      branchIds: Array.isArray(m.branchIds) ? (m.branchIds as string[]) : m.branchId ? [String(m.branchId)] : [],
+    };
+  });
+
+  list.sort((a, b) => a.name.localeCompare(b.name));
+  return list;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [orgs, setOrgs] = useState<OrgMembership[]>([]);
 
   // “boot” state: app should not hang forever
   const [loading, setLoading] = useState<boolean>(true);
@@ -117,9 +185,43 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const refreshOrgs = async (): Promise<OrgMembership[]> => {
+    const u = auth.currentUser;
+    if (!u) {
+      setOrgs([]);
+      return [];
+    }
+
+    try {
+      let list = await fetchOrgs(u.uid);
+
+      // first login after the org model shipped (or a fresh signup): create / migrate server-side
+      if (list.length === 0) {
+        await ensureOrg();
+        list = await fetchOrgs(u.uid);
+      }
+
+      setOrgs(list);
+      return list;
+    } catch (e: any) {
+      console.log("refreshOrgs error:", e?.code, e?.message);
+      setOrgs([]);
+      return [];
+    }
+  };
+
+  const switchOrg = async (orgId: string) => {
+    const u = auth.currentUser;
+    if (!u || !orgs.some((o) => o.id === orgId)) return;
+
+    setProfile((p) => (p ? { ...p, activeOrgId: orgId } : p));
+    await setDoc(doc(db, "users", u.uid), { activeOrgId: orgId, updatedAt: serverTimestamp() }, { merge: true });
+  };
+
   const signOutUser = async () => {
     // importing signOut here avoids circular imports in some setups
     const { signOut } = await import("firebase/auth");
+    if (auth.currentUser) await unregisterPushToken(auth.currentUser.uid);
     await signOut(auth);
   };
 
@@ -128,9 +230,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setLoading(true);
       setUser(u);
       setProfile(null);
+      setOrgs([]);
 
       try {
-        if (u) await refreshProfile();
+        if (u) {
+          await refreshProfile();
+          await refreshOrgs();
+
+          // don't hold the boot on the permission prompt
+          registerPushToken(u.uid);
+        }
       } finally {
         setLoading(false);
       }
@@ -140,16 +249,40 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const org = useMemo(() => {
+    if (!profile || orgs.length === 0) return null;
+    return orgs.find((o) => o.id === profile.activeOrgId) ?? orgs[0];
+  }, [profile, orgs]);
+
+  const access = useMemo(() => {
+    if (!org) {
+      return { role: null, orgId: null, branchIds: [] as string[] | null };
+    }
+
+    // admins see everything; managers/staff only their assigned branches
+    const branchIds = org.role === "admin" ? null : org.branchIds;
+
+    return { role: org.role, orgId: org.id, branchIds };
+  }, [org]);
+
   const value = useMemo(
     () => ({
       user,
       profile,
       loading,
+      orgs,
+      org,
+      switchOrg,
+      refreshOrgs,
+      ...access,
+      can: (perm: Permission) => can(access.role, perm),
+      canAccessBranch: (branchId: string | null | undefined) => canAccessBranch(access.branchIds, branchId),
       ensureProfile,
       refreshProfile,
       signOutUser,
     }),
-    [user, profile, loading],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [user, profile, loading, orgs, org, access],
   );
 
   return <Ctx.Provider value={value}>{children}</Ctx.Provider>;
@@ -0,0 +1,213 @@
+// src/context/OutboxContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { AppState } from "react-native";
+import NetInfo from "@react-native-community/netinfo";
+import { auth } from "../firebase/firebaseConfig";
+import {
+  createPendingReading,
+  isTransientError,
+  loadOutbox,
+  removeLocalPhoto,
+  replayReading,
+  saveOutbox,
+  type NewReading,
+  type PendingReading,
+} from "../firebase/outbox";
+import { useAuth } from "./AuthContext";
+
+// id = the tempLogs doc id the reading will have once synced
+// blocked = the server refused it; it waits for a retry/discard instead of syncing on its own
+type EnqueueResult = { id: string; synced: boolean; conflict: boolean; blocked: boolean; error: string | null };
+
+type OutboxCtx = {
+  items: PendingReading[];
+  pendingCount: number;
+  online: boolean;
+  syncing: boolean;
+  enqueueReading: (input: NewReading) => Promise<EnqueueResult>;
+  flush: () => Promise<void>;
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => Promise<void>;
+};
+
+const Ctx = createContext<OutboxCtx>({
+  items: [],
+  pendingCount: 0,
+  online: true,
+  syncing: false,
+  enqueueReading: async () => ({ id: "", synced: false, conflict: false, blocked: false, error: null }),
+  flush: async () => {},
+  retry: async () => {},
+  discard: async () => {},
+});
+
+export function OutboxProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+
+  const [items, setItems] = useState<PendingReading[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+
+  // source of truth for async code; state mirrors it for rendering
+  const itemsRef = useRef<PendingReading[]>([]);
+  const flushingRef = useRef<Promise<void> | null>(null);
+  const onlineRef = useRef(true);
+
+  const commit = useCallback(async (next: PendingReading[]) => {
+    itemsRef.current = next;
+    setItems(next);
+    await saveOutbox(next).catch((e) => console.log("saveOutbox error:", e));
+  }, []);
+
+  const patchItem = useCallback(
+    (next: PendingReading) => commit(itemsRef.current.map((x) => (x.id === next.id ? next : x))),
+    [commit],
+  );
+
+  const dropItem = useCallback(
+    async (id: string) => {
+      const found = itemsRef.current.find((x) => x.id === id);
+      if (found) await removeLocalPhoto(found);
+      await commit(itemsRef.current.filter((x) => x.id !== id));
+    },
+    [commit],
+  );
+
+  /** Replays one item; resolves to the error message (null when synced). */
+  const syncOne = useCallback(
+    async (item: PendingReading): Promise<{ error: string | null; conflict: boolean; blocked: boolean }> => {
+      try {
+        const done = await replayReading(item, patchItem);
+        await dropItem(done.id);
+        return { error: null, conflict: done.conflict, blocked: false };
+      } catch (e: any) {
+        const latest = itemsRef.current.find((x) => x.id === item.id) ?? item;
+        const transient = isTransientError(e);
+        await patchItem({
+          ...latest,
+          attempts: latest.attempts + 1,
+          lastError: e?.message || "Sync failed",
+          blocked: !transient,
+        });
+        console.log("outbox sync error:", e?.code, e?.message);
+        return { error: e?.message || "Sync failed", conflict: false, blocked: !transient };
+      }
+    },
+    [patchItem, dropItem],
+  );
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current) return flushingRef.current;
+
+    const run = async () => {
+      const uid = auth.currentUser?.uid;
+      if (!uid || !onlineRef.current) return;
+
+      setSyncing(true);
+      try {
+        // oldest first; stop at the first network failure (the rest would fail too)
+        const queue = [...itemsRef.current]
+          .filter((x) => !x.blocked && x.createdBy === uid)
+          .sort((a, b) => a.capturedAt - b.capturedAt);
+
+        for (const item of queue) {
+          const res = await syncOne(item);
+          const after = itemsRef.current.find((x) => x.id === item.id);
+          if (res.error && after && !after.blocked) break;
+        }
+      } finally {
+        setSyncing(false);
+      }
+    };
+
+    flushingRef.current = run().finally(() => {
+      flushingRef.current = null;
+    });
+    return flushingRef.current;
+  }, [syncOne]);
+
+  const enqueueReading = useCallback(
+    async (input: NewReading): Promise<EnqueueResult> => {
+      const item = await createPendingReading(input);
+      await commit([...itemsRef.current, item]);
+
+      if (!onlineRef.current) return { id: item.id, synced: false, conflict: false, blocked: false, error: null };
+
+      // wait for any running flush, then push this one straight away while holding the flush slot, so a
+      // NetInfo / AppState flush meanwhile waits instead of replaying the same item a second time
+      while (flushingRef.current) await flushingRef.current;
+      const pending = syncOne(item);
+      const slot: Promise<void> = pending
+        .then(() => {})
+        .finally(() => {
+          if (flushingRef.current === slot) flushingRef.current = null;
+        });
+      flushingRef.current = slot;
+      const res = await pending;
+      await slot;
+      if (!res.error) flush();
+      return { id: item.id, synced: !res.error, conflict: res.conflict, blocked: res.blocked, error: res.error };
+    },
+    [commit, syncOne, flush],
+  );
+
+  const retry = useCallback(
+    async (id: string) => {
+      const found = itemsRef.current.find((x) => x.id === id);
+      if (!found) return;
+      await patchItem({ ...found, blocked: false, lastError: null });
+      await flush();
+    },
+    [patchItem, flush],
+  );
+
+  // load persisted queue once
+  useEffect(() => {
+    loadOutbox().then((list) => {
+      itemsRef.current = list;
+      setItems(list);
+    });
+  }, []);
+
+  // connectivity: replay when signal comes back
+  useEffect(() => {
+    const unsub = NetInfo.addEventListener((state) => {
+      const next = !!state.isConnected && state.isInternetReachable !== false;
+      const cameBack = next && !onlineRef.current;
+      onlineRef.current = next;
+      setOnline(next);
+      if (cameBack) flush();
+    });
+    return () => unsub();
+  }, [flush]);
+
+  // foreground + login are good moments to retry too
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (s) => {
+      if (s === "active") flush();
+    });
+    return () => sub.remove();
+  }, [flush]);
+
+  useEffect(() => {
+    if (user) flush();
+  }, [user, flush]);
+
+  const value = useMemo(
+    () => ({
+      items,
+      pendingCount: items.length,
+      online,
+      syncing,
+      enqueueReading,
+      flush,
+      retry,
+      discard: dropItem,
+    }),
+    [items, online, syncing, enqueueReading, flush, retry, dropItem],
+  );
+
+  return <Ctx.Provider value={value}>{children}</Ctx.Provider>;
+}
+
+export const useOutbox = () => useContext(Ctx);
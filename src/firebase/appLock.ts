@@ -0,0 +1,188 @@
+// src/firebase/appLock.ts
+// Device side of the app lock: lock settings (per device, since tablets are shared) and the people who
+// registered a PIN here. Secrets live in SecureStore; the list of names is only used for the switch-user picker.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+import * as SecureStore from "expo-secure-store";
+import { signInWithCustomToken } from "firebase/auth";
+import { auth } from "./firebaseConfig";
+import { quickUnlock, registerQuickUnlock, removeQuickUnlock } from "./functionsClient";
+import { unregisterPushToken } from "./push";
+
+const SETTINGS_KEY = "applock:settings:v1";
+const DEVICE_ID_KEY = "applock.deviceId";
+const USERS_KEY = "applock.users";
+const userKey = (uid: string) => `applock.user.${uid}`;
+const failuresKey = (uid: string) => `applock.failures.${uid}`;
+
+export const LOCK_TIMEOUT_OPTIONS = [1, 2, 5, 10, 15]; // minutes
+
+// wrong PINs allowed when unlocking offline before a full login is needed (same limit as quickUnlock)
+export const MAX_PIN_FAILURES = 5;
+
+export type AppLockSettings = {
+  enabled: boolean;
+  timeoutMinutes: number;
+  biometrics: boolean; // Face ID / fingerprint unlocks the signed-in person
+};
+
+export const DEFAULT_APP_LOCK: AppLockSettings = { enabled: false, timeoutMinutes: 5, biometrics: true };
+
+// someone who can unlock / switch in on this device
+export type DeviceUser = { uid: string; name: string; email: string };
+
+// pin: plaintext from before PINs were hashed; replaced on the next correct unlock
+type StoredCredential = { secret: string; salt?: string; pinHash?: string; pin?: string };
+
+export type PinCheck = { ok: true } | { ok: false; attemptsLeft: number };
+
+export function isValidPin(pin: string) {
+  return /^\d{4,6}$/.test(pin);
+}
+
+export async function loadAppLockSettings(): Promise<AppLockSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+    const v = raw ? JSON.parse(raw) : {};
+    return {
+      enabled: v.enabled === true,
+      timeoutMinutes: LOCK_TIMEOUT_OPTIONS.includes(v.timeoutMinutes) ? v.timeoutMinutes : DEFAULT_APP_LOCK.timeoutMinutes,
+      biometrics: v.biometrics !== false,
+    };
+  } catch {
+    return DEFAULT_APP_LOCK;
+  }
+}
+
+export async function saveAppLockSettings(settings: AppLockSettings) {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/** Random id for this install; registrations are per device so a lost tablet can't unlock anyone elsewhere. */
+export async function getDeviceId() {
+  const existing = await SecureStore.getItemAsync(DEVICE_ID_KEY);
+  if (existing) return existing;
+
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  // 248 = 4 * 62: dropping bytes above it keeps every character equally likely
+  const id = Array.from(Crypto.getRandomBytes(48))
+    .filter((b) => b < 248)
+    .slice(0, 32)
+    .map((b) => chars[b % chars.length])
+    .join("");
+  await SecureStore.setItemAsync(DEVICE_ID_KEY, id);
+  return id;
+}
+
+export async function loadDeviceUsers(): Promise<DeviceUser[]> {
+  try {
+    const raw = await SecureStore.getItemAsync(USERS_KEY);
+    const list = raw ? (JSON.parse(raw) as DeviceUser[]) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveDeviceUsers(list: DeviceUser[]) {
+  await SecureStore.setItemAsync(USERS_KEY, JSON.stringify(list));
+}
+
+async function loadCredential(uid: string): Promise<StoredCredential | null> {
+  const raw = await SecureStore.getItemAsync(userKey(uid));
+  return raw ? (JSON.parse(raw) as StoredCredential) : null;
+}
+
+function hashPin(pin: string, salt: string) {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+async function saveCredential(uid: string, secret: string, pin: string) {
+  const salt = Array.from(Crypto.getRandomBytes(16), (b) => b.toString(16).padStart(2, "0")).join("");
+  const cred: StoredCredential = { secret, salt, pinHash: await hashPin(pin, salt) };
+  await SecureStore.setItemAsync(userKey(uid), JSON.stringify(cred));
+}
+
+async function loadFailures(uid: string) {
+  const n = Number(await SecureStore.getItemAsync(failuresKey(uid)));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+async function dropLocalCredential(uid: string) {
+  await SecureStore.deleteItemAsync(userKey(uid));
+  await SecureStore.deleteItemAsync(failuresKey(uid));
+  await saveDeviceUsers((await loadDeviceUsers()).filter((u) => u.uid !== uid));
+}
+
+/** Registers (or changes) the signed-in person's PIN on this device. */
+export async function registerDevicePin(input: { orgId: string; pin: string; user: DeviceUser }) {
+  const deviceId = await getDeviceId();
+  const { secret } = await registerQuickUnlock({ orgId: input.orgId, deviceId, pin: input.pin });
+
+  await saveCredential(input.user.uid, secret, input.pin);
+  await SecureStore.deleteItemAsync(failuresKey(input.user.uid));
+  const list = (await loadDeviceUsers()).filter((u) => u.uid !== input.user.uid);
+  await saveDeviceUsers([...list, input.user].sort((a, b) => a.name.localeCompare(b.name)));
+}
+
+/** Forgets a person on this device; the server registration goes too when it's the signed-in person. */
+export async function forgetDeviceUser(uid: string) {
+  if (auth.currentUser?.uid === uid) {
+    await removeQuickUnlock({ deviceId: await getDeviceId() }).catch(() => {});
+  }
+  await dropLocalCredential(uid);
+}
+
+export async function hasDevicePin(uid: string) {
+  return !!(await loadCredential(uid));
+}
+
+/**
+ * Offline check for the person already signed in (unlocking doesn't change who is signed in). After
+ * MAX_PIN_FAILURES wrong PINs in a row the PIN is dropped from this device and attemptsLeft is 0.
+ */
+export async function checkDevicePin(uid: string, pin: string): Promise<PinCheck> {
+  const cred = await loadCredential(uid);
+  const failures = await loadFailures(uid);
+  if (!cred || failures >= MAX_PIN_FAILURES) {
+    await dropLocalCredential(uid);
+    return { ok: false, attemptsLeft: 0 };
+  }
+
+  const ok =
+    cred.salt && cred.pinHash ? (await hashPin(pin, cred.salt)) === cred.pinHash : !!cred.pin && cred.pin === pin;
+  if (ok) {
+    await SecureStore.deleteItemAsync(failuresKey(uid));
+    if (cred.pin) await saveCredential(uid, cred.secret, pin);
+    return { ok: true };
+  }
+
+  const attemptsLeft = MAX_PIN_FAILURES - (failures + 1);
+  if (attemptsLeft <= 0) await dropLocalCredential(uid);
+  else await SecureStore.setItemAsync(failuresKey(uid), String(failures + 1));
+  return { ok: false, attemptsLeft: Math.max(0, attemptsLeft) };
+}
+
+/**
+ * Signs in as another person who registered a PIN here. Needs a connection: the server checks the PIN and
+ * that they still have access, then hands out a custom token.
+ */
+export async function switchToDeviceUser(uid: string, pin: string) {
+  const cred = await loadCredential(uid);
+  if (!cred) throw new Error("PIN sign-in isn't set up for this person on this device.");
+
+  try {
+    const { token } = await quickUnlock({ deviceId: await getDeviceId(), uid, secret: cred.secret, pin });
+
+    // same as sign-out: the previous person's alerts shouldn't follow the tablet
+    if (auth.currentUser && auth.currentUser.uid !== uid) await unregisterPushToken(auth.currentUser.uid);
+    await signInWithCustomToken(auth, token);
+  } catch (e: any) {
+    // registration gone or access revoked -> no point offering them here any more
+    const code = String(e?.code || "");
+    if (code.endsWith("not-found") || (code.endsWith("permission-denied") && !/Wrong PIN/.test(e?.message))) {
+      await dropLocalCredential(uid).catch(() => {});
+    }
+    throw e;
+  }
+}
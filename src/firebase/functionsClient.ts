@@ -3,15 +3,329 @@ import { app } from "../../src/firebase/firebaseConfig"; // make sure you export
 
 const functions = getFunctions(app);
 
+export type StaffRole = "manager" | "staff";
+
 export type CreateStaffInput = {
+  orgId: string;
   name: string;
   email: string;
   password: string;
-  defaultBranchId?: string | null;
+  role: StaffRole;
+  branchIds?: string[]; // branches they may work in (none = no access until assigned)
 };
 
+// Creates a login owned by the org (admins only)
 export async function createStaff(input: CreateStaffInput) {
   const fn = httpsCallable(functions, "createStaff");
   const res = await fn(input);
   return res.data as { ok: boolean; uid: string };
-}
\ No newline at end of file
+}
+
+export type UpdateStaffInput = {
+  orgId: string;
+  uid: string;
+  // only the fields being changed
+  name?: string;
+  role?: StaffRole;
+  branchIds?: string[];
+};
+
+export async function updateStaff(input: UpdateStaffInput) {
+  const fn = httpsCallable(functions, "updateStaff");
+  const res = await fn(input);
+  return res.data as { ok: boolean };
+}
+
+// Disables / re-enables the login (org-created accounts only)
+export async function setStaffActive(input: { orgId: string; uid: string; active: boolean }) {
+  const fn = httpsCallable(functions, "setStaffActive");
+  const res = await fn(input);
+  return res.data as { ok: boolean; active: boolean };
+}
+
+export async function resetStaffPassword(input: { orgId: string; uid: string; password: string }) {
+  const fn = httpsCallable(functions, "resetStaffPassword");
+  const res = await fn(input);
+  return res.data as { ok: boolean };
+}
+
+// Removes the member; the login is deleted too when the org created it and no other org uses it
+export async function deleteStaff(input: { orgId: string; uid: string }) {
+  const fn = httpsCallable(functions, "deleteStaff");
+  const res = await fn(input);
+  return res.data as { ok: boolean; accountDeleted: boolean };
+}
+
+export type InviteStaffInput = Omit<CreateStaffInput, "password">;
+
+export type StaffInviteResult = {
+  ok: boolean;
+  inviteId: string;
+  link: string; // tempmonitor://accept-invite?token=...
+  expiresAt: number;
+  emailed: boolean;
+};
+
+// Creates a one-time invite link (and e-mails it) so the invitee sets their own password
+export async function inviteStaff(input: InviteStaffInput) {
+  const fn = httpsCallable(functions, "inviteStaff");
+  const res = await fn(input);
+  return res.data as StaffInviteResult;
+}
+
+export async function revokeStaffInvite(input: { orgId: string; inviteId: string }) {
+  const fn = httpsCallable(functions, "revokeStaffInvite");
+  const res = await fn(input);
+  return res.data as { ok: boolean };
+}
+
+export type StaffInvite = {
+  orgName: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+  expiresAt: number;
+};
+
+// Works signed out: the token from the link is the credential
+export async function getStaffInvite(input: { token: string }) {
+  const fn = httpsCallable(functions, "getStaffInvite");
+  const res = await fn(input);
+  return res.data as StaffInvite;
+}
+
+export async function acceptStaffInvite(input: { token: string; name: string; password: string }) {
+  const fn = httpsCallable(functions, "acceptStaffInvite");
+  const res = await fn(input);
+  return res.data as { ok: boolean; email: string };
+}
+
+// Registers the caller's PIN on this device; keep the returned secret in SecureStore
+export async function registerQuickUnlock(input: { orgId: string; deviceId: string; pin: string }) {
+  const fn = httpsCallable(functions, "registerQuickUnlock");
+  const res = await fn(input);
+  return res.data as { ok: boolean; secret: string };
+}
+
+// Works signed out: returns a custom token for signInWithCustomToken
+export async function quickUnlock(input: { deviceId: string; uid: string; secret: string; pin: string }) {
+  const fn = httpsCallable(functions, "quickUnlock");
+  const res = await fn(input);
+  return res.data as { token: string };
+}
+
+export async function removeQuickUnlock(input: { deviceId: string }) {
+  const fn = httpsCallable(functions, "removeQuickUnlock");
+  const res = await fn(input);
+  return res.data as { ok: boolean };
+}
+
+export type EnsureOrgResult = {
+  ok: boolean;
+  orgIds: string[];
+  migrated: Record<string, number> | null;
+};
+
+// Creates the caller's org on first login, or migrates legacy ownerId data into one
+export async function ensureOrg() {
+  const fn = httpsCallable(functions, "ensureOrg");
+  const res = await fn({});
+  return res.data as EnsureOrgResult;
+}
+
+export type AddOrgMemberInput = {
+  orgId: string;
+  email: string;
+  role: "admin" | "manager" | "staff";
+  branchIds?: string[];
+};
+
+export async function addOrgMember(input: AddOrgMemberInput) {
+  const fn = httpsCallable(functions, "addOrgMember");
+  const res = await fn(input);
+  return res.data as { ok: boolean; uid: string };
+}
+
+export type SubmitReadingInput = {
+  logId: string; // client id; a retried call with the same id is a no-op
+  chillerId: string;
+  tempC: number;
+  humidity: number | null;
+  status: "ok" | "warning" | "damaged";
+  note: string;
+  photoUrl: string | null;
+  photoPath: string | null;
+  capturedAt: number; // ms
+  recheckOf?: string | null; // reading this one re-checks (corrective action follow-up)
+};
+
+export type SubmitReadingResult = {
+  ok: boolean;
+  logId: string;
+  status: "ok" | "warning" | "damaged"; // recomputed against the chiller's limits
+  conflict: boolean; // a newer reading already is the chiller's lastReading
+  duplicate: boolean;
+};
+
+// Writes the temp log + chiller.lastReading in one server-side transaction
+export async function submitReading(input: SubmitReadingInput) {
+  const fn = httpsCallable(functions, "submitReading");
+  const res = await fn(input);
+  return res.data as SubmitReadingResult;
+}
+
+export type AmendReadingInput = {
+  logId: string;
+  reason: string;
+  // only the fields being corrected
+  tempC?: number;
+  humidity?: number | null;
+  status?: "ok" | "warning" | "damaged";
+  note?: string;
+};
+
+// Records a correction (the original log is never changed)
+export async function amendReading(input: AmendReadingInput) {
+  const fn = httpsCallable(functions, "amendReading");
+  const res = await fn(input);
+  return res.data as { ok: boolean; amendmentId: string; seq: number };
+}
+
+export type CloseCorrectiveActionInput = {
+  logId: string; // the action id is the id of the reading that opened it
+  action: string;
+  productDiscarded: boolean;
+  quantity?: string;
+};
+
+export async function closeCorrectiveAction(input: CloseCorrectiveActionInput) {
+  const fn = httpsCallable(functions, "closeCorrectiveAction");
+  const res = await fn(input);
+  return res.data as { ok: boolean };
+}
+
+export type ReportQuery = {
+  orgId: string;
+  branchId: string;
+  chillerId?: string | null;
+  from: number; // ms, inclusive
+  to: number; // ms, inclusive
+};
+
+export type ReportCursor = { at: number; id: string; field?: "capturedAt" | "createdAt" };
+
+// timestamps come back as millis
+export type ReportRow = {
+  id: string;
+  chillerId: string;
+  branchId: string;
+  tempC: number;
+  humidity: number | null;
+  status: "ok" | "warning" | "damaged";
+  note: string;
+  photoUrl: string | null;
+  photoPath: string | null;
+  createdBy: string;
+  createdAt: number | null;
+  capturedAt: number | null;
+  recheckOf: string | null;
+};
+
+export type ReportDay = {
+  chillerId: string;
+  date: string; // YYYY-MM-DD in the branch time zone
+  count: number;
+  ok: number;
+  warning: number;
+  damaged: number;
+  minC: number;
+  maxC: number;
+  avgC: number;
+};
+
+export type ReportSummary = {
+  timezone: string;
+  // "rollup" = read from dailyStats, whole days in the branch's time zone
+  source: "scan" | "rollup";
+  days: ReportDay[];
+  totals: { count: number; ok: number; warning: number; damaged: number };
+};
+
+export async function getReportPage(input: ReportQuery & { cursor?: ReportCursor | null; pageSize?: number }) {
+  const fn = httpsCallable(functions, "getReportPage");
+  const res = await fn(input);
+  return res.data as { rows: ReportRow[]; nextCursor: ReportCursor | null };
+}
+
+export async function getReportSummary(input: ReportQuery) {
+  const fn = httpsCallable(functions, "getReportSummary");
+  const res = await fn(input);
+  return res.data as ReportSummary;
+}
+
+export type ReportPreset = "daily" | "weekly" | "monthly";
+
+export type SaveReportSubscriptionInput = {
+  id?: string | null; // omit to create
+  orgId: string;
+  branchId: string;
+  name: string;
+  preset: ReportPreset; // previous day / Mon–Sun week / calendar month
+  format: "csv" | "pdf";
+  recipients: string[];
+  active: boolean;
+};
+
+// Reports are e-mailed by sendScheduledReports once each period has closed
+export async function saveReportSubscription(input: SaveReportSubscriptionInput) {
+  const fn = httpsCallable(functions, "saveReportSubscription");
+  const res = await fn(input);
+  return res.data as { ok: boolean; id: string };
+}
+
+export async function deleteReportSubscription(input: { orgId: string; id: string }) {
+  const fn = httpsCallable(functions, "deleteReportSubscription");
+  const res = await fn(input);
+  return res.data as { ok: boolean };
+}
+
+export type SignReportExportInput = ReportQuery & {
+  status?: "ok" | "warning" | "damaged" | null; // null = every status
+  format: "pdf" | "haccp";
+};
+
+export type SignedExport = {
+  code: string; // "ABCD-EFGH-JKMN", printed on the PDF
+  hash: string; // SHA-256 (hex) of the readings the export covers
+  rowCount: number;
+};
+
+// Hashes the export's readings server-side and stores the record the code points to
+export async function signReportExport(input: SignReportExportInput) {
+  const fn = httpsCallable(functions, "signReportExport");
+  const res = await fn(input);
+  return res.data as SignedExport;
+}
+
+export type ExportVerification = SignedExport & {
+  orgId: string;
+  branchId: string;
+  chillerId: string | null;
+  status: "ok" | "warning" | "damaged" | null;
+  from: number;
+  to: number;
+  format: "pdf" | "haccp";
+  createdBy: string;
+  createdByName: string;
+  createdAt: number | null;
+  // today's data, hashed the same way
+  currentHash: string | null;
+  currentRowCount: number | null;
+  unchanged: boolean;
+};
+
+export async function verifyReportExport(input: { code: string }) {
+  const fn = httpsCallable(functions, "verifyReportExport");
+  const res = await fn(input);
+  return res.data as ExportVerification;
+}
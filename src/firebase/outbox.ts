@@ -0,0 +1,257 @@
+// src/firebase/outbox.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system/legacy";
+import { ref, uploadBytes, getDownloadURL, getMetadata } from "firebase/storage";
+import { storage } from "./firebaseConfig";
+import { submitReading } from "./functionsClient";
+
+const STORAGE_KEY = "outbox:readings:v1";
+const CHILLER_CACHE_KEY = "outbox:chillers:v1";
+const PHOTO_DIR = "outbox/";
+
+// A single step (upload / write) that takes longer than this is treated as "offline".
+const STEP_TIMEOUT_MS = 20000;
+
+export type ReadingStatus = "ok" | "warning" | "damaged";
+
+export type PendingReading = {
+  id: string; // local id, re-used as the tempLogs doc id so replays are idempotent
+  orgId: string;
+  chillerId: string;
+  branchId: string;
+  chillerName: string;
+  tempC: number;
+  humidity: number | null;
+  status: ReadingStatus;
+  note: string;
+  createdBy: string;
+  capturedAt: number; // device time (ms) when the reading was taken
+  recheckOf?: string | null; // original log id when this is a corrective-action re-check
+
+  // photo: local copy until uploaded
+  localPhotoUri: string | null;
+  photoUrl: string | null;
+  photoPath: string | null;
+
+  // replay progress
+  logWritten: boolean;
+  attempts: number;
+  lastError: string | null;
+  blocked: boolean; // non-retryable error, needs user action
+  conflict: boolean; // a newer lastReading already existed on the chiller
+};
+
+export type NewReading = Omit<
+  PendingReading,
+  "id" | "localPhotoUri" | "photoUrl" | "photoPath" | "logWritten" | "attempts" | "lastError" | "blocked" | "conflict"
+> & { photoUri?: string | null };
+
+function newId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function withTimeout<T>(p: Promise<T>, ms = STEP_TIMEOUT_MS): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const err: any = new Error("Request timed out");
+      err.code = "deadline-exceeded";
+      reject(err);
+    }, ms);
+    p.then(
+      (v) => {
+        clearTimeout(timer);
+        resolve(v);
+      },
+      (e) => {
+        clearTimeout(timer);
+        reject(e);
+      },
+    );
+  });
+}
+
+/** Network-ish failures stay queued; anything else (rules, bad data) blocks the item. */
+export function isTransientError(e: any) {
+  const code = String(e?.code || "");
+  if (!code) return true; // fetch() failures have no code
+  return (
+    code.includes("unavailable") ||
+    code.includes("deadline-exceeded") ||
+    code.includes("network") ||
+    code.includes("retry-limit-exceeded") ||
+    code.includes("resource-exhausted") ||
+    code === "functions/internal" || // callable fetch() failures surface as "internal"
+    code.includes("storage/unknown")
+  );
+}
+
+// -------------------------
+// Persistence
+// -------------------------
+export async function loadOutbox(): Promise<PendingReading[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const list = raw ? (JSON.parse(raw) as PendingReading[]) : [];
+    if (!Array.isArray(list)) return [];
+
+    // items queued before orgs existed carry the owner's uid, which is also the migrated org id
+    return list.map((x: any) => (x.orgId ? x : { ...x, orgId: x.ownerId }));
+  } catch (e) {
+    console.log("loadOutbox error:", e);
+    return [];
+  }
+}
+
+export async function saveOutbox(items: PendingReading[]) {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+async function keepLocalPhoto(id: string, uri: string): Promise<string> {
+  const base = FileSystem.documentDirectory;
+  if (!base) return uri;
+
+  try {
+    const dir = base + PHOTO_DIR;
+    const info = await FileSystem.getInfoAsync(dir);
+    if (!info.exists) await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+    // picker uris live in the cache dir and can be purged before we get signal again
+    const dest = `${dir}${id}.jpg`;
+    await FileSystem.copyAsync({ from: uri, to: dest });
+    return dest;
+  } catch (e) {
+    console.log("keepLocalPhoto error:", e);
+    return uri;
+  }
+}
+
+export async function removeLocalPhoto(item: PendingReading) {
+  const uri = item.localPhotoUri;
+  if (!uri || !FileSystem.documentDirectory || !uri.startsWith(FileSystem.documentDirectory)) return;
+  await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+}
+
+export async function createPendingReading(input: NewReading): Promise<PendingReading> {
+  const id = newId();
+  const { photoUri, ...rest } = input;
+
+  return {
+    ...rest,
+    id,
+    localPhotoUri: photoUri ? await keepLocalPhoto(id, photoUri) : null,
+    photoUrl: null,
+    photoPath: null,
+    logWritten: false,
+    attempts: 0,
+    lastError: null,
+    blocked: false,
+    conflict: false,
+  };
+}
+
+// -------------------------
+// Chiller cache (lets the add screen open with no signal)
+// -------------------------
+export type CachedChiller = {
+  id: string;
+  orgId: string;
+  name: string;
+  branchId: string;
+  minTemp?: number | null;
+  maxTemp?: number | null;
+};
+
+async function readChillerCache(): Promise<Record<string, CachedChiller>> {
+  try {
+    const raw = await AsyncStorage.getItem(CHILLER_CACHE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function rememberChillers(list: CachedChiller[]) {
+  if (list.length === 0) return;
+  const cache = await readChillerCache();
+  for (const c of list) {
+    cache[c.id] = {
+      id: c.id,
+      orgId: c.orgId,
+      name: c.name,
+      branchId: c.branchId,
+      minTemp: c.minTemp ?? null,
+      maxTemp: c.maxTemp ?? null,
+    };
+  }
+  await AsyncStorage.setItem(CHILLER_CACHE_KEY, JSON.stringify(cache)).catch(() => {});
+}
+
+export async function getCachedChiller(id: string): Promise<CachedChiller | null> {
+  const cache = await readChillerCache();
+  const c: any = cache[id];
+  return c ? { ...c, orgId: c.orgId ?? c.ownerId } : null;
+}
+
+// -------------------------
+// Replay (photo upload -> submitReading)
+// -------------------------
+
+/**
+ * Pushes one queued reading to Firebase. Each step records its progress on the returned
+ * item so a failure halfway (e.g. signal drops after the upload) resumes where it stopped.
+ * Throws on failure; `onProgress` has already been called with whatever completed.
+ */
+export async function replayReading(
+  item: PendingReading,
+  onProgress: (next: PendingReading) => Promise<void>,
+): Promise<PendingReading> {
+  let cur = { ...item };
+
+  // 1) photo upload
+  const localPhotoUri = cur.localPhotoUri;
+  if (localPhotoUri && !cur.photoUrl) {
+    // path is saved before uploading so a retry knows an object may already be there
+    if (!cur.photoPath) {
+      cur = { ...cur, photoPath: `tempLogs/${cur.chillerId}/${cur.createdBy}/${cur.capturedAt}.jpg` };
+      await onProgress(cur);
+    }
+
+    const storageRef = ref(storage, cur.photoPath!);
+
+    // photos can't be overwritten (storage.rules), so an upload that landed before the
+    // connection dropped counts as done
+    const uploaded = await withTimeout(getMetadata(storageRef)).then(
+      () => true,
+      (e: any) => {
+        if (e?.code === "storage/object-not-found") return false;
+        throw e;
+      },
+    );
+    if (!uploaded) {
+      const blob = await withTimeout((await fetch(localPhotoUri)).blob());
+      await withTimeout(uploadBytes(storageRef, blob, { contentType: "image/jpeg" }));
+    }
+    const photoUrl = await withTimeout(getDownloadURL(storageRef));
+
+    cur = { ...cur, photoUrl };
+    await onProgress(cur);
+  }
+
+  // 2) log + lastReading in one server transaction (fixed log id => a retry never duplicates)
+  const res = await withTimeout(
+    submitReading({
+      logId: cur.id,
+      chillerId: cur.chillerId,
+      tempC: cur.tempC,
+      humidity: cur.humidity,
+      status: cur.status,
+      note: cur.note,
+      photoUrl: cur.photoUrl,
+      photoPath: cur.photoPath,
+      capturedAt: cur.capturedAt,
+      recheckOf: cur.recheckOf ?? null,
+    }),
+  );
+
+  return { ...cur, status: res.status, logWritten: true, conflict: res.conflict };
+}
@@ -0,0 +1,155 @@
+// src/firebase/push.ts
+// Device push tokens live on the user profile (users/{uid}.pushTokens); the
+// Cloud Functions read them, filtered by the categories in users/{uid}.notifyPrefs.
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import Constants from "expo-constants";
+import * as Device from "expo-device";
+import * as Notifications from "expo-notifications";
+import { arrayRemove, arrayUnion, doc, serverTimestamp, setDoc, updateDoc } from "firebase/firestore";
+import { Platform } from "react-native";
+import { db } from "./firebaseConfig";
+
+const TOKEN_KEY = "push:token:v1";
+
+export type NotifyCategory = "excursions" | "missed" | "dailySummary";
+
+export type NotifyPrefs = Record<NotifyCategory, boolean>;
+
+export const NOTIFY_CATEGORIES: { key: NotifyCategory; label: string; hint: string }[] = [
+  { key: "excursions", label: "Temperature alerts", hint: "A reading is out of range or damaged" },
+  { key: "missed", label: "Missed readings", hint: "A scheduled check was not logged in time" },
+  { key: "dailySummary", label: "Daily summary", hint: "One message a day with the day's results" },
+];
+
+export const DEFAULT_NOTIFY_PREFS: NotifyPrefs = {
+  excursions: true,
+  missed: true,
+  dailySummary: false,
+};
+
+export function normalizeNotifyPrefs(v: any): NotifyPrefs {
+  const out = { ...DEFAULT_NOTIFY_PREFS };
+  for (const c of NOTIFY_CATEGORIES) {
+    if (typeof v?.[c.key] === "boolean") out[c.key] = v[c.key];
+  }
+  return out;
+}
+
+// show pushes while the app is in the foreground too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// Android needs the channel to exist before anything is shown on it
+async function ensureNotificationPermission(): Promise<boolean> {
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync("alerts", {
+      name: "Alerts",
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/** Asks for permission and returns this device's Expo push token (null on simulators / when denied). */
+export async function getExpoPushToken(): Promise<string | null> {
+  if (Platform.OS === "web" || !Device.isDevice) return null;
+  if (!(await ensureNotificationPermission())) return null;
+
+  const projectId =
+    (Constants.expoConfig?.extra as any)?.eas?.projectId ?? (Constants as any).easConfig?.projectId;
+
+  const res = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+  return res.data || null;
+}
+
+/** Adds this device's token to the profile. Never throws: push is best effort. */
+export async function registerPushToken(uid: string): Promise<string | null> {
+  try {
+    const token = await getExpoPushToken();
+    if (!token) return null;
+
+    const previous = await AsyncStorage.getItem(TOKEN_KEY);
+
+    await updateDoc(doc(db, "users", uid), {
+      pushTokens: arrayUnion(token),
+      pushUpdatedAt: serverTimestamp(),
+    });
+
+    // the token can rotate; drop the old one so it stops receiving
+    if (previous && previous !== token) {
+      await updateDoc(doc(db, "users", uid), { pushTokens: arrayRemove(previous) }).catch(() => {});
+    }
+
+    await AsyncStorage.setItem(TOKEN_KEY, token);
+    return token;
+  } catch (e: any) {
+    console.log("registerPushToken error:", e?.code, e?.message);
+    return null;
+  }
+}
+
+/** Removes this device's token before sign-out so the next user doesn't get the previous one's alerts. */
+export async function unregisterPushToken(uid: string) {
+  try {
+    const token = await AsyncStorage.getItem(TOKEN_KEY);
+    if (!token) return;
+
+    await updateDoc(doc(db, "users", uid), { pushTokens: arrayRemove(token) });
+    await AsyncStorage.removeItem(TOKEN_KEY);
+  } catch (e: any) {
+    console.log("unregisterPushToken error:", e?.code, e?.message);
+  }
+}
+
+export async function saveNotifyPrefs(uid: string, prefs: NotifyPrefs) {
+  await setDoc(doc(db, "users", uid), { notifyPrefs: prefs, updatedAt: serverTimestamp() }, { merge: true });
+}
+
+// -------------------------
+// Local re-check reminders (SOP: re-measure an out-of-range chiller within 30 minutes)
+// -------------------------
+export const RECHECK_MINUTES = 30;
+
+const recheckId = (logId: string) => `recheck:${logId}`;
+
+/** Schedules a reminder on this device to re-check the chiller. Returns false when notifications are off. */
+export async function scheduleRecheckReminder(input: { logId: string; chillerId: string; chillerName: string }) {
+  try {
+    if (Platform.OS === "web") return false;
+    if (!(await ensureNotificationPermission())) return false;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: recheckId(input.logId),
+      content: {
+        title: `Re-check ${input.chillerName || "chiller"}`,
+        body: "Take a new reading to confirm the temperature is back in range.",
+        data: { type: "recheck", chillerId: input.chillerId, recheckFor: input.logId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds: RECHECK_MINUTES * 60,
+        channelId: "alerts",
+      },
+    });
+    return true;
+  } catch (e: any) {
+    console.log("scheduleRecheckReminder error:", e?.message);
+    return false;
+  }
+}
+
+/** Drops the pending reminder once the re-check has been taken. */
+export async function cancelRecheckReminder(logId: string) {
+  if (Platform.OS === "web") return;
+  await Notifications.cancelScheduledNotificationAsync(recheckId(logId)).catch(() => {});
+}
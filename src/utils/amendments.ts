@@ -0,0 +1,85 @@
+// src/utils/amendments.ts
+// Readings are never edited; corrections live in logAmendments (one doc per correction,
+// `values` = what is in force after it). These helpers merge them back onto the logs.
+
+export type ReadingValues = {
+  tempC: number;
+  humidity: number | null;
+  status: "ok" | "warning" | "damaged";
+  note: string;
+};
+
+export type LogAmendment = {
+  id: string;
+  logId: string;
+  seq: number;
+  previous: ReadingValues;
+  values: ReadingValues;
+  changed: (keyof ReadingValues)[];
+  reason: string;
+  amendedBy: string;
+  amendedByName: string;
+  amendedAt?: any;
+};
+
+const FIELD_LABELS: Record<keyof ReadingValues, string> = {
+  tempC: "Temp",
+  humidity: "Humidity",
+  status: "Status",
+  note: "Note",
+};
+
+function toValues(v: any): ReadingValues {
+  return {
+    tempC: Number(v?.tempC ?? 0),
+    humidity: v?.humidity ?? null,
+    status: v?.status ?? "ok",
+    note: v?.note ?? "",
+  };
+}
+
+export function normalizeAmendment(id: string, v: any): LogAmendment {
+  return {
+    id,
+    logId: v.logId ?? "",
+    seq: Number(v.seq ?? 0),
+    previous: toValues(v.previous),
+    values: toValues(v.values),
+    changed: Array.isArray(v.changed) ? v.changed : [],
+    reason: v.reason ?? "",
+    amendedBy: v.amendedBy ?? "",
+    amendedByName: v.amendedByName ?? "",
+    amendedAt: v.amendedAt,
+  };
+}
+
+/** logId -> amendments, oldest first. */
+export function groupByLog(list: LogAmendment[]) {
+  const map = new Map<string, LogAmendment[]>();
+  for (const a of list) {
+    const arr = map.get(a.logId) ?? [];
+    arr.push(a);
+    map.set(a.logId, arr);
+  }
+  for (const arr of map.values()) arr.sort((a, b) => a.seq - b.seq);
+  return map;
+}
+
+/** Values in force: the latest amendment, else the log as recorded. */
+export function effectiveValues(log: any, history?: LogAmendment[]): ReadingValues {
+  const latest = history && history.length > 0 ? history[history.length - 1] : null;
+  return latest ? latest.values : toValues(log);
+}
+
+function show(field: keyof ReadingValues, v: ReadingValues) {
+  const x = v[field];
+  if (field === "tempC") return `${x}°C`;
+  if (field === "humidity") return x == null ? "—" : `${x}%`;
+  if (field === "status") return String(x).toUpperCase();
+  return x ? `"${x}"` : "—";
+}
+
+/** "Temp 3°C → 4°C; Status OK → WARNING" */
+export function describeChanges(a: LogAmendment) {
+  return a.changed.map((f) => `${FIELD_LABELS[f]} ${show(f, a.previous)} → ${show(f, a.values)}`).join("; ");
+}
@@ -0,0 +1,145 @@
+// src/utils/analytics.ts
+// Range analytics per chiller for pharmacy-style storage: mean kinetic temperature and time spent
+// outside minTemp / maxTemp, with the temperature assumed to move in a straight line between
+// consecutive readings.
+
+// ΔH/R for the usual activation energy of 83.144 kJ/mol (USP <1079.2>), in kelvin
+const ACTIVATION_OVER_R = 10000;
+const KELVIN = 273.15;
+
+// readings further apart than this aren't joined up: the gap counts as unmonitored
+export const MAX_INTERPOLATION_MINUTES = 240;
+
+const MINUTE_MS = 60 * 1000;
+
+export type AnalyticsReading = { chillerId: string; at: number; tempC: number };
+
+export type Limits = { minTemp: number | null; maxTemp: number | null };
+
+export type Excursion = { start: number; end: number; minutes: number; side: "above" | "below" };
+
+export type ChillerAnalytics = {
+  chillerId: string;
+  readings: number;
+  mktC: number | null;
+  // minutes covered by consecutive readings close enough to interpolate
+  monitoredMinutes: number;
+  minutesAbove: number;
+  minutesBelow: number;
+  minutesOut: number;
+  excursions: number;
+  longest: Excursion | null;
+};
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+/** Mean kinetic temperature (°C) of equally weighted readings, or null without any. */
+export function meanKineticTemperature(tempsC: number[]) {
+  const temps = tempsC.filter((t) => Number.isFinite(t));
+  if (temps.length === 0) return null;
+
+  const sum = temps.reduce((acc, t) => acc + Math.exp(-ACTIVATION_OVER_R / (t + KELVIN)), 0);
+  const kelvin = ACTIVATION_OVER_R / -Math.log(sum / temps.length);
+  return round1(kelvin - KELVIN);
+}
+
+function sideOf(t: number, limits: Limits): "above" | "below" | null {
+  if (limits.maxTemp != null && t > limits.maxTemp) return "above";
+  if (limits.minTemp != null && t < limits.minTemp) return "below";
+  return null;
+}
+
+/**
+ * Out-of-range time along the interpolated temperature curve of one chiller. Each segment between
+ * two readings is split where it crosses a limit; pieces whose midpoint is outside count fully.
+ */
+export function excursionsOf(points: { at: number; tempC: number }[], limits: Limits) {
+  const sorted = points.filter((p) => Number.isFinite(p.tempC) && Number.isFinite(p.at)).sort((a, b) => a.at - b.at);
+  const bounds = [limits.minTemp, limits.maxTemp].filter((b): b is number => b != null);
+
+  const out: Excursion[] = [];
+  let monitoredMs = 0;
+  let open: Excursion | null = null;
+
+  const close = () => {
+    if (open) out.push({ ...open, minutes: round1((open.end - open.start) / MINUTE_MS) });
+    open = null;
+  };
+
+  for (let i = 1; i < sorted.length; i++) {
+    const a = sorted[i - 1];
+    const b = sorted[i];
+    const span = b.at - a.at;
+    if (span <= 0) continue;
+    if (span > MAX_INTERPOLATION_MINUTES * MINUTE_MS) {
+      close();
+      continue;
+    }
+    monitoredMs += span;
+
+    // where the straight line between the readings crosses a limit
+    const cuts = [a.at, b.at];
+    if (a.tempC !== b.tempC) {
+      bounds.forEach((limit) => {
+        const f = (limit - a.tempC) / (b.tempC - a.tempC);
+        if (f > 0 && f < 1) cuts.push(a.at + f * span);
+      });
+    }
+    cuts.sort((x, y) => x - y);
+
+    for (let j = 1; j < cuts.length; j++) {
+      const start = cuts[j - 1];
+      const end = cuts[j];
+      if (end <= start) continue;
+
+      const mid = a.tempC + ((b.tempC - a.tempC) * ((start + end) / 2 - a.at)) / span;
+      const side = sideOf(mid, limits);
+
+      if (open && (side !== open.side || open.end !== start)) close();
+      if (!side) continue;
+      if (open) open.end = end;
+      else open = { start, end, minutes: 0, side };
+    }
+  }
+  close();
+
+  return { excursions: out, monitoredMinutes: round1(monitoredMs / MINUTE_MS) };
+}
+
+/** MKT + time out of range for each chiller over the readings given (all statuses, one range). */
+export function chillerAnalytics(
+  chillers: ({ id: string } & Limits)[],
+  readings: AnalyticsReading[],
+): ChillerAnalytics[] {
+  return chillers.map((c) => {
+    const own = readings.filter((r) => r.chillerId === c.id);
+    const { excursions, monitoredMinutes } = excursionsOf(own, c);
+
+    const total = (side: "above" | "below") =>
+      round1(excursions.filter((e) => e.side === side).reduce((acc, e) => acc + e.minutes, 0));
+    const minutesAbove = total("above");
+    const minutesBelow = total("below");
+
+    return {
+      chillerId: c.id,
+      readings: own.length,
+      mktC: meanKineticTemperature(own.map((r) => r.tempC)),
+      monitoredMinutes,
+      minutesAbove,
+      minutesBelow,
+      minutesOut: round1(minutesAbove + minutesBelow),
+      excursions: excursions.length,
+      longest: excursions.reduce<Excursion | null>((best, e) => (!best || e.minutes > best.minutes ? e : best), null),
+    };
+  });
+}
+
+/** 95 -> "1 h 35 min", 12.4 -> "12 min", 0 -> "0 min". */
+export function formatMinutes(minutes: number) {
+  const m = Math.round(minutes);
+  if (m < 60) return `${m} min`;
+  const rest = m % 60;
+  return rest === 0 ? `${Math.floor(m / 60)} h` : `${Math.floor(m / 60)} h ${String(rest).padStart(2, "0")} min`;
+}
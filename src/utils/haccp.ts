@@ -0,0 +1,343 @@
+// src/utils/haccp.ts
+// Monthly HACCP temperature record sheet: one page per chiller per month, a day x check-time
+// grid (in the branch's time zone), the chiller's limits, who logged each check, corrective
+// actions for the day and a manager sign-off block.
+
+import type { LogSchedule } from "./schedule";
+
+type Status = "ok" | "warning" | "damaged";
+
+export type HaccpReading = {
+  id: string;
+  chillerId: string;
+  at: number; // ms
+  tempC: number;
+  status: Status;
+  createdBy: string;
+  amended: boolean;
+  recheckOf?: string | null;
+};
+
+export type HaccpMissed = { chillerId: string; at: number; time: string };
+
+export type HaccpChiller = {
+  id: string;
+  name: string;
+  minTemp: number | null;
+  maxTemp: number | null;
+  schedule: LogSchedule | null;
+};
+
+type Cell = { tempC: number; status: Status; time: string; initials: string; amended: boolean } | "missed" | null;
+
+type SheetDay = { date: string; day: number; cells: Cell[]; notes: string[]; inRange: boolean };
+
+export type HaccpSheet = {
+  chiller: HaccpChiller;
+  month: string; // "YYYY-MM"
+  slots: string[];
+  scheduled: boolean;
+  days: SheetDay[];
+};
+
+// without a schedule the sheet falls back to the usual paper layout: one morning, one afternoon check
+const FALLBACK_SLOTS = ["AM", "PM"];
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+/** Wall-clock date / time of an instant in `tz`. */
+export function zonedParts(ms: number, tz: string) {
+  const fmt = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const p: Record<string, string> = {};
+  fmt.formatToParts(new Date(ms)).forEach((x) => (p[x.type] = x.value));
+  const hour = Number(p.hour) % 24;
+  return {
+    date: `${p.year}-${p.month}-${p.day}`,
+    time: `${pad2(hour)}:${p.minute}`,
+    minutes: hour * 60 + Number(p.minute),
+  };
+}
+
+/** "Sam Lee" -> "SL", "sam@x.com" -> "S". */
+export function initialsOf(name: string) {
+  const words = String(name ?? "")
+    .replace(/@.*$/, "")
+    .split(/[\s._-]+/)
+    .filter(Boolean);
+  if (words.length === 0) return "?";
+  return words
+    .slice(0, 3)
+    .map((w) => w[0].toUpperCase())
+    .join("");
+}
+
+function slotMinutes(slot: string) {
+  const [h, m] = slot.split(":").map(Number);
+  return h * 60 + m;
+}
+
+// index of the check a reading answers: nearest scheduled time, or AM / PM
+function slotIndex(minutes: number, slots: string[], scheduled: boolean) {
+  if (!scheduled) return minutes < 12 * 60 ? 0 : 1;
+  let best = 0;
+  slots.forEach((s, i) => {
+    if (Math.abs(slotMinutes(s) - minutes) < Math.abs(slotMinutes(slots[best]) - minutes)) best = i;
+  });
+  return best;
+}
+
+/** "YYYY-MM" for every month touched by the range (inclusive, "YYYY-MM-DD" bounds). */
+export function monthsBetween(from: string, to: string) {
+  const out: string[] = [];
+  let [y, m] = from.split("-").map(Number);
+  const [ty, tm] = to.split("-").map(Number);
+  while (y < ty || (y === ty && m <= tm)) {
+    out.push(`${y}-${pad2(m)}`);
+    m++;
+    if (m > 12) {
+      m = 1;
+      y++;
+    }
+  }
+  return out;
+}
+
+export function buildHaccpSheets({
+  chillers,
+  readings,
+  missed,
+  from,
+  to,
+  timeZone,
+  nameOf,
+  notesFor,
+}: {
+  chillers: HaccpChiller[];
+  readings: HaccpReading[];
+  missed: HaccpMissed[];
+  from: string; // "YYYY-MM-DD"
+  to: string;
+  timeZone: string;
+  nameOf: (uid: string) => string;
+  notesFor: (r: HaccpReading, time: string) => string; // corrective action line for an excursion
+}): HaccpSheet[] {
+  const sheets: HaccpSheet[] = [];
+
+  for (const chiller of chillers) {
+    const scheduled = !!chiller.schedule;
+    const slots = chiller.schedule?.times ?? FALLBACK_SLOTS;
+    const own = readings.filter((r) => r.chillerId === chiller.id).sort((a, b) => a.at - b.at);
+    const ownMissed = missed.filter((m) => m.chillerId === chiller.id);
+
+    for (const month of monthsBetween(from, to)) {
+      const [y, m] = month.split("-").map(Number);
+      const daysInMonth = new Date(y, m, 0).getDate();
+
+      const days: SheetDay[] = [];
+      const byDate = new Map<string, SheetDay>();
+      for (let d = 1; d <= daysInMonth; d++) {
+        const date = `${month}-${pad2(d)}`;
+        const row: SheetDay = {
+          date,
+          day: d,
+          cells: slots.map(() => null),
+          notes: [],
+          inRange: date >= from && date <= to,
+        };
+        days.push(row);
+        byDate.set(date, row);
+      }
+
+      // the reading closest to a check time fills it; re-checks belong with the corrective action
+      const distance = new Map<Cell, number>();
+      for (const r of own) {
+        const p = zonedParts(r.at, timeZone);
+        const row = byDate.get(p.date);
+        if (!row || !row.inRange) continue;
+
+        if (r.status !== "ok") row.notes.push(notesFor(r, p.time));
+        if (r.recheckOf) continue;
+
+        const i = slotIndex(p.minutes, slots, scheduled);
+        const gap = scheduled ? Math.abs(slotMinutes(slots[i]) - p.minutes) : 0;
+        const cur = row.cells[i];
+        if (cur && distance.get(cur)! <= gap) continue;
+
+        const cell: Cell = {
+          tempC: r.tempC,
+          status: r.status,
+          time: p.time,
+          initials: initialsOf(nameOf(r.createdBy)),
+          amended: r.amended,
+        };
+        distance.set(cell, gap);
+        row.cells[i] = cell;
+      }
+
+      for (const mc of ownMissed) {
+        const row = byDate.get(zonedParts(mc.at, timeZone).date);
+        const i = slots.indexOf(mc.time);
+        if (row && row.inRange && i >= 0 && row.cells[i] === null) row.cells[i] = "missed";
+      }
+
+      sheets.push({ chiller, month, slots, scheduled, days });
+    }
+  }
+
+  return sheets;
+}
+
+function escapeHtml(s: string) {
+  return String(s ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+function monthTitle(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  return `${MONTHS[m - 1]} ${y}`;
+}
+
+function limitText(c: HaccpChiller) {
+  const min = c.minTemp == null ? "—" : `${c.minTemp}°C`;
+  const max = c.maxTemp == null ? "—" : `${c.maxTemp}°C`;
+  return `Min ${min} / Max ${max}`;
+}
+
+function cellHtml(cell: Cell) {
+  if (cell === null) return `<td class="cell"></td>`;
+  if (cell === "missed") return `<td class="cell missed">MISSED</td>`;
+  return `
+    <td class="cell ${cell.status}">
+      <div class="t">${cell.tempC}°${cell.amended ? "*" : ""}</div>
+      <div class="i">${escapeHtml(cell.initials)} ${escapeHtml(cell.time)}</div>
+    </td>`;
+}
+
+export function haccpHtml(
+  sheets: HaccpSheet[],
+  meta: {
+    business: string;
+    branch: string;
+    timeZone: string;
+    exporter: string;
+    now: string;
+    // signed export record (see signReportExport), printed on every sheet
+    verification?: { code: string; hash: string; rowCount: number } | null;
+    // one-line MKT / time-out-of-range summary for a chiller
+    analyticsOf?: (chillerId: string) => string;
+  },
+) {
+  const css = `
+    <style>
+      body { font-family: -apple-system, Arial, sans-serif; margin: 0; }
+      .page { padding: 14px 18px; page-break-after: always; }
+      .page:last-child { page-break-after: auto; }
+      h1 { font-size: 15px; margin: 0; }
+      .head { display: flex; justify-content: space-between; font-size: 10.5px; margin: 6px 0 8px 0; }
+      .head div { line-height: 1.45; }
+      table { width: 100%; border-collapse: collapse; }
+      th, td { border: 1px solid #999; font-size: 9px; padding: 2px 4px; }
+      th { background: #eee; }
+      td.day { width: 24px; text-align: center; font-weight: 700; }
+      td.cell { text-align: center; width: 52px; }
+      td.cell .t { font-weight: 700; font-size: 10px; }
+      td.cell .i { color: #555; font-size: 8px; }
+      td.warning { background: #fef3c7; }
+      td.damaged, td.missed { background: #ffe4e6; color: #9f1239; font-weight: 700; }
+      tr.out td { background: #f6f6f6; color: #aaa; }
+      td.notes { font-size: 8.5px; }
+      .legend { font-size: 8.5px; color: #555; margin-top: 6px; }
+      .sign { display: flex; gap: 18px; margin-top: 14px; font-size: 10px; }
+      .sign div { flex: 1; border-top: 1px solid #333; padding-top: 3px; }
+      .verify { font-size: 8.5px; color: #555; margin-top: 6px; }
+      .verify .hash { font-family: Menlo, Courier, monospace; }
+    </style>
+  `;
+
+  const v = meta.verification;
+  const verifyHtml = v
+    ? `
+        <div class="verify">
+          <b>Verification code:</b> ${escapeHtml(v.code)} • ${v.rowCount} readings signed •
+          <span class="hash">SHA-256 ${escapeHtml(v.hash)}</span> — check it under Reports → Verify.
+        </div>`
+    : "";
+
+  const pages = sheets.map((s) => {
+    const head = s.slots.map((t) => `<th>${escapeHtml(t)}</th>`).join("");
+    const rows = s.days
+      .map(
+        (d) => `
+          <tr class="${d.inRange ? "" : "out"}">
+            <td class="day">${d.day}</td>
+            ${d.cells.map(cellHtml).join("")}
+            <td class="notes">${d.notes.map(escapeHtml).join("<br/>")}</td>
+          </tr>`,
+      )
+      .join("");
+
+    return `
+      <div class="page">
+        <h1>Temperature Record — ${escapeHtml(monthTitle(s.month))}</h1>
+        <div class="head">
+          <div>
+            <b>Business:</b> ${escapeHtml(meta.business)}<br/>
+            <b>Branch:</b> ${escapeHtml(meta.branch)}<br/>
+            <b>Unit:</b> ${escapeHtml(s.chiller.name)}
+          </div>
+          <div>
+            <b>Critical limits:</b> ${escapeHtml(limitText(s.chiller))}<br/>
+            <b>Check times:</b> ${escapeHtml(s.scheduled ? s.slots.join(", ") : "No schedule (AM / PM)")}<br/>
+            <b>Time zone:</b> ${escapeHtml(meta.timeZone)}
+            ${meta.analyticsOf?.(s.chiller.id) ? `<br/><b>Analytics:</b> ${escapeHtml(meta.analyticsOf(s.chiller.id))}` : ""}
+          </div>
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Day</th>
+              ${head}
+              <th>Corrective action / re-check</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+
+        <div class="legend">
+          Each check shows the temperature, the initials of who logged it and the time taken.
+          Shaded: out of limits or missed. * corrected after entry (corrected value shown).
+          Exported by ${escapeHtml(meta.exporter)} • ${escapeHtml(meta.now)}
+        </div>
+
+        <div class="sign">
+          <div>Reviewed by (manager)</div>
+          <div>Signature</div>
+          <div>Date</div>
+        </div>
+        ${verifyHtml}
+      </div>
+    `;
+  });
+
+  return `<html><head>${css}</head><body>${pages.join("")}</body></html>`;
+}
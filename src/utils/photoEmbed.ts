@@ -0,0 +1,68 @@
+// src/utils/photoEmbed.ts
+// Downloads reading photos and turns them into data URIs so printed PDFs carry the evidence
+// inline (expo-print can't fetch authenticated Storage URLs itself). Photos are scaled down
+// first: camera originals would make the HTML too big to print on low-end phones.
+import * as FileSystem from "expo-file-system/legacy";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+
+// keeps the generated PDF printable on a phone
+export const MAX_EMBEDDED_PHOTOS = 60;
+
+// longest edge (px) of an embedded photo; big enough for the appendix page
+const MAX_EDGE = 1024;
+const JPEG_QUALITY = 0.6;
+
+// downloads in flight at once
+const CONCURRENCY = 4;
+
+export type EmbeddedPhoto = { uri: string; width: number; height: number };
+
+async function toEmbedded(url: string, i: number): Promise<EmbeddedPhoto | null> {
+  const dir = FileSystem.cacheDirectory;
+  if (!dir) return null;
+
+  const tmp = `${dir}pdf-photo-${Date.now()}-${i}`;
+  let resized: string | null = null;
+  try {
+    const res = await FileSystem.downloadAsync(url, tmp);
+    if (res.status < 200 || res.status >= 300) return null;
+
+    const original = await ImageManipulator.manipulate(tmp).renderAsync();
+    const scale = Math.min(1, MAX_EDGE / Math.max(original.width, original.height));
+    const image =
+      scale < 1
+        ? await ImageManipulator.manipulate(original)
+            .resize({ width: Math.round(original.width * scale), height: Math.round(original.height * scale) })
+            .renderAsync()
+        : original;
+
+    const out = await image.saveAsync({ format: SaveFormat.JPEG, compress: JPEG_QUALITY, base64: true });
+    resized = out.uri;
+    return out.base64 ? { uri: `data:image/jpeg;base64,${out.base64}`, width: out.width, height: out.height } : null;
+  } catch {
+    return null;
+  } finally {
+    await FileSystem.deleteAsync(tmp, { idempotent: true }).catch(() => {});
+    if (resized) await FileSystem.deleteAsync(resized, { idempotent: true }).catch(() => {});
+  }
+}
+
+/**
+ * url -> scaled-down photo, or null when the download failed. Only the first MAX_EMBEDDED_PHOTOS
+ * distinct urls are fetched; the rest are left out of the map.
+ */
+export async function loadPhotoDataUris(urls: string[]) {
+  const unique = [...new Set(urls.filter(Boolean))].slice(0, MAX_EMBEDDED_PHOTOS);
+  const out = new Map<string, EmbeddedPhoto | null>();
+
+  let next = 0;
+  const worker = async () => {
+    while (next < unique.length) {
+      const i = next++;
+      out.set(unique[i], await toEmbedded(unique[i], i));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, unique.length) }, worker));
+
+  return out;
+}
@@ -1,5 +1,7 @@
 // src/utils/qr.ts
 const QR_PREFIX = "temp-monitor://chiller/";
+// printed on signed report PDFs
+const VERIFY_PREFIX = "temp-monitor://verify/";
 
 export function buildChillerQrValue(chillerId: string) {
   // Keep it simple + stable
@@ -19,4 +21,15 @@ export function parseChillerIdFromQr(value: string): string | null {
   if (/^[a-zA-Z0-9_-]{10,}$/.test(s)) return s;
 
   return null;
-}
\ No newline at end of file
+}
+
+export function buildVerifyQrValue(code: string) {
+  return `${VERIFY_PREFIX}${encodeURIComponent(code)}`;
+}
+
+/** Export verification code from a report QR, or null for any other QR. */
+export function parseVerifyCodeFromQr(value: string): string | null {
+  const s = String(value || "").trim();
+  if (!s.startsWith(VERIFY_PREFIX)) return null;
+  return decodeURIComponent(s.slice(VERIFY_PREFIX.length)).trim() || null;
+}
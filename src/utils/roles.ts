@@ -0,0 +1,53 @@
+// src/utils/roles.ts
+export type UserRole = "admin" | "manager" | "staff";
+
+export type Permission =
+  | "branches.manage" // create/edit/delete branches
+  | "chillers.manage" // create/edit/delete chillers
+  | "qr.view" // print chiller QR codes
+  | "reports.view"
+  | "reports.schedule" // e-mailed report subscriptions for their branches
+  | "settings.defaults" // change default branch / shortcuts
+  | "staff.manage";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Owner / Admin",
+  manager: "Branch Manager",
+  staff: "Staff",
+};
+
+const MATRIX: Record<UserRole, Permission[]> = {
+  admin: [
+    "branches.manage",
+    "chillers.manage",
+    "qr.view",
+    "reports.view",
+    "reports.schedule",
+    "settings.defaults",
+    "staff.manage",
+  ],
+  manager: ["chillers.manage", "qr.view", "reports.view", "reports.schedule", "settings.defaults"],
+  staff: ["reports.view"],
+};
+
+/**
+ * Org memberships always carry a role; anything unknown falls back to the least privileged one.
+ * ("owner" was used by early builds for the signup account.)
+ */
+export function normalizeRole(v: unknown): UserRole {
+  if (v === "manager" || v === "staff" || v === "admin") return v;
+  if (v === "owner") return "admin";
+  return "staff";
+}
+
+export function can(role: UserRole | null | undefined, perm: Permission) {
+  if (!role) return false;
+  return MATRIX[role].includes(perm);
+}
+
+/** `null` = no restriction (admins see every branch of the org). */
+export function canAccessBranch(branchIds: string[] | null, branchId: string | null | undefined) {
+  if (branchIds === null) return true;
+  if (!branchId) return false;
+  return branchIds.includes(branchId);
+}
@@ -0,0 +1,54 @@
+// src/utils/schedule.ts
+// Logging schedules: fixed local times ("08:00") a reading is due, plus a grace window.
+// Stored on chillers (`schedule`) and branches (`schedule` + `timezone`); a chiller without
+// its own times follows its branch.
+
+export type LogSchedule = {
+  times: string[]; // "HH:MM", 24h, branch local time
+  graceMinutes: number;
+};
+
+export const DEFAULT_GRACE_MINUTES = 60;
+
+const TIME_RE = /^([01]?\d|2[0-3])[:.]?([0-5]\d)$/;
+
+/** "8:00" / "0800" / "8.00" -> "08:00"; null when not a valid time. */
+export function parseSlotTime(raw: string): string | null {
+  const m = String(raw ?? "").trim().match(TIME_RE);
+  if (!m) return null;
+  return `${m[1].padStart(2, "0")}:${m[2]}`;
+}
+
+export function sortTimes(times: string[]) {
+  return [...new Set(times)].sort((a, b) => a.localeCompare(b));
+}
+
+export function normalizeSchedule(v: any): LogSchedule | null {
+  if (!v || !Array.isArray(v.times)) return null;
+
+  const times = sortTimes(v.times.map((t: any) => parseSlotTime(String(t))).filter(Boolean) as string[]);
+  if (times.length === 0) return null;
+
+  const grace = Number(v.graceMinutes);
+  return {
+    times,
+    graceMinutes: Number.isFinite(grace) && grace > 0 ? Math.round(grace) : DEFAULT_GRACE_MINUTES,
+  };
+}
+
+export function effectiveSchedule(chillerSchedule: any, branchSchedule: any): LogSchedule | null {
+  return normalizeSchedule(chillerSchedule) ?? normalizeSchedule(branchSchedule);
+}
+
+export function describeSchedule(s: LogSchedule | null) {
+  if (!s) return "No schedule";
+  return `${s.times.join(", ")} • ±${s.graceMinutes} min`;
+}
+
+export function deviceTimeZone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
@@ -0,0 +1,325 @@
+// src/utils/xlsx.ts
+// Minimal .xlsx writer (no libs): typed number / date / text cells, a header row that stays
+// frozen, per-row warning / damaged fills. Parts are zipped uncompressed ("stored"), which every
+// spreadsheet app opens.
+
+export type XlsxFormat = "text" | "number" | "date" | "percent";
+export type XlsxFill = "warning" | "damaged";
+
+export type XlsxColumn = { header: string; width?: number; format?: XlsxFormat };
+
+// Date cells are written as the device's wall-clock time
+export type XlsxValue = string | number | Date | null | undefined;
+
+export type XlsxRow = { cells: XlsxValue[]; fill?: XlsxFill };
+
+export type XlsxSheet = { name: string; columns: XlsxColumn[]; rows: XlsxRow[] };
+
+const FORMATS: XlsxFormat[] = ["text", "number", "date", "percent"];
+const FILLS: (XlsxFill | null)[] = [null, "warning", "damaged"];
+
+// cellXfs index: 0 = default, 1 = header, then one per format x fill
+function styleIndex(format: XlsxFormat, fill: XlsxFill | null) {
+  return 2 + FILLS.indexOf(fill) * FORMATS.length + FORMATS.indexOf(format);
+}
+
+function xmlEscape(s: string) {
+  return String(s)
+    // characters XML 1.0 doesn't allow at all
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(i: number) {
+  let n = i + 1;
+  let out = "";
+  while (n > 0) {
+    const r = (n - 1) % 26;
+    out = String.fromCharCode(65 + r) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+}
+
+// Excel serial day number for the local wall-clock time of `d`
+function excelDate(d: Date) {
+  const local = d.getTime() - d.getTimezoneOffset() * 60000;
+  return local / 86400000 + 25569;
+}
+
+/** Excel sheet names: max 31 chars, no []:*?/\ and unique (case-insensitive). */
+export function sheetNames(names: string[]) {
+  const used = new Set<string>();
+  return names.map((raw) => {
+    const base = (String(raw).replace(/[[\]:*?/\\]/g, " ").trim() || "Sheet").slice(0, 31);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function cellXml(ref: string, v: XlsxValue, format: XlsxFormat, fill: XlsxFill | null) {
+  const s = styleIndex(format, fill);
+  if (v === null || v === undefined || v === "") return fill ? `<c r="${ref}" s="${s}"/>` : "";
+  if (v instanceof Date) {
+    return Number.isNaN(v.getTime()) ? "" : `<c r="${ref}" s="${s}"><v>${excelDate(v)}</v></c>`;
+  }
+  if (typeof v === "number") {
+    return Number.isFinite(v) ? `<c r="${ref}" s="${s}"><v>${v}</v></c>` : "";
+  }
+  return `<c r="${ref}" s="${s}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(v)}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet) {
+  const cols = sheet.columns
+    .map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? 14}" customWidth="1"/>`)
+    .join("");
+
+  const header = sheet.columns
+    .map(
+      (c, i) =>
+        `<c r="${columnName(i)}1" s="1" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(c.header)}</t></is></c>`,
+    )
+    .join("");
+
+  const rows = sheet.rows
+    .map((row, r) => {
+      const n = r + 2;
+      const cells = sheet.columns
+        .map((c, i) => cellXml(`${columnName(i)}${n}`, row.cells[i], c.format ?? "text", row.fill ?? null))
+        .join("");
+      return `<row r="${n}">${cells}</row>`;
+    })
+    .join("");
+
+  const last = `${columnName(Math.max(0, sheet.columns.length - 1))}${sheet.rows.length + 1}`;
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0">` +
+    `<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>` +
+    `</sheetView></sheetViews>` +
+    `<cols>${cols}</cols>` +
+    `<sheetData><row r="1">${header}</row>${rows}</sheetData>` +
+    `<autoFilter ref="A1:${last}"/>` +
+    `</worksheet>`
+  );
+}
+
+function stylesXml() {
+  const numFmt: Record<XlsxFormat, number> = { text: 0, number: 165, date: 164, percent: 166 };
+  const fillId: Record<string, number> = { none: 0, warning: 3, damaged: 4 };
+
+  const xfs = [
+    `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>`,
+    `<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>`,
+  ];
+  FILLS.forEach((fill) =>
+    FORMATS.forEach((f) => {
+      const fid = fillId[fill ?? "none"];
+      xfs.push(
+        `<xf numFmtId="${numFmt[f]}" fontId="0" fillId="${fid}" borderId="0" xfId="0"` +
+          `${numFmt[f] ? ' applyNumberFormat="1"' : ""}${fid ? ' applyFill="1"' : ""}/>`,
+      );
+    }),
+  );
+
+  const solid = (rgb: string) =>
+    `<fill><patternFill patternType="solid"><fgColor rgb="${rgb}"/><bgColor indexed="64"/></patternFill></fill>`;
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<numFmts count="3">` +
+    `<numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/>` +
+    `<numFmt numFmtId="165" formatCode="0.0"/>` +
+    `<numFmt numFmtId="166" formatCode="0.0%"/>` +
+    `</numFmts>` +
+    `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>` +
+    `<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+    `<fills count="5"><fill><patternFill patternType="none"/></fill>` +
+    `<fill><patternFill patternType="gray125"/></fill>` +
+    solid("FFE2E8F0") +
+    solid("FFFEF3C7") +
+    solid("FFFFE4E6") +
+    `</fills>` +
+    `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+    `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+    `<cellXfs count="${xfs.length}">${xfs.join("")}</cellXfs>` +
+    `</styleSheet>`
+  );
+}
+
+function workbookParts(sheets: XlsxSheet[]): [string, string][] {
+  const names = sheetNames(sheets.map((s) => s.name));
+
+  const contentTypes =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+    `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+    sheets
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+      )
+      .join("") +
+    `</Types>`;
+
+  const rootRels =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+    `</Relationships>`;
+
+  const workbook =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ` +
+    `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+    names.map((n, i) => `<sheet name="${xmlEscape(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+    `</sheets>` +
+    // autoFilter ranges need their hidden defined names or Excel "repairs" the file
+    `<definedNames>` +
+    sheets
+      .map((s, i) => {
+        const last = `$${columnName(Math.max(0, s.columns.length - 1))}$${s.rows.length + 1}`;
+        const ref = `'${names[i].replace(/'/g, "''")}'!$A$1:${last}`;
+        return `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">${xmlEscape(ref)}</definedName>`;
+      })
+      .join("") +
+    `</definedNames></workbook>`;
+
+  const workbookRels =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    sheets
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+      )
+      .join("") +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    `</Relationships>`;
+
+  return [
+    ["[Content_Types].xml", contentTypes],
+    ["_rels/.rels", rootRels],
+    ["xl/workbook.xml", workbook],
+    ["xl/_rels/workbook.xml.rels", workbookRels],
+    ["xl/styles.xml", stylesXml()],
+    ...sheets.map((s, i) => [`xl/worksheets/sheet${i + 1}.xml`, sheetXml(s)] as [string, string]),
+  ];
+}
+
+// ---------------- zip (stored, no compression) ----------------
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function utf8(s: string) {
+  return new TextEncoder().encode(s);
+}
+
+function zip(files: [string, string][]) {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, text] of files) {
+    const nameBytes = utf8(name);
+    const data = utf8(text);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // utf-8 names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    entry.set(nameBytes, 46);
+
+    chunks.push(local, data);
+    central.push(entry);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = central.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const all = [...chunks, ...central, end];
+  const out = new Uint8Array(all.reduce((n, c) => n + c.length, 0));
+  let at = 0;
+  for (const c of all) {
+    out.set(c, at);
+    at += c.length;
+  }
+  return out;
+}
+
+const B64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function toBase64(bytes: Uint8Array) {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    out += B64[a >> 2] + B64[((a & 3) << 4) | (b >> 4)];
+    out += i + 1 < bytes.length ? B64[((b & 15) << 2) | (c >> 6)] : "=";
+    out += i + 2 < bytes.length ? B64[c & 63] : "=";
+  }
+  return out;
+}
+
+/** The workbook as base64, ready for writeAsStringAsync(..., { encoding: "base64" }). */
+export function buildXlsxBase64(sheets: XlsxSheet[]) {
+  return toBase64(zip(workbookParts(sheets)));
+}